@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "AnnotationType" AS ENUM ('COMMENT', 'RECTANGLE', 'ARROW', 'TEXT');
+
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "type" "AnnotationType" NOT NULL DEFAULT 'COMMENT',
+ADD COLUMN     "strokeColor" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "assets" ADD COLUMN     "pageCount" INTEGER;
+
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "pageNumber" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "annotations_assetId_pageNumber_idx" ON "annotations"("assetId", "pageNumber");
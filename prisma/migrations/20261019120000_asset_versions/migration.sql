@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "originVersionId" TEXT,
+ADD COLUMN     "versionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "asset_versions" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "pageCount" INTEGER,
+    "notes" TEXT,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "asset_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "asset_versions_assetId_versionNumber_key" ON "asset_versions"("assetId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "annotations_versionId_idx" ON "annotations"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "asset_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_originVersionId_fkey" FOREIGN KEY ("originVersionId") REFERENCES "asset_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_versions" ADD CONSTRAINT "asset_versions_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "asset_versions" ADD CONSTRAINT "asset_versions_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing uploaded assets become version 1, with their annotations attached
+INSERT INTO "asset_versions" ("id", "assetId", "versionNumber", "url", "pageCount", "createdAt")
+SELECT 'v1_' || "id", "id", 1, "url", "pageCount", "createdAt"
+FROM "assets"
+WHERE "type" IN ('IMAGE', 'PDF');
+
+UPDATE "annotations"
+SET "versionId" = 'v1_' || "assetId", "originVersionId" = 'v1_' || "assetId"
+WHERE "assetId" IN (SELECT "id" FROM "assets" WHERE "type" IN ('IMAGE', 'PDF'));
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "EmailDeliveryStatus" AS ENUM ('SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "email_deliveries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "to" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "textBody" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "status" "EmailDeliveryStatus" NOT NULL,
+    "messageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_deliveries_userId_createdAt_idx" ON "email_deliveries"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "email_deliveries" ADD CONSTRAINT "email_deliveries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'NEW_ANNOTATION';
+
+-- CreateEnum
+CREATE TYPE "NotificationFrequency" AS ENUM ('INSTANT', 'HOURLY', 'DAILY', 'WEEKLY', 'OFF');
+
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedById" TEXT;
+
+-- Backfill: the best record of when existing resolved annotations were resolved
+UPDATE "annotations" SET "resolvedAt" = "updatedAt" WHERE "status" = 'RESOLVED';
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "mention" "NotificationFrequency" NOT NULL,
+    "reply" "NotificationFrequency" NOT NULL,
+    "newAnnotation" "NotificationFrequency" NOT NULL,
+    "resolved" "NotificationFrequency" NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_digests" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "frequency" "NotificationFrequency" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_digests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "annotations_resolvedAt_idx" ON "annotations"("resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_projectId_key" ON "notification_preferences"("userId", "projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_digests_userId_frequency_periodEnd_key" ON "notification_digests"("userId", "frequency", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_digests" ADD CONSTRAINT "notification_digests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "stripeCustomerId" TEXT,
+    "stripeSubscriptionId" TEXT,
+    "stripePriceId" TEXT,
+    "stripeCurrentPeriodEnd" TIMESTAMP(3),
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing user gets a personal workspace that takes over
+-- their subscription and the projects they own
+INSERT INTO "organizations" ("id", "name", "updatedAt", "stripeCustomerId", "stripeSubscriptionId", "stripePriceId", "stripeCurrentPeriodEnd")
+SELECT 'org_' || "id",
+       COALESCE(NULLIF("name", ''), split_part("email", '@', 1)) || '''s workspace',
+       CURRENT_TIMESTAMP,
+       "stripeCustomerId",
+       "stripeSubscriptionId",
+       "stripePriceId",
+       "stripeCurrentPeriodEnd"
+FROM "users";
+
+INSERT INTO "organization_members" ("id", "organizationId", "userId", "role")
+SELECT 'orgm_' || "id", 'org_' || "id", "id", 'OWNER'
+FROM "users";
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "organizationId" TEXT;
+
+UPDATE "projects" SET "organizationId" = 'org_' || "ownerId";
+
+ALTER TABLE "projects" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "currentOrganizationId" TEXT;
+
+UPDATE "users" SET "currentOrganizationId" = 'org_' || "id";
+
+ALTER TABLE "users" DROP COLUMN "stripeCurrentPeriodEnd",
+DROP COLUMN "stripeCustomerId",
+DROP COLUMN "stripePriceId",
+DROP COLUMN "stripeSubscriptionId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_stripeCustomerId_key" ON "organizations"("stripeCustomerId");
+
+-- CreateIndex
+CREATE INDEX "organization_members_userId_idx" ON "organization_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organizationId_userId_key" ON "organization_members"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "projects_organizationId_idx" ON "projects"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_currentOrganizationId_fkey" FOREIGN KEY ("currentOrganizationId") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "ShareLinkScope" AS ENUM ('PROJECT', 'ASSETS');
+
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "scope" "ShareLinkScope" NOT NULL DEFAULT 'PROJECT',
+    "canComment" BOOLEAN NOT NULL DEFAULT true,
+    "canReply" BOOLEAN NOT NULL DEFAULT true,
+    "canUpload" BOOLEAN NOT NULL DEFAULT false,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "commentCount" INTEGER NOT NULL DEFAULT 0,
+    "replyCount" INTEGER NOT NULL DEFAULT 0,
+    "uploadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "share_link_assets" (
+    "shareLinkId" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+
+    CONSTRAINT "share_link_assets_pkey" PRIMARY KEY ("shareLinkId","assetId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_key" ON "share_links"("token");
+
+-- CreateIndex
+CREATE INDEX "share_links_projectId_idx" ON "share_links"("projectId");
+
+-- CreateIndex
+CREATE INDEX "share_link_assets_assetId_idx" ON "share_link_assets"("assetId");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_link_assets" ADD CONSTRAINT "share_link_assets_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_link_assets" ADD CONSTRAINT "share_link_assets_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing project tokens become a share link each, keeping their old access.
+-- They were generated with Math.random, so they expire in 30 days.
+INSERT INTO "share_links" ("id", "projectId", "name", "token", "canUpload", "expiresAt", "createdById", "updatedAt")
+SELECT 'shl_' || "id", "id", 'Guest link', "shareToken", true, CURRENT_TIMESTAMP + INTERVAL '30 days', "ownerId", CURRENT_TIMESTAMP
+FROM "projects"
+WHERE "guestAccessEnabled" = true AND "shareToken" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "projects_shareToken_key";
+
+-- AlterTable
+ALTER TABLE "projects" DROP COLUMN "guestAccessEnabled",
+DROP COLUMN "shareToken";
@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "assets_url_idx" ON "assets" USING HASH ("url");
+
+-- CreateIndex
+CREATE INDEX "asset_versions_url_idx" ON "asset_versions" USING HASH ("url");
+
+-- CreateIndex
+CREATE INDEX "annotations_screenshot_idx" ON "annotations" USING HASH ("screenshot");
+
+-- CreateIndex
+CREATE INDEX "attachments_url_idx" ON "attachments" USING HASH ("url");
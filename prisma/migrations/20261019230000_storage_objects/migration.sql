@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "storage_objects" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "legacyUrl" TEXT,
+    "projectId" TEXT,
+    "checkedAt" TIMESTAMP(3),
+    "orphanedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "storage_objects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "storage_objects_key_key" ON "storage_objects"("key");
+
+-- CreateIndex
+CREATE INDEX "storage_objects_projectId_idx" ON "storage_objects"("projectId");
+
+-- CreateIndex
+CREATE INDEX "storage_objects_checkedAt_idx" ON "storage_objects"("checkedAt");
+
+-- AddForeignKey
+ALTER TABLE "storage_objects" ADD CONSTRAINT "storage_objects_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ScreenshotJobStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "screenshot_jobs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "viewport" JSONB,
+    "selector" TEXT,
+    "fullPage" BOOLEAN NOT NULL DEFAULT false,
+    "status" "ScreenshotJobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "error" TEXT,
+    "resultUrl" TEXT,
+    "resultKey" TEXT,
+    "resultSize" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "screenshot_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "screenshot_jobs_status_nextAttemptAt_idx" ON "screenshot_jobs"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "screenshot_jobs_userId_createdAt_idx" ON "screenshot_jobs"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "screenshot_jobs" ADD CONSTRAINT "screenshot_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "screenshot_jobs" ADD CONSTRAINT "screenshot_jobs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ScreenshotKind" AS ENUM ('VIEWPORT', 'FULL_PAGE', 'ELEMENT');
+
+-- AlterTable
+ALTER TABLE "screenshot_jobs" ADD COLUMN "pin" JSONB;
+
+-- CreateTable
+CREATE TABLE "annotation_screenshots" (
+    "id" TEXT NOT NULL,
+    "annotationId" TEXT NOT NULL,
+    "kind" "ScreenshotKind" NOT NULL,
+    "url" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "annotation_screenshots_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: each existing annotation's one screenshot becomes its viewport screenshot
+INSERT INTO "annotation_screenshots" ("id", "annotationId", "kind", "url", "createdAt")
+SELECT 'ss_' || "id", "id", 'VIEWPORT', "screenshot", "createdAt"
+FROM "annotations";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "annotation_screenshots_annotationId_kind_key" ON "annotation_screenshots"("annotationId", "kind");
+
+-- CreateIndex
+CREATE INDEX "annotation_screenshots_url_idx" ON "annotation_screenshots" USING HASH ("url");
+
+-- AddForeignKey
+ALTER TABLE "annotation_screenshots" ADD CONSTRAINT "annotation_screenshots_annotationId_fkey" FOREIGN KEY ("annotationId") REFERENCES "annotations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
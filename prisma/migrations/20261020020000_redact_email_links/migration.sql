@@ -0,0 +1,4 @@
+-- Links in these emails carry bearer tokens, which aren't kept in the delivery log
+UPDATE "email_deliveries"
+SET "textBody" = regexp_replace("textBody", 'https?://[^\s<>"'']+', '[link removed]', 'gi')
+WHERE "template" IN ('password-reset', 'verify-email', 'invitation');
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+
+/**
+ * Bundle the embeddable feedback widget into public/widget so /api/widget
+ * can serve it to client sites, along with the bridge the site proxy loads
+ * into the pages it serves.
+ */
+
+import path from 'path'
+import { fileURLToPath } from 'url'
+import * as esbuild from 'esbuild'
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+
+const bundles = {
+  'src/widget/index.ts': 'public/widget/pixelpin-widget.js',
+  'src/widget/bridge.ts': 'public/widget/pixelpin-bridge.js'
+}
+
+try {
+  for (const [entry, outfile] of Object.entries(bundles)) {
+    await esbuild.build({
+      entryPoints: [path.join(root, entry)],
+      outfile: path.join(root, outfile),
+      bundle: true,
+      minify: true,
+      format: 'iife',
+      target: ['es2017'],
+      alias: { '@': path.join(root, 'src') },
+      define: { 'process.env.NODE_ENV': '"production"' },
+      logLevel: 'info'
+    })
+  }
+} catch {
+  process.exit(1)
+}
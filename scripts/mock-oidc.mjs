@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal OpenID Connect provider for trying the generic OIDC sign-in locally.
+ * The authorize page asks for the identity to sign in as, including whether
+ * the email counts as verified, so account linking can be exercised.
+ *
+ *   node scripts/mock-oidc.mjs            # listens on http://localhost:9090
+ *
+ * and in .env.local:
+ *
+ *   AUTH_OIDC_ISSUER=http://localhost:9090
+ *   AUTH_OIDC_ID=pixelpin
+ *   AUTH_OIDC_SECRET=secret
+ *   AUTH_OIDC_NAME="Mock IdP"
+ *
+ * Codes and tokens live in memory. Never point a real deployment at it.
+ */
+
+import crypto from 'crypto'
+import http from 'http'
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 9090
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'mock', use: 'sig', alg: 'RS256' }
+
+// code -> claims, access token -> claims
+const codes = new Map()
+const accessTokens = new Map()
+
+function base64url(value) {
+  return Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url')
+}
+
+function signIdToken(claims) {
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid: 'mock' })
+  const payload = base64url(claims)
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url')
+  return `${header}.${payload}.${signature}`
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
+
+async function readForm(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return new URLSearchParams(body)
+}
+
+function renderAuthorizePage(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`)
+    .join('')
+
+  return `<!doctype html>
+<title>Mock IdP</title>
+<form method="post" action="/authorize" style="font-family: sans-serif; max-width: 320px; margin: 60px auto; display: grid; gap: 8px">
+  <h1 style="font-size: 18px">Sign in to the mock IdP</h1>
+  ${hidden}
+  <label>Subject <input name="sub" value="mock-user-1" required></label>
+  <label>Name <input name="name" value="Mock User"></label>
+  <label>Email <input name="email" type="email" value="mock@example.com" required></label>
+  <label><input name="email_verified" type="checkbox" checked> Email verified</label>
+  <button type="submit">Continue</button>
+</form>`
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, issuer)
+
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        code_challenge_methods_supported: ['S256'],
+      })
+    }
+
+    if (url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [jwk] })
+    }
+
+    if (url.pathname === '/authorize' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      return res.end(renderAuthorizePage(url.searchParams))
+    }
+
+    if (url.pathname === '/authorize' && req.method === 'POST') {
+      const form = await readForm(req)
+      const code = crypto.randomBytes(16).toString('base64url')
+      codes.set(code, {
+        clientId: form.get('client_id'),
+        nonce: form.get('nonce') || undefined,
+        claims: {
+          sub: form.get('sub'),
+          name: form.get('name') || undefined,
+          email: form.get('email'),
+          email_verified: form.get('email_verified') === 'on',
+        },
+      })
+
+      const redirect = new URL(form.get('redirect_uri'))
+      redirect.searchParams.set('code', code)
+      if (form.get('state')) redirect.searchParams.set('state', form.get('state'))
+      redirect.searchParams.set('iss', issuer)
+      res.writeHead(302, { Location: redirect.toString() })
+      return res.end()
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const form = await readForm(req)
+      const grant = codes.get(form.get('code'))
+      if (!grant) return sendJson(res, 400, { error: 'invalid_grant' })
+      codes.delete(form.get('code'))
+
+      const now = Math.floor(Date.now() / 1000)
+      const accessToken = crypto.randomBytes(24).toString('base64url')
+      accessTokens.set(accessToken, grant.claims)
+
+      return sendJson(res, 200, {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: 3600,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: grant.clientId,
+          iat: now,
+          exp: now + 3600,
+          nonce: grant.nonce,
+          ...grant.claims,
+        }),
+      })
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = req.headers.authorization?.replace(/^Bearer /, '')
+      const claims = token && accessTokens.get(token)
+      return claims ? sendJson(res, 200, claims) : sendJson(res, 401, { error: 'invalid_token' })
+    }
+
+    sendJson(res, 404, { error: 'not_found' })
+  } catch (error) {
+    console.error('Mock IdP error:', error)
+    sendJson(res, 500, { error: 'server_error' })
+  }
+})
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider listening on ${issuer}`)
+})
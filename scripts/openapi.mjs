@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Write the OpenAPI document to openapi.json, or with --check, fail when the
+ * committed document, the schemas and the routes disagree:
+ *
+ *   - openapi.json must match what the schemas generate now
+ *   - every documented operation's route file must export its method, and parse
+ *     its input with the documented schema imported from @/lib/api-schemas
+ *     instead of declaring its own
+ *   - every method exported by a documented route file, and by any route under
+ *     /api/v1, must be documented
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { createRequire } from 'module'
+import { fileURLToPath } from 'url'
+import * as esbuild from 'esbuild'
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+const documentPath = path.join(root, 'openapi.json')
+// Inside node_modules so the bundle resolves the packages it leaves external
+const bundlePath = path.join(root, 'node_modules/.cache/openapi/openapi.cjs')
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+async function loadGenerator() {
+  await esbuild.build({
+    entryPoints: [path.join(root, 'src/lib/openapi.ts')],
+    outfile: bundlePath,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    packages: 'external',
+    alias: { '@': path.join(root, 'src') },
+    logLevel: 'warning'
+  })
+  return createRequire(import.meta.url)(bundlePath)
+}
+
+function listRouteFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return listRouteFiles(entryPath)
+    return entry.name === 'route.ts' ? [path.relative(root, entryPath)] : []
+  })
+}
+
+function exportedMethods(source) {
+  return HTTP_METHODS.filter(method =>
+    new RegExp(`export\\s+(async\\s+function|function|const)\\s+${method}\\b`).test(source)
+  )
+}
+
+function importsFromApiSchemas(source) {
+  const names = new Set()
+  for (const [, list] of source.matchAll(/import\s*\{([^}]*)\}\s*from\s*['"]@\/lib\/api-schemas['"]/g)) {
+    for (const name of list.split(',')) {
+      if (name.trim()) names.add(name.trim().split(/\s+as\s+/)[0])
+    }
+  }
+  return names
+}
+
+function checkRoutes(operations) {
+  const problems = []
+  const documented = new Map()
+
+  for (const operation of operations) {
+    const label = `${operation.method} ${operation.path}`
+    const file = path.join(root, operation.routeFile)
+    if (!fs.existsSync(file)) {
+      problems.push(`${label}: ${operation.routeFile} does not exist`)
+      continue
+    }
+
+    const source = fs.readFileSync(file, 'utf8')
+    documented.set(operation.routeFile, (documented.get(operation.routeFile) ?? new Set()).add(operation.method))
+
+    if (!exportedMethods(source).includes(operation.method)) {
+      problems.push(`${label}: ${operation.routeFile} does not export ${operation.method}`)
+    }
+
+    const imported = importsFromApiSchemas(source)
+    for (const name of operation.validates) {
+      if (!name) {
+        problems.push(`${label}: its request schema is not exported from src/lib/api-schemas.ts`)
+      } else if (!imported.has(name) || !new RegExp(`\\b${name}\\.(safeParse|parse)(Async)?\\(`).test(source)) {
+        problems.push(`${label}: ${operation.routeFile} does not validate with ${name} from @/lib/api-schemas`)
+      }
+    }
+
+    if (operation.paginated && !source.includes('parsePagination(')) {
+      problems.push(`${label}: documented as paginated, but ${operation.routeFile} does not call parsePagination`)
+    }
+    if (operation.idempotent && !source.includes('idempotent(')) {
+      problems.push(`${label}: documented as idempotent, but ${operation.routeFile} does not use idempotent()`)
+    }
+  }
+
+  for (const routeFile of documented.keys()) {
+    const source = fs.readFileSync(path.join(root, routeFile), 'utf8')
+    if (/=\s*z\s*\.\s*(object|looseObject|strictObject)\(/.test(source)) {
+      problems.push(`${routeFile}: declares its own schema; move it to src/lib/api-schemas.ts and document it`)
+    }
+  }
+
+  const publicRoutes = listRouteFiles(path.join(root, 'src/app/api/v1'))
+  for (const routeFile of new Set([...documented.keys(), ...publicRoutes])) {
+    const source = fs.readFileSync(path.join(root, routeFile), 'utf8')
+    for (const method of exportedMethods(source)) {
+      if (!documented.get(routeFile)?.has(method)) {
+        problems.push(`${routeFile}: ${method} is not in the OpenAPI document (src/lib/openapi.ts)`)
+      }
+    }
+  }
+
+  return problems
+}
+
+try {
+  const { generateOpenApiDocument, listOperationSources } = await loadGenerator()
+  const document = `${JSON.stringify(generateOpenApiDocument(), null, 2)}\n`
+
+  if (!process.argv.includes('--check')) {
+    fs.writeFileSync(documentPath, document)
+    console.log(`Wrote ${path.relative(root, documentPath)}`)
+    process.exit(0)
+  }
+
+  const problems = checkRoutes(listOperationSources())
+  const committed = fs.existsSync(documentPath) ? fs.readFileSync(documentPath, 'utf8') : null
+  if (committed !== document) {
+    problems.push('openapi.json is out of date; run npm run openapi:generate and commit the result')
+  }
+
+  if (problems.length > 0) {
+    console.error(`The OpenAPI document and the routes have diverged:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    process.exit(1)
+  }
+  console.log('openapi.json matches the schemas and routes')
+} catch (error) {
+  console.error(error)
+  process.exit(1)
+}
@@ -1,6 +1,8 @@
 import { notFound } from 'next/navigation'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { authorizeAsset } from '@/lib/permissions'
+import { findWidgetShareToken } from '@/lib/share-links'
 import { ImmersiveAnnotationView } from '@/components/annotation/ImmersiveAnnotationView'
 
 interface ImmersiveAnnotationPageProps {
@@ -41,11 +43,9 @@ export default async function ImmersiveAnnotationPage({
   }
 
   // Check if user has access to this project
-  const hasAccess = 
-    asset.project.ownerId === session.user?.id ||
-    asset.project.collaborators.some(collab => collab.userId === session.user?.id)
+  const access = await authorizeAsset(session.user.id!, asset.id, 'project:view')
 
-  if (!hasAccess) {
+  if (!access.ok) {
     notFound()
   }
 
@@ -54,6 +54,8 @@ export default async function ImmersiveAnnotationPage({
     notFound()
   }
 
+  const widgetShareToken = await findWidgetShareToken(asset.projectId, asset.id)
+
   return (
     <ImmersiveAnnotationView 
       asset={asset}
@@ -64,6 +66,7 @@ export default async function ImmersiveAnnotationPage({
         email: session.user.email,
         image: session.user.image
       }}
+      widgetShareToken={widgetShareToken}
     />
   )
 }
\ No newline at end of file
@@ -1,5 +1,24 @@
 import { AuthForm } from '@/components/auth/AuthForm';
+import { getOAuthProviders } from '@/lib/auth-providers';
 
-export default function SignInPage() {
-  return <AuthForm mode="signin" />;
-}
\ No newline at end of file
+interface SignInPageProps {
+  searchParams: Promise<{
+    invite?: string;
+    email?: string;
+    error?: string;
+  }>;
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { invite, email, error } = await searchParams;
+
+  return (
+    <AuthForm
+      mode="signin"
+      inviteToken={invite}
+      defaultEmail={email}
+      oauthProviders={getOAuthProviders()}
+      oauthError={error}
+    />
+  );
+}
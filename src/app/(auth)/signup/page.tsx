@@ -1,5 +1,22 @@
 import { AuthForm } from '@/components/auth/AuthForm';
+import { getOAuthProviders } from '@/lib/auth-providers';
 
-export default function SignUpPage() {
-  return <AuthForm mode="signup" />;
-}
\ No newline at end of file
+interface SignUpPageProps {
+  searchParams: Promise<{
+    invite?: string;
+    email?: string;
+  }>;
+}
+
+export default async function SignUpPage({ searchParams }: SignUpPageProps) {
+  const { invite, email } = await searchParams;
+
+  return (
+    <AuthForm
+      mode="signup"
+      inviteToken={invite}
+      defaultEmail={email}
+      oauthProviders={getOAuthProviders()}
+    />
+  );
+}
@@ -0,0 +1,13 @@
+import { VerifyEmail } from '@/components/auth/VerifyEmail';
+
+interface VerifyEmailPageProps {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { token } = await searchParams;
+
+  return <VerifyEmail token={token} />;
+}
@@ -5,12 +5,22 @@ import { useSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { Check, Crown, Zap, Loader2, ExternalLink } from 'lucide-react'
 import { PLANS } from '@/lib/stripe'
+import { formatFileSize } from '@/lib/attachments'
 
 interface SubscriptionInfo {
   plan: 'FREE' | 'PRO'
   planDetails: typeof PLANS.FREE | typeof PLANS.PRO
+  // Plans belong to the current workspace; only its owners can change them
+  workspace: {
+    id: string
+    name: string
+  }
+  role: 'OWNER' | 'ADMIN' | 'MEMBER'
   usage: {
     projects: number
+    members: number
+    storageBytes: number
+    storageByProject: { projectId: string; name: string; bytes: number }[]
   }
   subscription: {
     stripeCustomerId: string | null
@@ -159,7 +169,7 @@ function PricingContent() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-blue-800 font-medium">
-                  Current Plan: {subscriptionInfo.plan}
+                  {subscriptionInfo.workspace.name}: {subscriptionInfo.plan} plan
                 </p>
                 <p className="text-blue-600 text-sm">
                   Projects: {subscriptionInfo.usage.projects}
@@ -167,8 +177,16 @@ function PricingContent() {
                     ` / ${subscriptionInfo.planDetails.limits.projects}`
                   }
                 </p>
+                <p className="text-blue-600 text-sm">
+                  Storage: {formatFileSize(subscriptionInfo.usage.storageBytes)}
+                  {subscriptionInfo.planDetails.limits.storageBytes > 0 &&
+                    ` / ${formatFileSize(subscriptionInfo.planDetails.limits.storageBytes)}`
+                  }
+                </p>
               </div>
-              {subscriptionInfo.plan === 'PRO' && subscriptionInfo.subscription.stripeSubscriptionId && (
+              {subscriptionInfo.role !== 'OWNER' ? (
+                <p className="text-blue-600 text-sm">Only workspace owners can change the plan</p>
+              ) : subscriptionInfo.plan === 'PRO' && subscriptionInfo.subscription.stripeSubscriptionId && (
                 <button
                   onClick={handleManageSubscription}
                   disabled={portalLoading}
@@ -261,7 +279,7 @@ function PricingContent() {
             ) : (
               <button
                 onClick={handleUpgrade}
-                disabled={upgradeLoading}
+                disabled={upgradeLoading || (subscriptionInfo !== null && subscriptionInfo.role !== 'OWNER')}
                 className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {upgradeLoading ? (
@@ -0,0 +1,113 @@
+'use client'
+
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, Loader2 } from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
+import { VersionCompare } from '@/components/assets/VersionCompare'
+import { AssetVersionSummary } from '@/lib/asset-versions'
+
+interface Asset {
+  id: string
+  name: string
+  type: 'IMAGE' | 'PDF' | 'URL'
+  url: string
+  project: {
+    id: string
+    name: string
+  }
+}
+
+export default function AssetComparePage() {
+  const params = useParams()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const projectId = params.id as string
+  const assetId = params.assetId as string
+
+  const { data: asset, isLoading: assetLoading } = useQuery({
+    queryKey: ['asset', assetId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/assets/${assetId}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch asset')
+      }
+      return response.json() as Promise<Asset>
+    },
+  })
+
+  const { data: versions = [], isLoading: versionsLoading } = useQuery({
+    queryKey: ['asset-versions', assetId],
+    queryFn: async () => {
+      const response = await fetch(`/api/assets/${assetId}/versions`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch asset versions')
+      }
+      const data = await response.json() as { versions: AssetVersionSummary[] }
+      return data.versions
+    },
+  })
+
+  // Default to the two most recent versions, previous on the left
+  const baseVersionId = searchParams.get('base') ?? versions[1]?.id
+  const targetVersionId = searchParams.get('target') ?? versions[0]?.id
+
+  const handleVersionsChange = (base: string, target: string) => {
+    router.replace(`/projects/${projectId}/assets/${assetId}/compare?base=${base}&target=${target}`)
+  }
+
+  if (assetLoading || versionsLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  if (!asset || asset.type === 'URL' || !baseVersionId || !targetVersionId) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Nothing to compare</h2>
+          <p className="text-gray-600 mb-4">Upload a new version of this asset to compare it with earlier ones.</p>
+          <button
+            onClick={() => router.push(`/projects/${projectId}/assets/${assetId}`)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back to Asset
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => router.push(`/projects/${projectId}/assets/${assetId}`)}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">{asset.name}</h1>
+            <p className="text-sm text-gray-600">{asset.project.name} · Compare versions</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-hidden">
+        <VersionCompare
+          assetType={asset.type}
+          versions={versions}
+          baseVersionId={baseVersionId}
+          targetVersionId={targetVersionId}
+          onVersionsChange={handleVersionsChange}
+        />
+      </div>
+    </div>
+  )
+}
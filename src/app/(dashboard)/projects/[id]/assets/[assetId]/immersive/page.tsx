@@ -1,6 +1,8 @@
 import { notFound } from 'next/navigation'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { projectMemberWhere } from '@/lib/permissions'
+import { findWidgetShareToken } from '@/lib/share-links'
 import { ImmersiveAnnotationView } from '@/components/annotation/ImmersiveAnnotationView'
 
 interface ImmersiveAssetPageProps {
@@ -8,10 +10,14 @@ interface ImmersiveAssetPageProps {
     id: string
     assetId: string
   }>
+  searchParams: Promise<{
+    annotation?: string
+  }>
 }
 
 export default async function ImmersiveAssetPage({
-  params
+  params,
+  searchParams
 }: ImmersiveAssetPageProps) {
   const session = await auth()
   if (!session?.user?.id) {
@@ -25,16 +31,7 @@ export default async function ImmersiveAssetPage({
     const asset = await prisma.asset.findFirst({
       where: {
         id: assetId,
-        project: {
-          OR: [
-            { ownerId: session.user.id },
-            { 
-              collaborators: {
-                some: { userId: session.user.id }
-              }
-            }
-          ]
-        }
+        project: projectMemberWhere(session.user.id)
       },
       include: {
         project: {
@@ -73,6 +70,17 @@ export default async function ImmersiveAssetPage({
       return notFound()
     }
 
+    // Open on the page of a deep-linked annotation
+    const { annotation: annotationId } = await searchParams
+    const initialAnnotation = annotationId
+      ? await prisma.annotation.findFirst({
+          where: { id: annotationId, assetId },
+          select: { id: true, pageUrl: true }
+        })
+      : null
+
+    const widgetShareToken = await findWidgetShareToken(asset.projectId, asset.id)
+
     return (
       <ImmersiveAnnotationView
         asset={asset}
@@ -84,6 +92,8 @@ export default async function ImmersiveAssetPage({
           image: session.user.image
         }}
         isGuest={false}
+        initialAnnotation={initialAnnotation}
+        widgetShareToken={widgetShareToken}
       />
     )
   } catch (error) {
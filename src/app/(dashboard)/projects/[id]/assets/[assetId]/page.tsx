@@ -1,19 +1,26 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { useSession } from 'next-auth/react'
-import { ArrowLeft, Loader2 } from 'lucide-react'
+import { ArrowLeft, GitCompare, Loader2, Upload } from 'lucide-react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import AnnotationToolbar from '@/components/annotations/AnnotationToolbar'
-import { LazyAnnotationCanvas, LazyAnnotationPanel, LazyUserPresence } from '@/components/LazyComponents'
+import { LazyAnnotationCanvas, LazyAnnotationPanel, LazyPdfPageNavigator, LazyUserPresence } from '@/components/LazyComponents'
 import { useRealtime } from '@/hooks/useRealtime'
+import { usePdfDocument } from '@/hooks/usePdfDocument'
+import { collectBrowserMetadata } from '@/lib/browser-metadata'
+import { STROKE_COLOR_PRESETS } from '@/lib/annotation-shapes'
+import { buildPdfPageUrl } from '@/lib/pdf-pages'
+import { AssetVersionSummary, formatVersionLabel } from '@/lib/asset-versions'
+import { VersionUploadModal } from '@/components/assets/VersionUploadModal'
 
 interface Asset {
   id: string
   name: string
   type: 'IMAGE' | 'PDF' | 'URL'
   url: string
+  pageCount?: number | null
   project: {
     id: string
     name: string
@@ -31,6 +38,14 @@ interface Annotation {
     width?: number
     height?: number
   }
+  strokeColor?: string | null
+  pageNumber?: number | null
+  versionId?: string | null
+  originVersionId?: string | null
+  originVersion?: {
+    id: string
+    versionNumber: number
+  } | null
   createdAt: string
   author: {
     id: string
@@ -56,6 +71,7 @@ interface Reply {
 export default function AssetViewerPage() {
   const params = useParams()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { data: session } = useSession()
   const queryClient = useQueryClient()
   
@@ -63,7 +79,11 @@ export default function AssetViewerPage() {
   const assetId = params.assetId as string
   
   const [selectedTool, setSelectedTool] = useState<'select' | 'comment' | 'rectangle' | 'arrow' | 'text'>('select')
-  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null)
+  // Notification emails link here with ?annotation=<id>
+  const linkedAnnotationId = searchParams.get('annotation')
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(linkedAnnotationId)
+  const linkedPageHandled = useRef(false)
+  const [strokeColor, setStrokeColor] = useState<string>(STROKE_COLOR_PRESETS[0])
   const [onlineUsers, setOnlineUsers] = useState<Array<{
     id: string
     user_info: {
@@ -74,6 +94,9 @@ export default function AssetViewerPage() {
     }
   }>>([])
   const [realtimeAnnotations, setRealtimeAnnotations] = useState<Annotation[]>([])
+  const [currentPage, setCurrentPage] = useState(1)
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null)
+  const [showVersionUpload, setShowVersionUpload] = useState(false)
 
   // Fetch asset details
   const { data: asset, isLoading: assetLoading, error: assetError } = useQuery({
@@ -87,11 +110,52 @@ export default function AssetViewerPage() {
     },
   })
 
-  // Fetch annotations
+  // Fetch uploaded revisions, newest first
+  const isVersioned = asset?.type === 'IMAGE' || asset?.type === 'PDF'
+  const { data: versions = [] } = useQuery({
+    queryKey: ['asset-versions', assetId],
+    queryFn: async () => {
+      const response = await fetch(`/api/assets/${assetId}/versions`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch asset versions')
+      }
+      const data = await response.json() as { versions: AssetVersionSummary[] }
+      return data.versions
+    },
+    enabled: isVersioned,
+  })
+
+  const latestVersion = versions[0]
+  const selectedVersion = versions.find(version => version.id === selectedVersionId) ?? latestVersion
+  const displayUrl = selectedVersion?.url ?? asset?.url
+
+  // PDF assets are rendered client-side page by page
+  const { pdfDocument, pageCount, error: pdfError } = usePdfDocument(
+    asset?.type === 'PDF' && displayUrl ? displayUrl : null
+  )
+
+  // Record the page count so exports and validation can use it
+  useEffect(() => {
+    if (!asset || !pageCount) return
+    const storedPageCount = selectedVersion ? selectedVersion.pageCount : asset.pageCount
+    if (storedPageCount === pageCount) return
+
+    fetch(`/api/projects/${projectId}/assets/${assetId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ pageCount, versionId: selectedVersion?.id }),
+    }).catch(error => console.error('Failed to record PDF page count:', error))
+  }, [asset, selectedVersion, pageCount, projectId, assetId])
+
+  // Fetch annotations for the version being viewed
+  const versionId = selectedVersion?.id
   const { data: annotations = [], isLoading: annotationsLoading } = useQuery({
-    queryKey: ['annotations', assetId],
+    queryKey: ['annotations', assetId, versionId],
     queryFn: async () => {
-      const response = await fetch(`/api/assets/${assetId}/annotations`)
+      const query = versionId ? `?versionId=${encodeURIComponent(versionId)}` : ''
+      const response = await fetch(`/api/assets/${assetId}/annotations${query}`)
       if (!response.ok) {
         throw new Error('Failed to fetch annotations')
       }
@@ -105,13 +169,24 @@ export default function AssetViewerPage() {
       position: { x: number; y: number; width?: number; height?: number }
       content: string
       type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+      strokeColor?: string
+      pageNumber?: number
     }) => {
+      // Image and PDF assets are their own screenshot and page context
       const response = await fetch(`/api/assets/${assetId}/annotations`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(annotationData),
+        body: JSON.stringify({
+          ...annotationData,
+          versionId,
+          screenshot: displayUrl,
+          pageUrl: displayUrl && annotationData.pageNumber
+            ? buildPdfPageUrl(displayUrl, annotationData.pageNumber)
+            : displayUrl,
+          metadata: collectBrowserMetadata(),
+        }),
       })
       
       if (!response.ok) {
@@ -202,14 +277,53 @@ export default function AssetViewerPage() {
     }
   }, [annotations])
 
+  // Show the page a deep-linked PDF annotation is on
+  useEffect(() => {
+    if (linkedPageHandled.current || !linkedAnnotationId || !pageCount) return
+    const linkedAnnotation = annotations.find(annotation => annotation.id === linkedAnnotationId)
+    if (linkedAnnotation?.pageNumber) {
+      setCurrentPage(Math.min(linkedAnnotation.pageNumber, pageCount))
+    }
+    linkedPageHandled.current = true
+  }, [annotations, linkedAnnotationId, pageCount])
+
   const handleAnnotationCreate = (annotationData: {
     position: { x: number; y: number; width?: number; height?: number }
     content: string
     type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+    strokeColor?: string
+    pageNumber?: number
   }) => {
     createAnnotationMutation.mutate(annotationData)
   }
 
+  const handlePageChange = (pageNumber: number) => {
+    setCurrentPage(Math.min(Math.max(pageNumber, 1), pageCount || 1))
+  }
+
+  const handleVersionChange = (nextVersionId: string) => {
+    setSelectedVersionId(nextVersionId)
+    setSelectedAnnotationId(null)
+    setCurrentPage(1)
+  }
+
+  const handleVersionUploaded = (result: { version: { id: string } }) => {
+    queryClient.invalidateQueries({ queryKey: ['asset-versions', assetId] })
+    queryClient.invalidateQueries({ queryKey: ['asset', assetId] })
+    handleVersionChange(result.version.id)
+  }
+
+  // Open annotations per page for the thumbnail badges
+  const pageAnnotationCounts = useMemo(() => {
+    const counts: Record<number, number> = {}
+    realtimeAnnotations.forEach(annotation => {
+      if (annotation.pageNumber && annotation.status === 'OPEN') {
+        counts[annotation.pageNumber] = (counts[annotation.pageNumber] || 0) + 1
+      }
+    })
+    return counts
+  }, [realtimeAnnotations])
+
   const handleAnnotationUpdate = (annotationId: string, updates: { status?: 'OPEN' | 'RESOLVED'; content?: string }) => {
     updateAnnotationMutation.mutate({ annotationId, updates })
   }
@@ -228,6 +342,8 @@ export default function AssetViewerPage() {
   const { getPresenceMembers } = useRealtime({
     assetId,
     onAnnotationCreated: (annotation) => {
+      // Annotations made on another version belong to a different view
+      if (versionId && annotation.versionId && annotation.versionId !== versionId) return
       setRealtimeAnnotations(prev => [annotation, ...prev])
     },
     onAnnotationUpdated: (annotation) => {
@@ -312,12 +428,50 @@ export default function AssetViewerPage() {
               <h1 className="text-xl font-semibold text-gray-900">{asset.name}</h1>
               <p className="text-sm text-gray-600">{asset.project.name}</p>
             </div>
+
+            {/* Version switcher */}
+            {isVersioned && selectedVersion && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={selectedVersion.id}
+                  onChange={(e) => handleVersionChange(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {versions.map(version => (
+                    <option key={version.id} value={version.id}>
+                      {formatVersionLabel(version.versionNumber)}
+                      {version.id === latestVersion?.id ? ' (latest)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowVersionUpload(true)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+                >
+                  <Upload className="w-4 h-4" />
+                  New Version
+                </button>
+                {versions.length > 1 && (
+                  <button
+                    onClick={() => router.push(
+                      `/projects/${projectId}/assets/${assetId}/compare?base=${versions[1].id}&target=${versions[0].id}`
+                    )}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Compare
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           
           <div className="flex items-center gap-4">
             <AnnotationToolbar
               selectedTool={selectedTool}
               onToolSelect={setSelectedTool}
+              strokeColor={strokeColor}
+              onStrokeColorChange={setStrokeColor}
             />
             
             {/* Immersive Mode Button for URL assets */}
@@ -343,13 +497,29 @@ export default function AssetViewerPage() {
 
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
+        {/* PDF page thumbnails and navigation */}
+        {asset.type === 'PDF' && pdfDocument && (
+          <LazyPdfPageNavigator
+            pdfDocument={pdfDocument}
+            currentPage={currentPage}
+            onPageChange={handlePageChange}
+            annotationCounts={pageAnnotationCounts}
+          />
+        )}
+
         {/* Canvas Area */}
         <div className="flex-1 p-6">
+          {pdfError && (
+            <p className="mb-4 text-sm text-red-600">Failed to load PDF: {pdfError}</p>
+          )}
           <LazyAnnotationCanvas
-            assetUrl={asset.url}
+            assetUrl={displayUrl ?? asset.url}
             assetType={asset.type}
             annotations={realtimeAnnotations}
+            pdfDocument={pdfDocument}
+            pageNumber={currentPage}
             selectedTool={selectedTool}
+            strokeColor={strokeColor}
             onAnnotationCreate={handleAnnotationCreate}
             onAnnotationSelect={setSelectedAnnotationId}
             selectedAnnotationId={selectedAnnotationId}
@@ -365,8 +535,25 @@ export default function AssetViewerPage() {
           onAnnotationDelete={handleAnnotationDelete}
           onReplyCreate={handleReplyCreate}
           currentUserId={session?.user?.id || ''}
+          pageCount={pageCount}
+          onPageSelect={handlePageChange}
+          versionId={versionId}
         />
       </div>
+
+      {isVersioned && (
+        <VersionUploadModal
+          assetId={assetId}
+          assetType={asset.type as 'IMAGE' | 'PDF'}
+          nextVersionNumber={(latestVersion?.versionNumber ?? 0) + 1}
+          openAnnotationCount={realtimeAnnotations.filter(
+            annotation => annotation.status === 'OPEN' && (!latestVersion || annotation.versionId === latestVersion.id)
+          ).length}
+          isOpen={showVersionUpload}
+          onClose={() => setShowVersionUpload(false)}
+          onUploaded={handleVersionUploaded}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
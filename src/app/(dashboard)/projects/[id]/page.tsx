@@ -152,9 +152,11 @@ export default function ProjectDetailPage() {
               <p className="text-neutral-600 mt-1">{project.description}</p>
             )}
           </div>
-          <Button variant="ghost" size="sm" className="p-2">
-            <Settings className="h-4 w-4" />
-          </Button>
+          <Link href={`/projects/${projectId}/settings`}>
+            <Button variant="ghost" size="sm" className="p-2" title="Project settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+          </Link>
         </div>
 
         {/* Project Stats */}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Loading } from '@/components/ui/Loading';
+import { ApiTokens } from '@/components/account/ApiTokens';
+import { ProjectMembers } from '@/components/projects/ProjectMembers';
+import { ProjectTransfer } from '@/components/projects/ProjectTransfer';
+import { ShareLinks } from '@/components/projects/ShareLinks';
+
+interface ProjectSummary {
+  id: string;
+  name: string;
+  organizationId: string;
+  role: 'OWNER' | 'EDITOR' | 'VIEWER';
+}
+
+export default function ProjectSettingsPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+
+  const { data: project, isLoading, isError } = useQuery({
+    queryKey: ['projects', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load project');
+      }
+      const data = await response.json();
+      return data.project as ProjectSummary;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Loading text="Loading project settings..." />
+      </div>
+    );
+  }
+
+  if (isError || !project) {
+    return (
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-neutral-900 mb-2">Project not found</h2>
+        <Link href="/projects">
+          <Button>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Projects
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-3xl">
+      <div className="flex items-center gap-4 mb-8">
+        <Link href={`/projects/${projectId}`}>
+          <Button variant="ghost" size="sm" className="p-2">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900">Project settings</h1>
+          <p className="text-neutral-600 mt-1">{project.name}</p>
+        </div>
+      </div>
+
+      <ProjectMembers projectId={projectId} canManageMembers={project.role === 'OWNER'} />
+
+      {project.role === 'OWNER' && (
+        <>
+          <ShareLinks projectId={projectId} />
+          <ApiTokens
+            endpoint={`/api/projects/${projectId}/api-keys`}
+            listKey="apiKeys"
+            itemKey="apiKey"
+            scopes={['projects:read', 'assets:read', 'assets:write', 'annotations:read']}
+            title="API keys"
+            description="Keys for tools that only need this project. A key acts as the person who created it, so it stops working if they lose access."
+            className="mt-6"
+          />
+          <ProjectTransfer projectId={projectId} organizationId={project.organizationId} />
+        </>
+      )}
+    </div>
+  );
+}
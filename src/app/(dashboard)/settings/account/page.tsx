@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { EmailVerificationCard } from '@/components/account/EmailVerificationCard';
+import { LinkedAccounts } from '@/components/account/LinkedAccounts';
+
+export default async function AccountSettingsPage() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/signin');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { email: true, emailVerified: true },
+  });
+  if (!user) {
+    redirect('/signin');
+  }
+
+  return (
+    <div className="p-6 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">Account settings</h1>
+        <p className="text-neutral-600 mt-1">
+          Manage how you sign in to PixelPin
+        </p>
+      </div>
+
+      <EmailVerificationCard email={user.email} verified={Boolean(user.emailVerified)} />
+      <LinkedAccounts />
+    </div>
+  );
+}
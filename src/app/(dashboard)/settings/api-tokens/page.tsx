@@ -0,0 +1,27 @@
+import Link from 'next/link';
+import { ApiTokens } from '@/components/account/ApiTokens';
+
+export default function ApiTokensSettingsPage() {
+  return (
+    <div className="p-6 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">API tokens</h1>
+        <p className="text-neutral-600 mt-1">
+          Use the REST API at <code className="font-mono text-sm">/api/v1</code> from scripts and other tools.{' '}
+          <Link href="/docs/api" className="text-blue-600 hover:underline">
+            Read the API reference
+          </Link>
+        </p>
+      </div>
+
+      <ApiTokens
+        endpoint="/api/account/tokens"
+        listKey="tokens"
+        itemKey="token"
+        scopes={['projects:read', 'projects:write', 'assets:read', 'assets:write', 'annotations:read']}
+        title="Personal access tokens"
+        description="A token acts as you on every project you can access, limited to the scopes you choose. Send it as an Authorization: Bearer header."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { SettingsNav } from '@/components/layout/SettingsNav';
+
+export default function SettingsLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div>
+      <SettingsNav />
+      {children}
+    </div>
+  );
+}
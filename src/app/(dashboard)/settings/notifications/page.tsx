@@ -0,0 +1,16 @@
+import { NotificationPreferences } from '@/components/notifications/NotificationPreferences';
+
+export default function NotificationSettingsPage() {
+  return (
+    <div className="p-6 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">Notification settings</h1>
+        <p className="text-neutral-600 mt-1">
+          Control which activity reaches your inbox, and how often
+        </p>
+      </div>
+
+      <NotificationPreferences />
+    </div>
+  );
+}
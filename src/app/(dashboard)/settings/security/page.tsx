@@ -0,0 +1,18 @@
+import { ActiveSessions } from '@/components/account/ActiveSessions';
+import { TwoFactorSettings } from '@/components/account/TwoFactorSettings';
+
+export default function SecuritySettingsPage() {
+  return (
+    <div className="p-6 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">Security</h1>
+        <p className="text-neutral-600 mt-1">
+          Protect your account with a second factor and keep track of where you&apos;re signed in
+        </p>
+      </div>
+
+      <TwoFactorSettings />
+      <ActiveSessions />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { WorkspaceSettings } from '@/components/workspaces/WorkspaceSettings';
+
+export default function WorkspaceSettingsPage() {
+  return (
+    <div className="p-6 max-w-3xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-neutral-900">Workspace settings</h1>
+        <p className="text-neutral-600 mt-1">
+          Manage the workspace that owns your projects, members and billing
+        </p>
+      </div>
+
+      <WorkspaceSettings />
+    </div>
+  );
+}
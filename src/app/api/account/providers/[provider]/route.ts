@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// DELETE /api/account/providers/[provider] - Disconnect a linked sign-in provider
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { provider } = await params
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        password: true,
+        accounts: {
+          select: { id: true, provider: true },
+        },
+      },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const accounts = user.accounts.filter(account => account.provider === provider)
+    if (accounts.length === 0) {
+      return NextResponse.json({ error: 'Provider is not connected' }, { status: 404 })
+    }
+
+    // Keep at least one way to sign in
+    if (!user.password && accounts.length === user.accounts.length) {
+      return NextResponse.json(
+        { error: 'Set a password or connect another provider before disconnecting this one' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.account.deleteMany({
+      where: { id: { in: accounts.map(account => account.id) } },
+    })
+
+    return NextResponse.json({ message: 'Provider disconnected' })
+  } catch (error) {
+    console.error('Error disconnecting provider:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getOAuthProviders } from '@/lib/auth-providers'
+
+// GET /api/account/providers - Configured sign-in providers and which ones the user has linked
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        password: true,
+        accounts: {
+          select: { provider: true },
+        },
+      },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const linked = new Set(user.accounts.map(account => account.provider))
+
+    return NextResponse.json({
+      hasPassword: Boolean(user.password),
+      providers: getOAuthProviders().map(provider => ({
+        ...provider,
+        connected: linked.has(provider.id),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching linked accounts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
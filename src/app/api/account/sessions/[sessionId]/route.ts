@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { revokeUserSession } from '@/lib/user-sessions'
+
+// DELETE /api/account/sessions/[sessionId] - Sign out one session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { sessionId } = await params
+
+    const revoked = await revokeUserSession(session.user.id, sessionId)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Session signed out' })
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
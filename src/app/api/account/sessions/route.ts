@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { listUserSessions, revokeAllUserSessions } from '@/lib/user-sessions'
+
+// GET /api/account/sessions - Browsers and devices signed in to the account
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sessions = await listUserSessions(session.user.id)
+
+    return NextResponse.json({
+      sessions: sessions.map(userSession => ({
+        ...userSession,
+        current: userSession.id === session.sessionId,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/account/sessions - Sign out every other session
+export async function DELETE() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const revoked = await revokeAllUserSessions(session.user.id, session.sessionId)
+
+    return NextResponse.json({ revoked })
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
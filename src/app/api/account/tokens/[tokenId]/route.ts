@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { revokeApiToken } from '@/lib/api-tokens'
+
+// DELETE /api/account/tokens/[tokenId] - Revoke a personal access token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tokenId } = await params
+
+    if (!(await revokeApiToken(tokenId, { userId: session.user.id }))) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { API_TOKEN_SCOPES, apiTokenSelect, createApiToken } from '@/lib/api-tokens'
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Choose at least one scope'),
+  expiresAt: z.coerce.date().optional(),
+}).refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+  path: ['expiresAt'],
+  message: 'Expiry must be in the future',
+})
+
+// GET /api/account/tokens - The user's personal access tokens
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id, projectId: null },
+      select: apiTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ tokens })
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/account/tokens - Create a personal access token, shown in full only in this response
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = createTokenSchema.parse(body)
+
+    const { apiToken, token } = await createApiToken({ ...data, userId: session.user.id })
+
+    return NextResponse.json({ token: apiToken, secret: token }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating API token:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
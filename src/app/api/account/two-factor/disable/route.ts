@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import bcrypt from 'bcryptjs'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { disableTwoFactor, verifyTwoFactorCode } from '@/lib/two-factor'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(6).max(32),
+})
+
+// POST /api/account/two-factor/disable - Turn two-factor authentication off with the password and a code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { password, code } = disableTwoFactorSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, password: true, twoFactorEnabled: true },
+    })
+
+    if (!user?.twoFactorEnabled || !user.password) {
+      return NextResponse.json({ error: 'Two-factor authentication is not on' }, { status: 400 })
+    }
+
+    const limit = await checkRateLimit('two-factor', { ip: getClientIp(request), user: user.id })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password)
+    if (!isPasswordValid || !(await verifyTwoFactorCode(user.id, code))) {
+      return NextResponse.json({ error: 'Incorrect password or code' }, { status: 400 })
+    }
+
+    await disableTwoFactor(user.id)
+
+    return NextResponse.json({ message: 'Two-factor authentication turned off' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
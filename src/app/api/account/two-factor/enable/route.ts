@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { enableTwoFactor } from '@/lib/two-factor'
+
+const enableTwoFactorSchema = z.object({
+  code: z.string().min(6).max(10),
+})
+
+// POST /api/account/two-factor/enable - Confirm setup with a code from the app and get recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { code } = enableTwoFactorSchema.parse(body)
+
+    const recoveryCodes = await enableTwoFactor(session.user.id, code)
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'That code is not valid. Check the time on your device and try again.' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ recoveryCodes })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error enabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from '@/lib/two-factor'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+
+const regenerateSchema = z.object({
+  code: z.string().min(6).max(32),
+})
+
+// POST /api/account/two-factor/recovery-codes - Replace the recovery codes, confirmed with a current code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { code } = regenerateSchema.parse(body)
+
+    const limit = await checkRateLimit('two-factor', { ip: getClientIp(request), user: session.user.id })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    if (!(await verifyTwoFactorCode(session.user.id, code))) {
+      return NextResponse.json({ error: 'That code is not valid' }, { status: 400 })
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.user.id)
+
+    return NextResponse.json({ recoveryCodes })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
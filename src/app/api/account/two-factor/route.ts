@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getTwoFactorStatus } from '@/lib/two-factor'
+
+// GET /api/account/two-factor - Whether two-factor authentication is on, and recovery codes left
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getTwoFactorStatus(session.user.id))
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { beginTwoFactorEnrolment } from '@/lib/two-factor'
+
+// POST /api/account/two-factor/setup - New secret and QR code to scan with an authenticator app
+export async function POST() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, password: true, twoFactorEnabled: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json({ error: 'Two-factor authentication is already on' }, { status: 409 })
+    }
+
+    // The second factor is checked on password sign-ins
+    if (!user.password) {
+      return NextResponse.json(
+        { error: 'Set a password for your account before turning on two-factor authentication' },
+        { status: 400 }
+      )
+    }
+
+    const enrolment = await beginTwoFactorEnrolment(user)
+
+    return NextResponse.json(enrolment)
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
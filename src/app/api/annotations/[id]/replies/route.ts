@@ -1,19 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAnnotation } from '@/lib/permissions'
 import { z } from 'zod'
 import { RealtimeService, ReplyEvent } from '@/lib/realtime'
-
-const createReplySchema = z.object({
-  content: z.string().min(1),
-  attachments: z.array(z.object({
-    id: z.string(),
-    filename: z.string(),
-    url: z.string().url(),
-    fileType: z.string(),
-    fileSize: z.number(),
-  })).optional(),
-})
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { recordMentions } from '@/lib/mentions'
+import { notifyReply } from '@/lib/activity-notifications'
+import { recordShareLinkUsage, resolveShareLink, shareLinkDenied } from '@/lib/share-links'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { guestCheckFailed, verifyGuestSubmission } from '@/lib/guest-challenge'
+import { createReplySchema } from '@/lib/api-schemas'
+import { claimProjectFiles, fileNotInProject } from '@/lib/file-access'
 
 export async function GET(
   request: NextRequest,
@@ -27,20 +25,9 @@ export async function GET(
 
     const { id: annotationId } = await params
 
-    // Verify user has access to this annotation
-    const annotation = await prisma.annotation.findFirst({
-      where: {
-        id: annotationId,
-        asset: {
-          project: {
-            ownerId: session.user.id,
-          },
-        },
-      },
-    })
-
-    if (!annotation) {
-      return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
+    const access = await authorizeAnnotation(session.user.id, annotationId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Annotation not found')
     }
 
     const replies = await prisma.reply.findMany({
@@ -78,25 +65,72 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth()
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
     const { id: annotationId } = await params
     const body = await request.json()
 
     // Validate request body
     const validatedData = createReplySchema.parse(body)
 
-    // Verify user has access to this annotation
-    const annotation = await prisma.annotation.findFirst({
-      where: {
-        id: annotationId,
+    let authorId: string | null = null
+    let shareLinkId: string | null = null
+
+    if (validatedData.guestToken) {
+      // Guest reply through a share link that allows replies on this annotation's asset
+      const target = await prisma.annotation.findUnique({
+        where: { id: annotationId },
+        select: { assetId: true },
+      })
+      if (!target) {
+        return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
+      }
+
+      const shareLink = await resolveShareLink(validatedData.guestToken, {
+        assetId: target.assetId,
+        permission: 'share:reply',
+      })
+      if (!shareLink.ok) {
+        return shareLinkDenied(shareLink)
+      }
+      if (validatedData.attachments?.length && !shareLink.link.canUpload) {
+        return shareLinkDenied({ reason: 'forbidden' })
+      }
+      shareLinkId = shareLink.link.id
+
+      const limit = await checkRateLimit('guest-reply', {
+        ip: getClientIp(request),
+        token: validatedData.guestToken,
+      })
+      if (!limit.ok) {
+        return rateLimitExceeded(limit)
+      }
+
+      const guestCheck = await verifyGuestSubmission(validatedData)
+      if (guestCheck) {
+        return guestCheckFailed(guestCheck)
+      }
+
+      if (!validatedData.guestName) {
+        return NextResponse.json({ error: 'Guest name is required' }, { status: 400 })
+      }
+    } else {
+      const session = await auth()
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      authorId = session.user.id
+
+      const access = await authorizeAnnotation(session.user.id, annotationId, 'reply:create')
+      if (!access.ok) {
+        return accessDenied(access, 'Annotation not found')
+      }
+    }
+
+    const annotation = await prisma.annotation.findUnique({
+      where: { id: annotationId },
+      include: {
         asset: {
-          project: {
-            ownerId: session.user.id,
-          },
+          select: { projectId: true },
         },
       },
     })
@@ -105,10 +139,17 @@ export async function POST(
       return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
     }
 
+    const attachmentUrls = (validatedData.attachments ?? []).map(attachment => attachment.url)
+    if (!await claimProjectFiles(annotation.asset.projectId, attachmentUrls)) {
+      return fileNotInProject()
+    }
+
     const reply = await prisma.reply.create({
       data: {
         annotationId,
-        authorId: session.user.id,
+        authorId,
+        guestName: authorId ? undefined : validatedData.guestName,
+        guestEmail: authorId ? undefined : validatedData.guestEmail,
         content: validatedData.content,
         attachments: validatedData.attachments ? {
           create: validatedData.attachments.map(att => ({
@@ -139,6 +180,26 @@ export async function POST(
       createdAt: reply.createdAt.toISOString(),
     } as ReplyEvent)
 
+    const { projectId } = annotation.asset
+    await triggerWebhookEvent(projectId, 'reply.created', {
+      reply,
+      annotation: { id: annotationId, assetId: annotation.assetId },
+    })
+
+    after(() => notifyReply(reply.id))
+
+    if (shareLinkId) {
+      await recordShareLinkUsage(shareLinkId, 'reply')
+    }
+
+    const mentions = await recordMentions(projectId, reply.content, { replyId: reply.id })
+    for (const mention of mentions) {
+      await triggerWebhookEvent(projectId, 'mention.created', {
+        mention,
+        reply: { id: reply.id, annotationId, content: reply.content },
+      })
+    }
+
     return NextResponse.json(reply, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
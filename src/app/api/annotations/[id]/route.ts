@@ -1,19 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAnnotation } from '@/lib/permissions'
 import { z } from 'zod'
 import { RealtimeService, AnnotationEvent } from '@/lib/realtime'
-
-const updateAnnotationSchema = z.object({
-  content: z.string().min(1).optional(),
-  status: z.enum(['OPEN', 'RESOLVED']).optional(),
-  position: z.object({
-    x: z.number(),
-    y: z.number(),
-    width: z.number().optional(),
-    height: z.number().optional(),
-  }).optional(),
-})
+import { validateAnnotationGeometry, AnnotationGeometry } from '@/lib/annotation-shapes'
+import { updateAnnotationSchema } from '@/lib/api-schemas'
+import { validatePagePosition } from '@/lib/pdf-pages'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { notifyStatusChange } from '@/lib/activity-notifications'
 
 export async function GET(
   request: NextRequest,
@@ -27,14 +22,14 @@ export async function GET(
 
     const { id: annotationId } = await params
 
+    const access = await authorizeAnnotation(session.user.id, annotationId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Annotation not found')
+    }
+
     const annotation = await prisma.annotation.findFirst({
       where: {
         id: annotationId,
-        asset: {
-          project: {
-            ownerId: session.user.id,
-          },
-        },
       },
       include: {
         author: {
@@ -45,6 +40,9 @@ export async function GET(
             image: true,
           },
         },
+        screenshots: {
+          orderBy: { kind: 'asc' },
+        },
         replies: {
           include: {
             author: {
@@ -93,14 +91,18 @@ export async function PATCH(
     // Validate request body
     const validatedData = updateAnnotationSchema.parse(body)
 
-    // Verify user has access to this annotation
+    const access = await authorizeAnnotation(session.user.id, annotationId, 'annotation:update')
+    if (!access.ok) {
+      return accessDenied(access, 'Annotation not found')
+    }
+
     const existingAnnotation = await prisma.annotation.findFirst({
       where: {
         id: annotationId,
+      },
+      include: {
         asset: {
-          project: {
-            ownerId: session.user.id,
-          },
+          select: { projectId: true },
         },
       },
     })
@@ -109,11 +111,39 @@ export async function PATCH(
       return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
     }
 
+    // Shape geometry must stay valid for the annotation's type
+    if (validatedData.position || validatedData.content !== undefined) {
+      const geometryError = validateAnnotationGeometry(
+        existingAnnotation.type,
+        validatedData.position || (existingAnnotation.position as unknown as AnnotationGeometry),
+        validatedData.content
+      )
+      if (geometryError) {
+        return NextResponse.json({ error: geometryError }, { status: 400 })
+      }
+    }
+
+    // PDF annotations keep their page-normalized coordinates
+    if (validatedData.position && existingAnnotation.pageNumber) {
+      const pageError = validatePagePosition(validatedData.position)
+      if (pageError) {
+        return NextResponse.json({ error: pageError }, { status: 400 })
+      }
+    }
+
     const annotation = await prisma.annotation.update({
       where: {
         id: annotationId,
       },
-      data: validatedData,
+      data: {
+        ...validatedData,
+        // Track who resolved it and when, for digests
+        ...(validatedData.status && validatedData.status !== existingAnnotation.status
+          ? validatedData.status === 'RESOLVED'
+            ? { resolvedAt: new Date(), resolvedById: session.user.id }
+            : { resolvedAt: null, resolvedById: null }
+          : {}),
+      },
       include: {
         author: {
           select: {
@@ -123,6 +153,9 @@ export async function PATCH(
             image: true,
           },
         },
+        screenshots: {
+          orderBy: { kind: 'asc' },
+        },
         replies: {
           include: {
             author: {
@@ -151,6 +184,16 @@ export async function PATCH(
       position: annotation.position as { x: number; y: number; width?: number; height?: number },
     } as AnnotationEvent)
 
+    const { projectId } = existingAnnotation.asset
+    await triggerWebhookEvent(projectId, 'annotation.updated', { annotation })
+    if (existingAnnotation.status !== 'RESOLVED' && annotation.status === 'RESOLVED') {
+      await triggerWebhookEvent(projectId, 'annotation.resolved', { annotation })
+    }
+    if (existingAnnotation.status !== annotation.status) {
+      const changedById = session.user.id
+      after(() => notifyStatusChange(annotationId, changedById))
+    }
+
     return NextResponse.json(annotation)
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -180,14 +223,18 @@ export async function DELETE(
 
     const { id: annotationId } = await params
 
-    // Verify user has access to this annotation
+    const access = await authorizeAnnotation(session.user.id, annotationId, 'annotation:delete')
+    if (!access.ok) {
+      return accessDenied(access, 'Annotation not found')
+    }
+
     const existingAnnotation = await prisma.annotation.findFirst({
       where: {
         id: annotationId,
+      },
+      include: {
         asset: {
-          project: {
-            ownerId: session.user.id,
-          },
+          select: { projectId: true },
         },
       },
     })
@@ -205,6 +252,10 @@ export async function DELETE(
     // Broadcast real-time event
     await RealtimeService.broadcastAnnotationDeleted(existingAnnotation.assetId, annotationId)
 
+    await triggerWebhookEvent(existingAnnotation.asset.projectId, 'annotation.deleted', {
+      annotation: { id: annotationId, assetId: existingAnnotation.assetId },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting annotation:', error)
@@ -1,14 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAsset, hasPermission } from '@/lib/permissions'
 import { z } from 'zod'
+import { bulkUpdateSchema } from '@/lib/api-schemas'
 import { RealtimeService } from '@/lib/realtime'
-
-const bulkUpdateSchema = z.object({
-  annotationIds: z.array(z.string()),
-  action: z.enum(['resolve', 'unresolve', 'delete']),
-  status: z.enum(['OPEN', 'RESOLVED']).optional(),
-})
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { notifyStatusChange } from '@/lib/activity-notifications'
 
 export async function PATCH(
   request: NextRequest,
@@ -21,45 +19,24 @@ export async function PATCH(
     }
 
     const { id: assetId } = await params
+    const userId = session.user.id
     const body = await request.json()
     const { annotationIds, action, status } = bulkUpdateSchema.parse(body)
 
-    // Verify user has access to this asset
-    const asset = await prisma.asset.findFirst({
-      where: {
-        id: assetId,
-        project: {
-          OR: [
-            { ownerId: session.user.id },
-            { 
-              collaborators: {
-                some: { userId: session.user.id }
-              }
-            }
-          ]
-        },
-      },
-    })
-
-    if (!asset) {
-      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    const access = await authorizeAsset(userId, assetId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
     }
 
+    // Members who can't manage every annotation may still change their own
+    const canManageAll = hasPermission(access.role, action === 'delete' ? 'annotation:delete' : 'annotation:update')
+
     // Verify all annotations belong to this asset and user has permission
     const annotations = await prisma.annotation.findMany({
       where: {
         id: { in: annotationIds },
         assetId,
-        OR: [
-          { authorId: session.user.id }, // User owns the annotation
-          { 
-            asset: {
-              project: {
-                ownerId: session.user.id // User owns the project
-              }
-            }
-          }
-        ]
+        ...(canManageAll ? {} : { authorId: userId }),
       }
     })
 
@@ -69,6 +46,7 @@ export async function PATCH(
       }, { status: 403 })
     }
 
+    const previousStatuses = new Map(annotations.map(annotation => [annotation.id, annotation.status]))
     let result
 
     if (action === 'delete') {
@@ -83,20 +61,28 @@ export async function PATCH(
       // Broadcast deletion events
       for (const annotationId of annotationIds) {
         await RealtimeService.broadcastAnnotationDeleted(assetId, annotationId)
+        await triggerWebhookEvent(access.projectId, 'annotation.deleted', {
+          annotation: { id: annotationId, assetId },
+        })
       }
 
     } else {
       // Update status
-      const newStatus = action === 'resolve' ? 'RESOLVED' : 'OPEN'
+      const newStatus = status || (action === 'resolve' ? 'RESOLVED' : 'OPEN')
       
+      // Only touch annotations whose status actually changes so resolvedAt keeps its original time
       result = await prisma.annotation.updateMany({
         where: {
           id: { in: annotationIds },
           assetId,
+          status: { not: newStatus },
         },
         data: {
-          status: status || newStatus,
+          status: newStatus,
           updatedAt: new Date(),
+          ...(newStatus === 'RESOLVED'
+            ? { resolvedAt: new Date(), resolvedById: userId }
+            : { resolvedAt: null, resolvedById: null }),
         }
       })
 
@@ -113,6 +99,9 @@ export async function PATCH(
             },
           },
           attachments: true,
+          screenshots: {
+            orderBy: { kind: 'asc' },
+          },
           replies: {
             include: {
               author: {
@@ -138,7 +127,16 @@ export async function PATCH(
           updatedAt: annotation.updatedAt.toISOString(),
           position: annotation.position as { x: number; y: number; width?: number; height?: number },
           metadata: (annotation.metadata as Record<string, unknown>) || {},
+          anchor: annotation.anchor as Record<string, unknown> | null,
         })
+
+        await triggerWebhookEvent(access.projectId, 'annotation.updated', { annotation })
+        if (annotation.status === 'RESOLVED' && previousStatuses.get(annotation.id) !== 'RESOLVED') {
+          await triggerWebhookEvent(access.projectId, 'annotation.resolved', { annotation })
+        }
+        if (annotation.status !== previousStatuses.get(annotation.id)) {
+          after(() => notifyStatusChange(annotation.id, userId))
+        }
       }
     }
 
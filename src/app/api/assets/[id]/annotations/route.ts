@@ -1,14 +1,43 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAsset } from '@/lib/permissions'
 import { z } from 'zod'
 import { checkAnnotationLimit } from '@/lib/subscription-limits'
 import { RealtimeService, AnnotationEvent } from '@/lib/realtime'
+import {
+  getCrossOrigin,
+  isWidgetOriginAllowed,
+  widgetPreflightResponse,
+  withWidgetCors,
+} from '@/lib/widget-cors'
+import { createAnnotationSchema } from '@/lib/api-schemas'
+import { pageNumberSchema, validatePagePosition } from '@/lib/pdf-pages'
+import { formatVersionLabel } from '@/lib/asset-versions'
+import { triggerWebhookEvent } from '@/lib/webhooks'
+import { recordMentions } from '@/lib/mentions'
+import { notifyNewAnnotation } from '@/lib/activity-notifications'
+import { recordShareLinkUsage, resolveShareLink, shareLinkDenied } from '@/lib/share-links'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { guestCheckFailed, verifyGuestSubmission } from '@/lib/guest-challenge'
+import { claimProjectFiles, fileNotInProject, signAnnotationFiles } from '@/lib/file-access'
+import {
+  AnnotationScreenshotData,
+  buildAnnotationScreenshots,
+  SCREENSHOT_KIND_LABELS,
+  ScreenshotKind,
+} from '@/lib/annotation-screenshots'
+import { EXPORT_SIGNED_URL_TTL_SECONDS } from '@/lib/storage'
+
+function getScreenshotUrl(annotation: Record<string, unknown>, kind: ScreenshotKind): string {
+  return (annotation.screenshots as AnnotationScreenshotData[] | undefined)?.find(screenshot => screenshot.kind === kind)?.url || ''
+}
 
 // CSV export utility
-function generateAnnotationCSV(annotations: Array<Record<string, unknown>>, asset: { id: string; name: string }): string {
+function generateAnnotationCSV(annotations: Array<Record<string, unknown>>, asset: { id: string; name: string; pageCount?: number | null }): string {
   const headers = [
     'ID',
+    'Type',
     'Content',
     'Status',
     'Author',
@@ -16,16 +45,26 @@ function generateAnnotationCSV(annotations: Array<Record<string, unknown>>, asse
     'Guest Name',
     'Guest Email',
     'Page URL',
+    'Page',
+    'Version',
     'Position X',
     'Position Y',
+    'Width',
+    'Height',
+    'Stroke Color',
     'Created At',
     'Updated At',
     'Replies Count',
-    'Attachments Count'
+    'Attachments Count',
+    'Screenshot URL',
+    `${SCREENSHOT_KIND_LABELS.FULL_PAGE} Screenshot URL`,
+    `${SCREENSHOT_KIND_LABELS.ELEMENT} Screenshot URL`,
+    'Attachment URLs'
   ]
 
   const rows = annotations.map(annotation => [
     annotation.id,
+    annotation.type || 'COMMENT',
     `"${String(annotation.content || '').replace(/"/g, '""')}"`,
     annotation.status,
     (annotation.author as { name?: string } | null)?.name || '',
@@ -33,50 +72,31 @@ function generateAnnotationCSV(annotations: Array<Record<string, unknown>>, asse
     annotation.guestName || '',
     annotation.guestEmail || '',
     annotation.pageUrl,
+    annotation.pageNumber
+      ? (asset.pageCount ? `${annotation.pageNumber} of ${asset.pageCount}` : annotation.pageNumber)
+      : '',
+    annotation.originVersion
+      ? formatVersionLabel((annotation.originVersion as { versionNumber: number }).versionNumber)
+      : '',
     (annotation.position as { x: number })?.x || 0,
     (annotation.position as { y: number })?.y || 0,
+    (annotation.position as { width?: number })?.width ?? '',
+    (annotation.position as { height?: number })?.height ?? '',
+    annotation.strokeColor || '',
     annotation.createdAt,
     annotation.updatedAt,
     (annotation.replies as unknown[] | undefined)?.length || 0,
-    (annotation.attachments as unknown[] | undefined)?.length || 0
+    (annotation.attachments as unknown[] | undefined)?.length || 0,
+    annotation.screenshot || '',
+    getScreenshotUrl(annotation, 'FULL_PAGE'),
+    getScreenshotUrl(annotation, 'ELEMENT'),
+    `"${((annotation.attachments as { url: string }[] | undefined) ?? []).map(attachment => attachment.url).join(' ')}"`
   ])
 
   return [headers.join(','), ...rows.map(row => row.join(','))].join('\n')
 }
 
-const createAnnotationSchema = z.object({
-  position: z.object({
-    x: z.number(),
-    y: z.number(),
-  }),
-  content: z.string(),
-  screenshot: z.string().url(),
-  pageUrl: z.string().url(),
-  metadata: z.object({
-    browserName: z.string(),
-    browserVersion: z.string(),
-    operatingSystem: z.string(),
-    viewportSize: z.object({
-      width: z.number(),
-      height: z.number(),
-    }),
-    userAgent: z.string(),
-    timestamp: z.string(),
-  }),
-  attachments: z.array(z.object({
-    id: z.string(),
-    filename: z.string(),
-    url: z.string().url(),
-    fileType: z.string(),
-    fileSize: z.number(),
-  })).optional(),
-  // Guest annotation support
-  guestName: z.string().optional(),
-  guestEmail: z.string().email().optional(),
-  guestToken: z.string().optional(),
-})
-
-export async function GET(
+async function getAnnotations(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -87,6 +107,8 @@ export async function GET(
     // Extract query parameters
     const guestToken = searchParams.get('guestToken')
     const pageUrl = searchParams.get('pageUrl')
+    const pageNumberParam = searchParams.get('pageNumber')
+    const versionId = searchParams.get('versionId')
     const status = searchParams.get('status') as 'OPEN' | 'RESOLVED' | null
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
@@ -95,21 +117,19 @@ export async function GET(
     let asset
 
     if (guestToken) {
-      // Guest access
-      asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            shareToken: guestToken,
-            guestAccessEnabled: true,
-          },
-        },
+      // Guest access through a share link that covers this asset
+      const shareLink = await resolveShareLink(guestToken, { assetId, permission: 'share:view' })
+      if (!shareLink.ok) {
+        return shareLinkDenied(shareLink)
+      }
+
+      asset = await prisma.asset.findUnique({
+        where: { id: assetId },
         include: {
           project: {
             select: {
               id: true,
               name: true,
-              guestAccessEnabled: true,
             }
           }
         }
@@ -121,20 +141,13 @@ export async function GET(
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
       }
 
-      asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            OR: [
-              { ownerId: session.user.id },
-              { 
-                collaborators: {
-                  some: { userId: session.user.id }
-                }
-              }
-            ]
-          },
-        },
+      const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+      if (!access.ok) {
+        return accessDenied(access, 'Asset not found')
+      }
+
+      asset = await prisma.asset.findUnique({
+        where: { id: assetId },
         include: {
           project: {
             select: {
@@ -151,20 +164,50 @@ export async function GET(
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
 
+    // Session-backed widget requests must come from the asset's own site
+    if (!guestToken && !isWidgetOriginAllowed(getCrossOrigin(request), asset.url)) {
+      return NextResponse.json({ error: 'Origin not allowed' }, { status: 403 })
+    }
+
     // Build where clause for filtering
-    const whereClause: { assetId: string; pageUrl?: string; status?: 'OPEN' | 'RESOLVED' } = { assetId }
+    const whereClause: {
+      assetId: string
+      pageUrl?: string
+      pageNumber?: number
+      status?: 'OPEN' | 'RESOLVED'
+      OR?: Array<{ versionId: string } | { originVersionId: string }>
+    } = { assetId }
     
     if (pageUrl) {
       whereClause.pageUrl = pageUrl
     }
+
+    if (pageNumberParam) {
+      const pageNumber = pageNumberSchema.safeParse(Number(pageNumberParam))
+      if (!pageNumber.success) {
+        return NextResponse.json({ error: 'Invalid page number' }, { status: 400 })
+      }
+      whereClause.pageNumber = pageNumber.data
+    }
     
     if (status) {
       whereClause.status = status
     }
 
+    // A version shows the annotations made on it and those carried forward to it
+    if (versionId) {
+      whereClause.OR = [{ versionId }, { originVersionId: versionId }]
+    }
+
     const annotations = await prisma.annotation.findMany({
       where: whereClause,
       include: {
+        version: {
+          select: { id: true, versionNumber: true },
+        },
+        originVersion: {
+          select: { id: true, versionNumber: true },
+        },
         author: {
           select: {
             id: true,
@@ -174,6 +217,9 @@ export async function GET(
           },
         },
         attachments: true,
+        screenshots: {
+          orderBy: { kind: 'asc' },
+        },
         replies: {
           include: {
             author: {
@@ -209,10 +255,11 @@ export async function GET(
       skip: offset,
     })
 
-    // Handle export format
+    // Handle export format. Exported files and guests have no session to load
+    // screenshots and attachments with, so their URLs are signed.
     if (format === 'json') {
       return NextResponse.json({
-        annotations,
+        annotations: annotations.map(annotation => signAnnotationFiles(annotation, EXPORT_SIGNED_URL_TTL_SECONDS)),
         meta: {
           total: await prisma.annotation.count({ where: whereClause }),
           limit,
@@ -220,6 +267,7 @@ export async function GET(
           asset: {
             id: asset.id,
             name: asset.name,
+            pageCount: asset.pageCount,
             project: asset.project
           }
         }
@@ -227,7 +275,10 @@ export async function GET(
     }
 
     if (format === 'csv') {
-      const csv = generateAnnotationCSV(annotations, asset)
+      const csv = generateAnnotationCSV(
+        annotations.map(annotation => signAnnotationFiles(annotation, EXPORT_SIGNED_URL_TTL_SECONDS)),
+        asset
+      )
       return new NextResponse(csv, {
         headers: {
           'Content-Type': 'text/csv',
@@ -236,7 +287,7 @@ export async function GET(
       })
     }
 
-    return NextResponse.json(annotations)
+    return NextResponse.json(guestToken ? annotations.map(annotation => signAnnotationFiles(annotation)) : annotations)
   } catch (error) {
     console.error('Error fetching annotations:', error)
     return NextResponse.json(
@@ -246,7 +297,7 @@ export async function GET(
   }
 }
 
-export async function POST(
+async function createAnnotation(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -259,17 +310,34 @@ export async function POST(
 
     let asset
     let authorId: string | null = null
+    let shareLinkId: string | null = null
 
     if (validatedData.guestToken) {
-      // Guest annotation
-      asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            shareToken: validatedData.guestToken,
-            guestAccessEnabled: true,
-          },
-        },
+      // Guest annotation through a share link that allows comments
+      const shareLink = await resolveShareLink(validatedData.guestToken, { assetId, permission: 'share:comment' })
+      if (!shareLink.ok) {
+        return shareLinkDenied(shareLink)
+      }
+      if (validatedData.attachments?.length && !shareLink.link.canUpload) {
+        return shareLinkDenied({ reason: 'forbidden' })
+      }
+      shareLinkId = shareLink.link.id
+
+      const limit = await checkRateLimit('guest-annotation', {
+        ip: getClientIp(request),
+        token: validatedData.guestToken,
+      })
+      if (!limit.ok) {
+        return rateLimitExceeded(limit)
+      }
+
+      const guestCheck = await verifyGuestSubmission(validatedData)
+      if (guestCheck) {
+        return guestCheckFailed(guestCheck)
+      }
+
+      asset = await prisma.asset.findUnique({
+        where: { id: assetId },
       })
 
       if (!validatedData.guestName) {
@@ -284,25 +352,18 @@ export async function POST(
 
       authorId = session.user.id
 
-      asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            OR: [
-              { ownerId: session.user.id },
-              { 
-                collaborators: {
-                  some: { userId: session.user.id }
-                }
-              }
-            ]
-          },
-        },
+      const access = await authorizeAsset(session.user.id, assetId, 'annotation:create')
+      if (!access.ok) {
+        return accessDenied(access, 'Asset not found')
+      }
+
+      asset = await prisma.asset.findUnique({
+        where: { id: assetId },
       })
 
       // Check annotation limit for authenticated users
       if (asset) {
-        const limitCheck = await checkAnnotationLimit(session.user.id, asset.projectId);
+        const limitCheck = await checkAnnotationLimit(asset.projectId);
         if (!limitCheck.canCreate) {
           return NextResponse.json(
             { 
@@ -322,17 +383,65 @@ export async function POST(
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
 
+    if (!validatedData.guestToken && !isWidgetOriginAllowed(getCrossOrigin(request), asset.url)) {
+      return NextResponse.json({ error: 'Origin not allowed' }, { status: 403 })
+    }
+
+    // Uploaded assets tie annotations to a version, defaulting to the latest
+    const version = await prisma.assetVersion.findFirst({
+      where: validatedData.versionId
+        ? { id: validatedData.versionId, assetId }
+        : { assetId },
+      orderBy: { versionNumber: 'desc' },
+    })
+
+    if (validatedData.versionId && !version) {
+      return NextResponse.json({ error: 'Asset version not found' }, { status: 404 })
+    }
+
+    // PDF annotations belong to a page and use page-normalized coordinates
+    if (asset.type === 'PDF') {
+      if (!validatedData.pageNumber) {
+        return NextResponse.json({ error: 'Page number is required for PDF annotations' }, { status: 400 })
+      }
+      const pageCount = version ? version.pageCount : asset.pageCount
+      if (pageCount && validatedData.pageNumber > pageCount) {
+        return NextResponse.json({ error: `Page number must be between 1 and ${pageCount}` }, { status: 400 })
+      }
+      const pageError = validatePagePosition(validatedData.position)
+      if (pageError) {
+        return NextResponse.json({ error: pageError }, { status: 400 })
+      }
+    } else if (validatedData.pageNumber) {
+      return NextResponse.json({ error: 'Page numbers only apply to PDF assets' }, { status: 400 })
+    }
+
+    const fileUrls = [
+      validatedData.screenshot,
+      ...(validatedData.screenshots ?? []).map(screenshot => screenshot.url),
+      ...(validatedData.attachments ?? []).map(attachment => attachment.url),
+    ]
+    if (!await claimProjectFiles(asset.projectId, fileUrls)) {
+      return fileNotInProject()
+    }
+
     const annotation = await prisma.annotation.create({
       data: {
         assetId,
         authorId,
         guestName: validatedData.guestName,
         guestEmail: validatedData.guestEmail,
+        type: validatedData.type,
         position: validatedData.position,
+        strokeColor: validatedData.strokeColor,
         content: validatedData.content,
         screenshot: validatedData.screenshot,
         pageUrl: validatedData.pageUrl,
+        pageNumber: validatedData.pageNumber,
+        versionId: version?.id,
+        originVersionId: version?.id,
         metadata: validatedData.metadata,
+        anchor: validatedData.anchor,
         attachments: validatedData.attachments ? {
           create: validatedData.attachments.map(att => ({
             filename: att.filename,
@@ -341,6 +450,9 @@ export async function POST(
             size: att.fileSize,
           }))
         } : undefined,
+        screenshots: {
+          create: buildAnnotationScreenshots(validatedData.screenshot, validatedData.screenshots),
+        },
       },
       include: {
         author: {
@@ -352,6 +464,9 @@ export async function POST(
           },
         },
         attachments: true,
+        screenshots: {
+          orderBy: { kind: 'asc' },
+        },
         replies: {
           include: {
             author: {
@@ -378,6 +493,22 @@ export async function POST(
       position: annotation.position as { x: number; y: number; width?: number; height?: number },
     } as AnnotationEvent)
 
+    await triggerWebhookEvent(asset.projectId, 'annotation.created', { annotation })
+
+    after(() => notifyNewAnnotation(annotation.id))
+
+    if (shareLinkId) {
+      await recordShareLinkUsage(shareLinkId, 'comment')
+    }
+
+    const mentions = await recordMentions(asset.projectId, annotation.content, { annotationId: annotation.id })
+    for (const mention of mentions) {
+      await triggerWebhookEvent(asset.projectId, 'mention.created', {
+        mention,
+        annotation: { id: annotation.id, assetId, content: annotation.content },
+      })
+    }
+
     return NextResponse.json(annotation, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -393,4 +524,19 @@ export async function POST(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return withWidgetCors(request, await getAnnotations(request, context))
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return withWidgetCors(request, await createAnnotation(request, context))
+}
+
+// Preflight for the embeddable feedback widget
+export async function OPTIONS(request: NextRequest) {
+  return widgetPreflightResponse(request)
+}
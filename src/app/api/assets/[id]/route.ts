@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
+import { accessDenied, authorizeAsset } from "@/lib/permissions";
 
 // DELETE /api/assets/[id] - Delete an asset
 export async function DELETE(
@@ -18,24 +19,9 @@ export async function DELETE(
       );
     }
 
-    // Find asset and verify ownership through project
-    const asset = await prisma.asset.findFirst({
-      where: {
-        id: assetId,
-        project: {
-          ownerId: session.user.id,
-        },
-      },
-      include: {
-        project: true,
-      },
-    });
-
-    if (!asset) {
-      return NextResponse.json(
-        { error: "Asset not found" },
-        { status: 404 }
-      );
+    const access = await authorizeAsset(session.user.id, assetId, "asset:delete");
+    if (!access.ok) {
+      return accessDenied(access, "Asset not found");
     }
 
     // Delete asset (this will also delete related annotations due to cascade)
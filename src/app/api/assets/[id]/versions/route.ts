@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAsset } from '@/lib/permissions'
+import { isCompatibleVersionFile, isVersionedAssetType } from '@/lib/asset-versions'
+import { uploadFile } from '@/lib/storage'
+import { checkStorageLimit, storageLimitReached } from '@/lib/subscription-limits'
+
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf']
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+// Concurrent uploads race for the next version number; the loser is numbered again after the winner
+const MAX_VERSION_ATTEMPTS = 3
+
+// GET /api/assets/[id]/versions - List versions of an asset, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: assetId } = await params
+
+    const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
+    }
+
+    const versions = await prisma.assetVersion.findMany({
+      where: { assetId },
+      include: {
+        uploadedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        _count: {
+          select: { annotations: true },
+        },
+      },
+      orderBy: {
+        versionNumber: 'desc',
+      },
+    })
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching asset versions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/assets/[id]/versions - Upload a new revision, optionally carrying open annotations forward
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: assetId } = await params
+
+    const access = await authorizeAsset(session.user.id, assetId, 'asset:update')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
+    }
+
+    const asset = await prisma.asset.findUnique({
+      where: { id: assetId },
+      include: {
+        project: { select: { organizationId: true } },
+      },
+    })
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    if (!isVersionedAssetType(asset.type)) {
+      return NextResponse.json({ error: 'Only image and PDF assets can have versions' }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const notes = formData.get('notes')
+    const carryForward = formData.get('carryForward') === 'true'
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (!ALLOWED_TYPES.includes(file.type) || !isCompatibleVersionFile(asset.type, file.type)) {
+      return NextResponse.json(
+        { error: asset.type === 'PDF' ? 'New versions of a PDF must be PDFs' : 'New versions of an image must be images' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File too large. Maximum size is 10MB.' }, { status: 400 })
+    }
+
+    const storageCheck = await checkStorageLimit(asset.project.organizationId, file.size)
+    if (!storageCheck.canUpload) {
+      return storageLimitReached(storageCheck)
+    }
+
+    const stored = await uploadFile('assets', file, file.type, { projectId: asset.projectId })
+
+    const createVersion = () => prisma.$transaction(async (tx) => {
+      const previousVersion = await tx.assetVersion.findFirst({
+        where: { assetId },
+        orderBy: { versionNumber: 'desc' },
+      })
+
+      // Assets created before versioning get their original file recorded as v1
+      let baseVersion = previousVersion
+      if (!baseVersion) {
+        baseVersion = await tx.assetVersion.create({
+          data: {
+            assetId,
+            versionNumber: 1,
+            url: asset.url,
+            pageCount: asset.pageCount,
+            createdAt: asset.createdAt,
+          },
+        })
+        await tx.annotation.updateMany({
+          where: { assetId, versionId: null },
+          data: { versionId: baseVersion.id, originVersionId: baseVersion.id },
+        })
+      }
+
+      const version = await tx.assetVersion.create({
+        data: {
+          assetId,
+          versionNumber: baseVersion.versionNumber + 1,
+          url: stored.url,
+          notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+          uploadedById: session.user!.id,
+        },
+      })
+
+      await tx.asset.update({
+        where: { id: assetId },
+        data: {
+          url: stored.url,
+          pageCount: null,
+        },
+      })
+
+      // Open annotations move to the new version but remember where they were made
+      const carried = carryForward
+        ? await tx.annotation.updateMany({
+            where: {
+              assetId,
+              versionId: baseVersion.id,
+              status: 'OPEN',
+            },
+            data: { versionId: version.id },
+          })
+        : { count: 0 }
+
+      return { version, carriedForward: carried.count }
+    })
+
+    let result: Awaited<ReturnType<typeof createVersion>> | null = null
+    for (let attempt = 1; result === null; attempt++) {
+      try {
+        result = await createVersion()
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+        if (attempt >= MAX_VERSION_ATTEMPTS) {
+          return NextResponse.json(
+            { error: 'Another version was uploaded at the same time. Please try again.' },
+            { status: 409 }
+          )
+        }
+      }
+    }
+
+    return NextResponse.json(
+      {
+        version: result.version,
+        carriedForward: result.carriedForward,
+        message: 'Version uploaded successfully',
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error uploading asset version:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { del } from '@vercel/blob'
+import { accessDenied, authorizeAnnotation, authorizeReply } from '@/lib/permissions'
+import { deleteStoredFile } from '@/lib/storage'
+
+// Attachments inherit access from the annotation or reply they belong to
+async function authorizeAttachment(
+  userId: string,
+  attachment: { annotationId: string | null; replyId: string | null },
+  mode: 'view' | 'update'
+) {
+  if (attachment.annotationId) {
+    return authorizeAnnotation(userId, attachment.annotationId, mode === 'view' ? 'project:view' : 'annotation:update')
+  }
+  if (attachment.replyId) {
+    return authorizeReply(userId, attachment.replyId, mode === 'view' ? 'project:view' : 'reply:update')
+  }
+  return { ok: false as const, status: 404 as const }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -15,58 +31,23 @@ export async function DELETE(
 
     const { id } = await params
 
-    // Find the attachment and verify user has permission to delete it
-    const attachment = await prisma.attachment.findFirst({
-      where: {
-        id,
-        OR: [
-          // User owns the annotation
-          {
-            annotation: {
-              authorId: session.user.id
-            }
-          },
-          // User owns the reply
-          {
-            reply: {
-              authorId: session.user.id
-            }
-          },
-          // User owns the project
-          {
-            annotation: {
-              asset: {
-                project: {
-                  ownerId: session.user.id
-                }
-              }
-            }
-          },
-          // User owns the project (through reply)
-          {
-            reply: {
-              annotation: {
-                asset: {
-                  project: {
-                    ownerId: session.user.id
-                  }
-                }
-              }
-            }
-          }
-        ]
-      }
+    const attachment = await prisma.attachment.findUnique({
+      where: { id }
     })
 
     if (!attachment) {
       return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
     }
 
-    // Delete from Vercel Blob
+    const access = await authorizeAttachment(session.user.id, attachment, 'update')
+    if (!access.ok) {
+      return accessDenied(access, 'Attachment not found')
+    }
+
     try {
-      await del(attachment.url)
-    } catch (blobError) {
-      console.warn('Failed to delete blob:', blobError)
+      await deleteStoredFile(attachment.url)
+    } catch (storageError) {
+      console.warn('Failed to delete stored file:', storageError)
       // Continue with database deletion even if blob deletion fails
     }
 
@@ -97,50 +78,19 @@ export async function GET(
 
     const { id } = await params
 
-    const attachment = await prisma.attachment.findFirst({
-      where: {
-        id,
-        OR: [
-          // User has access through annotation
-          {
-            annotation: {
-              OR: [
-                { authorId: session.user.id },
-                {
-                  asset: {
-                    project: {
-                      ownerId: session.user.id
-                    }
-                  }
-                }
-              ]
-            }
-          },
-          // User has access through reply
-          {
-            reply: {
-              OR: [
-                { authorId: session.user.id },
-                {
-                  annotation: {
-                    asset: {
-                      project: {
-                        ownerId: session.user.id
-                      }
-                    }
-                  }
-                }
-              ]
-            }
-          }
-        ]
-      }
+    const attachment = await prisma.attachment.findUnique({
+      where: { id }
     })
 
     if (!attachment) {
       return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
     }
 
+    const access = await authorizeAttachment(session.user.id, attachment, 'view')
+    if (!access.ok) {
+      return accessDenied(access, 'Attachment not found')
+    }
+
     return NextResponse.json(attachment)
   } catch (error) {
     console.error('Error fetching attachment:', error)
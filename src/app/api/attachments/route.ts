@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAnnotation, authorizeReply } from '@/lib/permissions'
+import { claimProjectFiles, fileNotInProject } from '@/lib/file-access'
 import { z } from 'zod'
 
 const createAttachmentSchema = z.object({
@@ -22,50 +24,27 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createAttachmentSchema.parse(body)
 
-    // Verify user has access to the annotation or reply
+    // Attaching files counts as editing the annotation or reply
+    const projectIds = new Set<string>()
     if (validatedData.annotationId) {
-      const annotation = await prisma.annotation.findFirst({
-        where: {
-          id: validatedData.annotationId,
-          OR: [
-            { authorId: session.user.id },
-            {
-              asset: {
-                project: {
-                  ownerId: session.user.id
-                }
-              }
-            }
-          ]
-        }
-      })
-
-      if (!annotation) {
-        return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
+      const access = await authorizeAnnotation(session.user.id, validatedData.annotationId, 'annotation:update')
+      if (!access.ok) {
+        return accessDenied(access, 'Annotation not found')
       }
+      projectIds.add(access.projectId)
     }
 
     if (validatedData.replyId) {
-      const reply = await prisma.reply.findFirst({
-        where: {
-          id: validatedData.replyId,
-          OR: [
-            { authorId: session.user.id },
-            {
-              annotation: {
-                asset: {
-                  project: {
-                    ownerId: session.user.id
-                  }
-                }
-              }
-            }
-          ]
-        }
-      })
+      const access = await authorizeReply(session.user.id, validatedData.replyId, 'reply:update')
+      if (!access.ok) {
+        return accessDenied(access, 'Reply not found')
+      }
+      projectIds.add(access.projectId)
+    }
 
-      if (!reply) {
-        return NextResponse.json({ error: 'Reply not found' }, { status: 404 })
+    for (const projectId of projectIds) {
+      if (!await claimProjectFiles(projectId, [validatedData.url])) {
+        return fileNotInProject()
       }
     }
 
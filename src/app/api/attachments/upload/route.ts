@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { put } from '@vercel/blob'
 import { auth } from '@/lib/auth'
+import { uploadFile } from '@/lib/storage'
+import { checkStorageLimit, storageLimitReached } from '@/lib/subscription-limits'
+import { getCurrentWorkspace } from '@/lib/workspaces'
 
 const ALLOWED_FILE_TYPES = [
   'image/jpeg',
@@ -49,20 +51,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }, { status: 400 })
     }
 
-    // Generate unique filename
-    const timestamp = Date.now()
-    const randomString = Math.random().toString(36).substring(2, 15)
-    const extension = file.name.split('.').pop()
-    const filename = `${timestamp}-${randomString}.${extension}`
-    
-    // Upload to Vercel Blob
-    const blob = await put(`attachments/${filename}`, file, {
-      access: 'public',
-    })
+    // The project isn't known until the attachment is sent, so count against the workspace being worked in
+    const workspace = await getCurrentWorkspace(session.user.id)
+    const storageCheck = await checkStorageLimit(workspace.id, file.size)
+    if (!storageCheck.canUpload) {
+      return storageLimitReached(storageCheck)
+    }
+
+    const stored = await uploadFile('attachments', file, file.type)
 
     return NextResponse.json({
-      id: blob.url,
-      url: blob.url,
+      id: stored.url,
+      url: stored.url,
+      previewUrl: stored.signedUrl,
       filename: file.name,
       mimeType: file.type,
       size: file.size
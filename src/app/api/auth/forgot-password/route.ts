@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requestPasswordReset } from '@/lib/password-reset'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { normalizeEmail } from '@/lib/invitations'
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+})
+
+// POST /api/auth/forgot-password - Email a password reset link, if an account uses the address
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email } = forgotPasswordSchema.parse(body)
+
+    const limit = await checkRateLimit('password-reset', { ip: getClientIp(request), user: normalizeEmail(email) })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    await requestPasswordReset(email)
+
+    // The same answer whether or not the account exists
+    return NextResponse.json({
+      message: 'If an account uses that address, a link to reset its password is on its way.',
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
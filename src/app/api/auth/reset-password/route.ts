@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { PASSWORD_RESET_FAILURE_MESSAGES, resetPassword } from '@/lib/password-reset'
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+})
+
+// POST /api/auth/reset-password - Choose a new password with the link from the reset email
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, password } = resetPasswordSchema.parse(body)
+
+    const result = await resetPassword(token, password)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: PASSWORD_RESET_FAILURE_MESSAGES[result.reason], reason: result.reason },
+        { status: result.reason === 'expired' ? 410 : 400 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Password updated', email: result.email })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
+import { createWorkspace, getPersonalWorkspaceName } from "@/lib/workspaces";
+import { convertGuestContributionsIfAllowed, sendVerificationEmail } from "@/lib/email-verification";
 
 const signupSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -29,15 +31,22 @@ export async function POST(request: NextRequest) {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12);
 
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        name,
-        email,
-        password: hashedPassword,
-      },
+    // Create user along with their personal workspace
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          name,
+          email,
+          password: hashedPassword,
+        },
+      });
+      await createWorkspace(created.id, getPersonalWorkspaceName(created), tx);
+      return created;
     });
 
+    await sendVerificationEmail(user);
+    await convertGuestContributionsIfAllowed(user);
+
     // Remove password from response
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { password: _password, ...userWithoutPassword } = user;
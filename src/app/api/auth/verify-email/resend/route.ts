@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { sendVerificationEmail } from '@/lib/email-verification'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+
+// POST /api/auth/verify-email/resend - Email the signed-in user a new verification link
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, emailVerified: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json({ error: 'Your email address is already verified' }, { status: 409 })
+    }
+
+    const limit = await checkRateLimit('verification-email', { ip: getClientIp(request), user: user.id })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    const sent = await sendVerificationEmail(user)
+    if (!sent) {
+      return NextResponse.json({ error: 'Failed to send verification email' }, { status: 502 })
+    }
+
+    return NextResponse.json({ message: 'Verification email sent' })
+  } catch (error) {
+    console.error('Error resending verification email:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { VERIFICATION_FAILURE_MESSAGES, verifyEmail } from '@/lib/email-verification'
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+})
+
+// POST /api/auth/verify-email - Confirm an email address with the link from the verification email
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token } = verifyEmailSchema.parse(body)
+
+    const result = await verifyEmail(token)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: VERIFICATION_FAILURE_MESSAGES[result.reason], reason: result.reason },
+        { status: result.reason === 'expired' ? 410 : 400 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Email verified' })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error verifying email:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sendDueDigests } from '@/lib/notification-digests'
+import { verifyCronRequest } from '@/lib/cron'
+
+// GET /api/cron/digests - Email hourly, daily and weekly digests (scheduled in vercel.json)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await sendDueDigests()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error sending notification digests:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { purgeExpiredIdempotencyKeys } from '@/lib/api-v1'
+import { verifyCronRequest } from '@/lib/cron'
+
+// GET /api/cron/idempotency-keys - Delete idempotency keys past their replay window (scheduled in vercel.json)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const deleted = await purgeExpiredIdempotencyKeys()
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    console.error('Error purging idempotency keys:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processScreenshotJobs, pruneScreenshotJobs } from '@/lib/screenshot-jobs'
+import { verifyCronRequest } from '@/lib/cron'
+
+// GET /api/cron/screenshots - Retry due screenshot captures and prune finished jobs (scheduled in vercel.json)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    // Captures are slow, so each run takes a few and leaves the rest to the next one
+    const result = await processScreenshotJobs({ limit: 5 })
+    const pruned = await pruneScreenshotJobs()
+    return NextResponse.json({ ...result, pruned })
+  } catch (error) {
+    console.error('Error processing screenshot jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
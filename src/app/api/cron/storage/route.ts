@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reconcileStorage } from '@/lib/storage-reconciliation'
+import { verifyCronRequest } from '@/lib/cron'
+
+// GET /api/cron/storage - Count stored files towards their projects and delete orphaned ones (scheduled in vercel.json)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await reconcileStorage()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error reconciling storage:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
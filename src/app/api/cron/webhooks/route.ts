@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processWebhookDeliveries } from '@/lib/webhooks'
+import { verifyCronRequest } from '@/lib/cron'
+
+// GET /api/cron/webhooks - Retry due webhook deliveries (scheduled in vercel.json)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processWebhookDeliveries({ limit: 100 })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error processing webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
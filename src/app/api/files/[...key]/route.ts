@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { resolveShareLink, shareLinkDenied } from '@/lib/share-links'
+import { findFileReference } from '@/lib/file-access'
+import {
+  getFileUrl,
+  getStorage,
+  signFileUrl,
+  storedFileHeaders,
+  verifyFileSignature,
+} from '@/lib/storage'
+
+// Short enough that a leaked link soon stops working, long enough for a viewing session
+const FILE_URL_TTL_SECONDS = 10 * 60
+
+// GET /api/files/[...key] - Send a viewer of the file's project on to a short-lived signed URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key: segments } = await params
+    const key = segments.join('/')
+    const { searchParams } = request.nextUrl
+
+    // Signed URLs from exports and the API carry their own access
+    const signature = searchParams.get('signature')
+    if (signature) {
+      if (!verifyFileSignature(key, searchParams.get('expires'), signature)) {
+        return NextResponse.json({ error: 'This link has expired' }, { status: 403 })
+      }
+    } else {
+      const reference = await findFileReference(key)
+      if (!reference) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 })
+      }
+
+      const guestToken = searchParams.get('guestToken')
+      const session = guestToken ? null : await auth()
+      if (session?.user?.id) {
+        const access = await authorizeProject(session.user.id, reference.projectId, 'project:view')
+        if (!access.ok) return accessDenied(access, 'File not found')
+      } else if (guestToken) {
+        const shareLink = await resolveShareLink(guestToken, { assetId: reference.assetId, permission: 'share:view' })
+        if (!shareLink.ok) return shareLinkDenied(shareLink)
+      } else {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+    }
+
+    const storage = getStorage()
+    const signedUrl = await storage.getSignedUrl(key, FILE_URL_TTL_SECONDS)
+
+    if (searchParams.get('as') === 'json') {
+      return NextResponse.json({
+        // Stores that can't sign are read through this route with a URL signed by the app instead
+        url: signedUrl ?? signFileUrl(getFileUrl(key), FILE_URL_TTL_SECONDS),
+        expiresAt: new Date(Date.now() + FILE_URL_TTL_SECONDS * 1000).toISOString(),
+      }, {
+        headers: { 'Cache-Control': 'private, no-store' },
+      })
+    }
+
+    if (signedUrl) {
+      const response = NextResponse.redirect(signedUrl, 302)
+      response.headers.set('Cache-Control', 'private, no-store')
+      return response
+    }
+
+    const file = await storage.read(key)
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: storedFileHeaders(key, file.length, `private, max-age=${FILE_URL_TTL_SECONDS}`),
+    })
+  } catch (error) {
+    console.error('Error serving file:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createGuestChallenge } from '@/lib/guest-challenge'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { widgetPreflightResponse, withWidgetCors } from '@/lib/widget-cors'
+
+// GET /api/guest-challenge - Proof-of-work challenge for a guest submission, or null when not required
+async function getGuestChallenge(request: NextRequest) {
+  try {
+    const limit = await checkRateLimit('guest-challenge', { ip: getClientIp(request) })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    const challenge = createGuestChallenge()
+    const response = NextResponse.json(challenge ?? { challenge: null, difficulty: 0 })
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  } catch (error) {
+    console.error('Error creating guest challenge:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return withWidgetCors(request, await getGuestChallenge(request))
+}
+
+// Preflight for the embeddable feedback widget
+export async function OPTIONS(request: NextRequest) {
+  return widgetPreflightResponse(request)
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getHealthCheckData } from '@/lib/deployment'
+import { getStorage } from '@/lib/storage'
 
 export async function GET() {
   try {
@@ -19,7 +20,7 @@ export async function GET() {
       },
       services: {
         database: 'healthy',
-        blob_storage: process.env.BLOB_READ_WRITE_TOKEN ? 'configured' : 'not_configured',
+        storage: getStorage().name,
         realtime: process.env.PUSHER_APP_ID ? 'configured' : 'not_configured',
         auth: 'healthy'
       }
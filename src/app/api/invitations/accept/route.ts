@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { INVITATION_FAILURE_MESSAGES, acceptInvitation, type InvitationFailure } from '@/lib/invitations'
+import { z } from 'zod'
+
+const failureStatus: Record<InvitationFailure, number> = {
+  invalid: 404,
+  expired: 410,
+  revoked: 410,
+  accepted: 409,
+  'email-mismatch': 403,
+  'email-unverified': 403,
+}
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+})
+
+// POST /api/invitations/accept - Join the project an invitation link was for
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { token } = acceptInvitationSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, emailVerified: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await acceptInvitation(token, user)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: INVITATION_FAILURE_MESSAGES[result.reason], reason: result.reason },
+        { status: failureStatus[result.reason] }
+      )
+    }
+
+    return NextResponse.json({ projectId: result.projectId, role: result.role })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject, projectMemberWhere } from '@/lib/permissions'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notification-preferences'
+
+const frequencySchema = z.enum(['INSTANT', 'HOURLY', 'DAILY', 'WEEKLY', 'OFF'])
+
+const updatePreferencesSchema = z.object({
+  projectId: z.string(),
+  preferences: z.object({
+    mention: frequencySchema.optional(),
+    reply: frequencySchema.optional(),
+    newAnnotation: frequencySchema.optional(),
+    resolved: frequencySchema.optional(),
+  }),
+})
+
+// GET /api/notification-preferences - Effective preferences for every project the user belongs to
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const projects = await prisma.project.findMany({
+      where: projectMemberWhere(session.user.id),
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    })
+
+    const preferences = await getNotificationPreferences(session.user.id, projects.map(project => project.id))
+
+    return NextResponse.json({
+      defaults: DEFAULT_NOTIFICATION_PREFERENCES,
+      projects: projects.map(project => ({
+        projectId: project.id,
+        projectName: project.name,
+        preferences: preferences.get(project.id),
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/notification-preferences - Change how often the user hears about activity on one project
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { projectId, preferences } = updatePreferencesSchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const updated = await updateNotificationPreferences(session.user.id, projectId, preferences)
+
+    return NextResponse.json({ projectId, preferences: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
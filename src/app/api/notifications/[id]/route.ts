@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { RealtimeService } from '@/lib/realtime'
+import { getUnreadNotificationCount, notificationInclude } from '@/lib/notifications'
+
+const updateNotificationSchema = z.object({
+  read: z.boolean().optional(),
+  archived: z.boolean().optional(),
+})
+
+// PATCH /api/notifications/[id] - Mark read/unread or archive/unarchive
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: notificationId } = await params
+    const body = await request.json()
+    const { read, archived } = updateNotificationSchema.parse(body)
+
+    const existingNotification = await prisma.notification.findFirst({
+      where: {
+        id: notificationId,
+        userId: session.user.id,
+      },
+    })
+
+    if (!existingNotification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 })
+    }
+
+    const now = new Date()
+    const notification = await prisma.notification.update({
+      where: { id: notificationId },
+      data: {
+        ...(read !== undefined ? { readAt: read ? existingNotification.readAt ?? now : null } : {}),
+        ...(archived !== undefined ? { archivedAt: archived ? existingNotification.archivedAt ?? now : null } : {}),
+      },
+      include: notificationInclude,
+    })
+
+    // Keep the badge in other tabs in sync
+    const unreadCount = await getUnreadNotificationCount(session.user.id)
+    await RealtimeService.broadcastNotificationsRead(session.user.id, [notificationId], unreadCount)
+
+    return NextResponse.json({ notification, unreadCount })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating notification:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
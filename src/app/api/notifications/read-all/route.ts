@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { markNotificationsRead } from '@/lib/notifications'
+
+// POST /api/notifications/read-all - Mark every unread notification as read
+export async function POST() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await markNotificationsRead(session.user.id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error marking notifications read:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotificationType, Prisma } from '@prisma/client'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getUnreadNotificationCount, notificationInclude } from '@/lib/notifications'
+
+const NOTIFICATION_TYPES = Object.values(NotificationType)
+
+// GET /api/notifications - The signed-in user's notifications, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const filter = searchParams.get('filter') || 'inbox' // inbox, unread, archived
+    const type = searchParams.get('type')
+    const cursor = searchParams.get('cursor')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+
+    if (!['inbox', 'unread', 'archived'].includes(filter)) {
+      return NextResponse.json({ error: 'Invalid filter' }, { status: 400 })
+    }
+
+    if (type && !NOTIFICATION_TYPES.includes(type as NotificationType)) {
+      return NextResponse.json({ error: 'Invalid notification type' }, { status: 400 })
+    }
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: session.user.id,
+      archivedAt: filter === 'archived' ? { not: null } : null,
+      ...(filter === 'unread' ? { readAt: null } : {}),
+      ...(type ? { type: type as NotificationType } : {}),
+    }
+
+    const notifications = await prisma.notification.findMany({
+      where,
+      include: notificationInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    const hasMore = notifications.length > limit
+    const page = hasMore ? notifications.slice(0, limit) : notifications
+
+    return NextResponse.json({
+      notifications: page,
+      unreadCount: await getUnreadNotificationCount(session.user.id),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getUnreadNotificationCount } from '@/lib/notifications'
+
+// GET /api/notifications/unread-count - Badge count for the header
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const count = await getUnreadNotificationCount(session.user.id)
+
+    return NextResponse.json({ count })
+  } catch (error) {
+    console.error('Error fetching unread notification count:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
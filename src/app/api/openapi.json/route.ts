@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { generateOpenApiDocument } from '@/lib/openapi'
+
+// GET /api/openapi.json - OpenAPI document for the API
+export async function GET() {
+  try {
+    return NextResponse.json(generateOpenApiDocument(), {
+      headers: { 'Access-Control-Allow-Origin': '*' },
+    })
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
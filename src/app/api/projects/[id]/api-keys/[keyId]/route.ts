@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { revokeApiToken } from '@/lib/api-tokens'
+
+// DELETE /api/projects/[id]/api-keys/[keyId] - Revoke a project API key
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, keyId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-api-keys')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    if (!(await revokeApiToken(keyId, { projectId }))) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { API_TOKEN_SCOPES, PROJECT_API_KEY_SCOPES, apiTokenSelect, createApiToken } from '@/lib/api-tokens'
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Key name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES))
+    .min(1, 'Choose at least one scope')
+    .refine((scopes) => scopes.every((scope) => PROJECT_API_KEY_SCOPES.includes(scope)), {
+      message: 'Project API keys cannot create projects',
+    }),
+  expiresAt: z.coerce.date().optional(),
+}).refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+  path: ['expiresAt'],
+  message: 'Expiry must be in the future',
+})
+
+// GET /api/projects/[id]/api-keys - API keys limited to this project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-api-keys')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const apiKeys = await prisma.apiToken.findMany({
+      where: { projectId },
+      select: apiTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ apiKeys })
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/api-keys - Create a project API key, shown in full only in this response
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const data = createApiKeySchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-api-keys')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const { apiToken, token } = await createApiToken({ ...data, userId: session.user.id, projectId })
+
+    return NextResponse.json({ apiKey: apiToken, secret: token }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
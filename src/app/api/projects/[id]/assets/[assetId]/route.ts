@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAsset } from '@/lib/permissions'
+import { z } from 'zod'
+import { updateAssetSchema } from '@/lib/api-schemas'
 
 export async function GET(
   request: NextRequest,
@@ -14,13 +17,15 @@ export async function GET(
 
     const { id: projectId, assetId } = await params
 
+    const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
+    }
+
     const asset = await prisma.asset.findFirst({
       where: {
         id: assetId,
         projectId,
-        project: {
-          ownerId: session.user.id,
-        },
       },
       include: {
         project: {
@@ -46,6 +51,93 @@ export async function GET(
   }
 }
 
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; assetId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, assetId } = await params
+    const body = await request.json()
+    const validatedData = updateAssetSchema.parse(body)
+
+    // Any member who opens the PDF can record its page count
+    const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
+    }
+
+    const asset = await prisma.asset.findFirst({
+      where: {
+        id: assetId,
+        projectId,
+      },
+    })
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    if (validatedData.pageCount !== undefined && asset.type !== 'PDF') {
+      return NextResponse.json({ error: 'Page count only applies to PDF assets' }, { status: 400 })
+    }
+
+    const { versionId, ...assetData } = validatedData
+    const latestVersion = await prisma.assetVersion.findFirst({
+      where: { assetId },
+      orderBy: { versionNumber: 'desc' },
+    })
+
+    if (versionId && versionId !== latestVersion?.id) {
+      // Older versions only update their own record
+      const version = await prisma.assetVersion.findFirst({
+        where: { id: versionId, assetId },
+      })
+      if (!version) {
+        return NextResponse.json({ error: 'Asset version not found' }, { status: 404 })
+      }
+      await prisma.assetVersion.update({
+        where: { id: versionId },
+        data: { pageCount: assetData.pageCount },
+      })
+      return NextResponse.json(asset)
+    }
+
+    if (latestVersion && assetData.pageCount !== undefined) {
+      await prisma.assetVersion.update({
+        where: { id: latestVersion.id },
+        data: { pageCount: assetData.pageCount },
+      })
+    }
+
+    const updatedAsset = await prisma.asset.update({
+      where: {
+        id: assetId,
+      },
+      data: assetData,
+    })
+
+    return NextResponse.json(updatedAsset)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating asset:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; assetId: string }> }
@@ -58,14 +150,15 @@ export async function DELETE(
 
     const { id: projectId, assetId } = await params
 
-    // Verify ownership
+    const access = await authorizeAsset(session.user.id, assetId, 'asset:delete')
+    if (!access.ok) {
+      return accessDenied(access, 'Asset not found')
+    }
+
     const asset = await prisma.asset.findFirst({
       where: {
         id: assetId,
         projectId,
-        project: {
-          ownerId: session.user.id,
-        },
       },
     })
 
@@ -1,14 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { put } from "@vercel/blob";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
-
-const createAssetSchema = z.object({
-  name: z.string().min(1, "Asset name is required").max(100, "Asset name must be less than 100 characters"),
-  type: z.enum(["IMAGE", "PDF", "URL"]),
-  url: z.string().url("Invalid URL").optional(),
-});
+import { accessDenied, authorizeProject } from "@/lib/permissions";
+import { createAssetSchema } from "@/lib/api-schemas";
+import { uploadFile } from "@/lib/storage";
+import { checkStorageLimit, storageLimitReached } from "@/lib/subscription-limits";
 
 // GET /api/projects/[id]/assets - Get all assets for a project
 export async function GET(
@@ -26,19 +23,9 @@ export async function GET(
       );
     }
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        ownerId: session.user.id,
-      },
-    });
-
-    if (!project) {
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
+    const access = await authorizeProject(session.user.id, projectId, "project:view");
+    if (!access.ok) {
+      return accessDenied(access, "Project not found");
     }
 
     const assets = await prisma.asset.findMany({
@@ -76,19 +63,9 @@ export async function POST(
       );
     }
 
-    // Verify project ownership
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        ownerId: session.user.id,
-      },
-    });
-
-    if (!project) {
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
+    const access = await authorizeProject(session.user.id, projectId, "asset:create");
+    if (!access.ok) {
+      return accessDenied(access, "Project not found");
     }
 
     const contentType = request.headers.get('content-type');
@@ -123,11 +100,12 @@ export async function POST(
         );
       }
 
-      // Upload to Vercel Blob
-      const blob = await put(file.name, file, {
-        access: 'public',
-        addRandomSuffix: true,
-      });
+      const storageCheck = await checkStorageLimit(access.organizationId, file.size);
+      if (!storageCheck.canUpload) {
+        return storageLimitReached(storageCheck);
+      }
+
+      const stored = await uploadFile('assets', file, file.type, { projectId });
 
       // Determine asset type
       const assetType = file.type === 'application/pdf' ? 'PDF' : 'IMAGE';
@@ -137,8 +115,15 @@ export async function POST(
         data: {
           name: file.name,
           type: assetType,
-          url: blob.url,
+          url: stored.url,
           projectId,
+          versions: {
+            create: {
+              versionNumber: 1,
+              url: stored.url,
+              uploadedById: session.user.id,
+            },
+          },
         },
       });
 
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
 import { z } from 'zod'
 
 const updateCollaboratorSchema = z.object({
-  role: z.enum(['OWNER', 'EDITOR']),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']),
 })
 
 export async function PATCH(
@@ -21,34 +22,23 @@ export async function PATCH(
     const body = await request.json()
     const { role } = updateCollaboratorSchema.parse(body)
 
-    // Verify user is project owner or admin
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        OR: [
-          { ownerId: session.user.id },
-          { 
-            collaborators: {
-              some: { 
-                userId: session.user.id,
-                role: 'OWNER'
-              }
-            }
-          }
-        ]
-      },
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const existing = await prisma.projectCollaborator.findFirst({
+      where: { id: collaboratorId, projectId },
+      select: { id: true },
     })
 
-    if (!project) {
-      return NextResponse.json({ error: 'Project not found or insufficient permissions' }, { status: 404 })
+    if (!existing) {
+      return NextResponse.json({ error: 'Collaborator not found' }, { status: 404 })
     }
 
     // Update collaborator role
     const collaborator = await prisma.projectCollaborator.update({
-      where: {
-        id: collaboratorId,
-        projectId,
-      },
+      where: { id: existing.id },
       data: { role },
       include: {
         user: {
@@ -107,28 +97,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Collaborator not found' }, { status: 404 })
     }
 
-    // Verify user is project owner, admin, or removing themselves
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        OR: [
-          { ownerId: session.user.id },
-          { 
-            collaborators: {
-              some: { 
-                userId: session.user.id,
-                role: 'OWNER'
-              }
-            }
-          }
-        ]
-      },
-    })
-
-    const canRemove = project || collaborator.userId === session.user.id
-
-    if (!canRemove) {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    // Members may always leave a project; removing others takes manage-members
+    if (collaborator.userId !== session.user.id) {
+      const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+      if (!access.ok) {
+        return accessDenied(access, 'Collaborator not found')
+      }
     }
 
     // Remove collaborator
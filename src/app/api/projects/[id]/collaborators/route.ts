@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { createInvitation, normalizeEmail } from '@/lib/invitations'
 import { z } from 'zod'
 
 const addCollaboratorSchema = z.object({
   email: z.string().email(),
-  role: z.enum(['OWNER', 'EDITOR']).default('EDITOR'),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).default('EDITOR'),
 })
 
 const updateCollaboratorSchema = z.object({
-  role: z.enum(['OWNER', 'EDITOR']),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']),
 })
 
 export async function GET(
@@ -24,26 +26,9 @@ export async function GET(
 
     const { id: projectId } = await params
 
-    // Verify user has access to this project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        OR: [
-          { ownerId: session.user.id },
-          { 
-            collaborators: {
-              some: { 
-                userId: session.user.id,
-                role: { in: ['OWNER', 'EDITOR'] }
-              }
-            }
-          }
-        ]
-      },
-    })
-
-    if (!project) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    const access = await authorizeProject(session.user.id, projectId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
     }
 
     const collaborators = await prisma.projectCollaborator.findMany({
@@ -65,7 +50,7 @@ export async function GET(
 
     // Include project owner
     const owner = await prisma.user.findUnique({
-      where: { id: project.ownerId },
+      where: { id: access.ownerId },
       select: {
         id: true,
         name: true,
@@ -107,31 +92,14 @@ export async function POST(
     const body = await request.json()
     const { email, role } = addCollaboratorSchema.parse(body)
 
-    // Verify user is project owner or admin
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        OR: [
-          { ownerId: session.user.id },
-          { 
-            collaborators: {
-              some: { 
-                userId: session.user.id,
-                role: 'OWNER'
-              }
-            }
-          }
-        ]
-      },
-    })
-
-    if (!project) {
-      return NextResponse.json({ error: 'Project not found or insufficient permissions' }, { status: 404 })
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
     }
 
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email },
+    // Find user by email, however its case was typed
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: normalizeEmail(email), mode: 'insensitive' } },
       select: {
         id: true,
         name: true,
@@ -140,8 +108,15 @@ export async function POST(
       }
     })
 
+    // No account yet: email them an invitation instead
     if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      const invitation = await createInvitation({
+        projectId,
+        email,
+        role,
+        invitedById: session.user.id,
+      })
+      return NextResponse.json({ invitation }, { status: 202 })
     }
 
     // Check if user is already a collaborator
@@ -159,7 +134,7 @@ export async function POST(
     }
 
     // Check if user is the project owner
-    if (user.id === project.ownerId) {
+    if (user.id === access.ownerId) {
       return NextResponse.json({ error: 'Cannot add project owner as collaborator' }, { status: 400 })
     }
 
@@ -182,9 +157,6 @@ export async function POST(
       }
     })
 
-    // TODO: Send invitation email
-    console.log(`Collaborator added: ${user.email} to project ${projectId} with role ${role}`)
-
     return NextResponse.json({
       id: collaborator.id,
       role: collaborator.role,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { INVITATION_RESEND_COOLDOWN_MS, resendInvitation } from '@/lib/invitations'
+
+// POST /api/projects/[id]/invitations/[invitationId]/resend - Email a fresh link, extending the expiry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, invitationId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const existing = await prisma.projectInvitation.findFirst({
+      where: {
+        id: invitationId,
+        projectId,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    const invitation = await resendInvitation(invitationId)
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'This invitation was sent moments ago. Please wait before resending.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(INVITATION_RESEND_COOLDOWN_MS / 1000) },
+        }
+      )
+    }
+
+    return NextResponse.json({ invitation })
+  } catch (error) {
+    console.error('Error resending invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
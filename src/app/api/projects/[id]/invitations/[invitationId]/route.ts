@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+
+// DELETE /api/projects/[id]/invitations/[invitationId] - Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, invitationId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const { count } = await prisma.projectInvitation.updateMany({
+      where: {
+        id: invitationId,
+        projectId,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
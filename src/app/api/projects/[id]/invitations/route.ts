@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { createInvitation, invitationSelect, normalizeEmail } from '@/lib/invitations'
+import { z } from 'zod'
+
+const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).default('EDITOR'),
+})
+
+// GET /api/projects/[id]/invitations - Invitations that haven't been accepted or revoked
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const invitations = await prisma.projectInvitation.findMany({
+      where: {
+        projectId,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ invitations })
+  } catch (error) {
+    console.error('Error fetching invitations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/invitations - Invite an email address, with or without an account
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { email, role } = createInvitationSchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const existingMember = await prisma.user.findFirst({
+      where: {
+        email: { equals: normalizeEmail(email), mode: 'insensitive' },
+        OR: [
+          { id: access.ownerId },
+          { collaborators: { some: { projectId } } },
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (existingMember) {
+      return NextResponse.json({ error: 'User is already a member of this project' }, { status: 400 })
+    }
+
+    const invitation = await createInvitation({
+      projectId,
+      email,
+      role,
+      invitedById: session.user.id,
+    })
+
+    return NextResponse.json({ invitation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating invitation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
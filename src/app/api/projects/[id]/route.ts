@@ -2,11 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
-
-const updateProjectSchema = z.object({
-    name: z.string().min(1, "Project name is required").max(100, "Project name must be less than 100 characters").optional(),
-    description: z.string().max(500, "Description must be less than 500 characters").optional(),
-});
+import { accessDenied, authorizeProject } from "@/lib/permissions";
+import { updateProjectSchema } from "@/lib/api-schemas";
 
 // GET /api/projects/[id] - Get a specific project
 export async function GET(
@@ -24,11 +21,13 @@ export async function GET(
             );
         }
 
-        const project = await prisma.project.findFirst({
-            where: {
-                id,
-                ownerId: session.user.id,
-            },
+        const access = await authorizeProject(session.user.id, id, "project:view");
+        if (!access.ok) {
+            return accessDenied(access, "Project not found");
+        }
+
+        const project = await prisma.project.findUnique({
+            where: { id },
             include: {
                 assets: {
                     orderBy: {
@@ -50,7 +49,7 @@ export async function GET(
             );
         }
 
-        return NextResponse.json({ project });
+        return NextResponse.json({ project: { ...project, role: access.role } });
     } catch (error) {
         console.error("Error fetching project:", error);
         return NextResponse.json(
@@ -79,19 +78,9 @@ export async function PUT(
         const body = await request.json();
         const updateData = updateProjectSchema.parse(body);
 
-        // Check if project exists and user owns it
-        const existingProject = await prisma.project.findFirst({
-            where: {
-                id,
-                ownerId: session.user.id,
-            },
-        });
-
-        if (!existingProject) {
-            return NextResponse.json(
-                { error: "Project not found" },
-                { status: 404 }
-            );
+        const access = await authorizeProject(session.user.id, id, "project:update");
+        if (!access.ok) {
+            return accessDenied(access, "Project not found");
         }
 
         const project = await prisma.project.update({
@@ -141,19 +130,9 @@ export async function DELETE(
             );
         }
 
-        // Check if project exists and user owns it
-        const existingProject = await prisma.project.findFirst({
-            where: {
-                id,
-                ownerId: session.user.id,
-            },
-        });
-
-        if (!existingProject) {
-            return NextResponse.json(
-                { error: "Project not found" },
-                { status: 404 }
-            );
+        const access = await authorizeProject(session.user.id, id, "project:delete");
+        if (!access.ok) {
+            return accessDenied(access, "Project not found");
         }
 
         await prisma.project.delete({
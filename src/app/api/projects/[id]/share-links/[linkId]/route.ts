@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import { hashSharePassword, serializeShareLink, shareLinkSelect } from '@/lib/share-links'
+import { z } from 'zod'
+
+const updateShareLinkSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  scope: z.enum(['PROJECT', 'ASSETS']).optional(),
+  assetIds: z.array(z.string()).max(500).optional(),
+  canComment: z.boolean().optional(),
+  canReply: z.boolean().optional(),
+  canUpload: z.boolean().optional(),
+  // null removes the password or expiry
+  password: z.string().min(4).max(128).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+})
+
+// PATCH /api/projects/[id]/share-links/[linkId] - Change a link's scope, permissions, password or expiry
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, linkId } = await params
+    const body = await request.json()
+    const { assetIds, password, ...data } = updateShareLinkSchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-sharing')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const existing = await prisma.shareLink.findFirst({
+      where: { id: linkId, projectId },
+      select: { scope: true, revokedAt: true, _count: { select: { assets: true } } },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: 'Revoked links cannot be changed' }, { status: 409 })
+    }
+
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      return NextResponse.json({ error: 'Expiry must be in the future' }, { status: 400 })
+    }
+
+    const scope = data.scope ?? existing.scope
+    const scopedAssetIds = assetIds ? [...new Set(assetIds)] : undefined
+    if (scope === 'ASSETS' && (scopedAssetIds ? scopedAssetIds.length === 0 : existing._count.assets === 0)) {
+      return NextResponse.json({ error: 'Choose at least one asset' }, { status: 400 })
+    }
+
+    if (scopedAssetIds && scopedAssetIds.length > 0) {
+      const count = await prisma.asset.count({
+        where: { id: { in: scopedAssetIds }, projectId },
+      })
+      if (count !== scopedAssetIds.length) {
+        return NextResponse.json({ error: 'Some assets are not in this project' }, { status: 400 })
+      }
+    }
+
+    const link = await prisma.shareLink.update({
+      where: { id: linkId },
+      data: {
+        ...data,
+        ...(password !== undefined && {
+          passwordHash: password === null ? null : await hashSharePassword(password),
+        }),
+        // Switching to PROJECT scope drops any asset list
+        ...((scopedAssetIds || scope === 'PROJECT') && {
+          assets: {
+            deleteMany: {},
+            create: scope === 'ASSETS' ? (scopedAssetIds ?? []).map((assetId) => ({ assetId })) : [],
+          },
+        }),
+      },
+      select: shareLinkSelect,
+    })
+
+    return NextResponse.json({ shareLink: serializeShareLink(link) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating share link:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[id]/share-links/[linkId] - Revoke a link; its stats are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, linkId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-sharing')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const { count } = await prisma.shareLink.updateMany({
+      where: { id: linkId, projectId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking share link:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
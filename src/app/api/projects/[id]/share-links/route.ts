@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
+import {
+  generateShareLinkToken,
+  hashSharePassword,
+  serializeShareLink,
+  shareLinkSelect,
+} from '@/lib/share-links'
+import { z } from 'zod'
+
+const createShareLinkSchema = z.object({
+  name: z.string().trim().min(1, 'Link name is required').max(100),
+  scope: z.enum(['PROJECT', 'ASSETS']).default('PROJECT'),
+  assetIds: z.array(z.string()).max(500).default([]),
+  canComment: z.boolean().default(true),
+  canReply: z.boolean().default(true),
+  canUpload: z.boolean().default(false),
+  password: z.string().min(4).max(128).optional(),
+  expiresAt: z.coerce.date().optional(),
+}).refine((data) => data.scope === 'PROJECT' || data.assetIds.length > 0, {
+  path: ['assetIds'],
+  message: 'Choose at least one asset',
+}).refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+  path: ['expiresAt'],
+  message: 'Expiry must be in the future',
+})
+
+// GET /api/projects/[id]/share-links - Share links with their usage stats
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-sharing')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const links = await prisma.shareLink.findMany({
+      where: { projectId },
+      select: shareLinkSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ shareLinks: links.map(serializeShareLink) })
+  } catch (error) {
+    console.error('Error fetching share links:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[id]/share-links - Create a named guest link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { assetIds, password, ...data } = createShareLinkSchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-sharing')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    const scopedAssetIds = data.scope === 'ASSETS' ? [...new Set(assetIds)] : []
+    if (scopedAssetIds.length > 0) {
+      const count = await prisma.asset.count({
+        where: { id: { in: scopedAssetIds }, projectId },
+      })
+      if (count !== scopedAssetIds.length) {
+        return NextResponse.json({ error: 'Some assets are not in this project' }, { status: 400 })
+      }
+    }
+
+    const link = await prisma.shareLink.create({
+      data: {
+        ...data,
+        projectId,
+        token: generateShareLinkToken(),
+        passwordHash: password ? await hashSharePassword(password) : null,
+        createdById: session.user.id,
+        assets: {
+          create: scopedAssetIds.map((assetId) => ({ assetId })),
+        },
+      },
+      select: shareLinkSelect,
+    })
+
+    return NextResponse.json({ shareLink: serializeShareLink(link) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating share link:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
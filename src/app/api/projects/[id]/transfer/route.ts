@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject, authorizeWorkspace } from '@/lib/permissions'
+import { checkProjectLimit } from '@/lib/subscription-limits'
+import { z } from 'zod'
+
+const transferProjectSchema = z.object({
+  organizationId: z.string().min(1),
+})
+
+// POST /api/projects/[id]/transfer - Move a project to another workspace
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const body = await request.json()
+    const { organizationId } = transferProjectSchema.parse(body)
+
+    const access = await authorizeProject(session.user.id, projectId, 'project:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
+    }
+
+    // Moving a project takes it away from its workspace, which is for the workspace's admins to decide
+    const source = await authorizeWorkspace(session.user.id, access.organizationId, 'workspace:transfer-projects')
+    if (!source.ok) {
+      return NextResponse.json({ error: 'Only workspace admins can move projects out of a workspace' }, { status: 403 })
+    }
+
+    if (access.organizationId === organizationId) {
+      return NextResponse.json({ error: 'Project is already in this workspace' }, { status: 400 })
+    }
+
+    const target = await authorizeWorkspace(session.user.id, organizationId, 'workspace:create-project')
+    if (!target.ok) {
+      return accessDenied(target, 'Workspace not found')
+    }
+
+    const limitCheck = await checkProjectLimit(organizationId)
+    if (!limitCheck.canCreate) {
+      return NextResponse.json(
+        {
+          error: 'Project limit reached',
+          limit: limitCheck.limit,
+          currentCount: limitCheck.currentCount,
+          plan: limitCheck.plan,
+          upgradeRequired: true,
+        },
+        { status: 403 }
+      )
+    }
+
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: { organizationId },
+    })
+
+    return NextResponse.json({ project })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error transferring project:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
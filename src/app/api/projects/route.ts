@@ -3,11 +3,9 @@ import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/lib/auth";
 import { checkProjectLimit } from "@/lib/subscription-limits";
-
-const createProjectSchema = z.object({
-  name: z.string().min(1, "Project name is required").max(100, "Project name must be less than 100 characters"),
-  description: z.string().max(500, "Description must be less than 500 characters").optional(),
-});
+import { hasWorkspacePermission, projectAccessSelect, projectMemberWhere, resolveProjectRole } from "@/lib/permissions";
+import { getCurrentWorkspace } from "@/lib/workspaces";
+import { createProjectSchema } from "@/lib/api-schemas";
 
 // GET /api/projects - Get all projects for the authenticated user
 export async function GET() {
@@ -21,9 +19,22 @@ export async function GET() {
       );
     }
 
+    const userId = session.user.id;
+    const workspace = await getCurrentWorkspace(userId);
+    const { collaborators, organization } = projectAccessSelect(userId);
+
+    // Projects in the current workspace, plus ones shared directly from workspaces the user isn't in
     const projects = await prisma.project.findMany({
       where: {
-        ownerId: session.user.id,
+        AND: [
+          projectMemberWhere(userId),
+          {
+            OR: [
+              { organizationId: workspace.id },
+              { organization: { members: { none: { userId } } } },
+            ],
+          },
+        ],
       },
       include: {
         _count: {
@@ -31,13 +42,22 @@ export async function GET() {
             assets: true,
           },
         },
+        collaborators,
+        organization,
       },
       orderBy: {
         updatedAt: 'desc',
       },
     });
 
-    return NextResponse.json({ projects });
+    return NextResponse.json({
+      workspace,
+      projects: projects.map(({ collaborators, organization, ...project }) => ({
+        ...project,
+        role: resolveProjectRole(userId, { ...project, collaborators, organization }),
+        shared: project.organizationId !== workspace.id,
+      })),
+    });
   } catch (error) {
     console.error("Error fetching projects:", error);
     return NextResponse.json(
@@ -59,8 +79,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check project limit
-    const limitCheck = await checkProjectLimit(session.user.id);
+    const workspace = await getCurrentWorkspace(session.user.id);
+    if (!hasWorkspacePermission(workspace.role, "workspace:create-project")) {
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    // Check the workspace's project limit
+    const limitCheck = await checkProjectLimit(workspace.id);
     if (!limitCheck.canCreate) {
       return NextResponse.json(
         { 
@@ -82,6 +110,7 @@ export async function POST(request: NextRequest) {
         name,
         description,
         ownerId: session.user.id,
+        organizationId: workspace.id,
       },
       include: {
         _count: {
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeAsset } from '@/lib/permissions'
+import { resolveShareLink, shareLinkDenied } from '@/lib/share-links'
+import { BlockedAddressError, fetchPublicUrl } from '@/lib/outbound-requests'
+import { createSiteProxyToken, getSiteProxyOrigin, verifySiteProxyToken } from '@/lib/site-proxy-tokens'
+import {
+  allowsPrivateSites,
+  buildProxyUrl,
+  getProxiedHost,
+  isProxyableUrl,
+  PROXY_SANDBOX_POLICY,
+  ProxyRewriteContext,
+  rewriteCss,
+  rewriteHtml,
+  sanitizeProxyHeaders,
+} from '@/lib/site-proxy'
+
+const PROXY_TIMEOUT_MS = 20000
+
+function disallowedUrl() {
+  return NextResponse.json({ error: 'Invalid or disallowed URL' }, { status: 400 })
+}
+
+/**
+ * Where to send the browser for a proxied URL: on the proxy origin when there
+ * is one, else on the origin the request came in on
+ */
+function proxiedLocation(request: NextRequest, targetUrl: string, token: string): URL {
+  return new URL(buildProxyUrl(targetUrl, token), getSiteProxyOrigin() ?? request.url)
+}
+
+// GET /api/proxy?asset=...&url=...[&share=...] - Open a URL asset's site for a
+// signed-in viewer of it, or a guest whose share link includes it
+async function openSite(request: NextRequest, assetId: string, targetUrl: string, shareToken: string | null) {
+  if (shareToken) {
+    const link = await resolveShareLink(shareToken, { assetId, permission: 'share:view' })
+    if (!link.ok) return shareLinkDenied(link)
+  } else {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+    if (!access.ok) return accessDenied(access, 'Asset not found')
+  }
+
+  const asset = await prisma.asset.findUnique({
+    where: { id: assetId },
+    select: { id: true, type: true, url: true },
+  })
+  const host = asset?.type === 'URL' ? getProxiedHost(asset.url) : null
+  if (!asset || !host || getProxiedHost(targetUrl) !== host) {
+    return disallowedUrl()
+  }
+
+  return NextResponse.redirect(proxiedLocation(request, targetUrl, createSiteProxyToken(asset.id, host)))
+}
+
+// GET /api/proxy?url=...&token=... - Serve a page of the site the token is for
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const targetUrl = searchParams.get('url')
+
+    if (!targetUrl || !isProxyableUrl(targetUrl)) {
+      return disallowedUrl()
+    }
+
+    const token = searchParams.get('token')
+    if (!token) {
+      const assetId = searchParams.get('asset')
+      return assetId ? openSite(request, assetId, targetUrl, searchParams.get('share')) : disallowedUrl()
+    }
+
+    const grant = verifySiteProxyToken(token)
+    if (!grant) {
+      return NextResponse.json({ error: 'This preview has expired, reopen the asset' }, { status: 403 })
+    }
+    if (getProxiedHost(targetUrl) !== grant.host) {
+      return disallowedUrl()
+    }
+
+    // Pages are only ever served on the proxy origin when there is one
+    const proxyOrigin = getSiteProxyOrigin()
+    if (proxyOrigin && request.nextUrl.origin !== proxyOrigin) {
+      return NextResponse.redirect(proxiedLocation(request, targetUrl, token))
+    }
+
+    const upstream = await fetchPublicUrl(targetUrl, {
+      headers: {
+        'User-Agent': request.headers.get('user-agent') || 'PixelPin-Proxy/1.0',
+        'Accept': request.headers.get('accept') || '*/*',
+        'Accept-Language': request.headers.get('accept-language') || 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      timeoutMs: PROXY_TIMEOUT_MS,
+      allowPrivate: allowsPrivateSites(),
+    })
+
+    // Keep redirects on the site inside the proxy so every hop is validated again;
+    // ones to other sites leave it
+    const location = upstream.headers.get('location')
+    if (upstream.status >= 300 && upstream.status < 400 && location) {
+      const redirectTarget = new URL(location, targetUrl).href
+      const nextLocation = getProxiedHost(redirectTarget) === grant.host && isProxyableUrl(redirectTarget)
+        ? proxiedLocation(request, redirectTarget, token)
+        : new URL(redirectTarget)
+      return NextResponse.redirect(nextLocation, upstream.status)
+    }
+
+    const headers = sanitizeProxyHeaders(upstream.headers)
+    headers.set('Content-Security-Policy', PROXY_SANDBOX_POLICY)
+    headers.set('Cache-Control', 'private, no-store')
+    const contentType = upstream.headers.get('content-type') || ''
+    const context: ProxyRewriteContext = { token, host: grant.host }
+
+    if (contentType.includes('text/html')) {
+      const html = await upstream.text()
+      return new NextResponse(rewriteHtml(html, targetUrl, context), {
+        status: upstream.status,
+        headers,
+      })
+    }
+
+    if (contentType.includes('text/css')) {
+      const css = await upstream.text()
+      return new NextResponse(rewriteCss(css, targetUrl, context), {
+        status: upstream.status,
+        headers,
+      })
+    }
+
+    // The page's opaque origin makes its own images cross-origin, and the bridge
+    // can only draw them into screenshots when they're readable with CORS
+    headers.set('Access-Control-Allow-Origin', '*')
+    return new NextResponse(upstream.body, {
+      status: upstream.status,
+      headers,
+    })
+  } catch (error) {
+    if (error instanceof BlockedAddressError) {
+      return disallowedUrl()
+    }
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return NextResponse.json({ error: 'Upstream site timed out' }, { status: 504 })
+    }
+
+    console.error('Site proxy error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load site' },
+      { status: 502 }
+    )
+  }
+}
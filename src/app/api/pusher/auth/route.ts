@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { pusherServer } from '@/lib/pusher'
-import { prisma } from '@/lib/prisma'
+import { pusherServer, getUserChannel } from '@/lib/pusher'
+import { authorizeAsset } from '@/lib/permissions'
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,17 +27,9 @@ export async function POST(request: NextRequest) {
     if (channelName.startsWith('presence-asset-')) {
       const assetId = channelName.replace('presence-asset-', '')
       
-      // Verify user has access to this asset
-      const asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            ownerId: session.user.id,
-          },
-        },
-      })
-
-      if (!asset) {
+      // Any project member may listen in, including viewers
+      const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+      if (!access.ok) {
         return NextResponse.json({ error: 'Access denied' }, { status: 403 })
       }
 
@@ -60,17 +52,19 @@ export async function POST(request: NextRequest) {
     if (channelName.startsWith('asset-')) {
       const assetId = channelName.replace('asset-', '')
       
-      // Verify user has access to this asset
-      const asset = await prisma.asset.findFirst({
-        where: {
-          id: assetId,
-          project: {
-            ownerId: session.user.id,
-          },
-        },
-      })
+      // Any project member may listen in, including viewers
+      const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+      if (!access.ok) {
+        return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+      }
+
+      const authResponse = pusherServer.authorizeChannel(socketId, channelName)
+      return NextResponse.json(authResponse)
+    }
 
-      if (!asset) {
+    // Private per-user channel for notifications
+    if (channelName.startsWith('private-user-')) {
+      if (channelName !== getUserChannel(session.user.id)) {
         return NextResponse.json({ error: 'Access denied' }, { status: 403 })
       }
 
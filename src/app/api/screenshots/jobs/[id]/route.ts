@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeScreenshotJob } from '@/lib/screenshot-jobs'
+
+// GET /api/screenshots/jobs/[id] - Poll a queued capture
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const job = await prisma.screenshotJob.findFirst({
+      where: { id, userId: session.user.id },
+    })
+
+    if (!job) {
+      return NextResponse.json({ error: 'Screenshot job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job: serializeScreenshotJob(job) })
+  } catch (error) {
+    console.error('Error fetching screenshot job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { put } from '@vercel/blob'
-import puppeteer from 'puppeteer'
+import { recordShareLinkUsage, resolveShareLink, shareLinkDenied } from '@/lib/share-links'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { widgetPreflightResponse, withWidgetCors } from '@/lib/widget-cors'
+import { uploadFile } from '@/lib/storage'
+import { checkStorageLimit, storageLimitReached } from '@/lib/subscription-limits'
+import { getCurrentWorkspace } from '@/lib/workspaces'
+import { prisma } from '@/lib/prisma'
+import {
+  countActiveScreenshotJobs,
+  enqueueScreenshotJob,
+  isCapturableUrl,
+  MAX_ACTIVE_JOBS_PER_USER,
+  PRIVATE_PAGE_ERROR,
+  serializeScreenshotJob,
+} from '@/lib/screenshot-jobs'
 import { z } from 'zod'
 
 const screenshotSchema = z.object({
@@ -11,104 +24,59 @@ const screenshotSchema = z.object({
     height: z.number().min(240).max(1080)
   }).optional(),
   selector: z.string().optional(),
+  // Where to draw the pin on the element crop, as fractions of the element's size
+  pin: z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1)
+  }).optional(),
   fullPage: z.boolean().optional().default(false)
 })
 
+const CLIENT_SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+// POST /api/screenshots - Queue a server-side capture of a page; poll the job or
+// listen on the user channel for the result
 export async function POST(request: NextRequest) {
   try {
     const session = await auth()
-    if (!session?.user) {
+    if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const body = await request.json()
-    const { url, viewport, selector, fullPage } = screenshotSchema.parse(body)
-
-    // Launch Puppeteer browser
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--single-process',
-        '--disable-gpu'
-      ]
+    const limit = await checkRateLimit('screenshot-capture', {
+      ip: getClientIp(request),
+      user: session.user.id,
     })
-
-    const page = await browser.newPage()
-
-    // Set viewport if provided
-    if (viewport) {
-      await page.setViewport(viewport)
-    } else {
-      await page.setViewport({ width: 1280, height: 720 })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
     }
 
-    // Navigate to the URL
-    await page.goto(url, { 
-      waitUntil: 'networkidle2',
-      timeout: 30000 
-    })
+    const body = await request.json()
+    const screenshot = screenshotSchema.parse(body)
 
-    // Take screenshot
-    const screenshotOptions: {
-      type: 'png'
-      fullPage: boolean
-      clip?: { x: number; y: number; width: number; height: number }
-    } = {
-      type: 'png',
-      fullPage
+    if (!await isCapturableUrl(screenshot.url)) {
+      return NextResponse.json({ error: PRIVATE_PAGE_ERROR }, { status: 400 })
     }
 
-    if (selector) {
-      const clipRect = await page.evaluate((sel) => {
-        const element = document.querySelector(sel)
-        if (!element) return null
-        const rect = element.getBoundingClientRect()
-        return {
-          x: rect.left,
-          y: rect.top,
-          width: rect.width,
-          height: rect.height
-        }
-      }, selector)
-      
-      if (clipRect) {
-        screenshotOptions.clip = clipRect
-      }
+    if (await countActiveScreenshotJobs(session.user.id) >= MAX_ACTIVE_JOBS_PER_USER) {
+      return NextResponse.json(
+        { error: 'Too many screenshots in progress. Try again once they have finished.' },
+        { status: 429 }
+      )
     }
 
-    const screenshotBuffer = await page.screenshot(screenshotOptions)
-
-    await browser.close()
-
-    // Optimize screenshot size if it's too large
-    const optimizedBuffer = screenshotBuffer
-    if (screenshotBuffer.length > 1024 * 1024) { // 1MB
-      // Could add image compression here if needed
-      console.warn('Screenshot is large:', screenshotBuffer.length, 'bytes')
+    // Refused up front when the workspace is already full; the capture's size is checked once it's taken
+    const workspace = await getCurrentWorkspace(session.user.id)
+    const storageCheck = await checkStorageLimit(workspace.id, 0)
+    if (!storageCheck.canUpload) {
+      return storageLimitReached(storageCheck)
     }
 
-    // Upload to Vercel Blob
-    const filename = `screenshots/screenshot-${Date.now()}-${Math.random().toString(36).substring(7)}.png`
-    const blob = await put(filename, Buffer.from(optimizedBuffer), {
-      access: 'public',
-      contentType: 'image/png'
-    })
+    const job = await enqueueScreenshotJob(session.user.id, workspace.id, screenshot)
 
-    return NextResponse.json({
-      url: blob.url,
-      filename,
-      size: screenshotBuffer.length
-    })
+    return NextResponse.json({ job: serializeScreenshotJob(job) }, { status: 202 })
 
   } catch (error) {
-    console.error('Screenshot capture error:', error)
-    
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.issues },
@@ -116,43 +84,89 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    console.error('Screenshot capture error:', error)
     return NextResponse.json(
-      { error: 'Failed to capture screenshot' },
+      { error: 'Failed to queue screenshot' },
       { status: 500 }
     )
   }
 }
 
 // Client-side screenshot endpoint for iframe content
-export async function PUT(request: NextRequest) {
+async function uploadClientScreenshot(request: NextRequest) {
   try {
-    const session = await auth()
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const formData = await request.formData()
+    const guestToken = formData.get('guestToken')
+    const assetId = formData.get('assetId')
+
+    let shareLinkId: string | null = null
+    let organizationId: string
+
+    if (typeof guestToken === 'string' && guestToken) {
+      // Guest uploads from the feedback widget are scoped to a shared asset
+      if (typeof assetId !== 'string' || !assetId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      // The screenshot is part of the annotation being posted, so commenting covers it;
+      // canUpload is for the attachments guests add themselves
+      const shareLink = await resolveShareLink(guestToken, { assetId, permission: 'share:comment' })
+      if (!shareLink.ok) {
+        return shareLinkDenied(shareLink)
+      }
+      shareLinkId = shareLink.link.id
+
+      const project = await prisma.project.findUnique({
+        where: { id: shareLink.link.projectId },
+        select: { organizationId: true },
+      })
+      if (!project) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      organizationId = project.organizationId
+
+      const limit = await checkRateLimit('screenshot-upload', { ip: getClientIp(request), token: guestToken })
+      if (!limit.ok) {
+        return rateLimitExceeded(limit)
+      }
+    } else {
+      const session = await auth()
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const limit = await checkRateLimit('screenshot-upload', { ip: getClientIp(request), user: session.user.id })
+      if (!limit.ok) {
+        return rateLimitExceeded(limit)
+      }
+
+      organizationId = (await getCurrentWorkspace(session.user.id)).id
     }
 
-    const formData = await request.formData()
     const imageFile = formData.get('image') as File
     
     if (!imageFile) {
       return NextResponse.json({ error: 'No image provided' }, { status: 400 })
     }
 
-    // Convert File to Buffer
-    const bytes = await imageFile.arrayBuffer()
-    const buffer = Buffer.from(bytes)
+    // Captures are PNG unless the client encoded them more compactly
+    const contentType = CLIENT_SCREENSHOT_TYPES.includes(imageFile.type) ? imageFile.type : 'image/png'
 
-    // Upload to Vercel Blob
-    const filename = `screenshots/client-screenshot-${Date.now()}-${Math.random().toString(36).substring(7)}.png`
-    const blob = await put(filename, buffer, {
-      access: 'public',
-      contentType: 'image/png'
-    })
+    const storageCheck = await checkStorageLimit(organizationId, imageFile.size)
+    if (!storageCheck.canUpload) {
+      return storageLimitReached(storageCheck)
+    }
+
+    const stored = await uploadFile('screenshots', imageFile, contentType)
+
+    if (shareLinkId) {
+      await recordShareLinkUsage(shareLinkId, 'upload')
+    }
 
     return NextResponse.json({
-      url: blob.url,
-      filename,
-      size: buffer.length
+      url: stored.url,
+      filename: stored.key,
+      size: stored.size
     })
 
   } catch (error) {
@@ -162,4 +176,13 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+export async function PUT(request: NextRequest) {
+  return withWidgetCors(request, await uploadClientScreenshot(request))
+}
+
+// Preflight for the embeddable feedback widget
+export async function OPTIONS(request: NextRequest) {
+  return widgetPreflightResponse(request)
+}
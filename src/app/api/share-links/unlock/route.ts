@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  findShareLink,
+  setShareLinkUnlockCookie,
+  shareLinkDenied,
+  verifySharePassword,
+} from '@/lib/share-links'
+import { checkRateLimit, getClientIp, rateLimitExceeded } from '@/lib/rate-limit'
+import { z } from 'zod'
+
+const unlockShareLinkSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1).max(128),
+})
+
+// POST /api/share-links/unlock - Enter the password for a protected share link
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, password } = unlockShareLinkSchema.parse(body)
+
+    // Passwords are short enough to guess, so attempts are throttled per address and per link
+    const limit = await checkRateLimit('share-link-unlock', { ip: getClientIp(request), token })
+    if (!limit.ok) {
+      return rateLimitExceeded(limit)
+    }
+
+    const link = await findShareLink(token)
+    if (!link) {
+      return shareLinkDenied({ reason: 'invalid' })
+    }
+    if (link.revokedAt) {
+      return shareLinkDenied({ reason: 'revoked' })
+    }
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      return shareLinkDenied({ reason: 'expired' })
+    }
+
+    if (!(await verifySharePassword(link, password))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    setShareLinkUnlockCookie(response, link)
+    return response
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error unlocking share link:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
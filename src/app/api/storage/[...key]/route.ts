@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, isLocalStorage, storedFileHeaders } from '@/lib/storage'
+
+// GET /api/storage/[...key] - Serve a file kept by the local storage driver to holders of a signed URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const storage = getStorage()
+    if (!isLocalStorage(storage)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const { key: segments } = await params
+    const key = segments.join('/')
+
+    const { searchParams } = request.nextUrl
+    if (!storage.verifySignature(key, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json({ error: 'This link has expired' }, { status: 403 })
+    }
+
+    const file = await storage.read(key)
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: storedFileHeaders(key, file.length, 'private, max-age=300'),
+    })
+  } catch (error) {
+    console.error('Error serving stored file:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
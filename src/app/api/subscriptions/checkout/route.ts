@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { stripe, PLANS } from '@/lib/stripe'
 import { prisma } from '@/lib/prisma'
+import { hasWorkspacePermission } from '@/lib/permissions'
+import { getCurrentWorkspace } from '@/lib/workspaces'
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,30 +22,39 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid price ID' }, { status: 400 })
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
+    // The subscription belongs to the current workspace, which only its owners can bill
+    const workspace = await getCurrentWorkspace(session.user.id)
+    if (!hasWorkspacePermission(workspace.role, 'workspace:manage-billing')) {
+      return NextResponse.json(
+        { error: 'Only workspace owners can manage billing' },
+        { status: 403 }
+      )
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: workspace.id },
     })
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    if (!organization) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
     }
 
     // Create or retrieve Stripe customer
-    let customerId = user.stripeCustomerId
+    let customerId = organization.stripeCustomerId
 
     if (!customerId) {
       const customer = await stripe.customers.create({
-        email: user.email,
-        name: user.name || undefined,
+        email: session.user.email || undefined,
+        name: organization.name,
         metadata: {
-          userId: user.id,
+          organizationId: organization.id,
         },
       })
 
       customerId = customer.id
 
-      await prisma.user.update({
-        where: { id: user.id },
+      await prisma.organization.update({
+        where: { id: organization.id },
         data: { stripeCustomerId: customerId },
       })
     }
@@ -63,7 +74,8 @@ export async function POST(request: NextRequest) {
       success_url: `${process.env.NEXTAUTH_URL}/dashboard?success=true`,
       cancel_url: `${process.env.NEXTAUTH_URL}/pricing?canceled=true`,
       metadata: {
-        userId: user.id,
+        organizationId: organization.id,
+        userId: session.user.id,
       },
     })
 
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
-import { getUserSubscriptionInfo } from '@/lib/subscription-limits'
+import { getWorkspaceSubscriptionInfo } from '@/lib/subscription-limits'
+import { getCurrentWorkspace } from '@/lib/workspaces'
 
 export async function GET() {
   try {
@@ -9,8 +10,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const subscriptionInfo = await getUserSubscriptionInfo(session.user.id)
-    return NextResponse.json(subscriptionInfo)
+    const workspace = await getCurrentWorkspace(session.user.id)
+    const subscriptionInfo = await getWorkspaceSubscriptionInfo(workspace.id)
+    return NextResponse.json({ ...subscriptionInfo, role: workspace.role })
   } catch (error) {
     console.error('Subscription info error:', error)
     return NextResponse.json(
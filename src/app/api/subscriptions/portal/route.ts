@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { stripe } from '@/lib/stripe'
 import { prisma } from '@/lib/prisma'
+import { hasWorkspacePermission } from '@/lib/permissions'
+import { getCurrentWorkspace } from '@/lib/workspaces'
 
 export async function POST() {
   try {
@@ -14,11 +16,20 @@ export async function POST() {
       return NextResponse.json({ error: 'Stripe not configured' }, { status: 503 })
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
+    const workspace = await getCurrentWorkspace(session.user.id)
+    if (!hasWorkspacePermission(workspace.role, 'workspace:manage-billing')) {
+      return NextResponse.json(
+        { error: 'Only workspace owners can manage billing' },
+        { status: 403 }
+      )
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: workspace.id },
+      select: { stripeCustomerId: true },
     })
 
-    if (!user?.stripeCustomerId) {
+    if (!organization?.stripeCustomerId) {
       return NextResponse.json(
         { error: 'No subscription found' },
         { status: 404 }
@@ -27,7 +38,7 @@ export async function POST() {
 
     // Create Stripe Customer Portal session
     const portalSession = await stripe.billingPortal.sessions.create({
-      customer: user.stripeCustomerId,
+      customer: organization.stripeCustomerId,
       return_url: `${process.env.NEXTAUTH_URL}/dashboard`,
     })
 
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { authorizeAnnotation } from '@/lib/permissions'
+import { apiRoute, requireAccess } from '@/lib/api-v1'
+import { apiAnnotationDetailSelect, serializeAnnotation } from '@/lib/api-v1-resources'
+import { v1AnnotationDetailResource } from '@/lib/api-schemas'
+
+// GET /api/v1/annotations/[id] - A single annotation with its replies
+export const GET = apiRoute<{ id: string }>('annotations:read', async (request, { principal, params }) => {
+  const access = requireAccess(
+    principal,
+    await authorizeAnnotation(principal.userId, params.id, 'project:view'),
+    'Annotation not found'
+  )
+
+  const { replies, ...annotation } = await prisma.annotation.findUniqueOrThrow({
+    where: { id: access.annotationId },
+    select: apiAnnotationDetailSelect,
+  })
+
+  const data: z.infer<typeof v1AnnotationDetailResource> = { ...serializeAnnotation(annotation), replies }
+
+  return NextResponse.json({ data })
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeAsset } from '@/lib/permissions'
+import { apiRoute, requireAccess } from '@/lib/api-v1'
+import { apiAssetSelect, serializeAsset } from '@/lib/api-v1-resources'
+
+// GET /api/v1/assets/[id] - A single asset
+export const GET = apiRoute<{ id: string }>('assets:read', async (request, { principal, params }) => {
+  const access = requireAccess(
+    principal,
+    await authorizeAsset(principal.userId, params.id, 'project:view'),
+    'Asset not found'
+  )
+
+  const asset = await prisma.asset.findUniqueOrThrow({
+    where: { id: access.assetId },
+    select: apiAssetSelect,
+  })
+
+  return NextResponse.json({ data: serializeAsset(asset) })
+})
@@ -0,0 +1,38 @@
+import { prisma } from '@/lib/prisma'
+import { authorizeProject } from '@/lib/permissions'
+import { apiRoute, paginated, parsePagination, requireAccess } from '@/lib/api-v1'
+import { apiAnnotationSelect, serializeAnnotation } from '@/lib/api-v1-resources'
+import { v1AnnotationFiltersSchema } from '@/lib/api-schemas'
+
+// GET /api/v1/projects/[id]/annotations - Annotations across the project's assets, newest first
+export const GET = apiRoute<{ id: string }>('annotations:read', async (request, { principal, params }) => {
+  const access = requireAccess(
+    principal,
+    await authorizeProject(principal.userId, params.id, 'project:view'),
+    'Project not found'
+  )
+  const { searchParams } = request.nextUrl
+  const page = parsePagination(searchParams)
+  const filters = v1AnnotationFiltersSchema.parse({
+    assetId: searchParams.get('assetId') ?? undefined,
+    status: searchParams.get('status') ?? undefined,
+    updatedSince: searchParams.get('updatedSince') ?? undefined,
+  })
+
+  const annotations = await prisma.annotation.findMany({
+    where: {
+      AND: [
+        { asset: { projectId: access.projectId } },
+        filters.assetId ? { assetId: filters.assetId } : {},
+        filters.status ? { status: filters.status } : {},
+        filters.updatedSince ? { updatedAt: { gte: filters.updatedSince } } : {},
+        page.where,
+      ],
+    },
+    select: apiAnnotationSelect,
+    orderBy: page.orderBy,
+    take: page.take,
+  })
+
+  return paginated(annotations, page.limit, serializeAnnotation)
+})
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeProject } from '@/lib/permissions'
+import { apiRoute, idempotent, paginated, parsePagination, requireAccess } from '@/lib/api-v1'
+import { apiAssetSelect, serializeAsset } from '@/lib/api-v1-resources'
+import { v1CreateAssetSchema } from '@/lib/api-schemas'
+
+// GET /api/v1/projects/[id]/assets - The project's assets, newest first
+export const GET = apiRoute<{ id: string }>('assets:read', async (request, { principal, params }) => {
+  const access = requireAccess(
+    principal,
+    await authorizeProject(principal.userId, params.id, 'project:view'),
+    'Project not found'
+  )
+  const page = parsePagination(request.nextUrl.searchParams)
+
+  const assets = await prisma.asset.findMany({
+    where: { AND: [{ projectId: access.projectId }, page.where] },
+    select: apiAssetSelect,
+    orderBy: page.orderBy,
+    take: page.take,
+  })
+
+  return paginated(assets, page.limit, serializeAsset)
+})
+
+// POST /api/v1/projects/[id]/assets - Add a website to review by URL (accepts Idempotency-Key)
+export const POST = apiRoute<{ id: string }>('assets:write', (request, { principal, params }) =>
+  idempotent(request, principal, async body => {
+    const access = requireAccess(
+      principal,
+      await authorizeProject(principal.userId, params.id, 'asset:create'),
+      'Project not found'
+    )
+    const { name, url } = v1CreateAssetSchema.parse(body)
+
+    const asset = await prisma.asset.create({
+      data: {
+        name,
+        type: 'URL',
+        url,
+        projectId: access.projectId,
+      },
+      select: apiAssetSelect,
+    })
+
+    return NextResponse.json({ data: serializeAsset(asset) }, { status: 201 })
+  })
+)
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeProject } from '@/lib/permissions'
+import { apiRoute, requireAccess } from '@/lib/api-v1'
+import { apiProjectSelect, serializeProject } from '@/lib/api-v1-resources'
+
+// GET /api/v1/projects/[id] - A single project
+export const GET = apiRoute<{ id: string }>('projects:read', async (request, { principal, params }) => {
+  const access = requireAccess(
+    principal,
+    await authorizeProject(principal.userId, params.id, 'project:view'),
+    'Project not found'
+  )
+
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: access.projectId },
+    select: apiProjectSelect(principal.userId),
+  })
+
+  return NextResponse.json({ data: serializeProject(principal.userId, project) })
+})
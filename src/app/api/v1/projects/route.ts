@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { authorizeWorkspace, projectMemberWhere } from '@/lib/permissions'
+import { checkProjectLimit } from '@/lib/subscription-limits'
+import { getCurrentWorkspace } from '@/lib/workspaces'
+import { ApiError, apiRoute, idempotent, paginated, parsePagination } from '@/lib/api-v1'
+import { apiProjectSelect, serializeProject } from '@/lib/api-v1-resources'
+import { v1CreateProjectSchema, v1ListProjectsQuerySchema } from '@/lib/api-schemas'
+
+// GET /api/v1/projects - Projects the token can reach, newest first
+export const GET = apiRoute('projects:read', async (request, { principal }) => {
+  const { searchParams } = request.nextUrl
+  const page = parsePagination(searchParams)
+  const { workspaceId } = v1ListProjectsQuerySchema.parse({
+    workspaceId: searchParams.get('workspaceId') ?? undefined,
+  })
+
+  const projects = await prisma.project.findMany({
+    where: {
+      AND: [
+        projectMemberWhere(principal.userId),
+        principal.projectId ? { id: principal.projectId } : {},
+        workspaceId ? { organizationId: workspaceId } : {},
+        // Workspaces that require two-factor authentication are closed to members without it
+        principal.twoFactorEnabled ? {} : { organization: { requireTwoFactor: false } },
+        page.where,
+      ],
+    },
+    select: apiProjectSelect(principal.userId),
+    orderBy: page.orderBy,
+    take: page.take,
+  })
+
+  return paginated(projects, page.limit, project => serializeProject(principal.userId, project))
+})
+
+// POST /api/v1/projects - Create a project (accepts Idempotency-Key)
+export const POST = apiRoute('projects:write', (request, { principal }) =>
+  idempotent(request, principal, async body => {
+    if (principal.projectId) {
+      throw new ApiError(403, 'forbidden', 'Project API keys cannot create projects')
+    }
+
+    const { workspaceId, ...data } = v1CreateProjectSchema.parse(body)
+    const organizationId = workspaceId ?? (await getCurrentWorkspace(principal.userId)).id
+
+    const access = await authorizeWorkspace(principal.userId, organizationId, 'workspace:create-project')
+    if (!access.ok) {
+      throw access.status === 404
+        ? new ApiError(404, 'not_found', 'Workspace not found')
+        : new ApiError(403, 'forbidden', 'Insufficient permissions')
+    }
+
+    const limitCheck = await checkProjectLimit(organizationId)
+    if (!limitCheck.canCreate) {
+      throw new ApiError(403, 'plan_limit_reached', 'The workspace has reached its project limit', {
+        limit: limitCheck.limit,
+        currentCount: limitCheck.currentCount,
+        plan: limitCheck.plan,
+      })
+    }
+
+    const project = await prisma.project.create({
+      data: {
+        ...data,
+        ownerId: principal.userId,
+        organizationId,
+      },
+      select: apiProjectSelect(principal.userId),
+    })
+
+    return NextResponse.json({ data: serializeProject(principal.userId, project) }, { status: 201 })
+  })
+)
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWebhook } from '@/lib/permissions'
+import { processWebhookDeliveries, redeliverWebhook } from '@/lib/webhooks'
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver - Send a logged payload again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: webhookId, deliveryId } = await params
+
+    const access = await authorizeWebhook(session.user.id, webhookId)
+    if (!access.ok) {
+      return accessDenied(access, 'Delivery not found')
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: deliveryId,
+        webhookId,
+      },
+    })
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const redelivery = await redeliverWebhook(delivery.id)
+
+    after(async () => {
+      await processWebhookDeliveries({ ids: [redelivery.id] })
+    })
+
+    return NextResponse.json(
+      { delivery: redelivery, message: 'Redelivery queued' },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error redelivering webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWebhook } from '@/lib/permissions'
+import { WebhookDeliveryStatus } from '@prisma/client'
+
+const DELIVERY_STATUSES = Object.values(WebhookDeliveryStatus)
+
+// GET /api/webhooks/[id]/deliveries - Delivery log, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: webhookId } = await params
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const access = await authorizeWebhook(session.user.id, webhookId)
+    if (!access.ok) {
+      return accessDenied(access, 'Webhook not found')
+    }
+
+    const where = {
+      webhookId,
+      ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ])
+
+    return NextResponse.json({ deliveries, total, limit, offset })
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
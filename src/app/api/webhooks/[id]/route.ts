@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWebhook } from '@/lib/permissions'
+import { z } from 'zod'
+import { generateWebhookSecret, webhookSelect } from '@/lib/webhooks'
+import { updateWebhookSchema } from '@/lib/api-schemas'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: webhookId } = await params
+    const access = await authorizeWebhook(session.user.id, webhookId)
+    if (!access.ok) {
+      return accessDenied(access, 'Webhook not found')
+    }
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+      select: webhookSelect,
+    })
+
+    return NextResponse.json(webhook)
+  } catch (error) {
+    console.error('Error fetching webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: webhookId } = await params
+    const body = await request.json()
+    const { rotateSecret, ...validatedData } = updateWebhookSchema.parse(body)
+
+    const access = await authorizeWebhook(session.user.id, webhookId)
+    if (!access.ok) {
+      return accessDenied(access, 'Webhook not found')
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        ...validatedData,
+        ...(rotateSecret ? { secret: generateWebhookSecret() } : {}),
+      },
+      // Hand back the new secret once so the receiver can be updated
+      select: { ...webhookSelect, secret: rotateSecret === true },
+    })
+
+    return NextResponse.json(webhook)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: webhookId } = await params
+    const access = await authorizeWebhook(session.user.id, webhookId)
+    if (!access.ok) {
+      return accessDenied(access, 'Webhook not found')
+    }
+
+    await prisma.webhook.delete({
+      where: { id: webhookId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeProject } from '@/lib/permissions'
 import { z } from 'zod'
-
-const webhookSchema = z.object({
-  url: z.string().url(),
-  events: z.array(z.enum([
-    'annotation.created',
-    'annotation.updated', 
-    'annotation.resolved',
-    'annotation.deleted',
-    'reply.created',
-    'mention.created'
-  ])),
-  secret: z.string().optional(),
-  active: z.boolean().default(true),
-})
+import { generateWebhookSecret, webhookSelect } from '@/lib/webhooks'
+import { webhookSchema } from '@/lib/api-schemas'
 
 export async function GET(request: NextRequest) {
   try {
@@ -31,21 +20,36 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 })
     }
 
-    // Verify user owns the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        ownerId: session.user.id
-      }
-    })
-
-    if (!project) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-webhooks')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
     }
 
-    // For now, return empty array as webhooks aren't implemented in the schema
-    // In a real implementation, you'd have a Webhook model
-    return NextResponse.json({ webhooks: [] })
+    const webhooks = await prisma.webhook.findMany({
+      where: { projectId },
+      select: {
+        ...webhookSelect,
+        deliveries: {
+          select: {
+            id: true,
+            event: true,
+            status: true,
+            responseStatus: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      webhooks: webhooks.map(({ deliveries, ...webhook }) => ({
+        ...webhook,
+        lastDelivery: deliveries[0] ?? null,
+      }))
+    })
 
   } catch (error) {
     console.error('Error fetching webhooks:', error)
@@ -72,31 +76,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 })
     }
 
-    // Verify user owns the project
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        ownerId: session.user.id
-      }
-    })
-
-    if (!project) {
-      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
-    }
-
-    // For now, just return success as webhooks aren't implemented in the schema
-    // In a real implementation, you'd create a webhook record
-    const webhook = {
-      id: `webhook_${Date.now()}`,
-      projectId,
-      url,
-      events,
-      secret: secret ? '***hidden***' : null,
-      active,
-      createdAt: new Date().toISOString()
+    const access = await authorizeProject(session.user.id, projectId, 'project:manage-webhooks')
+    if (!access.ok) {
+      return accessDenied(access, 'Project not found')
     }
 
-    console.log('Webhook created (mock):', webhook)
+    const webhook = await prisma.webhook.create({
+      data: {
+        projectId,
+        url,
+        events,
+        secret: secret ?? generateWebhookSecret(),
+        active,
+      },
+    })
 
     return NextResponse.json(webhook, { status: 201 })
 
@@ -115,50 +108,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-// Webhook delivery function (would be called when events occur)
-export async function deliverWebhook(
-  webhookUrl: string,
-  event: string,
-  payload: Record<string, unknown>,
-  secret?: string
-) {
-  try {
-    const body = JSON.stringify({
-      event,
-      timestamp: new Date().toISOString(),
-      data: payload
-    })
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'User-Agent': 'PixelPin-Webhooks/1.0'
-    }
-
-    // Add signature if secret is provided
-    if (secret) {
-      const crypto = await import('crypto')
-      const signature = crypto
-        .createHmac('sha256', secret)
-        .update(body)
-        .digest('hex')
-      headers['X-PixelPin-Signature'] = `sha256=${signature}`
-    }
-
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers,
-      body
-    })
-
-    if (!response.ok) {
-      console.error(`Webhook delivery failed: ${response.status} ${response.statusText}`)
-      return false
-    }
-
-    return true
-  } catch (error) {
-    console.error('Webhook delivery error:', error)
-    return false
-  }
-}
\ No newline at end of file
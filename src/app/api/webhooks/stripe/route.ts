@@ -74,7 +74,7 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
   const priceId = subscription.items.data[0]?.price.id
   const currentPeriodEnd = new Date((subscription as Stripe.Subscription & { current_period_end: number }).current_period_end * 1000)
 
-  await prisma.user.updateMany({
+  await prisma.organization.updateMany({
     where: {
       stripeCustomerId: customerId,
     },
@@ -85,13 +85,13 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
     },
   })
 
-  console.log(`Updated subscription for customer ${customerId}`)
+  console.log(`Updated workspace subscription for customer ${customerId}`)
 }
 
 async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
   const customerId = subscription.customer as string
 
-  await prisma.user.updateMany({
+  await prisma.organization.updateMany({
     where: {
       stripeCustomerId: customerId,
     },
@@ -102,7 +102,7 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
     },
   })
 
-  console.log(`Deleted subscription for customer ${customerId}`)
+  console.log(`Deleted workspace subscription for customer ${customerId}`)
 }
 
 async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { resolveShareLink } from '@/lib/share-links'
+
+const WIDGET_BUNDLE_PATH = path.join(process.cwd(), 'public', 'widget', 'pixelpin-widget.js')
+
+function javascriptResponse(body: string, status = 200) {
+  return new NextResponse(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': status === 200 ? 'public, max-age=300' : 'no-store',
+    },
+  })
+}
+
+// GET /api/widget?assetId=...&token=... - Feedback widget script for client sites
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('assetId')
+    const guestToken = searchParams.get('token')
+
+    if (!assetId) {
+      return javascriptResponse('console.error("PixelPin widget: missing assetId");', 400)
+    }
+
+    const asset = await prisma.asset.findUnique({
+      where: { id: assetId },
+      include: {
+        project: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    })
+
+    if (!asset) {
+      return javascriptResponse('console.error("PixelPin widget: asset not found");', 404)
+    }
+
+    // A link that no longer lets guests comment on this asset falls back to logged-in only feedback.
+    // Password-protected links never validate here: the client site can't carry the unlock cookie.
+    const tokenValid = guestToken
+      ? (await resolveShareLink(guestToken, { assetId, permission: 'share:comment' })).ok
+      : false
+
+    let bundle: string
+    try {
+      bundle = await readFile(WIDGET_BUNDLE_PATH, 'utf8')
+    } catch {
+      console.error('Feedback widget bundle missing, run `npm run build:widget`')
+      return javascriptResponse('console.error("PixelPin widget: script unavailable");', 503)
+    }
+
+    const config = {
+      baseUrl: process.env.NEXTAUTH_URL || new URL(request.url).origin,
+      assetId: asset.id,
+      guestToken: tokenValid ? guestToken : null,
+      projectName: asset.project.name,
+    }
+
+    return javascriptResponse(`${bundle}\nwindow.PixelPinWidget.mount(${JSON.stringify(config)});\n`)
+  } catch (error) {
+    console.error('Error serving feedback widget:', error)
+    return javascriptResponse('console.error("PixelPin widget: failed to load");', 500)
+  }
+}
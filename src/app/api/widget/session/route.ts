@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { authorizeAsset } from '@/lib/permissions'
+import {
+  getCrossOrigin,
+  isWidgetOriginAllowed,
+  widgetPreflightResponse,
+  withWidgetCors,
+} from '@/lib/widget-cors'
+
+async function getWidgetSession(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('assetId')
+
+    if (!assetId) {
+      return NextResponse.json({ error: 'Asset ID is required' }, { status: 400 })
+    }
+
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ user: null })
+    }
+
+    const access = await authorizeAsset(session.user.id, assetId, 'project:view')
+    const asset = access.ok
+      ? await prisma.asset.findUnique({ where: { id: assetId }, select: { url: true } })
+      : null
+
+    // Only expose the session to the asset's own site
+    if (!asset || !isWidgetOriginAllowed(getCrossOrigin(request), asset.url)) {
+      return NextResponse.json({ user: null })
+    }
+
+    return NextResponse.json({
+      user: {
+        id: session.user.id,
+        name: session.user.name ?? null,
+        email: session.user.email ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('Error resolving widget session:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/widget/session?assetId=... - Who the widget is commenting as
+export async function GET(request: NextRequest) {
+  return withWidgetCors(request, await getWidgetSession(request))
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return widgetPreflightResponse(request)
+}
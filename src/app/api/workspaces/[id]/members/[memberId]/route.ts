@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWorkspace } from '@/lib/permissions'
+import { z } from 'zod'
+
+const updateMemberSchema = z.object({
+  role: z.enum(['OWNER', 'ADMIN', 'MEMBER']),
+})
+
+// A workspace always keeps at least one owner to manage billing
+async function isLastOwner(organizationId: string, member: { role: string }) {
+  if (member.role !== 'OWNER') return false
+  const owners = await prisma.organizationMember.count({
+    where: { organizationId, role: 'OWNER' },
+  })
+  return owners <= 1
+}
+
+// PATCH /api/workspaces/[id]/members/[memberId] - Change a member's workspace role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId, memberId } = await params
+    const body = await request.json()
+    const { role } = updateMemberSchema.parse(body)
+
+    const access = await authorizeWorkspace(session.user.id, organizationId, 'workspace:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Workspace not found')
+    }
+
+    const member = await prisma.organizationMember.findFirst({
+      where: { id: memberId, organizationId },
+    })
+
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    // Only owners can grant or take away ownership
+    if ((role === 'OWNER' || member.role === 'OWNER') && access.role !== 'OWNER') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    if (role !== 'OWNER' && await isLastOwner(organizationId, member)) {
+      return NextResponse.json({ error: 'A workspace needs at least one owner' }, { status: 400 })
+    }
+
+    const updated = await prisma.organizationMember.update({
+      where: { id: memberId },
+      data: { role },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      id: updated.id,
+      role: updated.role,
+      createdAt: updated.createdAt,
+      user: updated.user,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating workspace member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/workspaces/[id]/members/[memberId] - Remove a member, or leave the workspace
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId, memberId } = await params
+
+    const member = await prisma.organizationMember.findFirst({
+      where: { id: memberId, organizationId },
+    })
+
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+
+    // Members may always leave; removing others takes manage-members, and removing an owner takes an owner
+    if (member.userId !== session.user.id) {
+      const access = await authorizeWorkspace(session.user.id, organizationId, 'workspace:manage-members')
+      if (!access.ok) {
+        return accessDenied(access, 'Member not found')
+      }
+      if (member.role === 'OWNER' && access.role !== 'OWNER') {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+      }
+    }
+
+    if (await isLastOwner(organizationId, member)) {
+      return NextResponse.json({ error: 'A workspace needs at least one owner' }, { status: 400 })
+    }
+
+    await prisma.organizationMember.delete({
+      where: { id: memberId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing workspace member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
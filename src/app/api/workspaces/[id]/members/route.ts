@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWorkspace } from '@/lib/permissions'
+import { z } from 'zod'
+
+const addMemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['OWNER', 'ADMIN', 'MEMBER']).default('MEMBER'),
+})
+
+const memberUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+  twoFactorEnabled: true,
+} as const
+
+// GET /api/workspaces/[id]/members - Everyone in the workspace
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+
+    const access = await authorizeWorkspace(session.user.id, organizationId, 'workspace:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Workspace not found')
+    }
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: {
+        user: { select: memberUserSelect },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      members: members.map(member => ({
+        id: member.id,
+        role: member.role,
+        createdAt: member.createdAt,
+        user: member.user,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching workspace members:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/workspaces/[id]/members - Add an existing user to the workspace
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const body = await request.json()
+    const { email, role } = addMemberSchema.parse(body)
+
+    const access = await authorizeWorkspace(session.user.id, organizationId, 'workspace:manage-members')
+    if (!access.ok) {
+      return accessDenied(access, 'Workspace not found')
+    }
+
+    // Only owners can make other owners
+    if (role === 'OWNER' && access.role !== 'OWNER') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const existingMember = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId: user.id } },
+    })
+
+    if (existingMember) {
+      return NextResponse.json({ error: 'User is already a member of this workspace' }, { status: 400 })
+    }
+
+    const member = await prisma.organizationMember.create({
+      data: { organizationId, userId: user.id, role },
+      include: {
+        user: { select: memberUserSelect },
+      },
+    })
+
+    return NextResponse.json({
+      id: member.id,
+      role: member.role,
+      createdAt: member.createdAt,
+      user: member.user,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error adding workspace member:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
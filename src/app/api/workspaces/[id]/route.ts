@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { accessDenied, authorizeWorkspace } from '@/lib/permissions'
+import { getWorkspacePlan } from '@/lib/stripe'
+import { workspaceSelect } from '@/lib/workspaces'
+import { z } from 'zod'
+
+const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(100, 'Workspace name must be less than 100 characters').optional(),
+  requireTwoFactor: z.boolean().optional(),
+})
+
+// GET /api/workspaces/[id] - Workspace details with the caller's role and plan
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+
+    const access = await authorizeWorkspace(session.user.id, organizationId, 'workspace:view')
+    if (!access.ok) {
+      return accessDenied(access, 'Workspace not found')
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        ...workspaceSelect,
+        stripeSubscriptionId: true,
+        stripePriceId: true,
+        stripeCurrentPeriodEnd: true,
+        _count: {
+          select: { members: true, projects: true },
+        },
+      },
+    })
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const { stripeSubscriptionId, stripePriceId, stripeCurrentPeriodEnd, ...workspace } = organization
+
+    return NextResponse.json({
+      workspace: {
+        ...workspace,
+        role: access.role,
+        plan: getWorkspacePlan({ stripeSubscriptionId, stripePriceId, stripeCurrentPeriodEnd }),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching workspace:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/workspaces/[id] - Rename a workspace or change its two-factor requirement
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: organizationId } = await params
+    const body = await request.json()
+    const { name, requireTwoFactor } = updateWorkspaceSchema.parse(body)
+
+    const access = await authorizeWorkspace(
+      session.user.id,
+      organizationId,
+      requireTwoFactor === undefined ? 'workspace:update' : 'workspace:manage-security'
+    )
+    if (!access.ok) {
+      return accessDenied(access, 'Workspace not found')
+    }
+
+    // Owners can't require what they don't have, or they'd lock themselves out
+    if (requireTwoFactor) {
+      const user = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { twoFactorEnabled: true },
+      })
+      if (!user?.twoFactorEnabled) {
+        return NextResponse.json(
+          { error: 'Turn on two-factor authentication for your own account first' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const workspace = await prisma.organization.update({
+      where: { id: organizationId },
+      data: { name, requireTwoFactor },
+      select: workspaceSelect,
+    })
+
+    return NextResponse.json({ workspace: { ...workspace, role: access.role } })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating workspace:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { setCurrentWorkspace } from '@/lib/workspaces'
+import { z } from 'zod'
+
+const switchWorkspaceSchema = z.object({
+  organizationId: z.string().min(1),
+})
+
+// PUT /api/workspaces/current - Switch the dashboard to another workspace
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { organizationId } = switchWorkspaceSchema.parse(body)
+
+    const switched = await setCurrentWorkspace(session.user.id, organizationId)
+    if (!switched) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ currentWorkspaceId: organizationId })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error switching workspace:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { createWorkspace, getCurrentWorkspace, listWorkspaces } from '@/lib/workspaces'
+import { checkWorkspaceLimit } from '@/lib/subscription-limits'
+import { z } from 'zod'
+
+const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(100, 'Workspace name must be less than 100 characters'),
+})
+
+// GET /api/workspaces - Workspaces the user belongs to, and which one is current
+export async function GET() {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const current = await getCurrentWorkspace(session.user.id)
+    const workspaces = await listWorkspaces(session.user.id)
+
+    return NextResponse.json({ workspaces, currentWorkspaceId: current.id })
+  } catch (error) {
+    console.error('Error fetching workspaces:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/workspaces - Create a workspace and switch to it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name } = createWorkspaceSchema.parse(body)
+
+    const limitCheck = await checkWorkspaceLimit(session.user.id)
+    if (!limitCheck.canCreate) {
+      return NextResponse.json(
+        {
+          error: 'Workspace limit reached. Upgrade one of your free workspaces to create another.',
+          limit: limitCheck.limit,
+          currentCount: limitCheck.currentCount,
+          plan: 'FREE',
+          upgradeRequired: true,
+        },
+        { status: 403 }
+      )
+    }
+
+    const workspace = await createWorkspace(session.user.id, name)
+
+    return NextResponse.json({ workspace }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating workspace:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
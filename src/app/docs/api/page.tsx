@@ -0,0 +1,40 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ApiReference } from '@/components/docs/ApiReference';
+import { generateOpenApiDocument } from '@/lib/openapi';
+
+export const metadata: Metadata = {
+  title: 'API reference - PixelPin',
+  description: 'Reference for the PixelPin REST API',
+};
+
+export default function ApiReferencePage() {
+  const document = generateOpenApiDocument();
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="mb-10">
+          <Link href="/" className="text-2xl font-bold text-neutral-900">
+            PixelPin
+          </Link>
+          <h1 className="text-3xl font-bold text-neutral-900 mt-6">API reference</h1>
+          <p className="text-neutral-600 mt-2 max-w-3xl">{document.info.description}</p>
+          <p className="text-sm text-neutral-600 mt-2">
+            Create tokens in{' '}
+            <Link href="/settings/api-tokens" className="text-blue-600 hover:underline">
+              Settings → API tokens
+            </Link>
+            . Download the{' '}
+            <a href="/api/openapi.json" className="text-blue-600 hover:underline">
+              OpenAPI document
+            </a>{' '}
+            to generate a client.
+          </p>
+        </div>
+
+        <ApiReference document={document} />
+      </div>
+    </div>
+  );
+}
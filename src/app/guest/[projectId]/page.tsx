@@ -1,22 +1,28 @@
-// import { notFound } from 'next/navigation' // Unused for now
 import { prisma } from '@/lib/prisma'
+import {
+  getGuestPermissions,
+  recordShareLinkUsage,
+  resolveShareLink,
+  SHARE_LINK_FAILURE_MESSAGES,
+} from '@/lib/share-links'
 import { GuestAnnotationView } from '@/components/annotation/GuestAnnotationView'
+import { SharePasswordForm } from '@/components/annotation/SharePasswordForm'
 
 interface GuestProjectPageProps {
-  params: {
+  params: Promise<{
     projectId: string
-  }
-  searchParams: {
+  }>
+  searchParams: Promise<{
     token?: string
-  }
+  }>
 }
 
 export default async function GuestProjectPage({
   params,
   searchParams
 }: GuestProjectPageProps) {
-  const { projectId } = params
-  const { token } = searchParams
+  const { projectId } = await params
+  const { token } = await searchParams
 
   if (!token) {
     return (
@@ -30,13 +36,31 @@ export default async function GuestProjectPage({
   }
 
   try {
-    // Find project with matching share token
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        shareToken: token,
-        guestAccessEnabled: true
-      },
+    const shareLink = await resolveShareLink(token, { projectId, permission: 'share:view' })
+
+    if (!shareLink.ok && shareLink.reason === 'password-required') {
+      return <SharePasswordForm token={token} />
+    }
+
+    if (!shareLink.ok) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+            <p className="text-gray-600 mb-4">
+              {SHARE_LINK_FAILURE_MESSAGES[shareLink.reason]}.
+            </p>
+            <p className="text-sm text-gray-500">
+              Please contact the project owner for a new link.
+            </p>
+          </div>
+        </div>
+      )
+    }
+
+    const { link } = shareLink
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
       include: {
         owner: {
           select: {
@@ -46,7 +70,11 @@ export default async function GuestProjectPage({
             image: true
           }
         },
+        // Asset-scoped links only show the assets they were created for
         assets: {
+          where: link.scope === 'ASSETS'
+            ? { id: { in: link.assets.map((a) => a.assetId) } }
+            : undefined,
           orderBy: {
             createdAt: 'desc'
           }
@@ -59,21 +87,19 @@ export default async function GuestProjectPage({
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
           <div className="text-center">
             <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
-            <p className="text-gray-600 mb-4">
-              This project is not available for guest access or the link has expired.
-            </p>
-            <p className="text-sm text-gray-500">
-              Please contact the project owner for a new link.
-            </p>
+            <p className="text-gray-600">This project is not available for guest access.</p>
           </div>
         </div>
       )
     }
 
+    await recordShareLinkUsage(link.id, 'view')
+
     return (
       <GuestAnnotationView
         project={project}
         shareToken={token}
+        permissions={getGuestPermissions(link)}
       />
     )
   } catch (error) {
@@ -93,8 +119,8 @@ export async function generateMetadata({
   params,
   searchParams
 }: GuestProjectPageProps) {
-  const { projectId } = params
-  const { token } = searchParams
+  const { projectId } = await params
+  const { token } = await searchParams
 
   if (!token) {
     return {
@@ -103,12 +129,16 @@ export async function generateMetadata({
   }
 
   try {
-    const project = await prisma.project.findFirst({
-      where: {
-        id: projectId,
-        shareToken: token,
-        guestAccessEnabled: true
-      },
+    // Don't leak the project name before a password has been entered
+    const shareLink = await resolveShareLink(token, { projectId, permission: 'share:view' })
+    if (!shareLink.ok) {
+      return {
+        title: 'Project Not Found - PixelPin'
+      }
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
       select: {
         name: true,
         description: true
@@ -130,4 +160,4 @@ export async function generateMetadata({
       title: 'Project - PixelPin Guest Access'
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+import Link from 'next/link'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import {
+  INVITATION_FAILURE_MESSAGES,
+  normalizeEmail,
+  resolveInvitationToken,
+} from '@/lib/invitations'
+import { requiresVerifiedEmail } from '@/lib/email-verification'
+import { AcceptInvitationButton } from '@/components/projects/AcceptInvitationButton'
+import { ResendVerificationButton } from '@/components/account/ResendVerificationButton'
+
+interface InvitePageProps {
+  params: Promise<{
+    token: string
+  }>
+}
+
+function InviteLayout({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-xl border border-neutral-200 p-8 text-center">
+        <p className="text-sm font-semibold text-blue-600 mb-4">PixelPin</p>
+        <h1 className="text-2xl font-bold text-neutral-900 mb-3">{title}</h1>
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token: encodedToken } = await params
+  const token = decodeURIComponent(encodedToken)
+  const resolved = await resolveInvitationToken(token)
+
+  if (!resolved.ok) {
+    return (
+      <InviteLayout title="Invitation unavailable">
+        <p className="text-neutral-600">{INVITATION_FAILURE_MESSAGES[resolved.reason]}</p>
+      </InviteLayout>
+    )
+  }
+
+  const { invitation } = resolved
+  const inviter = invitation.invitedBy.name || invitation.invitedBy.email
+  const session = await auth()
+  const query = `invite=${encodeURIComponent(token)}&email=${encodeURIComponent(invitation.email)}`
+
+  if (!session?.user?.id) {
+    const hasAccount = await prisma.user.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' } },
+      select: { id: true },
+    })
+
+    return (
+      <InviteLayout title={`Join ${invitation.project.name}`}>
+        <p className="text-neutral-600 mb-6">
+          {inviter} invited <strong>{invitation.email}</strong> to collaborate as {invitation.role.toLowerCase()}.
+        </p>
+        <div className="space-y-3">
+          <Link
+            href={`/${hasAccount ? 'signin' : 'signup'}?${query}`}
+            className="block w-full btn btn-primary px-6 py-3 text-base"
+          >
+            {hasAccount ? 'Sign in to accept' : 'Create an account to accept'}
+          </Link>
+          <Link
+            href={`/${hasAccount ? 'signup' : 'signin'}?${query}`}
+            className="block text-sm text-blue-600 hover:text-blue-500"
+          >
+            {hasAccount ? 'Create a new account instead' : 'I already have an account'}
+          </Link>
+        </div>
+      </InviteLayout>
+    )
+  }
+
+  if (!session.user.email || normalizeEmail(session.user.email) !== invitation.email) {
+    return (
+      <InviteLayout title="Wrong account">
+        <p className="text-neutral-600">
+          This invitation was sent to <strong>{invitation.email}</strong>, but you&apos;re signed in
+          as {session.user.email}. Sign out and sign in with the invited address to accept it.
+        </p>
+      </InviteLayout>
+    )
+  }
+
+  if (requiresVerifiedEmail('invitations')) {
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { emailVerified: true },
+    })
+
+    if (!user?.emailVerified) {
+      return (
+        <InviteLayout title="Verify your email first">
+          <p className="text-neutral-600 mb-6">
+            {inviter} invited you to {invitation.project.name}. Confirm your email address with the link we sent
+            to <strong>{invitation.email}</strong>, then open this invitation again.
+          </p>
+          <div className="flex justify-center">
+            <ResendVerificationButton />
+          </div>
+        </InviteLayout>
+      )
+    }
+  }
+
+  return (
+    <InviteLayout title={`Join ${invitation.project.name}`}>
+      <p className="text-neutral-600 mb-6">
+        {inviter} invited you to collaborate as {invitation.role.toLowerCase()}.
+      </p>
+      <AcceptInvitationButton token={token} />
+    </InviteLayout>
+  )
+}
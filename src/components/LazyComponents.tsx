@@ -10,6 +10,14 @@ export const LazyAnnotationCanvas = dynamic(
   }
 )
 
+export const LazyPdfPageNavigator = dynamic(
+  () => import('@/components/annotations/PdfPageNavigator'),
+  {
+    loading: () => <div className="w-44 h-full bg-gray-100 animate-pulse" />,
+    ssr: false, // pdf.js renders to canvas in the browser
+  }
+)
+
 export const LazyAnnotationPanel = dynamic(
   () => import('@/components/annotations/AnnotationPanel'),
   {
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+interface ActiveSession {
+  id: string;
+  browserName: string;
+  browserVersion: string;
+  operatingSystem: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  current: boolean;
+}
+
+function isMobile(operatingSystem: string) {
+  return operatingSystem.startsWith('iOS') || operatingSystem.startsWith('Android');
+}
+
+export function ActiveSessions() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['account', 'sessions'],
+    queryFn: async () => {
+      const response = await fetch('/api/account/sessions');
+      if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+      }
+      return response.json() as Promise<{ sessions: ActiveSession[] }>;
+    },
+  });
+
+  const onSuccess = () => {
+    setError('');
+    queryClient.invalidateQueries({ queryKey: ['account', 'sessions'] });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await fetch(`/api/account/sessions/${sessionId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to sign out session');
+      }
+    },
+    onSuccess,
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/account/sessions', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to sign out other sessions');
+      }
+    },
+    onSuccess,
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const hasOtherSessions = data?.sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions &amp; devices</CardTitle>
+        <CardDescription>
+          Browsers signed in to your account. Sign out any you don&apos;t recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loading text="Loading sessions..." />
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            {data?.sessions.map((session) => {
+              const Icon = isMobile(session.operatingSystem) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Icon className="h-5 w-5 text-neutral-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+                        {session.browserName} on {session.operatingSystem}
+                        {session.current && (
+                          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-green-50 text-green-700">
+                            This browser
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-neutral-500 truncate">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        Active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                        {' · '}
+                        Signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-4"
+            onClick={() => revokeOthersMutation.mutate()}
+            loading={revokeOthersMutation.isPending}
+          >
+            Sign out all other sessions
+          </Button>
+        )}
+
+        {error && <p className="mt-4 text-sm text-error-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Check, Copy, KeyRound, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+export type ApiTokenScope = 'projects:read' | 'projects:write' | 'assets:read' | 'assets:write' | 'annotations:read';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface ApiTokensProps {
+  // Collection endpoint: GET lists, POST creates, DELETE /:id revokes
+  endpoint: string;
+  // Key holding the list in the GET response, and the record in the POST response
+  listKey: 'tokens' | 'apiKeys';
+  itemKey: 'token' | 'apiKey';
+  scopes: ApiTokenScope[];
+  title: string;
+  description: string;
+  className?: string;
+}
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  'projects:read': 'Read projects',
+  'projects:write': 'Create projects',
+  'assets:read': 'Read assets',
+  'assets:write': 'Add assets',
+  'annotations:read': 'Read annotations',
+};
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function getStatus(token: ApiToken): { label: string; className: string } {
+  if (token.revokedAt) {
+    return { label: 'Revoked', className: 'bg-neutral-100 text-neutral-600' };
+  }
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'bg-amber-50 text-amber-700' };
+  }
+  return { label: 'Active', className: 'bg-green-50 text-green-700' };
+}
+
+export function ApiTokens({ endpoint, listKey, itemKey, scopes, title, description, className }: ApiTokensProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<ApiTokenScope[]>(
+    scopes.filter((scope) => scope.endsWith(':read'))
+  );
+  const [expiresOn, setExpiresOn] = useState('');
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const { data: tokens, isLoading } = useQuery({
+    queryKey: ['api-tokens', endpoint],
+    queryFn: async () => {
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        throw new Error('Failed to fetch API tokens');
+      }
+      const data = await response.json();
+      return data[listKey] as ApiToken[];
+    },
+  });
+
+  const invalidateTokens = () => queryClient.invalidateQueries({ queryKey: ['api-tokens', endpoint] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          // Tokens stay valid through the end of the chosen day
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create token'));
+      }
+      const data = await response.json();
+      return { token: data[itemKey] as ApiToken, secret: data.secret as string };
+    },
+    onSuccess: (data) => {
+      setSecret(data.secret);
+      setCopied(false);
+      setName('');
+      setExpiresOn('');
+      setError('');
+      invalidateTokens();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (tokenId: string) => {
+      const response = await fetch(`${endpoint}/${tokenId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to revoke token'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      invalidateTokens();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      setCopied(true);
+    } catch (copyError) {
+      console.error('Failed to copy token:', copyError);
+    }
+  };
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setSelectedScopes((current) =>
+      current.includes(scope) ? current.filter((value) => value !== scope) : [...current, scope]
+    );
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {secret && (
+          <div className="mb-6 rounded-md border border-green-200 bg-green-50 p-3">
+            <p className="text-sm text-green-800 mb-2">
+              Copy the token now. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate rounded bg-white px-2 py-1 text-sm font-mono border border-green-200">
+                {secret}
+              </code>
+              <Button variant="outline" size="sm" onClick={handleCopy} title="Copy token">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSecret(null)} title="Dismiss">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim() && selectedScopes.length > 0) {
+              createMutation.mutate();
+            }
+          }}
+          className="space-y-4 mb-6"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Token name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="CI pipeline"
+              maxLength={100}
+              required
+            />
+            <Input
+              label="Expires on (optional)"
+              type="date"
+              value={expiresOn}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-neutral-700 mb-1">Scopes</span>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              {scopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-1.5 text-sm text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedScopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {scopeLabels[scope]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            loading={createMutation.isPending}
+            disabled={!name.trim() || selectedScopes.length === 0}
+          >
+            <KeyRound className="h-4 w-4 mr-2" />
+            Create token
+          </Button>
+        </form>
+
+        {error && (
+          <p className="mb-4 text-sm text-error-600">{error}</p>
+        )}
+
+        {isLoading ? (
+          <Loading text="Loading tokens..." />
+        ) : tokens?.length ? (
+          <ul className="divide-y divide-neutral-100">
+            {tokens.map((token) => {
+              const status = getStatus(token);
+              return (
+                <li key={token.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+                      <span className="truncate">{token.name}</span>
+                      <code className="text-xs font-mono text-neutral-500">{token.tokenPrefix}…</code>
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-0.5">
+                      {token.scopes.map((scope) => scopeLabels[scope as ApiTokenScope] ?? scope).join(', ')}
+                      {token.expiresAt && !token.revokedAt && ` · Expires ${format(new Date(token.expiresAt), 'MMM d, yyyy')}`}
+                    </p>
+                    <p className="text-xs text-neutral-500 mt-0.5">
+                      Created {formatDistanceToNow(new Date(token.createdAt), { addSuffix: true })}
+                      {listKey === 'apiKeys' && ` by ${token.user.name || token.user.email}`}
+                      {' · '}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : 'Never used'}
+                    </p>
+                  </div>
+                  {status.label === 'Active' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke token"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-neutral-500">No tokens yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { CheckCircle2, Mail } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { ResendVerificationButton } from '@/components/account/ResendVerificationButton';
+
+interface EmailVerificationCardProps {
+  email: string;
+  verified: boolean;
+}
+
+export function EmailVerificationCard({ email, verified }: EmailVerificationCardProps) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Email address</CardTitle>
+        <CardDescription>
+          A verified address lets you accept project invitations and claim comments you left as a guest.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Mail className="h-5 w-5 text-neutral-400" />
+            <div>
+              <p className="text-sm font-medium text-neutral-900">{email}</p>
+              {verified ? (
+                <p className="text-xs text-green-700 flex items-center gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Verified
+                </p>
+              ) : (
+                <p className="text-xs text-amber-700">Not verified yet</p>
+              )}
+            </div>
+          </div>
+          {!verified && <ResendVerificationButton />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
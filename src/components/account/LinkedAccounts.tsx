@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { signIn } from 'next-auth/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, KeyRound, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+interface LinkedProvider {
+  id: string;
+  name: string;
+  connected: boolean;
+}
+
+interface LinkedAccountsData {
+  hasPassword: boolean;
+  providers: LinkedProvider[];
+}
+
+export function LinkedAccounts() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['account', 'providers'],
+    queryFn: async () => {
+      const response = await fetch('/api/account/providers');
+      if (!response.ok) {
+        throw new Error('Failed to fetch linked accounts');
+      }
+      return response.json() as Promise<LinkedAccountsData>;
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (providerId: string) => {
+      const response = await fetch(`/api/account/providers/${providerId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to disconnect provider');
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['account', 'providers'] });
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const connectedCount = data?.providers.filter((provider) => provider.connected).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in methods</CardTitle>
+        <CardDescription>
+          Connect an account to sign in with it. Accounts are linked to you, whatever email address they use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loading text="Loading sign-in methods..." />
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            <li className="py-3 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <KeyRound className="h-5 w-5 text-neutral-400" />
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">Email and password</p>
+                  <p className="text-xs text-neutral-500">
+                    {data?.hasPassword ? 'Password set' : 'No password set'}
+                  </p>
+                </div>
+              </div>
+            </li>
+            {data?.providers.map((provider) => {
+              // The last way to sign in can't be removed
+              const isOnlyMethod = provider.connected && !data.hasPassword && connectedCount === 1;
+              return (
+                <li key={provider.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <Link2 className="h-5 w-5 text-neutral-400" />
+                    <div>
+                      <p className="text-sm font-medium text-neutral-900">{provider.name}</p>
+                      <p className="text-xs text-neutral-500 flex items-center gap-1">
+                        {provider.connected ? (
+                          <>
+                            <Check className="h-3 w-3 text-green-600" />
+                            Connected
+                          </>
+                        ) : (
+                          'Not connected'
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  {provider.connected ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => disconnectMutation.mutate(provider.id)}
+                      disabled={disconnectMutation.isPending || isOnlyMethod}
+                      title={isOnlyMethod ? 'Set a password or connect another provider first' : undefined}
+                    >
+                      Disconnect
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => signIn(provider.id, { callbackUrl: '/settings/account' })}
+                    >
+                      Connect
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {data && data.providers.length === 0 && (
+          <p className="mt-2 text-sm text-neutral-500">No sign-in providers are configured for this server.</p>
+        )}
+
+        {error && <p className="mt-4 text-sm text-error-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
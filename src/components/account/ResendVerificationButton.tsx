@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+
+export function ResendVerificationButton() {
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleResend = async () => {
+    setLoading(true);
+    setMessage('');
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to send verification email');
+        return;
+      }
+
+      setMessage('Check your inbox for a new verification link.');
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      setError('Failed to send verification email');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" size="sm" onClick={handleResend} loading={loading}>
+        Resend verification email
+      </Button>
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-error-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  hasPassword: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrolment {
+  secret: string;
+  uri: string;
+  qrCode: string;
+}
+
+async function postJson<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return data as T;
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-neutral-700">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator
+        app. They won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-neutral-50 border border-neutral-200 rounded-md p-3">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+          Copy codes
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['account', 'two-factor'],
+    queryFn: async () => {
+      const response = await fetch('/api/account/two-factor');
+      if (!response.ok) {
+        throw new Error('Failed to fetch two-factor status');
+      }
+      return response.json() as Promise<TwoFactorStatus>;
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['account', 'two-factor'] });
+
+  const resetForm = () => {
+    setCode('');
+    setPassword('');
+    setAction(null);
+    setError('');
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson<Enrolment>('/api/account/two-factor/setup', {}, 'Failed to start setup'),
+    onSuccess: (data) => {
+      setEnrolment(data);
+      setError('');
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () =>
+      postJson<{ recoveryCodes: string[] }>('/api/account/two-factor/enable', { code }, 'Failed to turn on two-factor authentication'),
+    onSuccess: (data) => {
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      resetForm();
+      refresh();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () =>
+      postJson('/api/account/two-factor/disable', { password, code }, 'Failed to turn off two-factor authentication'),
+    onSuccess: () => {
+      resetForm();
+      refresh();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () =>
+      postJson<{ recoveryCodes: string[] }>('/api/account/two-factor/recovery-codes', { code }, 'Failed to create new recovery codes'),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      resetForm();
+      refresh();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const renderBody = () => {
+    if (isLoading || !status) {
+      return <Loading text="Loading two-factor settings..." />;
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+    }
+
+    if (enrolment) {
+      return (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            enableMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-neutral-700">
+            Scan this QR code with an authenticator app such as 1Password, Authy or Google Authenticator, then
+            enter the code it shows.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={enrolment.qrCode} alt="Two-factor authentication QR code" width={200} height={200} />
+          <p className="text-xs text-neutral-500">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrolment.secret}</span>
+          </p>
+          <Input
+            label="Code from the app"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            placeholder="123456"
+            required
+          />
+          <div className="flex gap-2">
+            <Button type="submit" loading={enableMutation.isPending}>
+              Turn on
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setEnrolment(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <ShieldOff className="h-5 w-5 text-neutral-400" />
+            <p className="text-sm text-neutral-700">
+              {status.hasPassword
+                ? 'Two-factor authentication is off.'
+                : 'Two-factor authentication protects password sign-ins. Set a password for your account to turn it on.'}
+            </p>
+          </div>
+          {status.hasPassword && (
+            <Button size="sm" onClick={() => setupMutation.mutate()} loading={setupMutation.isPending}>
+              Set up
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="h-5 w-5 text-green-600" />
+          <div>
+            <p className="text-sm font-medium text-neutral-900">Two-factor authentication is on</p>
+            <p className="text-xs text-neutral-500">
+              {status.enabledAt && `Since ${format(new Date(status.enabledAt), 'MMM d, yyyy')} · `}
+              {status.recoveryCodesRemaining} recovery codes left
+            </p>
+          </div>
+        </div>
+
+        {action ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (action === 'disable') {
+                disableMutation.mutate();
+              } else {
+                regenerateMutation.mutate();
+              }
+            }}
+            className="space-y-3"
+          >
+            {action === 'disable' && (
+              <Input
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+              />
+            )}
+            <Input
+              label="Authentication code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              placeholder="123456"
+              required
+            />
+            <div className="flex gap-2">
+              <Button type="submit" loading={disableMutation.isPending || regenerateMutation.isPending}>
+                {action === 'disable' ? 'Turn off' : 'Create new codes'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAction('regenerate')}>
+              New recovery codes
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAction('disable')}>
+              Turn off
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Ask for a code from your phone as well as your password when signing in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {renderBody()}
+        {error && <p className="mt-4 text-sm text-error-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { AttachmentList } from './AttachmentList'
 import { ReplyThread } from './ReplyThread'
 import { formatBrowserMetadata } from '@/lib/browser-metadata'
 import { Attachment } from '@/types/attachment'
+import type { AnchorStatus } from '@/lib/dom-anchor'
+import { SCREENSHOT_KIND_LABELS, ScreenshotKind, sortScreenshots } from '@/lib/annotation-screenshots'
 
 interface AnnotationCardProps {
   annotation: {
@@ -15,6 +17,10 @@ interface AnnotationCardProps {
     status: 'OPEN' | 'RESOLVED'
     createdAt: string
     screenshot: string
+    screenshots?: Array<{
+      kind: ScreenshotKind
+      url: string
+    }>
     pageUrl: string
     metadata: Record<string, unknown>
     position: { x: number; y: number }
@@ -34,6 +40,7 @@ interface AnnotationCardProps {
   }
   number: number
   isSelected: boolean
+  anchorStatus?: AnchorStatus
   onSelect: () => void
   onUpdate: (data: { content?: string; status?: 'OPEN' | 'RESOLVED' }) => Promise<void>
   onDelete: () => void
@@ -59,10 +66,46 @@ interface AnnotationCardProps {
   onBulkToggle?: () => void
 }
 
+function ScreenshotTabs({
+  kinds,
+  current,
+  onChange,
+  dark = false
+}: {
+  kinds: ScreenshotKind[]
+  current: ScreenshotKind
+  onChange: (kind: ScreenshotKind) => void
+  dark?: boolean
+}) {
+  return (
+    <div className="flex space-x-1 mb-1">
+      {kinds.map(kind => (
+        <button
+          key={kind}
+          onClick={(e) => {
+            e.stopPropagation()
+            onChange(kind)
+          }}
+          className={`px-2 py-0.5 text-xs rounded transition-colors ${
+            kind === current
+              ? 'bg-blue-600 text-white'
+              : dark
+                ? 'bg-white bg-opacity-20 text-white hover:bg-opacity-30'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          {SCREENSHOT_KIND_LABELS[kind]}
+        </button>
+      ))}
+    </div>
+  )
+}
+
 export function AnnotationCard({
   annotation,
   number,
   isSelected,
+  anchorStatus,
   onSelect,
   onUpdate,
   onDelete,
@@ -78,6 +121,14 @@ export function AnnotationCard({
   const [isEditing, setIsEditing] = useState(false)
   const [showScreenshot, setShowScreenshot] = useState(false)
   const [showMetadata, setShowMetadata] = useState(false)
+  const [screenshotKind, setScreenshotKind] = useState<ScreenshotKind>('VIEWPORT')
+
+  // Annotations from before there were several screenshots only have the one
+  const screenshots = annotation.screenshots?.length
+    ? sortScreenshots(annotation.screenshots)
+    : [{ kind: 'VIEWPORT' as const, url: annotation.screenshot }]
+  const currentScreenshot = screenshots.find(screenshot => screenshot.kind === screenshotKind) ?? screenshots[0]
+  const screenshotKinds = screenshots.map(screenshot => screenshot.kind)
 
   const isAuthor = currentUser?.id === annotation.author?.id
   const authorName = annotation.author?.name || annotation.guestName || 'Anonymous'
@@ -263,10 +314,25 @@ export function AnnotationCard({
         <p className="text-xs text-gray-500">
           <span className="font-medium">Page:</span> {getUrlPath(annotation.pageUrl)}
         </p>
+        {anchorStatus === 'LOST' && (
+          <p
+            className="mt-1 inline-block text-xs text-yellow-700 bg-yellow-50 px-2 py-0.5 rounded-full"
+            title="The element this annotation was pinned to could not be found on the page"
+          >
+            ⚠️ Anchor lost - showing original position
+          </p>
+        )}
       </div>
 
       {/* Screenshot Thumbnail */}
       <div className="mb-3">
+        {screenshots.length > 1 && (
+          <ScreenshotTabs
+            kinds={screenshotKinds}
+            current={currentScreenshot.kind}
+            onChange={setScreenshotKind}
+          />
+        )}
         <button
           onClick={(e) => {
             e.stopPropagation()
@@ -275,9 +341,11 @@ export function AnnotationCard({
           className="block w-full"
         >
           <img
-            src={annotation.screenshot}
-            alt="Screenshot"
-            className="w-full h-20 object-cover rounded border hover:opacity-80 transition-opacity"
+            src={currentScreenshot.url}
+            alt={`${SCREENSHOT_KIND_LABELS[currentScreenshot.kind]} screenshot`}
+            className={`w-full h-20 rounded border hover:opacity-80 transition-opacity ${
+              currentScreenshot.kind === 'ELEMENT' ? 'object-contain bg-gray-50' : 'object-cover object-top'
+            }`}
           />
         </button>
       </div>
@@ -332,10 +400,18 @@ export function AnnotationCard({
           className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50"
           onClick={() => setShowScreenshot(false)}
         >
-          <div className="max-w-4xl max-h-full p-4">
+          <div className="max-w-4xl max-h-full p-4 overflow-auto">
+            {screenshots.length > 1 && (
+              <ScreenshotTabs
+                kinds={screenshotKinds}
+                current={currentScreenshot.kind}
+                onChange={setScreenshotKind}
+                dark
+              />
+            )}
             <img
-              src={annotation.screenshot}
-              alt="Screenshot"
+              src={currentScreenshot.url}
+              alt={`${SCREENSHOT_KIND_LABELS[currentScreenshot.kind]} screenshot`}
               className="max-w-full max-h-full object-contain rounded"
             />
           </div>
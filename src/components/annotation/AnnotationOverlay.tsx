@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useRef, useEffect, useCallback } from 'react'
+import type { ResolvedAnchor } from '@/lib/dom-anchor'
 
 interface Annotation {
   id: string
@@ -19,6 +20,7 @@ interface AnnotationOverlayProps {
   currentPageUrl: string
   viewport?: 'DESKTOP' | 'TABLET' | 'MOBILE'
   iframeRef?: React.RefObject<HTMLIFrameElement>
+  resolvedAnchors?: Record<string, ResolvedAnchor>
   onCursorMove?: (x: number, y: number) => void
 }
 
@@ -31,6 +33,7 @@ export function AnnotationOverlay({
   currentPageUrl,
   viewport = 'DESKTOP',
   iframeRef,
+  resolvedAnchors = {},
   onCursorMove
 }: AnnotationOverlayProps) {
   const [isCreatingAnnotation, setIsCreatingAnnotation] = useState(false)
@@ -154,6 +157,9 @@ export function AnnotationOverlay({
       {currentPageAnnotations.map((annotation, index) => {
         const isSelected = selectedAnnotation === annotation.id
         const isResolved = annotation.status === 'RESOLVED'
+        const resolvedAnchor = resolvedAnchors[annotation.id]
+        const position = resolvedAnchor?.position || annotation.position
+        const isAnchorLost = resolvedAnchor?.status === 'LOST'
         
         return (
           <div
@@ -175,13 +181,14 @@ export function AnnotationOverlay({
                 ? 'bg-blue-700'
                 : ''
               }
+              ${isAnchorLost ? 'opacity-60 border-2 border-dashed border-yellow-400' : ''}
             `}
             style={{
-              left: annotation.position.x,
-              top: annotation.position.y
+              left: position.x,
+              top: position.y
             }}
             onClick={(e) => handlePinClick(e, annotation.id)}
-            title={`Annotation ${index + 1}${isResolved ? ' (Resolved)' : ''} - ${annotation.content || 'Click to view details'}`}
+            title={`Annotation ${index + 1}${isResolved ? ' (Resolved)' : ''}${isAnchorLost ? ' (Anchor lost)' : ''} - ${annotation.content || 'Click to view details'}`}
           >
             {isResolved ? '✓' : index + 1}
           </div>
@@ -3,6 +3,8 @@
 import { useState, useMemo } from 'react'
 import { User } from '@prisma/client'
 import { AnnotationCard } from './AnnotationCard'
+import type { ResolvedAnchor } from '@/lib/dom-anchor'
+import type { ScreenshotKind } from '@/lib/annotation-screenshots'
 
 interface Annotation {
   id: string
@@ -10,6 +12,10 @@ interface Annotation {
   status: 'OPEN' | 'RESOLVED'
   createdAt: string
   screenshot: string
+  screenshots?: Array<{
+    kind: ScreenshotKind
+    url: string
+  }>
   pageUrl: string
   metadata: Record<string, unknown>
   position: { x: number; y: number }
@@ -49,6 +55,7 @@ interface AnnotationSidebarProps {
   currentUser?: User
   projectCollaborators: User[]
   currentPageUrl: string
+  resolvedAnchors?: Record<string, ResolvedAnchor>
   isGuest?: boolean
   guestInfo?: {
     name?: string
@@ -71,6 +78,7 @@ export function AnnotationSidebar({
   currentUser,
   projectCollaborators,
   currentPageUrl,
+  resolvedAnchors = {},
   isGuest = false,
   guestInfo
 }: AnnotationSidebarProps) {
@@ -343,6 +351,7 @@ export function AnnotationSidebar({
                 annotation={annotation}
                 number={getAnnotationNumber(annotation)}
                 isSelected={selectedAnnotation === annotation.id}
+                anchorStatus={resolvedAnchors[annotation.id]?.status}
                 onSelect={() => bulkMode ? toggleAnnotationSelection(annotation.id) : onAnnotationSelect(annotation.id)}
                 onUpdate={(data) => onAnnotationUpdate(annotation.id, data)}
                 onDelete={() => onAnnotationDelete(annotation.id)}
@@ -87,7 +87,7 @@ export function AttachmentList({
 
   const handleDownload = (attachment: Attachment) => {
     const link = document.createElement('a')
-    link.href = attachment.url
+    link.href = attachment.previewUrl ?? attachment.url
     link.download = attachment.filename
     document.body.appendChild(link)
     link.click()
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { Attachment } from '@/types/attachment'
+import { useFileUrl } from '@/hooks/useFileUrl'
 
 interface AttachmentPreviewProps {
   attachment: Attachment & {
@@ -14,6 +15,8 @@ interface AttachmentPreviewProps {
 export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string>()
+  // Uploads not yet attached to anything can only be read through their preview URL
+  const { url: fileUrl, error: fileUrlError } = useFileUrl(attachment.previewUrl ?? attachment.url)
 
   const isImage = attachment.mimeType.startsWith('image/')
   const isPdf = attachment.mimeType === 'application/pdf'
@@ -28,8 +31,9 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
   }
 
   const handleDownload = () => {
+    if (!fileUrl) return
     const link = document.createElement('a')
-    link.href = attachment.url
+    link.href = fileUrl
     link.download = attachment.filename
     document.body.appendChild(link)
     link.click()
@@ -37,11 +41,13 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
   }
 
   const renderPreview = () => {
+    if (!fileUrl) return null
+
     if (isImage) {
       return (
         <div className="flex items-center justify-center max-w-full max-h-full">
           <img
-            src={attachment.url}
+            src={fileUrl}
             alt={attachment.filename}
             className="max-w-full max-h-full object-contain rounded"
             onLoad={() => setIsLoading(false)}
@@ -58,7 +64,7 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
       return (
         <div className="w-full h-full">
           <iframe
-            src={`${attachment.url}#toolbar=1&navpanes=1&scrollbar=1`}
+            src={`${fileUrl}#toolbar=1&navpanes=1&scrollbar=1`}
             className="w-full h-full border-0 rounded"
             title={attachment.filename}
             onLoad={() => setIsLoading(false)}
@@ -75,7 +81,7 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
       return (
         <div className="w-full h-full bg-gray-50 rounded p-4 overflow-auto">
           <TextFilePreview 
-            url={attachment.url} 
+            url={fileUrl}
             onLoad={() => setIsLoading(false)}
             onError={(err) => {
               setIsLoading(false)
@@ -148,17 +154,17 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
 
         {/* Content */}
         <div className="flex-1 relative overflow-hidden">
-          {isLoading && (
+          {isLoading && !fileUrlError && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
           )}
           
-          {error && (
+          {(error || fileUrlError) && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center text-gray-500">
                 <div className="text-4xl mb-2">⚠️</div>
-                <p>{error}</p>
+                <p>{error || fileUrlError}</p>
                 <button
                   onClick={handleDownload}
                   className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
@@ -169,7 +175,7 @@ export function AttachmentPreview({ attachment, onClose }: AttachmentPreviewProp
             </div>
           )}
           
-          {!error && (
+          {!error && !fileUrlError && (
             <div className={`w-full h-full ${isLoading ? 'opacity-0' : 'opacity-100'} transition-opacity`}>
               {renderPreview()}
             </div>
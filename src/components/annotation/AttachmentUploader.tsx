@@ -8,6 +8,7 @@ interface AttachmentUploaderProps {
     id: string
     filename: string
     url: string
+    previewUrl?: string
     fileType: string
     fileSize: number
   }) => void
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react'
 import { Asset, Project } from '@prisma/client'
 import { ImmersiveAnnotationView } from './ImmersiveAnnotationView'
+import { LazyImage } from '@/components/ui/LazyImage'
+import type { GuestPermissionBoundary } from '@/lib/guest-access-security'
 
 interface GuestAnnotationViewProps {
   project: Project & {
@@ -14,11 +16,13 @@ interface GuestAnnotationViewProps {
     }
   }
   shareToken: string
+  permissions: GuestPermissionBoundary
 }
 
 export function GuestAnnotationView({
   project,
-  shareToken
+  shareToken,
+  permissions
 }: GuestAnnotationViewProps) {
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null)
   const [guestInfo, setGuestInfo] = useState<{
@@ -76,6 +80,7 @@ export function GuestAnnotationView({
         }}
         isGuest={true}
         guestToken={shareToken}
+        guestPermissions={permissions}
       />
     )
   }
@@ -83,6 +88,7 @@ export function GuestAnnotationView({
   return (
     <GuestProjectView
       project={project}
+      shareToken={shareToken}
       onAssetSelect={handleAssetSelect}
       guestInfo={guestInfo}
     />
@@ -197,11 +203,12 @@ interface GuestProjectViewProps {
       email: string
     }
   }
+  shareToken: string
   onAssetSelect: (asset: Asset) => void
   guestInfo: { name: string; email: string } | null
 }
 
-function GuestProjectView({ project, onAssetSelect, guestInfo }: GuestProjectViewProps) {
+function GuestProjectView({ project, shareToken, onAssetSelect, guestInfo }: GuestProjectViewProps) {
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -240,10 +247,11 @@ function GuestProjectView({ project, onAssetSelect, guestInfo }: GuestProjectVie
             >
               <div className="aspect-video bg-gray-100 flex items-center justify-center">
                 {asset.type === 'IMAGE' ? (
-                  <img
+                  <LazyImage
                     src={asset.url}
                     alt={asset.name}
                     className="w-full h-full object-cover"
+                    guestToken={shareToken}
                   />
                 ) : asset.type === 'URL' ? (
                   <div className="text-center p-4">
@@ -13,8 +13,14 @@ import { AnnotationSidebar } from './AnnotationSidebar'
 import { CollaboratorPresence } from './CollaboratorPresence'
 import { useAnnotations } from '@/hooks/useAnnotations'
 import { useRealtime } from '@/hooks/useRealtime'
-import { captureScreenshot } from '@/lib/screenshot'
+import { useAnchoredPositions } from '@/hooks/useAnchoredPositions'
+import { captureAnnotationScreenshots } from '@/lib/annotation-capture'
+import { captureElementAnchor, ElementAnchor, getAccessibleDocument } from '@/lib/dom-anchor'
+import { requestBridgeAnchor } from '@/lib/site-bridge'
 import { collectBrowserMetadata } from '@/lib/browser-metadata'
+import { getWidgetSnippet } from '@/lib/feedback-widget'
+import { SITE_PROXY_ENABLED } from '@/lib/site-proxy'
+import type { GuestPermissionBoundary } from '@/lib/guest-access-security'
 import { saveUrlState, loadUrlState } from '@/lib/url-state'
 import { useUrlContext } from '@/hooks/useUrlContext'
 
@@ -50,6 +56,15 @@ interface ImmersiveAnnotationViewProps {
   }
   isGuest?: boolean
   guestToken?: string
+  // What the guest's share link allows; guests without it may comment
+  guestPermissions?: GuestPermissionBoundary
+  // Share token embedded in the copied widget snippet so guests can comment on the live site
+  widgetShareToken?: string | null
+  // Deep-linked annotation (e.g. from a notification email) to open on load
+  initialAnnotation?: {
+    id: string
+    pageUrl: string
+  } | null
 }
 
 export function ImmersiveAnnotationView({
@@ -57,14 +72,19 @@ export function ImmersiveAnnotationView({
   project,
   currentUser,
   isGuest = false,
-  guestToken
+  guestToken,
+  guestPermissions,
+  widgetShareToken = null,
+  initialAnnotation
 }: ImmersiveAnnotationViewProps) {
+  const canComment = !isGuest || guestPermissions?.canCreateAnnotations !== false
+
   // Load saved state or use defaults
   const savedState = loadUrlState(asset.id)
   
-  const [showSidebar, setShowSidebar] = useState(false)
+  const [showSidebar, setShowSidebar] = useState(!!initialAnnotation)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
-  const [currentMode, setCurrentMode] = useState<AnnotationMode>('COMMENT')
+  const [currentMode, setCurrentMode] = useState<AnnotationMode>(canComment ? 'COMMENT' : 'BROWSE')
   const [currentViewport, setCurrentViewport] = useState<ViewportType>('DESKTOP')
   
   // Real-time collaboration state
@@ -85,7 +105,10 @@ export function ImmersiveAnnotationView({
     }
   }>>([])
   const [showPresence, setShowPresence] = useState(true)
-  const [selectedAnnotation, setSelectedAnnotation] = useState<string>()
+  const [selectedAnnotation, setSelectedAnnotation] = useState<string | undefined>(initialAnnotation?.id)
+  const [snippetCopied, setSnippetCopied] = useState(false)
+  // Full-page screenshots are slower and bigger, so they're opt-in
+  const [captureFullPage, setCaptureFullPage] = useState(false)
   
   const iframeRef = useRef<HTMLIFrameElement>(null)
   
@@ -101,7 +124,7 @@ export function ImmersiveAnnotationView({
     setCurrentUrl,
     getBreadcrumb
   } = useUrlContext({
-    baseUrl: savedState?.currentUrl || asset.url,
+    baseUrl: initialAnnotation?.pageUrl || savedState?.currentUrl || asset.url,
     onUrlChange: (url, context) => {
       // Save state when URL changes
       saveUrlState(asset.id, {
@@ -121,6 +144,9 @@ export function ImmersiveAnnotationView({
     addReply
   } = useAnnotations(asset.id, currentUrl)
 
+  // Re-resolve DOM anchors so pins follow their elements across reflows
+  const resolvedAnchors = useAnchoredPositions(annotations, iframeRef, SITE_PROXY_ENABLED)
+
   // Real-time collaboration
   const { broadcastCursorMove, getPresenceMembers } = useRealtime({
     assetId: asset.id,
@@ -177,17 +203,35 @@ export function ImmersiveAnnotationView({
     setAnnotationError(undefined)
 
     try {
-      // Capture screenshot and metadata
-      const screenshotResult = await captureScreenshot(iframeRef.current, currentUrl)
+      // Anchor to the element under the pin before capture can change the page
+      let anchor: ElementAnchor | null
+      if (SITE_PROXY_ENABLED) {
+        // Proxied pages have an opaque origin, so their bridge anchors the pin
+        anchor = await requestBridgeAnchor(iframeRef.current, position)
+      } else {
+        const iframeDoc = getAccessibleDocument(iframeRef.current)
+        anchor = iframeDoc ? captureElementAnchor(iframeDoc, position) : null
+      }
+
+      // Capture screenshots and metadata
+      const screenshots = await captureAnnotationScreenshots(iframeRef.current, {
+        pageUrl: currentUrl,
+        anchor,
+        fullPage: captureFullPage,
+        proxied: SITE_PROXY_ENABLED
+      })
+      const viewportScreenshot = screenshots.find(screenshot => screenshot.kind === 'VIEWPORT')!
       const metadata = collectBrowserMetadata()
 
       // Create annotation with professional context
       const newAnnotation = await createAnnotation({
         position,
         content: '', // Will be filled in by the annotation form
-        screenshot: screenshotResult.url,
+        screenshot: viewportScreenshot.url,
+        screenshots,
         pageUrl: currentUrl,
-        metadata: metadata as unknown as Record<string, unknown>
+        metadata: metadata as unknown as Record<string, unknown>,
+        anchor: anchor || undefined
       })
 
       // Auto-select the newly created annotation
@@ -201,7 +245,7 @@ export function ImmersiveAnnotationView({
     } finally {
       setIsCreatingAnnotation(false)
     }
-  }, [currentUrl, createAnnotation, isCreatingAnnotation])
+  }, [currentUrl, createAnnotation, isCreatingAnnotation, captureFullPage])
 
   const handleModeChange = useCallback((mode: AnnotationMode) => {
     setCurrentMode(mode)
@@ -231,6 +275,17 @@ export function ImmersiveAnnotationView({
     setShowSidebar(!showSidebar)
   }, [showSidebar])
 
+  // Widget snippet for the client's own site, with a share token when a link lets guests comment
+  const handleCopyWidgetSnippet = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(getWidgetSnippet(window.location.origin, asset.id, widgetShareToken))
+      setSnippetCopied(true)
+      setTimeout(() => setSnippetCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy widget snippet:', error)
+    }
+  }, [asset.id, widgetShareToken])
+
   const handleSidebarCollapse = useCallback(() => {
     setSidebarCollapsed(!sidebarCollapsed)
   }, [sidebarCollapsed])
@@ -294,21 +349,48 @@ export function ImmersiveAnnotationView({
         </div>
 
         <div className="flex items-center space-x-4">
-          <AnnotationModeToggle
-            currentMode={currentMode}
-            onModeChange={handleModeChange}
-          />
+          {canComment && (
+            <AnnotationModeToggle
+              currentMode={currentMode}
+              onModeChange={handleModeChange}
+            />
+          )}
           
           <ViewportControls
             currentViewport={currentViewport}
             onViewportChange={handleViewportChange}
           />
 
+          {canComment && (
+            <label
+              className="flex items-center space-x-1.5 text-sm text-gray-600 cursor-pointer"
+              title="Also capture the whole page with each new annotation"
+            >
+              <input
+                type="checkbox"
+                checked={captureFullPage}
+                onChange={(e) => setCaptureFullPage(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Full-page screenshots</span>
+            </label>
+          )}
+
           {/* Annotation count indicator */}
           <div className="text-sm text-gray-600">
             {annotations.length} annotation{annotations.length !== 1 ? 's' : ''}
           </div>
 
+          {!isGuest && (
+            <button
+              onClick={handleCopyWidgetSnippet}
+              className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+              title="Paste this script tag into your site to collect feedback in place"
+            >
+              {snippetCopied ? 'Snippet copied' : 'Copy widget snippet'}
+            </button>
+          )}
+
           <button
             onClick={handleToggleSidebar}
             className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
@@ -331,15 +413,18 @@ export function ImmersiveAnnotationView({
           <WebsiteIframe
             ref={iframeRef}
             url={asset.url}
+            assetId={asset.id}
             viewport={currentViewport}
             mode={currentMode}
             onLoad={() => {}}
             onUrlChange={handleUrlChange}
+            proxied={SITE_PROXY_ENABLED}
+            shareToken={guestToken}
           />
           
           {/* Annotation Overlay */}
           <AnnotationOverlay
-            isActive={currentMode === 'COMMENT'}
+            isActive={canComment && currentMode === 'COMMENT'}
             onAnnotationCreate={handleCreateAnnotation}
             onAnnotationSelect={setSelectedAnnotation}
             annotations={annotations}
@@ -347,6 +432,7 @@ export function ImmersiveAnnotationView({
             currentPageUrl={currentUrl}
             viewport={currentViewport}
             iframeRef={iframeRef as React.RefObject<HTMLIFrameElement>}
+            resolvedAnchors={resolvedAnchors}
             onCursorMove={broadcastCursorMove}
           />
         </div>
@@ -367,10 +453,11 @@ export function ImmersiveAnnotationView({
                 emailVerified: null,
                 createdAt: new Date(),
                 updatedAt: new Date(),
-                stripeCustomerId: null,
-                stripeSubscriptionId: null,
-                stripePriceId: null,
-                stripeCurrentPeriodEnd: null
+                currentOrganizationId: null,
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorEnabledAt: null,
+                twoFactorLastStep: null
               } : undefined,
               replies: (ann.replies || []).map((reply: { id: string; content: string; authorId: string; createdAt: string; author: { id: string; name: string; email: string } }) => ({
                 ...reply,
@@ -383,10 +470,11 @@ export function ImmersiveAnnotationView({
                   emailVerified: null,
                   createdAt: new Date(),
                   updatedAt: new Date(),
-                  stripeCustomerId: null,
-                  stripeSubscriptionId: null,
-                  stripePriceId: null,
-                  stripeCurrentPeriodEnd: null
+                  currentOrganizationId: null,
+                  twoFactorEnabled: false,
+                  twoFactorSecret: null,
+                  twoFactorEnabledAt: null,
+                  twoFactorLastStep: null
                 }
               }))
             }))}
@@ -418,10 +506,11 @@ export function ImmersiveAnnotationView({
               emailVerified: null,
               createdAt: new Date(),
               updatedAt: new Date(),
-              stripeCustomerId: null,
-              stripeSubscriptionId: null,
-              stripePriceId: null,
-              stripeCurrentPeriodEnd: null
+              currentOrganizationId: null,
+              twoFactorEnabled: false,
+              twoFactorSecret: null,
+              twoFactorEnabledAt: null,
+              twoFactorLastStep: null
             }}
             projectCollaborators={project.collaborators?.map(c => ({
               id: c.user.id,
@@ -432,12 +521,14 @@ export function ImmersiveAnnotationView({
               emailVerified: null,
               createdAt: new Date(),
               updatedAt: new Date(),
-              stripeCustomerId: null,
-              stripeSubscriptionId: null,
-              stripePriceId: null,
-              stripeCurrentPeriodEnd: null
+              currentOrganizationId: null,
+              twoFactorEnabled: false,
+              twoFactorSecret: null,
+              twoFactorEnabledAt: null,
+              twoFactorLastStep: null
             })) || []}
             currentPageUrl={currentUrl}
+            resolvedAnchors={resolvedAnchors}
           />
         )}
       </div>
@@ -1,54 +1,32 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { User } from '@prisma/client'
-import { getMentionsForUser } from '@/lib/mentions'
-
-interface MentionNotification {
-  id: string
-  userId: string
-  annotationId?: string
-  replyId?: string
-  mentionedBy: {
-    id: string
-    name?: string | null
-    email: string
-  }
-  content: string
-  createdAt: Date
-  read: boolean
-  project: {
-    id: string
-    name: string
-  }
-}
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useNotifications, type NotificationItem } from '@/hooks/useNotifications'
 
 interface MentionNotificationsProps {
-  currentUser: User
-  onNavigateToAnnotation?: (projectId: string, assetId: string, annotationId: string) => void
+  // Defaults to navigating to the notification's annotation link
+  onNavigate?: (url: string) => void
 }
 
-export function MentionNotifications({
-  currentUser,
-  onNavigateToAnnotation
-}: MentionNotificationsProps) {
-  const [notifications, setNotifications] = useState<MentionNotification[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+export function MentionNotifications({ onNavigate }: MentionNotificationsProps) {
+  const router = useRouter()
   const [showAll, setShowAll] = useState(false)
+  const { notifications, isLoading, markRead, markAllRead } = useNotifications({
+    type: 'MENTION',
+    limit: 50,
+  })
 
-  useEffect(() => {
-    loadNotifications()
-  }, [currentUser.id])
-
-  const loadNotifications = async () => {
-    try {
-      setIsLoading(true)
-      const mentions = await getMentionsForUser(currentUser.id)
-      setNotifications(mentions as MentionNotification[])
-    } catch (error) {
-      console.error('Failed to load mention notifications:', error)
-    } finally {
-      setIsLoading(false)
+  const handleOpen = (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      markRead(notification.id)
+    }
+    if (notification.url) {
+      if (onNavigate) {
+        onNavigate(notification.url)
+      } else {
+        router.push(notification.url)
+      }
     }
   }
 
@@ -72,7 +50,7 @@ export function MentionNotifications({
   }
 
   const displayedNotifications = showAll ? notifications : notifications.slice(0, 5)
-  const unreadCount = notifications.filter(n => !n.read).length
+  const unreadCount = notifications.filter(n => !n.readAt).length
 
   if (isLoading) {
     return (
@@ -111,10 +89,11 @@ export function MentionNotifications({
           )}
         </h3>
         <button
-          onClick={loadNotifications}
-          className="text-xs text-blue-600 hover:text-blue-700 transition-colors"
+          onClick={markAllRead}
+          disabled={unreadCount === 0}
+          className="text-xs text-blue-600 hover:text-blue-700 disabled:text-gray-400 transition-colors"
         >
-          Refresh
+          Mark all read
         </button>
       </div>
 
@@ -124,39 +103,28 @@ export function MentionNotifications({
           <div
             key={notification.id}
             className={`p-3 border-b border-gray-100 hover:bg-gray-50 cursor-pointer transition-colors ${
-              !notification.read ? 'bg-blue-50 border-l-2 border-l-blue-500' : ''
+              !notification.readAt ? 'bg-blue-50 border-l-2 border-l-blue-500' : ''
             }`}
-            onClick={() => {
-              if (onNavigateToAnnotation && notification.annotationId) {
-                // You'll need to get the asset ID from the annotation
-                // onNavigateToAnnotation(notification.project.id, assetId, notification.annotationId)
-              }
-            }}
+            onClick={() => handleOpen(notification)}
           >
             <div className="flex items-start space-x-3">
               <div className="flex-shrink-0">
                 <div className="w-8 h-8 bg-gray-300 rounded-full flex items-center justify-center text-sm">
-                  {(notification.mentionedBy.name || notification.mentionedBy.email).charAt(0).toUpperCase()}
+                  {(notification.actor?.name || notification.actor?.email || '@').charAt(0).toUpperCase()}
                 </div>
               </div>
               
               <div className="flex-1 min-w-0">
-                <p className="text-sm text-gray-900">
-                  <span className="font-medium">
-                    {notification.mentionedBy.name || notification.mentionedBy.email}
-                  </span>
-                  {' mentioned you in '}
-                  <span className="font-medium text-blue-600">
-                    {notification.project.name}
-                  </span>
-                </p>
+                <p className="text-sm text-gray-900">{notification.title}</p>
                 
-                <p className="text-sm text-gray-600 mt-1">
-                  {truncateContent(notification.content)}
-                </p>
+                {notification.body && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {truncateContent(notification.body)}
+                  </p>
+                )}
                 
                 <p className="text-xs text-gray-500 mt-1">
-                  {formatTimeAgo(notification.createdAt)}
+                  {formatTimeAgo(new Date(notification.createdAt))}
                 </p>
               </div>
             </div>
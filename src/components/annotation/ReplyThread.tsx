@@ -53,6 +53,7 @@ export function ReplyThread({
     id: string
     filename: string
     url: string
+    previewUrl?: string
     fileType: string
     fileSize: number
   }[]>([])
@@ -2,13 +2,21 @@
 
 import { forwardRef, useEffect, useState } from 'react'
 import { ViewportType, AnnotationMode } from './ImmersiveAnnotationView'
+import { buildProxyEntryUrl, unproxyUrl, SITE_PROXY_ENABLED } from '@/lib/site-proxy'
+import { isBridgeMessage } from '@/lib/site-bridge'
 
 interface WebsiteIframeProps {
   url: string
+  // The URL asset being shown, which the proxy checks the viewer may see
+  assetId: string
   viewport: ViewportType
   mode: AnnotationMode
   onLoad: () => void
   onUrlChange: (newUrl: string) => void
+  // Serve the site through the site proxy
+  proxied?: boolean
+  // Guest share token, which opens the proxy instead of a session
+  shareToken?: string
 }
 
 const viewportWidths = {
@@ -24,12 +32,13 @@ const viewportHeights = {
 }
 
 export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
-  ({ url, viewport, mode, onLoad, onUrlChange }, ref) => {
+  ({ url, assetId, viewport, mode, onLoad, onUrlChange, proxied = SITE_PROXY_ENABLED, shareToken }, ref) => {
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string>()
     const [currentUrl, setCurrentUrl] = useState(url)
     const [loadAttempts, setLoadAttempts] = useState(0)
     const [canAccessContent, setCanAccessContent] = useState(true)
+    const iframeSrc = proxied ? buildProxyEntryUrl(assetId, url, shareToken) : url
 
     const validateUrl = (urlToValidate: string): boolean => {
       try {
@@ -51,7 +60,8 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
       if (mode === 'BROWSE' && ref && 'current' in ref && ref.current) {
         try {
           const iframe = ref.current
-          const iframeUrl = iframe.contentWindow?.location.href
+          const rawUrl = iframe.contentWindow?.location.href
+          const iframeUrl = rawUrl ? unproxyUrl(rawUrl) : undefined
           if (iframeUrl && iframeUrl !== currentUrl) {
             setCurrentUrl(iframeUrl)
             onUrlChange(iframeUrl)
@@ -76,7 +86,7 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
           setIsLoading(true)
           setError(undefined)
           if (ref && 'current' in ref && ref.current) {
-            ref.current.src = url
+            ref.current.src = iframeSrc
           }
         }, 2000)
       } else {
@@ -104,7 +114,8 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
         
         const checkUrlChange = () => {
           try {
-            const iframeUrl = iframe.contentWindow?.location.href
+            const rawUrl = iframe.contentWindow?.location.href
+            const iframeUrl = rawUrl ? unproxyUrl(rawUrl) : undefined
             if (iframeUrl && iframeUrl !== currentUrl) {
               setCurrentUrl(iframeUrl)
               onUrlChange(iframeUrl)
@@ -132,9 +143,11 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
         
         // Also listen for iframe navigation events
         const handleMessage = (event: MessageEvent) => {
-          // Listen for postMessage from iframe if the site supports it
-          if (event.source === iframe.contentWindow && event.data.type === 'navigation') {
-            onUrlChange(event.data.url)
+          // Navigation reported by the proxy bridge in this iframe's page
+          if (isBridgeMessage(event, iframe) && event.data.type === 'navigation' && event.data.url) {
+            const navigatedUrl = unproxyUrl(event.data.url)
+            setCurrentUrl(navigatedUrl)
+            onUrlChange(navigatedUrl)
           }
         }
         
@@ -169,7 +182,7 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
                     setError(undefined)
                     setLoadAttempts(0)
                     if (ref && 'current' in ref && ref.current) {
-                      ref.current.src = url
+                      ref.current.src = iframeSrc
                     }
                   }}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors mr-2"
@@ -213,7 +226,7 @@ export const WebsiteIframe = forwardRef<HTMLIFrameElement, WebsiteIframeProps>(
             
             <iframe
               ref={ref}
-              src={url}
+              src={iframeSrc}
               className="w-full h-full border-0 bg-white"
               style={{
                 borderRadius: viewport !== 'DESKTOP' ? (viewport === 'MOBILE' ? '12px' : '8px') : '0',
@@ -2,7 +2,10 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { fabric } from 'fabric'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
 import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
+import { AnnotationGeometry, getArrowEndpoint, resolveStrokeColor } from '@/lib/annotation-shapes'
+import { PageRect, fromPagePosition, renderPdfPage, toPagePosition } from '@/lib/pdf-pages'
 
 interface AnnotationCanvasProps {
   assetUrl: string
@@ -16,13 +19,21 @@ interface AnnotationCanvasProps {
       width?: number
       height?: number
     }
+    strokeColor?: string | null
     content: string
+    pageNumber?: number | null
   }>
+  // PDF assets render the current page of the loaded document
+  pdfDocument?: PDFDocumentProxy | null
+  pageNumber?: number
   selectedTool: 'select' | 'comment' | 'rectangle' | 'arrow' | 'text'
+  strokeColor?: string
   onAnnotationCreate: (annotation: {
     position: { x: number; y: number; width?: number; height?: number }
     content: string
     type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+    strokeColor?: string
+    pageNumber?: number
   }) => void
   onAnnotationSelect: (annotationId: string | null) => void
   selectedAnnotationId: string | null
@@ -32,7 +43,10 @@ export default function AnnotationCanvas({
   assetUrl,
   assetType,
   annotations,
+  pdfDocument,
+  pageNumber = 1,
   selectedTool,
+  strokeColor,
   onAnnotationCreate,
   onAnnotationSelect,
 
@@ -42,6 +56,14 @@ export default function AnnotationCanvas({
   const [zoom, setZoom] = useState(1)
   const [isDrawing, setIsDrawing] = useState(false)
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null)
+  // Where the current PDF page sits on the canvas, for page-normalized coordinates
+  const pageRectRef = useRef<PageRect | null>(null)
+  const pageImageCacheRef = useRef<Map<number, string>>(new Map())
+  const [backgroundVersion, setBackgroundVersion] = useState(0)
+
+  useEffect(() => {
+    pageImageCacheRef.current = new Map()
+  }, [pdfDocument])
 
   useEffect(() => {
     if (!canvasRef.current) return
@@ -54,11 +76,12 @@ export default function AnnotationCanvas({
     })
 
     fabricCanvasRef.current = canvas
+    let disposed = false
 
     // Load asset based on type
     if (assetType === 'IMAGE') {
       fabric.Image.fromURL(assetUrl, (img) => {
-        if (!img) return
+        if (!img || disposed) return
         
         // Scale image to fit canvas while maintaining aspect ratio
         const canvasWidth = canvas.getWidth()
@@ -79,7 +102,65 @@ export default function AnnotationCanvas({
         canvas.add(img)
         canvas.sendToBack(img)
         canvas.renderAll()
+        setBackgroundVersion(version => version + 1)
       })
+    } else if (assetType === 'PDF' && pdfDocument) {
+      const canvasWidth = canvas.getWidth()
+      const canvasHeight = canvas.getHeight()
+
+      const loadPageImage = async () => {
+        const cached = pageImageCacheRef.current.get(pageNumber)
+        if (cached) return cached
+        const pageCanvas = await renderPdfPage(pdfDocument, pageNumber, canvasWidth, canvasHeight)
+        const dataUrl = pageCanvas.toDataURL('image/png')
+        pageImageCacheRef.current.set(pageNumber, dataUrl)
+        return dataUrl
+      }
+
+      loadPageImage()
+        .then(dataUrl => {
+          fabric.Image.fromURL(dataUrl, (img) => {
+            if (!img || disposed) return
+
+            const width = img.width || 1
+            const height = img.height || 1
+            const left = (canvasWidth - width) / 2
+            const top = (canvasHeight - height) / 2
+
+            img.set({
+              left,
+              top,
+              selectable: false,
+              evented: false,
+            })
+
+            pageRectRef.current = { left, top, width, height }
+            canvas.add(img)
+            canvas.sendToBack(img)
+            canvas.renderAll()
+            setBackgroundVersion(version => version + 1)
+          })
+        })
+        .catch(error => console.error(`Failed to render PDF page ${pageNumber}:`, error))
+    }
+
+    // PDF annotations are stored page-normalized together with their page
+    const emitAnnotation = (annotation: {
+      position: AnnotationGeometry
+      content: string
+      type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+      strokeColor?: string
+    }) => {
+      if (assetType === 'PDF') {
+        if (!pageRectRef.current) return
+        onAnnotationCreate({
+          ...annotation,
+          position: toPagePosition(annotation.position, pageRectRef.current),
+          pageNumber,
+        })
+        return
+      }
+      onAnnotationCreate(annotation)
     }
 
     // Handle canvas interactions
@@ -96,7 +177,7 @@ export default function AnnotationCanvas({
         // Create comment pin immediately
         const content = prompt('Enter your comment:')
         if (content) {
-          onAnnotationCreate({
+          emitAnnotation({
             position: { x: pointer.x, y: pointer.y },
             content,
             type: 'COMMENT',
@@ -126,7 +207,7 @@ export default function AnnotationCanvas({
             width: Math.abs(pointer.x - startPoint.x),
             height: Math.abs(pointer.y - startPoint.y),
             fill: 'transparent',
-            stroke: '#ef4444',
+            stroke: resolveStrokeColor('RECTANGLE', strokeColor),
             strokeWidth: 2,
             strokeDashArray: [5, 5],
             selectable: false,
@@ -155,7 +236,7 @@ export default function AnnotationCanvas({
         const height = Math.abs(pointer.y - startPoint.y)
         
         if (width > 10 && height > 10) {
-          onAnnotationCreate({
+          emitAnnotation({
             position: {
               x: Math.min(startPoint.x, pointer.x),
               y: Math.min(startPoint.y, pointer.y),
@@ -164,6 +245,7 @@ export default function AnnotationCanvas({
             },
             content: '',
             type: 'RECTANGLE',
+            strokeColor,
           })
         }
       } else if (selectedTool === 'arrow') {
@@ -172,7 +254,7 @@ export default function AnnotationCanvas({
         )
         
         if (distance > 20) {
-          onAnnotationCreate({
+          emitAnnotation({
             position: {
               x: startPoint.x,
               y: startPoint.y,
@@ -181,15 +263,17 @@ export default function AnnotationCanvas({
             },
             content: '',
             type: 'ARROW',
+            strokeColor,
           })
         }
       } else if (selectedTool === 'text') {
         const content = prompt('Enter text:')
         if (content) {
-          onAnnotationCreate({
+          emitAnnotation({
             position: { x: pointer.x, y: pointer.y },
             content,
             type: 'TEXT',
+            strokeColor,
           })
         }
       }
@@ -214,9 +298,11 @@ export default function AnnotationCanvas({
     canvas.on('selection:cleared', () => onAnnotationSelect(null))
 
     return () => {
+      disposed = true
+      pageRectRef.current = null
       canvas.dispose()
     }
-  }, [assetUrl, assetType, selectedTool, isDrawing, startPoint, onAnnotationCreate, onAnnotationSelect])
+  }, [assetUrl, assetType, pdfDocument, pageNumber, selectedTool, strokeColor, isDrawing, startPoint, onAnnotationCreate, onAnnotationSelect])
 
   // Update annotations on canvas when they change
   useEffect(() => {
@@ -228,37 +314,48 @@ export default function AnnotationCanvas({
     const objects = canvas.getObjects().filter(obj => obj.data?.isAnnotation)
     objects.forEach(obj => canvas.remove(obj))
 
+    // PDF pages only show their own annotations, mapped from page coordinates
+    const pageRect = pageRectRef.current
+    if (assetType === 'PDF' && !pageRect) return
+    const visibleAnnotations = assetType === 'PDF'
+      ? annotations.filter(annotation => (annotation.pageNumber ?? 1) === pageNumber)
+      : annotations
+
     // Add annotation objects
-    annotations.forEach(annotation => {
-      const { position, type, id, content } = annotation
+    visibleAnnotations.forEach(annotation => {
+      const { type, id, content } = annotation
+      const position = assetType === 'PDF' && pageRect
+        ? fromPagePosition(annotation.position, pageRect)
+        : annotation.position
+      const color = resolveStrokeColor(type, annotation.strokeColor)
       
       switch (type) {
         case 'COMMENT':
-          addCommentPin(canvas, position, id)
+          addCommentPin(canvas, position, id, color)
           break
         case 'RECTANGLE':
-          addRectangle(canvas, position, id)
+          addRectangle(canvas, position, id, color)
           break
         case 'ARROW':
-          addArrow(canvas, position, id)
+          addArrow(canvas, position, id, color)
           break
         case 'TEXT':
-          addTextAnnotation(canvas, position, id, content)
+          addTextAnnotation(canvas, position, id, content, color)
           break
       }
     })
 
     canvas.renderAll()
-  }, [annotations])
+  }, [annotations, assetType, pageNumber, backgroundVersion])
 
 
 
-  const addCommentPin = (canvas: fabric.Canvas, position: { x: number; y: number }, id: string) => {
+  const addCommentPin = (canvas: fabric.Canvas, position: { x: number; y: number }, id: string, color: string) => {
     const circle = new fabric.Circle({
       left: position.x - 10,
       top: position.y - 10,
       radius: 10,
-      fill: '#3b82f6',
+      fill: color,
       stroke: '#ffffff',
       strokeWidth: 2,
       selectable: true,
@@ -284,14 +381,14 @@ export default function AnnotationCanvas({
     canvas.add(group)
   }
 
-  const addRectangle = (canvas: fabric.Canvas, position: { x: number; y: number; width?: number; height?: number }, id: string) => {
+  const addRectangle = (canvas: fabric.Canvas, position: { x: number; y: number; width?: number; height?: number }, id: string, color: string) => {
     const rect = new fabric.Rect({
       left: position.x,
       top: position.y,
       width: position.width || 100,
       height: position.height || 100,
       fill: 'transparent',
-      stroke: '#ef4444',
+      stroke: color,
       strokeWidth: 2,
       selectable: true,
       data: { isAnnotation: true, annotationId: id },
@@ -300,14 +397,13 @@ export default function AnnotationCanvas({
     canvas.add(rect)
   }
 
-  const addArrow = (canvas: fabric.Canvas, position: { x: number; y: number; width?: number; height?: number }, id: string) => {
+  const addArrow = (canvas: fabric.Canvas, position: { x: number; y: number; width?: number; height?: number }, id: string, color: string) => {
     const startX = position.x
     const startY = position.y
-    const endX = position.x + (position.width || 100)
-    const endY = position.y + (position.height || 0)
+    const { x: endX, y: endY } = getArrowEndpoint(position)
 
     const line = new fabric.Line([startX, startY, endX, endY], {
-      stroke: '#f59e0b',
+      stroke: color,
       strokeWidth: 3,
       selectable: true,
       data: { isAnnotation: true, annotationId: id },
@@ -329,7 +425,7 @@ export default function AnnotationCanvas({
         y: endY - arrowLength * Math.sin(angle + arrowAngle),
       },
     ], {
-      fill: '#f59e0b',
+      fill: color,
       selectable: false,
       evented: false,
     })
@@ -342,12 +438,12 @@ export default function AnnotationCanvas({
     canvas.add(group)
   }
 
-  const addTextAnnotation = (canvas: fabric.Canvas, position: { x: number; y: number }, id: string, content: string) => {
+  const addTextAnnotation = (canvas: fabric.Canvas, position: { x: number; y: number }, id: string, content: string, color: string) => {
     const text = new fabric.Text(content, {
       left: position.x,
       top: position.y,
       fontSize: 16,
-      fill: '#1f2937',
+      fill: color,
       backgroundColor: '#fef3c7',
       padding: 8,
       selectable: true,
@@ -3,12 +3,25 @@
 import { useState } from 'react'
 import { MessageCircle, Square, ArrowRight, Type, Check, Reply, MoreVertical } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
+import { formatPageLabel } from '@/lib/pdf-pages'
+import { formatVersionLabel } from '@/lib/asset-versions'
 
 interface Annotation {
   id: string
   content: string
   type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
   status: 'OPEN' | 'RESOLVED'
+  pageNumber?: number | null
+  versionId?: string | null
+  originVersionId?: string | null
+  version?: {
+    id: string
+    versionNumber: number
+  } | null
+  originVersion?: {
+    id: string
+    versionNumber: number
+  } | null
   createdAt: string
   author: {
     id: string
@@ -39,6 +52,11 @@ interface AnnotationPanelProps {
   onAnnotationDelete: (annotationId: string) => void
   onReplyCreate: (annotationId: string, content: string) => void
   currentUserId: string
+  // PDF assets: total pages, and jumping to an annotation's page
+  pageCount?: number
+  onPageSelect?: (pageNumber: number) => void
+  // Versioned assets: the version currently on screen
+  versionId?: string
 }
 
 export default function AnnotationPanel({
@@ -49,7 +67,11 @@ export default function AnnotationPanel({
   onAnnotationDelete,
   onReplyCreate,
   currentUserId,
+  pageCount = 0,
+  onPageSelect,
+  versionId,
 }: AnnotationPanelProps) {
+  const [pageFilter, setPageFilter] = useState<number | 'all'>('all')
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
   const [replyContent, setReplyContent] = useState('')
   const [editingAnnotation, setEditingAnnotation] = useState<string | null>(null)
@@ -91,8 +113,18 @@ export default function AnnotationPanel({
     setEditContent(annotation.content)
   }
 
-  const openAnnotations = annotations.filter(a => a.status === 'OPEN')
-  const resolvedAnnotations = annotations.filter(a => a.status === 'RESOLVED')
+  const handleSelect = (annotation: Annotation) => {
+    onAnnotationSelect(annotation.id)
+    if (annotation.pageNumber && onPageSelect) {
+      onPageSelect(annotation.pageNumber)
+    }
+  }
+
+  const visibleAnnotations = pageFilter === 'all'
+    ? annotations
+    : annotations.filter(a => a.pageNumber === pageFilter)
+  const openAnnotations = visibleAnnotations.filter(a => a.status === 'OPEN')
+  const resolvedAnnotations = visibleAnnotations.filter(a => a.status === 'RESOLVED')
 
   return (
     <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full">
@@ -102,14 +134,28 @@ export default function AnnotationPanel({
         <p className="text-sm text-gray-500 mt-1">
           {openAnnotations.length} open, {resolvedAnnotations.length} resolved
         </p>
+        {pageCount > 0 && (
+          <select
+            value={pageFilter}
+            onChange={(e) => setPageFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            className="mt-2 w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All pages</option>
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map(pageNumber => (
+              <option key={pageNumber} value={pageNumber}>
+                {formatPageLabel(pageNumber, pageCount)}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Annotations List */}
       <div className="flex-1 overflow-y-auto">
-        {annotations.length === 0 ? (
+        {visibleAnnotations.length === 0 ? (
           <div className="p-4 text-center text-gray-500">
             <MessageCircle className="w-12 h-12 mx-auto mb-3 text-gray-300" />
-            <p className="text-sm">No annotations yet</p>
+            <p className="text-sm">{pageFilter === 'all' ? 'No annotations yet' : `No annotations on page ${pageFilter}`}</p>
             <p className="text-xs mt-1">Select a tool and click on the canvas to add annotations</p>
           </div>
         ) : (
@@ -125,7 +171,7 @@ export default function AnnotationPanel({
                     key={annotation.id}
                     annotation={annotation}
                     isSelected={selectedAnnotationId === annotation.id}
-                    onSelect={() => onAnnotationSelect(annotation.id)}
+                    onSelect={() => handleSelect(annotation)}
                     onUpdate={onAnnotationUpdate}
                     onDelete={onAnnotationDelete}
                     onReplyCreate={onReplyCreate}
@@ -142,6 +188,8 @@ export default function AnnotationPanel({
                     onEditSubmit={handleEditSubmit}
                     onStartEditing={startEditing}
                     getAnnotationIcon={getAnnotationIcon}
+                    pageCount={pageCount}
+                    versionId={versionId}
                   />
                 ))}
               </div>
@@ -158,7 +206,7 @@ export default function AnnotationPanel({
                     key={annotation.id}
                     annotation={annotation}
                     isSelected={selectedAnnotationId === annotation.id}
-                    onSelect={() => onAnnotationSelect(annotation.id)}
+                    onSelect={() => handleSelect(annotation)}
                     onUpdate={onAnnotationUpdate}
                     onDelete={onAnnotationDelete}
                     onReplyCreate={onReplyCreate}
@@ -175,6 +223,8 @@ export default function AnnotationPanel({
                     onEditSubmit={handleEditSubmit}
                     onStartEditing={startEditing}
                     getAnnotationIcon={getAnnotationIcon}
+                    pageCount={pageCount}
+                    versionId={versionId}
                   />
                 ))}
               </div>
@@ -206,6 +256,8 @@ interface AnnotationItemProps {
   onEditSubmit: (annotationId: string) => void
   onStartEditing: (annotation: Annotation) => void
   getAnnotationIcon: (type: string) => React.ComponentType<{ className?: string }>
+  pageCount: number
+  versionId?: string
 }
 
 function AnnotationItem({
@@ -227,6 +279,8 @@ function AnnotationItem({
   onEditSubmit,
   onStartEditing,
   getAnnotationIcon,
+  pageCount,
+  versionId,
 }: AnnotationItemProps) {
   const [showMenu, setShowMenu] = useState(false)
   const Icon = getAnnotationIcon(annotation.type)
@@ -346,9 +400,26 @@ function AnnotationItem({
         )
       )}
 
-      {/* Timestamp */}
+      {/* Timestamp and page */}
       <p className="text-xs text-gray-500 mb-3">
         {formatDistanceToNow(new Date(annotation.createdAt), { addSuffix: true })}
+        {annotation.pageNumber && (
+          <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+            {formatPageLabel(annotation.pageNumber, pageCount)}
+          </span>
+        )}
+        {annotation.originVersion && (
+          <span className="ml-2 px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">
+            {annotation.originVersionId !== annotation.versionId
+              ? `carried from ${formatVersionLabel(annotation.originVersion.versionNumber)}`
+              : formatVersionLabel(annotation.originVersion.versionNumber)}
+          </span>
+        )}
+        {versionId && annotation.version && annotation.versionId !== versionId && (
+          <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">
+            moved to {formatVersionLabel(annotation.version.versionNumber)}
+          </span>
+        )}
       </p>
 
       {/* Replies */}
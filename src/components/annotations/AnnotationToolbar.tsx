@@ -1,10 +1,13 @@
 'use client'
 
 import { MousePointer, MessageCircle, Square, ArrowRight, Type } from 'lucide-react'
+import { STROKE_COLOR_PRESETS } from '@/lib/annotation-shapes'
 
 interface AnnotationToolbarProps {
   selectedTool: 'select' | 'comment' | 'rectangle' | 'arrow' | 'text'
   onToolSelect: (tool: 'select' | 'comment' | 'rectangle' | 'arrow' | 'text') => void
+  strokeColor?: string
+  onStrokeColorChange?: (color: string) => void
 }
 
 const tools = [
@@ -43,10 +46,14 @@ const tools = [
 export default function AnnotationToolbar({
   selectedTool,
   onToolSelect,
+  strokeColor,
+  onStrokeColorChange,
 }: AnnotationToolbarProps) {
+  const showColors = onStrokeColorChange && ['rectangle', 'arrow', 'text'].includes(selectedTool)
+
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-2 shadow-sm">
-      <div className="flex gap-1">
+      <div className="flex items-center gap-1">
         {tools.map((tool) => {
           const Icon = tool.icon
           const isSelected = selectedTool === tool.id
@@ -68,6 +75,23 @@ export default function AnnotationToolbar({
             </button>
           )
         })}
+
+        {/* Stroke color for shape tools */}
+        {showColors && (
+          <div className="flex items-center gap-1 pl-2 ml-1 border-l border-gray-200">
+            {STROKE_COLOR_PRESETS.map((color) => (
+              <button
+                key={color}
+                onClick={() => onStrokeColorChange(color)}
+                className={`w-5 h-5 rounded-full border-2 transition-transform ${
+                  strokeColor === color ? 'border-gray-900 scale-110' : 'border-white hover:scale-110'
+                }`}
+                style={{ backgroundColor: color }}
+                title={`Stroke color ${color}`}
+              />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { formatPageLabel, renderPdfPage } from '@/lib/pdf-pages'
+
+interface PdfPageNavigatorProps {
+  pdfDocument: PDFDocumentProxy
+  currentPage: number
+  onPageChange: (pageNumber: number) => void
+  // Open annotation count per page number
+  annotationCounts?: Record<number, number>
+}
+
+const THUMBNAIL_WIDTH = 120
+const THUMBNAIL_HEIGHT = 160
+
+export default function PdfPageNavigator({
+  pdfDocument,
+  currentPage,
+  onPageChange,
+  annotationCounts = {},
+}: PdfPageNavigatorProps) {
+  const pageCount = pdfDocument.numPages
+  const pageNumbers = Array.from({ length: pageCount }, (_, index) => index + 1)
+
+  return (
+    <div className="w-44 bg-white border-r border-gray-200 flex flex-col h-full">
+      {/* Page navigation */}
+      <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+        <button
+          onClick={() => onPageChange(currentPage - 1)}
+          disabled={currentPage <= 1}
+          className="p-1 rounded hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Previous page"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-xs font-medium text-gray-700">
+          {formatPageLabel(currentPage, pageCount)}
+        </span>
+        <button
+          onClick={() => onPageChange(currentPage + 1)}
+          disabled={currentPage >= pageCount}
+          className="p-1 rounded hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Next page"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Thumbnails */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {pageNumbers.map(pageNumber => (
+          <PageThumbnail
+            key={pageNumber}
+            pdfDocument={pdfDocument}
+            pageNumber={pageNumber}
+            isActive={pageNumber === currentPage}
+            annotationCount={annotationCounts[pageNumber] || 0}
+            onSelect={() => onPageChange(pageNumber)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface PageThumbnailProps {
+  pdfDocument: PDFDocumentProxy
+  pageNumber: number
+  isActive: boolean
+  annotationCount: number
+  onSelect: () => void
+}
+
+function PageThumbnail({
+  pdfDocument,
+  pageNumber,
+  isActive,
+  annotationCount,
+  onSelect,
+}: PageThumbnailProps) {
+  const containerRef = useRef<HTMLButtonElement>(null)
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null)
+  const [isVisible, setIsVisible] = useState(false)
+
+  // Only render thumbnails once they scroll into view
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true)
+        observer.disconnect()
+      }
+    }, { rootMargin: '200px' })
+
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    let cancelled = false
+    renderPdfPage(pdfDocument, pageNumber, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT)
+      .then(canvas => {
+        if (!cancelled) setThumbnailUrl(canvas.toDataURL('image/png'))
+      })
+      .catch(error => console.error(`Failed to render thumbnail for page ${pageNumber}:`, error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [isVisible, pdfDocument, pageNumber])
+
+  useEffect(() => {
+    if (isActive) {
+      containerRef.current?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [isActive])
+
+  return (
+    <button
+      ref={containerRef}
+      onClick={onSelect}
+      className={`relative w-full flex flex-col items-center gap-1 p-1 rounded-lg border-2 transition-colors ${
+        isActive ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+      }`}
+    >
+      <div
+        className="flex items-center justify-center bg-gray-100"
+        style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT }}
+      >
+        {thumbnailUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={thumbnailUrl} alt={`Page ${pageNumber}`} className="max-w-full max-h-full shadow-sm" />
+        ) : (
+          <div className="w-full h-full animate-pulse bg-gray-200" />
+        )}
+      </div>
+      <span className="text-xs text-gray-600">{pageNumber}</span>
+      {annotationCount > 0 && (
+        <span className="absolute top-2 right-2 min-w-5 h-5 px-1 rounded-full bg-blue-600 text-white text-xs flex items-center justify-center">
+          {annotationCount}
+        </span>
+      )}
+    </button>
+  )
+}
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
 import { Upload, Link as LinkIcon, X, FileImage, FileText } from 'lucide-react';
+import { LazyUpgradeModal } from '@/components/LazyComponents';
 
 interface AssetUploaderProps {
   projectId: string;
@@ -19,6 +20,7 @@ export function AssetUploader({ projectId, onUpload }: AssetUploaderProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [urlData, setUrlData] = useState({ name: '', url: '' });
   const [error, setError] = useState('');
+  const [storageLimit, setStorageLimit] = useState<{ limit: number; currentCount: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDrag = (e: React.DragEvent) => {
@@ -87,6 +89,14 @@ export function AssetUploader({ projectId, onUpload }: AssetUploaderProps) {
 
         if (!response.ok) {
           const errorData = await response.json();
+          if (errorData.upgradeRequired) {
+            // Files uploaded before this one stay uploaded
+            setStorageLimit({ limit: errorData.limit, currentCount: errorData.currentCount });
+            setSelectedFiles([]);
+            setIsOpen(false);
+            onUpload();
+            return;
+          }
           throw new Error(errorData.error || 'Upload failed');
         }
       }
@@ -323,6 +333,14 @@ export function AssetUploader({ projectId, onUpload }: AssetUploaderProps) {
           </div>
         </div>
       </Modal>
+
+      <LazyUpgradeModal
+        isOpen={!!storageLimit}
+        onClose={() => setStorageLimit(null)}
+        reason="storage"
+        currentCount={storageLimit?.currentCount}
+        limit={storageLimit?.limit}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Columns, Layers, SplitSquareHorizontal } from 'lucide-react';
+import { usePdfDocument } from '@/hooks/usePdfDocument';
+import { renderPdfPage, formatPageLabel } from '@/lib/pdf-pages';
+import {
+  AssetVersionSummary,
+  CompareMode,
+  formatVersionLabel,
+} from '@/lib/asset-versions';
+
+interface VersionCompareProps {
+  assetType: 'IMAGE' | 'PDF';
+  versions: AssetVersionSummary[];
+  baseVersionId: string;
+  targetVersionId: string;
+  onVersionsChange: (baseVersionId: string, targetVersionId: string) => void;
+}
+
+const RENDER_WIDTH = 1200;
+const RENDER_HEIGHT = 1600;
+
+const MODE_OPTIONS: Array<{ mode: CompareMode; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { mode: 'overlay', label: 'Overlay', icon: Layers },
+  { mode: 'side-by-side', label: 'Side by side', icon: Columns },
+  { mode: 'onion-skin', label: 'Onion skin', icon: SplitSquareHorizontal },
+];
+
+/**
+ * Resolve what to display for a version: the file itself for images,
+ * or a rendered page for PDFs
+ */
+function useVersionImage(version: AssetVersionSummary | undefined, assetType: 'IMAGE' | 'PDF', pageNumber: number) {
+  const { pdfDocument } = usePdfDocument(assetType === 'PDF' && version ? version.url : null);
+  const [pageImage, setPageImage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pdfDocument) {
+      setPageImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    const page = Math.min(pageNumber, pdfDocument.numPages);
+    renderPdfPage(pdfDocument, page, RENDER_WIDTH, RENDER_HEIGHT)
+      .then(canvas => {
+        if (!cancelled) setPageImage(canvas.toDataURL('image/png'));
+      })
+      .catch(error => console.error('Failed to render PDF page for comparison:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, pageNumber]);
+
+  return {
+    src: assetType === 'PDF' ? pageImage : version?.url ?? null,
+    pageCount: pdfDocument?.numPages ?? 0,
+  };
+}
+
+export function VersionCompare({
+  assetType,
+  versions,
+  baseVersionId,
+  targetVersionId,
+  onVersionsChange,
+}: VersionCompareProps) {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [opacity, setOpacity] = useState(0.5);
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const baseVersion = versions.find(v => v.id === baseVersionId);
+  const targetVersion = versions.find(v => v.id === targetVersionId);
+
+  const base = useVersionImage(baseVersion, assetType, pageNumber);
+  const target = useVersionImage(targetVersion, assetType, pageNumber);
+  const pageCount = Math.max(base.pageCount, target.pageCount);
+
+  const renderImage = (src: string | null, label: string, style?: React.CSSProperties) => (
+    src ? (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={src} alt={label} className="max-w-full h-auto block" style={style} />
+    ) : (
+      <div className="w-full h-96 bg-neutral-100 animate-pulse rounded" />
+    )
+  );
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 text-sm border border-neutral-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>
+          {formatVersionLabel(version.versionNumber)}
+          {version.notes ? ` - ${version.notes}` : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  const baseLabel = baseVersion ? formatVersionLabel(baseVersion.versionNumber) : '';
+  const targetLabel = targetVersion ? formatVersionLabel(targetVersion.versionNumber) : '';
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 px-6 py-3 bg-white border-b border-neutral-200">
+        <div className="flex items-center gap-2 text-sm text-neutral-700">
+          <span>Compare</span>
+          {versionSelect(baseVersionId, id => onVersionsChange(id, targetVersionId))}
+          <span>with</span>
+          {versionSelect(targetVersionId, id => onVersionsChange(baseVersionId, id))}
+        </div>
+
+        <div className="flex items-center rounded-md border border-neutral-300 overflow-hidden">
+          {MODE_OPTIONS.map(({ mode: option, label, icon: Icon }) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`flex items-center gap-1 px-3 py-1.5 text-sm transition-colors ${
+                mode === option ? 'bg-blue-600 text-white' : 'bg-white text-neutral-700 hover:bg-neutral-50'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'onion-skin' && (
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            {baseLabel}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+            />
+            {targetLabel}
+          </label>
+        )}
+
+        {assetType === 'PDF' && pageCount > 0 && (
+          <select
+            value={pageNumber}
+            onChange={(e) => setPageNumber(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-neutral-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map(page => (
+              <option key={page} value={page}>
+                {formatPageLabel(page, pageCount)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Comparison */}
+      <div className="flex-1 overflow-auto p-6 bg-neutral-50">
+        {mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm font-medium text-neutral-700 mb-2">{baseLabel}</p>
+              {renderImage(base.src, baseLabel)}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-neutral-700 mb-2">{targetLabel}</p>
+              {renderImage(target.src, targetLabel)}
+            </div>
+          </div>
+        ) : (
+          <div className="relative inline-block">
+            {renderImage(base.src, baseLabel)}
+            {target.src && (
+              <div className="absolute inset-0">
+                {renderImage(target.src, targetLabel, mode === 'overlay'
+                  // Difference blending leaves unchanged pixels black, so changes stand out
+                  ? { mixBlendMode: 'difference' }
+                  : { opacity })}
+              </div>
+            )}
+            {mode === 'overlay' && (
+              <p className="mt-2 text-xs text-neutral-500">
+                Unchanged areas render dark; anything that changed between {baseLabel} and {targetLabel} lights up.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
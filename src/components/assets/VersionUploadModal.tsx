@@ -0,0 +1,144 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { formatVersionLabel } from '@/lib/asset-versions';
+
+interface VersionUploadModalProps {
+  assetId: string;
+  assetType: 'IMAGE' | 'PDF';
+  nextVersionNumber: number;
+  openAnnotationCount: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onUploaded: (result: { version: { id: string }; carriedForward: number }) => void;
+}
+
+export function VersionUploadModal({
+  assetId,
+  assetType,
+  nextVersionNumber,
+  openAnnotationCount,
+  isOpen,
+  onClose,
+  onUploaded,
+}: VersionUploadModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState('');
+  const [carryForward, setCarryForward] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const accept = assetType === 'PDF' ? 'application/pdf' : 'image/jpeg,image/png,image/gif,image/webp';
+
+  const handleClose = () => {
+    setFile(null);
+    setNotes('');
+    setError('');
+    onClose();
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      setError('Choose a file to upload');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('notes', notes);
+      formData.append('carryForward', String(carryForward));
+
+      const response = await fetch(`/api/assets/${assetId}/versions`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Upload failed');
+      }
+
+      onUploaded(await response.json());
+      handleClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={`Upload ${formatVersionLabel(nextVersionNumber)}`}
+    >
+      <div className="space-y-4">
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="border-2 border-dashed border-neutral-300 rounded-lg p-6 text-center cursor-pointer hover:border-neutral-400 transition-colors"
+        >
+          <Upload className="mx-auto h-8 w-8 text-neutral-400 mb-2" />
+          <p className="text-sm text-neutral-700">
+            {file ? file.name : `Choose a new ${assetType === 'PDF' ? 'PDF' : 'image'}`}
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={accept}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="hidden"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-1">
+            What changed? (optional)
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Fixed spacing in the header, updated hero copy..."
+          />
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-neutral-700">
+          <input
+            type="checkbox"
+            checked={carryForward}
+            onChange={(e) => setCarryForward(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span>
+            Carry {openAnnotationCount} open annotation{openAnnotationCount !== 1 ? 's' : ''} forward to the new version
+          </span>
+        </label>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpload} loading={loading} disabled={!file}>
+            Upload Version
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,28 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+interface AuthCardProps {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+// Page frame shared by the account recovery and verification screens
+export function AuthCard({ title, description, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold text-neutral-900 mb-2">PixelPin</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{title}</CardTitle>
+            {description && <CardDescription>{description}</CardDescription>}
+          </CardHeader>
+          <CardContent>{children}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,36 +3,85 @@
 import { useState } from 'react';
 import { signIn } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { z } from 'zod';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import type { OAuthProviderInfo } from '@/lib/auth-providers';
 
 const signInSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
+// Errors NextAuth passes back to the sign-in page after an OAuth attempt
+const oauthErrorMessages: Record<string, string> = {
+  OAuthAccountNotLinked:
+    'An account with this email already exists. Sign in with your password, then connect the provider from your account settings.',
+  TwoFactorRequired:
+    'This account uses two-factor authentication. Sign in with your password and authentication code instead.',
+  AccessDenied: 'Sign-in was cancelled or denied.',
+};
+
+// Codes the credentials provider sets on a failed sign-in
+const credentialErrorMessages: Record<string, string> = {
+  'invalid-two-factor-code': 'That code is not valid. Try again, or use a recovery code.',
+  'too-many-attempts': 'Too many attempts. Please wait a few minutes and try again.',
+};
+
 const signUpSchema = signInSchema.extend({
   name: z.string().min(2, 'Name must be at least 2 characters'),
 });
 
 interface AuthFormProps {
   mode: 'signin' | 'signup';
+  // Signed project invitation to accept once the user is signed in
+  inviteToken?: string;
+  defaultEmail?: string;
+  oauthProviders?: OAuthProviderInfo[];
+  oauthError?: string;
 }
 
-export function AuthForm({ mode }: AuthFormProps) {
+export function AuthForm({ mode, inviteToken, defaultEmail, oauthProviders = [], oauthError }: AuthFormProps) {
   const [formData, setFormData] = useState({
     name: '',
-    email: '',
+    email: defaultEmail ?? '',
     password: '',
   });
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>(
+    oauthError ? { general: oauthErrorMessages[oauthError] ?? 'Could not sign in with that provider.' } : {}
+  );
   const [loading, setLoading] = useState(false);
+  // Accounts with two-factor authentication are asked for a code after the password
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const router = useRouter();
 
   const schema = mode === 'signup' ? signUpSchema : signInSchema;
 
+  // Where to go after signing in: the invited project when there's an invitation to accept
+  const finishSignIn = async () => {
+    if (!inviteToken) {
+      router.push('/dashboard');
+      return;
+    }
+
+    const response = await fetch('/api/invitations/accept', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: inviteToken }),
+    });
+
+    if (response.ok) {
+      const { projectId } = await response.json();
+      router.push(`/projects/${projectId}`);
+    } else {
+      // The invitation page explains why it couldn't be accepted
+      router.push(`/invite/${encodeURIComponent(inviteToken)}`);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -68,21 +117,29 @@ export function AuthForm({ mode }: AuthFormProps) {
           return;
         }
 
-        router.push('/dashboard');
+        await finishSignIn();
       } else {
         // Sign in
         const result = await signIn('credentials', {
           email: validatedData.email,
           password: validatedData.password,
+          ...(twoFactorStep ? { code: twoFactorCode } : {}),
           redirect: false,
         });
 
+        if (result?.code === 'two-factor-required') {
+          setTwoFactorStep(true);
+          return;
+        }
+
         if (result?.error) {
-          setErrors({ general: 'Invalid email or password' });
+          setErrors({
+            general: (result.code && credentialErrorMessages[result.code]) || 'Invalid email or password',
+          });
           return;
         }
 
-        router.push('/dashboard');
+        await finishSignIn();
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -101,6 +158,13 @@ export function AuthForm({ mode }: AuthFormProps) {
     }
   };
 
+  const handleOAuthSignIn = (providerId: string) => {
+    // Invitations are accepted on the invitation page once the provider sends the user back
+    signIn(providerId, {
+      callbackUrl: inviteToken ? `/invite/${encodeURIComponent(inviteToken)}` : '/dashboard',
+    });
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -126,49 +190,77 @@ export function AuthForm({ mode }: AuthFormProps) {
               {mode === 'signin' ? 'Sign In' : 'Sign Up'}
             </CardTitle>
             <CardDescription>
-              {mode === 'signin' 
-                ? 'Enter your credentials to access your account'
-                : 'Fill in your details to create a new account'
+              {twoFactorStep
+                ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+                : inviteToken
+                ? `${mode === 'signin' ? 'Sign in' : 'Create an account'} with the invited email address to join the project`
+                : mode === 'signin' 
+                  ? 'Enter your credentials to access your account'
+                  : 'Fill in your details to create a new account'
               }
             </CardDescription>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              {mode === 'signup' && (
+              {twoFactorStep && (
                 <Input
-                  label="Full Name"
-                  name="name"
+                  label="Authentication code"
+                  name="code"
                   type="text"
-                  value={formData.name}
-                  onChange={handleInputChange}
-                  error={errors.name}
-                  placeholder="Enter your full name"
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  placeholder="123456"
+                  autoFocus
                   required
                 />
               )}
-              
-              <Input
-                label="Email Address"
-                name="email"
-                type="email"
-                value={formData.email}
-                onChange={handleInputChange}
-                error={errors.email}
-                placeholder="Enter your email"
-                required
-              />
-              
-              <Input
-                label="Password"
-                name="password"
-                type="password"
-                value={formData.password}
-                onChange={handleInputChange}
-                error={errors.password}
-                placeholder="Enter your password"
-                helperText={mode === 'signup' ? 'Must be at least 6 characters' : undefined}
-                required
-              />
+
+              <div className={twoFactorStep ? 'hidden' : 'space-y-4'}>
+                {mode === 'signup' && (
+                  <Input
+                    label="Full Name"
+                    name="name"
+                    type="text"
+                    value={formData.name}
+                    onChange={handleInputChange}
+                    error={errors.name}
+                    placeholder="Enter your full name"
+                    required
+                  />
+                )}
+
+                <Input
+                  label="Email Address"
+                  name="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  error={errors.email}
+                  placeholder="Enter your email"
+                  required
+                />
+
+                <Input
+                  label="Password"
+                  name="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={handleInputChange}
+                  error={errors.password}
+                  placeholder="Enter your password"
+                  helperText={mode === 'signup' ? 'Must be at least 6 characters' : undefined}
+                  required
+                />
+
+                {mode === 'signin' && (
+                  <div className="text-right -mt-2">
+                    <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-500 transition-colors">
+                      Forgot password?
+                    </Link>
+                  </div>
+                )}
+              </div>
 
               {errors.general && (
                 <div className="text-sm text-error-600 bg-error-50 border border-error-200 rounded-lg p-3">
@@ -187,11 +279,37 @@ export function AuthForm({ mode }: AuthFormProps) {
               </Button>
             </form>
 
+            {oauthProviders.length > 0 && (
+              <div className="mt-6">
+                <div className="relative mb-4">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-neutral-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="bg-white px-2 text-neutral-500">Or continue with</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {oauthProviders.map((provider) => (
+                    <Button
+                      key={provider.id}
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => handleOAuthSignIn(provider.id)}
+                    >
+                      {provider.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="mt-6 text-center">
               <p className="text-sm text-neutral-600">
                 {mode === 'signin' ? "Don't have an account? " : "Already have an account? "}
                 <a
-                  href={mode === 'signin' ? '/signup' : '/signin'}
+                  href={`${mode === 'signin' ? '/signup' : '/signin'}${inviteToken ? `?invite=${encodeURIComponent(inviteToken)}` : ''}`}
                   className="font-medium text-blue-600 hover:text-blue-500 transition-colors"
                 >
                   {mode === 'signin' ? 'Sign up' : 'Sign in'}
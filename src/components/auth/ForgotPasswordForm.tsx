@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { AuthCard } from '@/components/auth/AuthCard';
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to request a password reset');
+        return;
+      }
+
+      setSentMessage(data.message);
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Forgot your password?"
+      description="Enter the email address you sign in with and we'll send you a link to choose a new password."
+    >
+      {sentMessage ? (
+        <p className="text-sm text-neutral-700">{sentMessage}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label="Email Address"
+            name="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Enter your email"
+            required
+          />
+
+          {error && (
+            <div className="text-sm text-error-600 bg-error-50 border border-error-200 rounded-lg p-3">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" variant="primary" size="lg" loading={loading} className="w-full">
+            Send reset link
+          </Button>
+        </form>
+      )}
+
+      <p className="mt-6 text-center text-sm text-neutral-600">
+        <Link href="/signin" className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+          Back to sign in
+        </Link>
+      </p>
+    </AuthCard>
+  );
+}
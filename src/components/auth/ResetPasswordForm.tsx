@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { AuthCard } from '@/components/auth/AuthCard';
+
+interface ResetPasswordFormProps {
+  token?: string;
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [resetEmail, setResetEmail] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to reset password');
+        return;
+      }
+
+      setResetEmail(data.email);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard title="Reset password">
+        <p className="text-sm text-neutral-700 mb-4">This reset link is incomplete. Request a new one.</p>
+        <Link href="/forgot-password" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+          Request a reset link
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (resetEmail) {
+    return (
+      <AuthCard title="Password updated">
+        <p className="text-sm text-neutral-700 mb-4">You can now sign in with your new password.</p>
+        <Link
+          href={`/signin?email=${encodeURIComponent(resetEmail)}`}
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          Sign in
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="New password"
+          name="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          helperText="Must be at least 6 characters"
+          autoComplete="new-password"
+          required
+        />
+        <Input
+          label="Confirm new password"
+          name="confirmPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          autoComplete="new-password"
+          required
+        />
+
+        {error && (
+          <div className="text-sm text-error-600 bg-error-50 border border-error-200 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        <Button type="submit" variant="primary" size="lg" loading={loading} className="w-full">
+          Reset password
+        </Button>
+      </form>
+
+      {error && (
+        <p className="mt-4 text-center text-sm">
+          <Link href="/forgot-password" className="font-medium text-blue-600 hover:text-blue-500">
+            Request a new reset link
+          </Link>
+        </p>
+      )}
+    </AuthCard>
+  );
+}
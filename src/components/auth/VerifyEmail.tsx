@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Loading } from '@/components/ui/Loading';
+import { AuthCard } from '@/components/auth/AuthCard';
+
+interface VerifyEmailProps {
+  token?: string;
+}
+
+export function VerifyEmail({ token }: VerifyEmailProps) {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : 'This verification link is incomplete.');
+  // Tokens are single use, so never submit one twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    // Verified with a POST from the page rather than on GET, so link scanners in mail clients don't use up the token
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        if (response.ok) {
+          setStatus('verified');
+          return;
+        }
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to verify email address');
+        setStatus('failed');
+      })
+      .catch((fetchError) => {
+        console.error('Error verifying email:', fetchError);
+        setError('Failed to verify email address');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  if (status === 'verifying') {
+    return (
+      <AuthCard title="Verifying your email">
+        <Loading text="Verifying..." />
+      </AuthCard>
+    );
+  }
+
+  if (status === 'verified') {
+    return (
+      <AuthCard title="Email verified">
+        <p className="text-sm text-neutral-700 mb-4">Thanks, your email address is confirmed.</p>
+        <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+          Go to dashboard
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Couldn't verify your email">
+      <p className="text-sm text-neutral-700 mb-4">{error}</p>
+      <Link href="/settings/account" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+        Send a new link from your account settings
+      </Link>
+    </AuthCard>
+  );
+}
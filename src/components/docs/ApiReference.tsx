@@ -0,0 +1,307 @@
+import { Fragment } from 'react';
+import type { OpenApiDocument } from '@/lib/openapi';
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+interface Parameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  security: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+const methodClasses: Record<string, string> = {
+  get: 'bg-blue-50 text-blue-700',
+  post: 'bg-green-50 text-green-700',
+  put: 'bg-amber-50 text-amber-700',
+  patch: 'bg-amber-50 text-amber-700',
+  delete: 'bg-red-50 text-red-700',
+};
+
+function refName(ref: string) {
+  return ref.split('/').pop() as string;
+}
+
+function isNull(schema: JsonSchema) {
+  return schema.type === 'null';
+}
+
+function TypeLabel({ schema }: { schema: JsonSchema }) {
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    return (
+      <a href={`#schema-${name}`} className="text-blue-600 hover:underline">
+        {name}
+      </a>
+    );
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return (
+      <>
+        {variants.map((variant, index) => (
+          <Fragment key={index}>
+            {index > 0 && ' | '}
+            <TypeLabel schema={variant} />
+          </Fragment>
+        ))}
+      </>
+    );
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    return (
+      <>
+        <TypeLabel schema={schema.items} />[]
+      </>
+    );
+  }
+  if (schema.enum) return <>{schema.enum.map((value) => JSON.stringify(value)).join(' | ')}</>;
+  if (schema.const !== undefined) return <>{JSON.stringify(schema.const)}</>;
+  if (schema.type) return <>{[schema.type].flat().join(' | ')}{schema.format && ` (${schema.format})`}</>;
+  return <>any</>;
+}
+
+// The object whose properties to list for a schema, looking through arrays and nullables
+function expandableObject(schema: JsonSchema): JsonSchema | null {
+  if (schema.properties) return schema;
+  if (schema.type === 'array' && schema.items) return expandableObject(schema.items);
+
+  const variants = (schema.anyOf ?? schema.oneOf)?.filter((variant) => !isNull(variant));
+  if (variants?.length === 1) return expandableObject(variants[0]);
+  return null;
+}
+
+function PropertyList({ schema }: { schema: JsonSchema }) {
+  const required = new Set(schema.required);
+
+  return (
+    <ul className="divide-y divide-neutral-100 rounded-md border border-neutral-200 bg-white">
+      {Object.entries(schema.properties ?? {}).map(([name, property]) => {
+        const nested = expandableObject(property);
+        return (
+          <li key={name} className="px-3 py-2">
+            <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+              <code className="font-mono font-medium text-neutral-900">{name}</code>
+              <span className="font-mono text-xs text-neutral-500">
+                <TypeLabel schema={property} />
+              </span>
+              {required.has(name) && <span className="text-xs text-red-600">required</span>}
+              {property.default !== undefined && (
+                <span className="text-xs text-neutral-500">default {JSON.stringify(property.default)}</span>
+              )}
+            </div>
+            {property.description && (
+              <p className="text-xs text-neutral-600 mt-0.5">{property.description}</p>
+            )}
+            {nested && (
+              <div className="mt-2 ml-4">
+                <PropertyList schema={nested} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function SchemaView({ schema }: { schema: JsonSchema }) {
+  const variants = (schema.anyOf ?? schema.oneOf)?.filter((variant) => !isNull(variant));
+  if (variants && variants.length > 1) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-neutral-500">One of:</p>
+        {variants.map((variant, index) => (
+          <SchemaView key={index} schema={variant} />
+        ))}
+      </div>
+    );
+  }
+
+  const object = expandableObject(schema);
+  return (
+    <div className="space-y-2">
+      <p className="font-mono text-xs text-neutral-500">
+        <TypeLabel schema={schema} />
+      </p>
+      {object && !schema.$ref && <PropertyList schema={object} />}
+    </div>
+  );
+}
+
+function OperationCard({ method, path, operation }: { method: string; path: string; operation: Operation }) {
+  const scopes = operation.security.flatMap((requirement) => requirement.apiToken ?? []);
+
+  return (
+    <article id={operation.operationId} className="rounded-lg border border-neutral-200 bg-white p-5 scroll-mt-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`rounded px-2 py-0.5 text-xs font-bold uppercase ${methodClasses[method]}`}>{method}</span>
+        <code className="font-mono text-sm text-neutral-900 break-all">{path}</code>
+      </div>
+      <h3 className="mt-2 text-lg font-semibold text-neutral-900">{operation.summary}</h3>
+      {operation.description && <p className="mt-1 text-sm text-neutral-600">{operation.description}</p>}
+      <p className="mt-1 text-xs text-neutral-500">
+        {scopes.length > 0 ? (
+          <>API token with the <code className="font-mono">{scopes.join(', ')}</code> scope</>
+        ) : (
+          'Signed-in session'
+        )}
+      </p>
+
+      {operation.parameters && (
+        <section className="mt-4">
+          <h4 className="text-sm font-medium text-neutral-700 mb-2">Parameters</h4>
+          <ul className="divide-y divide-neutral-100 rounded-md border border-neutral-200">
+            {operation.parameters.map((parameter) => (
+              <li key={`${parameter.in}-${parameter.name}`} className="px-3 py-2">
+                <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                  <code className="font-mono font-medium text-neutral-900">{parameter.name}</code>
+                  <span className="text-xs text-neutral-500">{parameter.in}</span>
+                  <span className="font-mono text-xs text-neutral-500">
+                    <TypeLabel schema={parameter.schema} />
+                  </span>
+                  {parameter.required && <span className="text-xs text-red-600">required</span>}
+                  {parameter.schema.default !== undefined && (
+                    <span className="text-xs text-neutral-500">default {JSON.stringify(parameter.schema.default)}</span>
+                  )}
+                </div>
+                {parameter.description && (
+                  <p className="text-xs text-neutral-600 mt-0.5">{parameter.description}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {operation.requestBody && (
+        <section className="mt-4">
+          <h4 className="text-sm font-medium text-neutral-700 mb-2">
+            Request body{' '}
+            <span className="font-normal text-neutral-500">
+              {Object.keys(operation.requestBody.content).join(' or ')}
+            </span>
+          </h4>
+          <SchemaView schema={Object.values(operation.requestBody.content)[0].schema} />
+        </section>
+      )}
+
+      <section className="mt-4">
+        <h4 className="text-sm font-medium text-neutral-700 mb-2">Responses</h4>
+        <ul className="space-y-2">
+          {Object.entries(operation.responses).map(([status, response]) => {
+            const schema = response.content?.['application/json']?.schema;
+            const isError = Number(status) >= 400;
+            return (
+              <li key={status}>
+                <details open={!isError}>
+                  <summary className="cursor-pointer text-sm">
+                    <span className={`font-mono font-medium ${isError ? 'text-red-600' : 'text-green-700'}`}>{status}</span>{' '}
+                    <span className="text-neutral-700">{response.description}</span>
+                  </summary>
+                  {schema && (
+                    <div className="mt-2 ml-4">
+                      <SchemaView schema={schema} />
+                    </div>
+                  )}
+                </details>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </article>
+  );
+}
+
+export function ApiReference({ document }: { document: OpenApiDocument }) {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ method, path, operation: operation as Operation }))
+  );
+  const schemas = document.components.schemas as Record<string, JsonSchema>;
+
+  return (
+    <div className="flex gap-10">
+      <nav className="hidden lg:block w-56 shrink-0">
+        <div className="sticky top-6 space-y-4 text-sm">
+          {document.tags.map((tag) => (
+            <div key={tag.name}>
+              <a href={`#tag-${tag.name}`} className="font-medium text-neutral-900 hover:text-blue-600">
+                {tag.name}
+              </a>
+              <ul className="mt-1 space-y-1">
+                {operations
+                  .filter(({ operation }) => operation.tags.includes(tag.name))
+                  .map(({ operation }) => (
+                    <li key={operation.operationId}>
+                      <a href={`#${operation.operationId}`} className="text-neutral-600 hover:text-blue-600">
+                        {operation.summary}
+                      </a>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))}
+          <a href="#schemas" className="block font-medium text-neutral-900 hover:text-blue-600">
+            Schemas
+          </a>
+        </div>
+      </nav>
+
+      <div className="flex-1 min-w-0 space-y-12">
+        {document.tags.map((tag) => (
+          <section key={tag.name} id={`tag-${tag.name}`} className="scroll-mt-6">
+            <h2 className="text-2xl font-bold text-neutral-900">{tag.name}</h2>
+            <p className="text-neutral-600 mt-1 mb-4">{tag.description}</p>
+            <div className="space-y-4">
+              {operations
+                .filter(({ operation }) => operation.tags.includes(tag.name))
+                .map(({ method, path, operation }) => (
+                  <OperationCard key={operation.operationId} method={method} path={path} operation={operation} />
+                ))}
+            </div>
+          </section>
+        ))}
+
+        <section id="schemas" className="scroll-mt-6">
+          <h2 className="text-2xl font-bold text-neutral-900 mb-4">Schemas</h2>
+          <div className="space-y-6">
+            {Object.entries(schemas).map(([name, schema]) => (
+              <div key={name} id={`schema-${name}`} className="scroll-mt-6">
+                <h3 className="font-mono text-lg font-semibold text-neutral-900 mb-2">{name}</h3>
+                <PropertyList schema={schema} />
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useSession, signOut } from 'next-auth/react';
 import { Button } from '@/components/ui/Button';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
 import { LogOut, User } from 'lucide-react';
 
 export function Header() {
@@ -21,6 +22,7 @@ export function Header() {
         <div className="flex items-center space-x-4">
           {session?.user && (
             <>
+              <NotificationBell />
               <div className="flex items-center space-x-2 text-sm text-neutral-600">
                 <User className="h-4 w-4" />
                 <span>{session.user.name || session.user.email}</span>
@@ -0,0 +1,39 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { cn } from '@/lib/utils';
+
+const sections = [
+  { name: 'Account', href: '/settings/account' },
+  { name: 'Security', href: '/settings/security' },
+  { name: 'API tokens', href: '/settings/api-tokens' },
+  { name: 'Notifications', href: '/settings/notifications' },
+  { name: 'Workspace', href: '/settings/workspace' },
+];
+
+export function SettingsNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex gap-1 border-b border-neutral-200 px-6 pt-4">
+      {sections.map((section) => {
+        const isActive = pathname === section.href || pathname.startsWith(`${section.href}/`);
+        return (
+          <Link
+            key={section.href}
+            href={section.href}
+            className={cn(
+              'px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors',
+              isActive
+                ? 'border-blue-600 text-blue-700'
+                : 'border-transparent text-neutral-600 hover:text-neutral-900'
+            )}
+          >
+            {section.name}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { Home, FolderOpen, Settings, CreditCard } from 'lucide-react';
+import { WorkspaceSwitcher } from '@/components/layout/WorkspaceSwitcher';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
@@ -17,9 +18,12 @@ export function Sidebar() {
 
   return (
     <div className="w-64 bg-white border-r border-neutral-200 h-full">
+      <div className="px-4 pt-4">
+        <WorkspaceSwitcher />
+      </div>
       <nav className="p-4 space-y-2">
         {navigation.map((item) => {
-          const isActive = pathname === item.href;
+          const isActive = pathname === item.href || pathname.startsWith(`${item.href}/`);
           return (
             <Link
               key={item.name}
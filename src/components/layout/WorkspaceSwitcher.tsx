@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Building2, Check, ChevronsUpDown, Plus, Settings } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface Workspace {
+  id: string;
+  name: string;
+  role: 'OWNER' | 'ADMIN' | 'MEMBER';
+}
+
+interface WorkspacesResponse {
+  workspaces: Workspace[];
+  currentWorkspaceId: string;
+}
+
+export function WorkspaceSwitcher() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const response = await fetch('/api/workspaces');
+      if (!response.ok) {
+        throw new Error('Failed to fetch workspaces');
+      }
+      return response.json() as Promise<WorkspacesResponse>;
+    },
+  });
+
+  // Projects, plans and limits all depend on the workspace, so reload the page after switching
+  const switchMutation = useMutation({
+    mutationFn: async (organizationId: string) => {
+      const response = await fetch('/api/workspaces/current', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to switch workspace');
+      }
+    },
+    onSuccess: () => window.location.assign('/dashboard'),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create workspace');
+      }
+    },
+    onSuccess: () => window.location.assign('/dashboard'),
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setIsCreating(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const current = data?.workspaces.find((workspace) => workspace.id === data.currentWorkspaceId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      createMutation.mutate(newName.trim());
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-neutral-200 text-sm hover:bg-neutral-50 transition-colors"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <Building2 className="h-4 w-4 text-neutral-500 flex-shrink-0" />
+          <span className="truncate font-medium text-neutral-900">{current?.name ?? 'Loading...'}</span>
+        </span>
+        <ChevronsUpDown className="h-4 w-4 text-neutral-400 flex-shrink-0" />
+      </button>
+
+      {isOpen && data && (
+        <div className="absolute left-0 right-0 mt-1 z-20 bg-white border border-neutral-200 rounded-lg shadow-lg py-1">
+          <ul role="listbox" aria-label="Workspaces">
+            {data.workspaces.map((workspace) => (
+              <li key={workspace.id}>
+                <button
+                  type="button"
+                  role="option"
+                  aria-selected={workspace.id === data.currentWorkspaceId}
+                  onClick={() => {
+                    if (workspace.id !== data.currentWorkspaceId) {
+                      switchMutation.mutate(workspace.id);
+                    }
+                    setIsOpen(false);
+                  }}
+                  className={cn(
+                    'w-full flex items-center justify-between gap-2 px-3 py-2 text-sm text-left hover:bg-neutral-50',
+                    workspace.id === data.currentWorkspaceId && 'text-blue-700'
+                  )}
+                >
+                  <span className="truncate">{workspace.name}</span>
+                  {workspace.id === data.currentWorkspaceId && <Check className="h-4 w-4 flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t border-neutral-100 mt-1 pt-1">
+            {isCreating ? (
+              <form onSubmit={handleCreate} className="px-3 py-2 space-y-2">
+                <input
+                  autoFocus
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Workspace name"
+                  maxLength={100}
+                  className="input text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={createMutation.isPending || !newName.trim()}
+                  className="w-full btn btn-primary px-3 py-1.5 text-xs"
+                >
+                  Create workspace
+                </button>
+                {createMutation.error && (
+                  <p className="text-xs text-red-600">{createMutation.error.message}</p>
+                )}
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsCreating(true)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-600 hover:bg-neutral-50"
+              >
+                <Plus className="h-4 w-4" />
+                New workspace
+              </button>
+            )}
+            <Link
+              href="/settings/workspace"
+              onClick={() => setIsOpen(false)}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-neutral-600 hover:bg-neutral-50"
+            >
+              <Settings className="h-4 w-4" />
+              Workspace settings
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Archive, AtSign, Bell, CheckCheck, CheckCircle, MessageSquare, MessageSquarePlus, UserPlus } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotifications, type NotificationItem } from '@/hooks/useNotifications';
+
+const typeIcons: Record<NotificationItem['type'], typeof Bell> = {
+  MENTION: AtSign,
+  REPLY: MessageSquare,
+  ASSIGNMENT: UserPlus,
+  STATUS_CHANGE: CheckCircle,
+  GUEST_FEEDBACK: MessageSquare,
+  NEW_ANNOTATION: MessageSquarePlus,
+};
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { notifications, unreadCount, isLoading, markRead, archive, markAllRead, isMarkingAllRead } = useNotifications({
+    filter: showUnreadOnly ? 'unread' : 'inbox',
+    enabled: isOpen,
+  });
+
+  // Close when clicking outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleOpenNotification = (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      markRead(notification.id);
+    }
+    if (notification.url) {
+      setIsOpen(false);
+      router.push(notification.url);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-neutral-600 hover:text-neutral-900 rounded-md hover:bg-neutral-100"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-neutral-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200">
+            <h3 className="text-sm font-semibold text-neutral-900">Notifications</h3>
+            <div className="flex items-center space-x-3">
+              <label className="flex items-center space-x-1 text-xs text-neutral-600">
+                <input
+                  type="checkbox"
+                  checked={showUnreadOnly}
+                  onChange={(e) => setShowUnreadOnly(e.target.checked)}
+                />
+                <span>Unread only</span>
+              </label>
+              <button
+                onClick={() => markAllRead()}
+                disabled={unreadCount === 0 || isMarkingAllRead}
+                className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 disabled:text-neutral-400"
+              >
+                <CheckCheck className="h-3.5 w-3.5" />
+                <span>Mark all read</span>
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="p-6 text-center text-sm text-neutral-500">Loading notifications...</div>
+            ) : notifications.length === 0 ? (
+              <div className="p-6 text-center text-sm text-neutral-500">
+                {showUnreadOnly ? 'No unread notifications' : 'You’re all caught up'}
+              </div>
+            ) : (
+              notifications.map((notification) => {
+                const Icon = typeIcons[notification.type];
+                return (
+                  <div
+                    key={notification.id}
+                    className={`group flex items-start space-x-3 px-4 py-3 border-b border-neutral-100 cursor-pointer hover:bg-neutral-50 ${
+                      notification.readAt ? '' : 'bg-blue-50'
+                    }`}
+                    onClick={() => handleOpenNotification(notification)}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-neutral-500" />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm text-neutral-900 ${notification.readAt ? '' : 'font-medium'}`}>
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-sm text-neutral-600 mt-0.5 line-clamp-2">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-neutral-500 mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end space-y-1">
+                      {!notification.readAt && <span className="h-2 w-2 rounded-full bg-blue-600" />}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          archive(notification.id);
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-neutral-700"
+                        aria-label="Archive notification"
+                      >
+                        <Archive className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
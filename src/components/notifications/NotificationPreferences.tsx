@@ -0,0 +1,141 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+type Frequency = 'INSTANT' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'OFF';
+type EventKey = 'mention' | 'reply' | 'newAnnotation' | 'resolved';
+type Preferences = Record<EventKey, Frequency>;
+
+interface ProjectPreferences {
+  projectId: string;
+  projectName: string;
+  preferences: Preferences;
+}
+
+const events: Array<{ key: EventKey; label: string; description: string }> = [
+  { key: 'mention', label: 'Mentions', description: 'Someone @mentions you' },
+  { key: 'reply', label: 'Replies', description: 'Someone replies to your annotation' },
+  { key: 'newAnnotation', label: 'New annotations', description: 'Anyone, including guests, leaves feedback' },
+  { key: 'resolved', label: 'Resolved', description: 'Your annotation is resolved or reopened' },
+];
+
+const frequencies: Array<{ value: Frequency; label: string }> = [
+  { value: 'INSTANT', label: 'Instantly' },
+  { value: 'HOURLY', label: 'Hourly digest' },
+  { value: 'DAILY', label: 'Daily digest' },
+  { value: 'WEEKLY', label: 'Weekly digest' },
+  { value: 'OFF', label: 'Off' },
+];
+
+export function NotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: async () => {
+      const response = await fetch('/api/notification-preferences');
+      if (!response.ok) {
+        throw new Error('Failed to fetch notification preferences');
+      }
+      return response.json() as Promise<{ defaults: Preferences; projects: ProjectPreferences[] }>;
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ projectId, preferences }: { projectId: string; preferences: Partial<Preferences> }) => {
+      const response = await fetch('/api/notification-preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId, preferences }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update notification preferences');
+      }
+      return response.json() as Promise<{ projectId: string; preferences: Preferences }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(
+        ['notification-preferences'],
+        (current: { defaults: Preferences; projects: ProjectPreferences[] } | undefined) => current && {
+          ...current,
+          projects: current.projects.map((project) =>
+            project.projectId === result.projectId ? { ...project, preferences: result.preferences } : project
+          ),
+        }
+      );
+    },
+  });
+
+  if (isLoading) {
+    return <Loading text="Loading notification settings..." />;
+  }
+
+  const projects = data?.projects ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email notifications</CardTitle>
+        <CardDescription>
+          Choose how often you hear about activity on each project. Digests group updates by project and asset;
+          anything you haven&apos;t turned off still appears in the notification bell right away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {projects.length === 0 ? (
+          <p className="text-sm text-neutral-500">You aren&apos;t part of any projects yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500">
+                  <th className="py-2 pr-4 font-medium">Project</th>
+                  {events.map((event) => (
+                    <th key={event.key} className="py-2 pr-4 font-medium" title={event.description}>
+                      {event.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => (
+                  <tr key={project.projectId} className="border-t border-neutral-100">
+                    <td className="py-2 pr-4 font-medium text-neutral-900">{project.projectName}</td>
+                    {events.map((event) => (
+                      <td key={event.key} className="py-2 pr-4">
+                        <select
+                          value={project.preferences[event.key]}
+                          onChange={(e) =>
+                            updateMutation.mutate({
+                              projectId: project.projectId,
+                              preferences: { [event.key]: e.target.value as Frequency },
+                            })
+                          }
+                          className="border border-neutral-300 rounded-md px-2 py-1 text-sm"
+                          aria-label={`${event.label} for ${project.projectName}`}
+                        >
+                          {frequencies.map((frequency) => (
+                            <option key={frequency.value} value={frequency.value}>
+                              {frequency.label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {updateMutation.isError && (
+          <p className="mt-3 text-sm text-red-600">Couldn&apos;t save your change. Please try again.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+
+interface AcceptInvitationButtonProps {
+  token: string;
+}
+
+export function AcceptInvitationButton({ token }: AcceptInvitationButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const handleAccept = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to accept invitation');
+        return;
+      }
+
+      router.push(`/projects/${data.projectId}`);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      setError('Failed to accept invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button onClick={handleAccept} loading={loading} size="lg" className="w-full">
+        Accept invitation
+      </Button>
+      {error && (
+        <p className="text-sm text-error-600">{error}</p>
+      )}
+    </div>
+  );
+}
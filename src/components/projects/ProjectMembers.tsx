@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Mail, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+type Role = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+interface MemberUser {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+}
+
+interface Collaborator {
+  id: string;
+  role: Role;
+  createdAt: string;
+  user: MemberUser;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: Role;
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  invitedBy: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface ProjectMembersProps {
+  projectId: string;
+  canManageMembers: boolean;
+}
+
+const roleLabels: Record<Role, string> = {
+  OWNER: 'Owner',
+  EDITOR: 'Editor',
+  VIEWER: 'Viewer',
+};
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function ProjectMembers({ projectId, canManageMembers }: ProjectMembersProps) {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('EDITOR');
+  const [error, setError] = useState('');
+
+  const { data: members, isLoading } = useQuery({
+    queryKey: ['projects', projectId, 'collaborators'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/collaborators`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch members');
+      }
+      return response.json() as Promise<{ owner: MemberUser | null; collaborators: Collaborator[] }>;
+    },
+  });
+
+  const { data: invitationData } = useQuery({
+    queryKey: ['projects', projectId, 'invitations'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/invitations`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch invitations');
+      }
+      return response.json() as Promise<{ invitations: Invitation[] }>;
+    },
+    enabled: canManageMembers,
+  });
+
+  const invalidateInvitations = () =>
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'invitations'] });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to send invitation'));
+      }
+    },
+    onSuccess: () => {
+      setEmail('');
+      setError('');
+      invalidateInvitations();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await fetch(`/api/projects/${projectId}/invitations/${invitationId}/resend`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to resend invitation'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      invalidateInvitations();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await fetch(`/api/projects/${projectId}/invitations/${invitationId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to revoke invitation'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      invalidateInvitations();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim()) {
+      inviteMutation.mutate();
+    }
+  };
+
+  if (isLoading) {
+    return <Loading text="Loading members..." />;
+  }
+
+  const invitations = invitationData?.invitations ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>People who can see this project</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-neutral-100">
+            {members?.owner && (
+              <li className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">{members.owner.name || members.owner.email}</p>
+                  <p className="text-xs text-neutral-500">{members.owner.email}</p>
+                </div>
+                <span className="text-xs font-medium text-neutral-600">Owner</span>
+              </li>
+            )}
+            {members?.collaborators.map((collaborator) => (
+              <li key={collaborator.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-sm font-medium text-neutral-900">{collaborator.user.name || collaborator.user.email}</p>
+                  <p className="text-xs text-neutral-500">{collaborator.user.email}</p>
+                </div>
+                <span className="text-xs font-medium text-neutral-600">{roleLabels[collaborator.role]}</span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {canManageMembers && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>
+              Invite anyone by email. People without an account can sign up from the invitation link.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="flex items-end gap-3 mb-6">
+              <div className="flex-1">
+                <Input
+                  label="Email address"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="teammate@example.com"
+                  required
+                />
+              </div>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+                className="border border-neutral-300 rounded-md px-2 py-2 text-sm"
+                aria-label="Role"
+              >
+                {(Object.keys(roleLabels) as Role[]).map((value) => (
+                  <option key={value} value={value}>
+                    {roleLabels[value]}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit" loading={inviteMutation.isPending}>
+                <Mail className="h-4 w-4 mr-2" />
+                Invite
+              </Button>
+            </form>
+
+            {error && (
+              <p className="mb-4 text-sm text-error-600">{error}</p>
+            )}
+
+            {invitations.length === 0 ? (
+              <p className="text-sm text-neutral-500">No pending invitations.</p>
+            ) : (
+              <ul className="divide-y divide-neutral-100">
+                {invitations.map((invitation) => {
+                  const expired = new Date(invitation.expiresAt) <= new Date();
+                  return (
+                    <li key={invitation.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="text-sm font-medium text-neutral-900">{invitation.email}</p>
+                        <p className="text-xs text-neutral-500">
+                          {roleLabels[invitation.role]} &middot; sent{' '}
+                          {formatDistanceToNow(new Date(invitation.lastSentAt), { addSuffix: true })} &middot;{' '}
+                          {expired ? (
+                            <span className="text-error-600">expired</span>
+                          ) : (
+                            `expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resendMutation.mutate(invitation.id)}
+                          disabled={resendMutation.isPending}
+                          title="Resend invitation"
+                        >
+                          <RotateCw className="h-4 w-4 mr-1" />
+                          Resend
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(invitation.id)}
+                          disabled={revokeMutation.isPending}
+                          title="Revoke invitation"
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
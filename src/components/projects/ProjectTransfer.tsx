@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRightLeft } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+interface ProjectTransferProps {
+  projectId: string;
+  organizationId: string;
+}
+
+interface Workspace {
+  id: string;
+  name: string;
+}
+
+export function ProjectTransfer({ projectId, organizationId }: ProjectTransferProps) {
+  const queryClient = useQueryClient();
+  const [targetId, setTargetId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const response = await fetch('/api/workspaces');
+      if (!response.ok) {
+        throw new Error('Failed to fetch workspaces');
+      }
+      return response.json() as Promise<{ workspaces: Workspace[] }>;
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: targetId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to move project');
+      }
+    },
+    onSuccess: () => {
+      setTargetId('');
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId] });
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const targets = data?.workspaces.filter((workspace) => workspace.id !== organizationId) ?? [];
+  const current = data?.workspaces.find((workspace) => workspace.id === organizationId);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Workspace</CardTitle>
+        <CardDescription>
+          {current
+            ? `This project belongs to ${current.name}. Moving it changes who can see it and which plan it counts against.`
+            : 'Moving a project changes who can see it and which plan it counts against.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {targets.length === 0 ? (
+          <p className="text-sm text-neutral-500">You are not a member of any other workspace.</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (targetId) {
+                transferMutation.mutate();
+              }
+            }}
+            className="flex items-center gap-3"
+          >
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="flex-1 border border-neutral-300 rounded-md px-2 py-2 text-sm"
+              aria-label="Target workspace"
+            >
+              <option value="">Choose a workspace</option>
+              {targets.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" variant="outline" loading={transferMutation.isPending} disabled={!targetId}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Move project
+            </Button>
+          </form>
+        )}
+        {error && <p className="mt-3 text-sm text-error-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
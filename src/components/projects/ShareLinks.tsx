@@ -0,0 +1,343 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Check, Copy, Link2, Lock, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+interface ShareLink {
+  id: string;
+  name: string;
+  url: string;
+  scope: 'PROJECT' | 'ASSETS';
+  assetIds: string[];
+  canComment: boolean;
+  canReply: boolean;
+  canUpload: boolean;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  viewCount: number;
+  commentCount: number;
+  replyCount: number;
+  uploadCount: number;
+  lastUsedAt: string | null;
+}
+
+interface AssetOption {
+  id: string;
+  name: string;
+}
+
+interface ShareLinksProps {
+  projectId: string;
+}
+
+const permissionOptions = [
+  { key: 'canComment', label: 'Comment' },
+  { key: 'canReply', label: 'Reply' },
+  { key: 'canUpload', label: 'Upload' },
+] as const;
+
+type PermissionKey = (typeof permissionOptions)[number]['key'];
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function getStatus(link: ShareLink): { label: string; className: string } {
+  if (link.revokedAt) {
+    return { label: 'Revoked', className: 'bg-neutral-100 text-neutral-600' };
+  }
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'bg-amber-50 text-amber-700' };
+  }
+  return { label: 'Active', className: 'bg-green-50 text-green-700' };
+}
+
+export function ShareLinks({ projectId }: ShareLinksProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'PROJECT' | 'ASSETS'>('PROJECT');
+  const [assetIds, setAssetIds] = useState<string[]>([]);
+  const [permissions, setPermissions] = useState<Record<PermissionKey, boolean>>({
+    canComment: true,
+    canReply: true,
+    canUpload: false,
+  });
+  const [password, setPassword] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [error, setError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['projects', projectId, 'share-links'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/share-links`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch share links');
+      }
+      return response.json() as Promise<{ shareLinks: ShareLink[] }>;
+    },
+  });
+
+  const { data: assetData } = useQuery({
+    queryKey: ['projects', projectId, 'assets'],
+    queryFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/assets`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch assets');
+      }
+      return response.json() as Promise<{ assets: AssetOption[] }>;
+    },
+  });
+
+  const invalidateLinks = () =>
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'share-links'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${projectId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scope,
+          assetIds: scope === 'ASSETS' ? assetIds : [],
+          ...permissions,
+          password: password || undefined,
+          // Links stay valid through the end of the chosen day
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create share link'));
+      }
+    },
+    onSuccess: () => {
+      setName('');
+      setAssetIds([]);
+      setPassword('');
+      setExpiresOn('');
+      setError('');
+      invalidateLinks();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await fetch(`/api/projects/${projectId}/share-links/${linkId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to revoke share link'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      invalidateLinks();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (copyError) {
+      console.error('Failed to copy share link:', copyError);
+    }
+  };
+
+  const toggleAsset = (assetId: string) => {
+    setAssetIds((current) =>
+      current.includes(assetId) ? current.filter((id) => id !== assetId) : [...current, assetId]
+    );
+  };
+
+  const assetNames = new Map(assetData?.assets.map((asset) => [asset.id, asset.name]));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Share links</CardTitle>
+        <CardDescription>
+          Let people without an account review this project. Each link has its own scope, permissions and expiry,
+          and can be revoked on its own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) {
+              createMutation.mutate();
+            }
+          }}
+          className="space-y-4 mb-6"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Link name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Client review"
+              maxLength={100}
+              required
+            />
+            <Input
+              label="Expires on (optional)"
+              type="date"
+              value={expiresOn}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+            <Input
+              label="Password (optional)"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={4}
+              autoComplete="new-password"
+            />
+            <div>
+              <span className="block text-sm font-medium text-neutral-700 mb-1">Guests can</span>
+              <div className="flex items-center gap-4 py-2">
+                <span className="text-sm text-neutral-500">View</span>
+                {permissionOptions.map((option) => (
+                  <label key={option.key} className="flex items-center gap-1.5 text-sm text-neutral-700">
+                    <input
+                      type="checkbox"
+                      checked={permissions[option.key]}
+                      onChange={(e) => setPermissions((current) => ({ ...current, [option.key]: e.target.checked }))}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-neutral-700 mb-1">Scope</span>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-1.5 text-sm text-neutral-700">
+                <input type="radio" checked={scope === 'PROJECT'} onChange={() => setScope('PROJECT')} />
+                Whole project
+              </label>
+              <label className="flex items-center gap-1.5 text-sm text-neutral-700">
+                <input type="radio" checked={scope === 'ASSETS'} onChange={() => setScope('ASSETS')} />
+                Specific assets
+              </label>
+            </div>
+            {scope === 'ASSETS' && (
+              <div className="mt-2 max-h-40 overflow-y-auto border border-neutral-200 rounded-md p-2 space-y-1">
+                {assetData?.assets.length ? (
+                  assetData.assets.map((asset) => (
+                    <label key={asset.id} className="flex items-center gap-2 text-sm text-neutral-700">
+                      <input
+                        type="checkbox"
+                        checked={assetIds.includes(asset.id)}
+                        onChange={() => toggleAsset(asset.id)}
+                      />
+                      <span className="truncate">{asset.name}</span>
+                    </label>
+                  ))
+                ) : (
+                  <p className="text-sm text-neutral-500">This project has no assets yet.</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            loading={createMutation.isPending}
+            disabled={!name.trim() || (scope === 'ASSETS' && assetIds.length === 0)}
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            Create link
+          </Button>
+        </form>
+
+        {error && (
+          <p className="mb-4 text-sm text-error-600">{error}</p>
+        )}
+
+        {isLoading ? (
+          <Loading text="Loading share links..." />
+        ) : data?.shareLinks.length ? (
+          <ul className="divide-y divide-neutral-100">
+            {data.shareLinks.map((link) => {
+              const status = getStatus(link);
+              const isActive = status.label === 'Active';
+              return (
+                <li key={link.id} className="py-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-neutral-900 flex items-center gap-2">
+                        <span className="truncate">{link.name}</span>
+                        {link.hasPassword && <Lock className="h-3.5 w-3.5 text-neutral-400" aria-label="Password protected" />}
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </p>
+                      <p className="text-xs text-neutral-500 mt-0.5">
+                        {link.scope === 'PROJECT'
+                          ? 'Whole project'
+                          : link.assetIds.map((id) => assetNames.get(id) ?? 'Deleted asset').join(', ')}
+                        {' · '}
+                        View
+                        {permissionOptions
+                          .filter((option) => link[option.key])
+                          .map((option) => `, ${option.label.toLowerCase()}`)
+                          .join('')}
+                        {link.expiresAt && !link.revokedAt && ` · Expires ${format(new Date(link.expiresAt), 'MMM d, yyyy')}`}
+                      </p>
+                      <p className="text-xs text-neutral-500 mt-0.5">
+                        {link.viewCount} views · {link.commentCount} comments · {link.replyCount} replies ·{' '}
+                        {link.uploadCount} uploads
+                        {link.lastUsedAt && ` · Last used ${formatDistanceToNow(new Date(link.lastUsedAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    {isActive && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button variant="ghost" size="sm" onClick={() => handleCopy(link)} title="Copy link">
+                          {copiedId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(link.id)}
+                          disabled={revokeMutation.isPending}
+                          title="Revoke link"
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-neutral-500">No share links yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,11 +3,12 @@
 import { useState } from 'react'
 import { X, Check, Loader2 } from 'lucide-react'
 import { PLANS } from '@/lib/stripe'
+import { formatFileSize } from '@/lib/attachments'
 
 interface UpgradeModalProps {
   isOpen: boolean
   onClose: () => void
-  reason?: 'projects' | 'annotations'
+  reason?: 'projects' | 'annotations' | 'storage'
   currentCount?: number
   limit?: number
 }
@@ -51,12 +52,16 @@ export default function UpgradeModal({
     }
   }
 
+  const formatUsage = (value: number) => (reason === 'storage' ? formatFileSize(value) : value)
+
   const getReasonText = () => {
     switch (reason) {
       case 'projects':
         return `You've reached your limit of ${limit} project${limit !== 1 ? 's' : ''}. Upgrade to Pro for unlimited projects.`
       case 'annotations':
         return `You've reached your limit of ${limit} annotations per project. Upgrade to Pro for unlimited annotations.`
+      case 'storage':
+        return `You've used ${formatFileSize(currentCount)} of your ${formatFileSize(limit)} of storage. Upgrade to Pro for more room.`
       default:
         return 'Upgrade to Pro to unlock all features.'
     }
@@ -83,10 +88,10 @@ export default function UpgradeModal({
           {currentCount > 0 && (
             <div className="bg-gray-50 rounded-lg p-3">
               <p className="text-sm text-gray-700">
-                Current usage: <span className="font-medium">{currentCount}</span>
+                Current usage: <span className="font-medium">{formatUsage(currentCount)}</span>
                 {limit > 0 && (
                   <>
-                    {' '}of <span className="font-medium">{limit}</span>
+                    {' '}of <span className="font-medium">{formatUsage(limit)}</span>
                   </>
                 )}
               </p>
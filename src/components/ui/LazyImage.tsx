@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from 'react'
 import Image from 'next/image'
 import { createLazyLoader } from '@/lib/performance'
+import { useFileUrl } from '@/hooks/useFileUrl'
 
 interface LazyImageProps {
   src: string
@@ -11,6 +12,8 @@ interface LazyImageProps {
   placeholder?: string
   onLoad?: () => void
   onError?: () => void
+  // Share link token that authorizes a guest to see a private file
+  guestToken?: string
 }
 
 export function LazyImage({
@@ -19,25 +22,27 @@ export function LazyImage({
   className = '',
   placeholder = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2VlZSIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LXNpemU9IjE4IiBmaWxsPSIjYWFhIiBkeT0iLjNlbSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+TG9hZGluZy4uLjwvdGV4dD48L3N2Zz4=',
   onLoad,
-  onError
+  onError,
+  guestToken
 }: LazyImageProps) {
   const [isLoaded, setIsLoaded] = useState(false)
   const [hasError, setHasError] = useState(false)
   const imgRef = useRef<HTMLImageElement>(null)
+  const { url: fileUrl, error: fileUrlError } = useFileUrl(src, guestToken)
 
   useEffect(() => {
     const observer = createLazyLoader()
     const img = imgRef.current
 
-    if (observer && img) {
-      img.dataset.src = src
+    if (observer && img && fileUrl) {
+      img.dataset.src = fileUrl
       observer.observe(img)
 
       return () => {
         observer.unobserve(img)
       }
     }
-  }, [src])
+  }, [fileUrl])
 
   const handleLoad = () => {
     setIsLoaded(true)
@@ -49,7 +54,7 @@ export function LazyImage({
     onError?.()
   }
 
-  if (hasError) {
+  if (hasError || fileUrlError) {
     return (
       <div className={`bg-gray-100 flex items-center justify-center ${className}`}>
         <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
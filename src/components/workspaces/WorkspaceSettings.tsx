@@ -0,0 +1,379 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loading } from '@/components/ui/Loading';
+
+type WorkspaceRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+interface WorkspaceDetails {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  plan: 'FREE' | 'PRO';
+  requireTwoFactor: boolean;
+  _count: {
+    members: number;
+    projects: number;
+  };
+}
+
+interface WorkspaceMember {
+  id: string;
+  role: WorkspaceRole;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+    twoFactorEnabled: boolean;
+  };
+}
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+async function readError(response: Response, fallback: string) {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function WorkspaceSettings() {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('MEMBER');
+  const [error, setError] = useState('');
+
+  const { data: workspaces } = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const response = await fetch('/api/workspaces');
+      if (!response.ok) {
+        throw new Error('Failed to fetch workspaces');
+      }
+      return response.json() as Promise<{ currentWorkspaceId: string }>;
+    },
+  });
+
+  const workspaceId = workspaces?.currentWorkspaceId;
+
+  const { data: workspace, isLoading } = useQuery({
+    queryKey: ['workspaces', workspaceId],
+    queryFn: async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch workspace');
+      }
+      const data = await response.json();
+      return data.workspace as WorkspaceDetails;
+    },
+    enabled: !!workspaceId,
+  });
+
+  const { data: memberData } = useQuery({
+    queryKey: ['workspaces', workspaceId, 'members'],
+    queryFn: async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch members');
+      }
+      return response.json() as Promise<{ members: WorkspaceMember[] }>;
+    },
+    enabled: !!workspaceId,
+  });
+
+  useEffect(() => {
+    if (workspace) {
+      setName(workspace.name);
+    }
+  }, [workspace]);
+
+  const invalidateMembers = () =>
+    queryClient.invalidateQueries({ queryKey: ['workspaces', workspaceId, 'members'] });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to rename workspace'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requireTwoFactor }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update the two-factor requirement'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add member'));
+      }
+    },
+    onSuccess: () => {
+      setEmail('');
+      setError('');
+      invalidateMembers();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: WorkspaceRole }) => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${memberId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to change role'));
+      }
+    },
+    onSuccess: () => {
+      setError('');
+      invalidateMembers();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (member: WorkspaceMember) => {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members/${member.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to remove member'));
+      }
+      return member;
+    },
+    onSuccess: (member) => {
+      setError('');
+      // Leaving the workspace moves the dashboard to another one
+      if (member.user.id === session?.user?.id) {
+        window.location.assign('/dashboard');
+        return;
+      }
+      invalidateMembers();
+    },
+    onError: (mutationError: Error) => setError(mutationError.message),
+  });
+
+  if (isLoading || !workspace) {
+    return <Loading text="Loading workspace..." />;
+  }
+
+  const canManage = workspace.role === 'OWNER' || workspace.role === 'ADMIN';
+  const assignableRoles = (Object.keys(roleLabels) as WorkspaceRole[]).filter(
+    (value) => value !== 'OWNER' || workspace.role === 'OWNER'
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Workspace</CardTitle>
+          <CardDescription>
+            {workspace.plan === 'PRO' ? 'Pro' : 'Free'} plan &middot; {workspace._count.projects} projects &middot;{' '}
+            {workspace._count.members} members
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              renameMutation.mutate();
+            }}
+            className="flex items-end gap-3"
+          >
+            <div className="flex-1">
+              <Input
+                label="Workspace name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                disabled={!canManage}
+                required
+              />
+            </div>
+            {canManage && (
+              <Button type="submit" loading={renameMutation.isPending} disabled={name.trim() === workspace.name}>
+                Save
+              </Button>
+            )}
+          </form>
+
+          <label className="mt-6 flex items-start gap-3">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={workspace.requireTwoFactor}
+              onChange={(e) => twoFactorMutation.mutate(e.target.checked)}
+              disabled={workspace.role !== 'OWNER' || twoFactorMutation.isPending}
+            />
+            <span>
+              <span className="block text-sm font-medium text-neutral-900">Require two-factor authentication</span>
+              <span className="block text-xs text-neutral-500">
+                Members without two-factor authentication turned on can&apos;t open the workspace&apos;s projects
+                until they set it up. Only owners can change this.
+              </span>
+            </span>
+          </label>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Members can see and edit every project in the workspace. Admins also manage members and
+            projects; owners also manage billing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {canManage && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (email.trim()) {
+                  addMutation.mutate();
+                }
+              }}
+              className="flex items-end gap-3 mb-6"
+            >
+              <div className="flex-1">
+                <Input
+                  label="Email address"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="teammate@example.com"
+                  required
+                />
+              </div>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                className="border border-neutral-300 rounded-md px-2 py-2 text-sm"
+                aria-label="Role"
+              >
+                {assignableRoles.map((value) => (
+                  <option key={value} value={value}>
+                    {roleLabels[value]}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit" loading={addMutation.isPending}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </form>
+          )}
+
+          {error && (
+            <p className="mb-4 text-sm text-error-600">{error}</p>
+          )}
+
+          <ul className="divide-y divide-neutral-100">
+            {memberData?.members.map((member) => {
+              const isSelf = member.user.id === session?.user?.id;
+              const canEdit = canManage && !isSelf && (member.role !== 'OWNER' || workspace.role === 'OWNER');
+              return (
+                <li key={member.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="text-sm font-medium text-neutral-900 flex items-center gap-1">
+                      {member.user.name || member.user.email}
+                      {isSelf && <span className="text-neutral-500 font-normal"> (you)</span>}
+                      {member.user.twoFactorEnabled ? (
+                        <ShieldCheck className="h-4 w-4 text-green-600" aria-label="Two-factor authentication on" />
+                      ) : (
+                        workspace.requireTwoFactor && (
+                          <span className="text-xs font-normal text-amber-700">2FA not set up</span>
+                        )
+                      )}
+                    </p>
+                    <p className="text-xs text-neutral-500">{member.user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canEdit ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          updateRoleMutation.mutate({ memberId: member.id, role: e.target.value as WorkspaceRole })
+                        }
+                        className="border border-neutral-300 rounded-md px-2 py-1 text-sm"
+                        aria-label={`Role for ${member.user.name || member.user.email}`}
+                      >
+                        {assignableRoles.map((value) => (
+                          <option key={value} value={value}>
+                            {roleLabels[value]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs font-medium text-neutral-600">{roleLabels[member.role]}</span>
+                    )}
+                    {(canEdit || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMutation.mutate(member)}
+                        disabled={removeMutation.isPending}
+                        title={isSelf ? 'Leave workspace' : 'Remove member'}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        {isSelf ? 'Leave' : 'Remove'}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,2 +1,6 @@
 export { useAnnotations } from './useAnnotations'
-export { useRealtime } from './useRealtime'
\ No newline at end of file
+export { useRealtime } from './useRealtime'
+export { useAnchoredPositions } from './useAnchoredPositions'
+export { usePdfDocument } from './usePdfDocument'
+export { useNotifications } from './useNotifications'
+export { useFileUrl } from './useFileUrl'
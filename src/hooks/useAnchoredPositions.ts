@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  ElementAnchor,
+  ResolvedAnchor,
+  resolveElementAnchor,
+  getAccessibleDocument
+} from '@/lib/dom-anchor'
+import { isBridgeMessage, watchBridgeAnchors } from '@/lib/site-bridge'
+
+interface AnchoredAnnotation {
+  id: string
+  position: { x: number; y: number }
+  anchor?: ElementAnchor | null
+}
+
+/**
+ * Re-resolve annotation anchors against the live iframe DOM whenever the
+ * page loads, scrolls or resizes. Proxied pages can't be reached into, so
+ * their bridge resolves the anchors and reports them instead.
+ *
+ * Pass a memoized annotation list: a new array re-resolves everything.
+ */
+export function useAnchoredPositions(
+  annotations: AnchoredAnnotation[],
+  iframeRef: React.RefObject<HTMLIFrameElement | null>,
+  proxied = false
+): Record<string, ResolvedAnchor> {
+  const [resolved, setResolved] = useState<Record<string, ResolvedAnchor>>({})
+  const frameRef = useRef<number | undefined>(undefined)
+
+  const resolveAll = useCallback(() => {
+    const doc = getAccessibleDocument(iframeRef.current)
+    const next: Record<string, ResolvedAnchor> = {}
+    for (const annotation of annotations) {
+      next[annotation.id] = resolveElementAnchor(doc, annotation.anchor, annotation.position)
+    }
+    setResolved(next)
+  }, [annotations, iframeRef])
+
+  const scheduleResolve = useCallback(() => {
+    if (frameRef.current !== undefined) return
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = undefined
+      resolveAll()
+    })
+  }, [resolveAll])
+
+  useEffect(() => {
+    const iframe = iframeRef.current
+    if (!proxied || !iframe) return
+
+    const watched = annotations.map(({ id, anchor, position }) => ({ id, anchor, position }))
+    // Each page the iframe loads has a bridge of its own to tell
+    const watch = () => watchBridgeAnchors(iframe, watched)
+    const handleMessage = (event: MessageEvent) => {
+      if (isBridgeMessage(event, iframe) && event.data.type === 'anchor-positions') {
+        setResolved(event.data.positions)
+      }
+    }
+
+    watch()
+    iframe.addEventListener('load', watch)
+    window.addEventListener('message', handleMessage)
+
+    return () => {
+      iframe.removeEventListener('load', watch)
+      window.removeEventListener('message', handleMessage)
+    }
+  }, [annotations, iframeRef, proxied])
+
+  useEffect(() => {
+    const iframe = iframeRef.current
+    if (proxied) return
+    resolveAll()
+    if (!iframe) return
+
+    let contentWindow: Window | null = null
+    const attachContentListeners = () => {
+      try {
+        contentWindow = iframe.contentWindow
+        contentWindow?.addEventListener('scroll', scheduleResolve, { passive: true })
+        contentWindow?.addEventListener('resize', scheduleResolve)
+      } catch {
+        // Cross-origin frames don't expose their window events
+        contentWindow = null
+      }
+    }
+
+    const handleLoad = () => {
+      attachContentListeners()
+      scheduleResolve()
+    }
+
+    attachContentListeners()
+    iframe.addEventListener('load', handleLoad)
+    window.addEventListener('resize', scheduleResolve)
+
+    return () => {
+      iframe.removeEventListener('load', handleLoad)
+      window.removeEventListener('resize', scheduleResolve)
+      try {
+        contentWindow?.removeEventListener('scroll', scheduleResolve)
+        contentWindow?.removeEventListener('resize', scheduleResolve)
+      } catch {
+        // Frame navigated away
+      }
+      if (frameRef.current !== undefined) {
+        cancelAnimationFrame(frameRef.current)
+        frameRef.current = undefined
+      }
+    }
+  }, [iframeRef, proxied, resolveAll, scheduleResolve])
+
+  return resolved
+}
@@ -1,19 +1,30 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
+import type { ElementAnchor } from '@/lib/dom-anchor'
+import type { ScreenshotKind } from '@/lib/annotation-screenshots'
 
 interface Annotation {
   id: string
   assetId: string
   authorId?: string
-  position: { x: number; y: number }
+  type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+  position: { x: number; y: number; width?: number; height?: number }
+  strokeColor?: string | null
   content: string
   status: 'OPEN' | 'RESOLVED'
   createdAt: string
   updatedAt: string
   screenshot: string
+  screenshots?: Array<{
+    kind: ScreenshotKind
+    url: string
+    width: number | null
+    height: number | null
+  }>
   pageUrl: string
   metadata: Record<string, unknown>
+  anchor?: ElementAnchor | null
   guestName?: string
   guestEmail?: string
   author?: {
@@ -51,11 +62,20 @@ interface Annotation {
 }
 
 interface CreateAnnotationData {
-  position: { x: number; y: number }
+  type?: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
+  position: { x: number; y: number; width?: number; height?: number }
+  strokeColor?: string
   content: string
   screenshot: string
+  screenshots?: Array<{
+    kind: ScreenshotKind
+    url: string
+    width?: number
+    height?: number
+  }>
   pageUrl: string
   metadata: Record<string, unknown>
+  anchor?: ElementAnchor
   mentions?: string[]
   attachments?: Array<{
     id: string
@@ -71,9 +91,11 @@ export function useAnnotations(assetId: string, currentUrl: string) {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string>()
 
-  // Filter annotations by current URL
-  const filteredAnnotations = annotations.filter(
-    annotation => annotation.pageUrl === currentUrl
+  // Filter annotations by current URL, keeping the same array between renders
+  // so hooks depending on it only rerun when it changes
+  const filteredAnnotations = useMemo(
+    () => annotations.filter(annotation => annotation.pageUrl === currentUrl),
+    [annotations, currentUrl]
   )
 
   const createAnnotation = async (data: CreateAnnotationData) => {
@@ -0,0 +1,47 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { isPrivateFileUrl } from '@/lib/file-urls'
+
+interface SignedFileUrl {
+  url: string
+  expiresAt: string
+}
+
+// Signed URLs last ten minutes; a file already loaded keeps working after that,
+// but one shown again later gets a fresh URL
+const SIGNED_URL_STALE_MS = 5 * 60 * 1000
+
+function isSignedUrl(url: string) {
+  return new URL(url, 'http://localhost').searchParams.has('signature')
+}
+
+/**
+ * A URL the browser can load a stored file from. Private files get a
+ * short-lived signed URL from /api/files, authorized by the session or, for
+ * guests, the share link token; any other URL is returned as it is. Null
+ * while the signed URL is loading.
+ */
+export function useFileUrl(url: string | null | undefined, guestToken?: string) {
+  const needsSigning = !!url && isPrivateFileUrl(url) && !isSignedUrl(url)
+
+  const { data, error } = useQuery({
+    queryKey: ['file-url', url, guestToken ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams({ as: 'json' })
+      if (guestToken) params.set('guestToken', guestToken)
+      const response = await fetch(`${url}?${params}`, { credentials: guestToken ? 'omit' : 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to load file')
+      }
+      return response.json() as Promise<SignedFileUrl>
+    },
+    enabled: needsSigning,
+    staleTime: SIGNED_URL_STALE_MS,
+  })
+
+  return {
+    url: needsSigning ? data?.url ?? null : url ?? null,
+    error: error ? error.message : null,
+  }
+}
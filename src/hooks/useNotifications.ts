@@ -0,0 +1,145 @@
+'use client'
+
+import { useCallback, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { pusherClient, getUserChannel, PUSHER_EVENTS } from '@/lib/pusher'
+import type { NotificationEvent } from '@/lib/realtime'
+
+export type NotificationItem = NotificationEvent & {
+  archivedAt?: string | null
+  projectId?: string | null
+  annotationId?: string | null
+}
+
+interface NotificationsPage {
+  notifications: NotificationItem[]
+  unreadCount: number
+  nextCursor: string | null
+}
+
+interface UseNotificationsOptions {
+  filter?: 'inbox' | 'unread' | 'archived'
+  type?: NotificationItem['type']
+  limit?: number
+  // Skip loading the list, e.g. when only the badge is on screen
+  enabled?: boolean
+}
+
+const UNREAD_COUNT_KEY = ['notifications', 'unread-count']
+
+export function useNotifications({
+  filter = 'inbox',
+  type,
+  limit = 20,
+  enabled = true,
+}: UseNotificationsOptions = {}) {
+  const { data: session } = useSession()
+  const queryClient = useQueryClient()
+  const userId = session?.user?.id
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: UNREAD_COUNT_KEY,
+    queryFn: async () => {
+      const response = await fetch('/api/notifications/unread-count')
+      if (!response.ok) {
+        throw new Error('Failed to fetch unread notification count')
+      }
+      const data = await response.json() as { count: number }
+      return data.count
+    },
+    enabled: !!userId,
+  })
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notifications', 'list', filter, type ?? 'all', limit],
+    queryFn: async () => {
+      const params = new URLSearchParams({ filter, limit: String(limit) })
+      if (type) params.set('type', type)
+      const response = await fetch(`/api/notifications?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications')
+      }
+      const page = await response.json() as NotificationsPage
+      queryClient.setQueryData(UNREAD_COUNT_KEY, page.unreadCount)
+      return page
+    },
+    enabled: !!userId && enabled,
+  })
+
+  const refreshList = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] })
+  }, [queryClient])
+
+  // Live updates on the user's private channel
+  useEffect(() => {
+    if (!userId || !pusherClient) return
+
+    const channelName = getUserChannel(userId)
+    const channel = pusherClient.subscribe(channelName)
+
+    const handleCreated = (event: { notification: NotificationItem; unreadCount: number }) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, event.unreadCount)
+      refreshList()
+    }
+
+    const handleRead = (event: { ids: string[] | 'all'; unreadCount: number }) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, event.unreadCount)
+      refreshList()
+    }
+
+    channel.bind(PUSHER_EVENTS.NOTIFICATION_CREATED, handleCreated)
+    channel.bind(PUSHER_EVENTS.NOTIFICATIONS_READ, handleRead)
+
+    return () => {
+      channel.unbind(PUSHER_EVENTS.NOTIFICATION_CREATED, handleCreated)
+      channel.unbind(PUSHER_EVENTS.NOTIFICATIONS_READ, handleRead)
+      pusherClient?.unsubscribe(channelName)
+    }
+  }, [userId, queryClient, refreshList])
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; read?: boolean; archived?: boolean }) => {
+      const response = await fetch(`/api/notifications/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update notification')
+      }
+      return response.json() as Promise<{ notification: NotificationItem; unreadCount: number }>
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, result.unreadCount)
+      refreshList()
+    },
+  })
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/notifications/read-all', { method: 'POST' })
+      if (!response.ok) {
+        throw new Error('Failed to mark notifications read')
+      }
+      return response.json() as Promise<{ updated: number; unreadCount: number }>
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(UNREAD_COUNT_KEY, result.unreadCount)
+      refreshList()
+    },
+  })
+
+  return {
+    notifications: data?.notifications ?? [],
+    nextCursor: data?.nextCursor ?? null,
+    unreadCount,
+    isLoading,
+    markRead: (id: string, read = true) => updateMutation.mutate({ id, read }),
+    archive: (id: string, archived = true) => updateMutation.mutate({ id, archived }),
+    markAllRead: () => markAllReadMutation.mutate(),
+    isMarkingAllRead: markAllReadMutation.isPending,
+  }
+}
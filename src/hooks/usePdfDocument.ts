@@ -0,0 +1,68 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+
+/**
+ * Load a PDF client-side with pdf.js. Pass null to skip loading,
+ * e.g. for non-PDF assets.
+ */
+export function usePdfDocument(url: string | null) {
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!url) {
+      setPdfDocument(null)
+      return
+    }
+
+    let cancelled = false
+    let loadedDocument: PDFDocumentProxy | null = null
+
+    const loadDocument = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        // pdf.js touches browser globals on import, so load it lazily
+        const pdfjs = await import('pdfjs-dist')
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.mjs',
+          import.meta.url
+        ).toString()
+
+        loadedDocument = await pdfjs.getDocument(url).promise
+        if (cancelled) {
+          loadedDocument.destroy()
+          return
+        }
+        setPdfDocument(loadedDocument)
+      } catch (err) {
+        if (!cancelled) {
+          console.error('Failed to load PDF:', err)
+          setError(err instanceof Error ? err.message : 'Failed to load PDF')
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    loadDocument()
+
+    return () => {
+      cancelled = true
+      loadedDocument?.destroy()
+    }
+  }, [url])
+
+  return {
+    pdfDocument,
+    pageCount: pdfDocument?.numPages ?? 0,
+    isLoading,
+    error
+  }
+}
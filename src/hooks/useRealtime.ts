@@ -13,6 +13,8 @@ interface UseRealtimeProps {
     type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
     status: 'OPEN' | 'RESOLVED'
     position: { x: number; y: number; width?: number; height?: number }
+    strokeColor?: string | null
+    versionId?: string | null
     createdAt: string
     author: { id: string; name: string | null; email: string; image: string | null }
     replies: Array<{ id: string; content: string; createdAt: string; author: { id: string; name: string | null; email: string; image: string | null } }>
@@ -23,6 +25,8 @@ interface UseRealtimeProps {
     type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
     status: 'OPEN' | 'RESOLVED'
     position: { x: number; y: number; width?: number; height?: number }
+    strokeColor?: string | null
+    versionId?: string | null
     createdAt: string
     author: { id: string; name: string | null; email: string; image: string | null }
     replies: Array<{ id: string; content: string; createdAt: string; author: { id: string; name: string | null; email: string; image: string | null } }>
@@ -0,0 +1,206 @@
+/**
+ * Tells the people involved in an annotation about activity on it. Members are
+ * notified according to their notification preferences; guests get email only.
+ */
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { deliverNotification } from '@/lib/notifications'
+import { renderMentionsAsText } from '@/lib/mentions'
+import {
+  buildAnnotationPath,
+  buildAnnotationUrl,
+  renderGuestFeedbackEmail,
+  renderNewAnnotationEmail,
+  renderReplyEmail,
+  renderStatusChangeEmail,
+} from '@/lib/email-templates'
+
+const annotationContextInclude = {
+  author: {
+    select: { id: true, name: true, email: true },
+  },
+  asset: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      projectId: true,
+      project: {
+        select: {
+          name: true,
+          owner: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      },
+    },
+  },
+} as const
+
+function displayName(user: { name: string | null; email: string }): string {
+  return user.name || user.email
+}
+
+/**
+ * Notify the author of an annotation (or the guest who left it) about a new reply
+ */
+export async function notifyReply(replyId: string) {
+  try {
+    const reply = await prisma.reply.findUnique({
+      where: { id: replyId },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true },
+        },
+        annotation: {
+          include: annotationContextInclude,
+        },
+      },
+    })
+
+    if (!reply) return
+
+    const { annotation } = reply
+    const recipient = annotation.author?.email ?? annotation.guestEmail
+    // Nobody needs to hear about their own reply
+    if (!recipient || annotation.authorId === reply.authorId) return
+
+    const email = renderReplyEmail({
+      projectName: annotation.asset.project.name,
+      assetName: annotation.asset.name,
+      annotationUrl: buildAnnotationUrl(annotation),
+      repliedBy: reply.author ? displayName(reply.author) : reply.guestName || 'A guest',
+      content: reply.content,
+    })
+
+    if (annotation.authorId) {
+      await deliverNotification({
+        userId: annotation.authorId,
+        type: 'REPLY',
+        title: email.subject,
+        body: renderMentionsAsText(reply.content),
+        url: buildAnnotationPath(annotation),
+        actorId: reply.authorId,
+        projectId: annotation.asset.projectId,
+        annotationId: annotation.id,
+      }, { template: 'reply', to: recipient, ...email })
+    } else {
+      await sendEmail({ template: 'reply', to: recipient, ...email })
+    }
+  } catch (error) {
+    console.error('Failed to send reply notification:', error)
+  }
+}
+
+/**
+ * Notify an annotation's author when someone else resolves or reopens it
+ */
+export async function notifyStatusChange(annotationId: string, changedById: string) {
+  try {
+    const [annotation, changedBy] = await Promise.all([
+      prisma.annotation.findUnique({
+        where: { id: annotationId },
+        include: annotationContextInclude,
+      }),
+      prisma.user.findUnique({
+        where: { id: changedById },
+        select: { name: true, email: true },
+      }),
+    ])
+
+    if (!annotation || !changedBy) return
+
+    const recipient = annotation.author?.email ?? annotation.guestEmail
+    if (!recipient || annotation.authorId === changedById) return
+
+    const email = renderStatusChangeEmail({
+      projectName: annotation.asset.project.name,
+      assetName: annotation.asset.name,
+      annotationUrl: buildAnnotationUrl(annotation),
+      changedBy: displayName(changedBy),
+      status: annotation.status,
+      content: annotation.content,
+    })
+
+    const template = annotation.status === 'RESOLVED' ? 'annotation-resolved' : 'annotation-reopened'
+    if (annotation.authorId) {
+      await deliverNotification({
+        userId: annotation.authorId,
+        type: 'STATUS_CHANGE',
+        title: email.subject,
+        body: renderMentionsAsText(annotation.content),
+        url: buildAnnotationPath(annotation),
+        actorId: changedById,
+        projectId: annotation.asset.projectId,
+        annotationId: annotation.id,
+      }, { template, to: recipient, ...email })
+    } else {
+      await sendEmail({ template, to: recipient, ...email })
+    }
+  } catch (error) {
+    console.error('Failed to send status change notification:', error)
+  }
+}
+
+/**
+ * Notify the project's owner and collaborators about a new annotation. People
+ * mentioned in it already get a mention notification and are skipped here.
+ */
+export async function notifyNewAnnotation(annotationId: string) {
+  try {
+    const annotation = await prisma.annotation.findUnique({
+      where: { id: annotationId },
+      include: {
+        ...annotationContextInclude,
+        mentions: {
+          select: { userId: true },
+        },
+      },
+    })
+
+    if (!annotation) return
+
+    const { projectId, project } = annotation.asset
+    const collaborators = await prisma.projectCollaborator.findMany({
+      where: { projectId },
+      select: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+    })
+
+    const skip = new Set([annotation.authorId, ...annotation.mentions.map(mention => mention.userId)])
+    const recipients = [project.owner, ...collaborators.map(collaborator => collaborator.user)]
+      .filter((user, index, users) => !skip.has(user.id) && users.findIndex(other => other.id === user.id) === index)
+
+    const context = {
+      projectName: project.name,
+      assetName: annotation.asset.name,
+      annotationUrl: buildAnnotationUrl(annotation),
+      content: annotation.content,
+    }
+    const email = annotation.author
+      ? renderNewAnnotationEmail({ ...context, createdBy: displayName(annotation.author) })
+      : renderGuestFeedbackEmail({ ...context, guestName: annotation.guestName || 'A guest' })
+
+    for (const recipient of recipients) {
+      await deliverNotification({
+        userId: recipient.id,
+        type: annotation.author ? 'NEW_ANNOTATION' : 'GUEST_FEEDBACK',
+        title: email.subject,
+        body: renderMentionsAsText(annotation.content),
+        url: buildAnnotationPath(annotation),
+        actorId: annotation.authorId,
+        projectId,
+        annotationId: annotation.id,
+      }, {
+        template: annotation.author ? 'new-annotation' : 'guest-feedback',
+        to: recipient.email,
+        ...email,
+      })
+    }
+  } catch (error) {
+    console.error('Failed to send new annotation notifications:', error)
+  }
+}
@@ -0,0 +1,198 @@
+import { getUserChannel, pusherClient, PUSHER_EVENTS } from '@/lib/pusher'
+import type { ScreenshotJobEvent } from '@/lib/realtime'
+import type { ElementAnchor } from '@/lib/dom-anchor'
+import type { ScreenshotKind } from '@/lib/annotation-screenshots'
+import { captureDocumentScreenshots, uploadScreenshot } from '@/lib/screenshot'
+import { requestBridgeCapture } from '@/lib/site-bridge'
+
+/**
+ * Screenshots for annotations made in the annotation view, falling back to
+ * queued server-side captures. Kept apart from `screenshot.ts`, which the
+ * widget bundles, as the realtime client here brings in server-only code.
+ */
+
+// How often a queued capture is polled; updates on the user channel usually arrive first
+const SCREENSHOT_JOB_POLL_INTERVAL_MS = 3000
+// Long enough for a capture to be retried when the page is slow to load
+const SCREENSHOT_JOB_TIMEOUT_MS = 4 * 60 * 1000
+
+/**
+ * Wait for a queued server-side capture to finish, listening on the user
+ * channel and polling in case realtime isn't set up or an update is missed
+ */
+async function waitForScreenshotJob(job: ScreenshotJobEvent): Promise<ScreenshotJobEvent> {
+  if (job.status === 'SUCCEEDED' || job.status === 'FAILED') return job
+
+  return new Promise((resolve, reject) => {
+    const channel = pusherClient?.subscribe(getUserChannel(job.userId))
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+    let settled = false
+
+    const settle = (result: ScreenshotJobEvent | Error) => {
+      if (settled) return
+      settled = true
+      clearTimeout(pollTimer)
+      clearTimeout(deadline)
+      // Only unbound; the channel is shared with notifications
+      channel?.unbind(PUSHER_EVENTS.SCREENSHOT_JOB_UPDATED, handleUpdate)
+      if (result instanceof Error) {
+        reject(result)
+      } else {
+        resolve(result)
+      }
+    }
+
+    const handleUpdate = (update: ScreenshotJobEvent) => {
+      if (update.id === job.id && (update.status === 'SUCCEEDED' || update.status === 'FAILED')) {
+        settle(update)
+      }
+    }
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/screenshots/jobs/${job.id}`)
+        if (!response.ok) {
+          const error = await response.json()
+          settle(new Error(error.error || 'Failed to check server screenshot'))
+          return
+        }
+        const { job: current }: { job: ScreenshotJobEvent } = await response.json()
+        if (current.status === 'SUCCEEDED' || current.status === 'FAILED') {
+          settle(current)
+          return
+        }
+      } catch {
+        // Network blips are retried on the next poll
+      }
+      if (!settled) pollTimer = setTimeout(poll, SCREENSHOT_JOB_POLL_INTERVAL_MS)
+    }
+
+    const deadline = setTimeout(
+      () => settle(new Error('Server screenshot timed out')),
+      SCREENSHOT_JOB_TIMEOUT_MS
+    )
+    channel?.bind(PUSHER_EVENTS.SCREENSHOT_JOB_UPDATED, handleUpdate)
+    pollTimer = setTimeout(poll, SCREENSHOT_JOB_POLL_INTERVAL_MS)
+  })
+}
+
+/**
+ * Server-side screenshot capture using Puppeteer (fallback for cross-origin).
+ * The capture is queued and this resolves once it has been taken.
+ */
+export async function captureServerScreenshot(
+  url: string,
+  viewport?: { width: number; height: number },
+  options: {
+    fullPage?: boolean
+    // Crop to this element instead, drawing the pin at `pin` (fractions of its size) if given
+    selector?: string
+    pin?: { x: number; y: number }
+  } = {}
+): Promise<{
+  url: string
+  filename: string
+  size: number
+}> {
+  const response = await fetch('/api/screenshots', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      url,
+      viewport,
+      fullPage: options.fullPage ?? false,
+      selector: options.selector,
+      pin: options.pin
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to capture server screenshot')
+  }
+
+  const { job }: { job: ScreenshotJobEvent } = await response.json()
+  const finished = await waitForScreenshotJob(job)
+
+  if (!finished.result) {
+    throw new Error(finished.error || 'Failed to capture server screenshot')
+  }
+
+  return finished.result
+}
+
+export interface AnnotationScreenshotUpload {
+  kind: ScreenshotKind
+  url: string
+  width?: number
+  height?: number
+}
+
+const clampFraction = (value: number) => Math.min(Math.max(value, 0), 1)
+
+/**
+ * Capture and upload the screenshots for a new annotation: the viewport, plus
+ * the full page when asked and the pinned element when there is one. Captured
+ * in the browser where possible, by the bridge for proxied pages, falling back
+ * to server-side captures for cross-origin pages; if only the viewport can be
+ * captured there, the others are left out.
+ */
+export async function captureAnnotationScreenshots(
+  iframe: HTMLIFrameElement,
+  options: { pageUrl: string; anchor?: ElementAnchor | null; fullPage?: boolean; proxied?: boolean }
+): Promise<AnnotationScreenshotUpload[]> {
+  try {
+    // Try client-side capture first
+    const captureOptions = { anchor: options.anchor, fullPage: options.fullPage }
+    let screenshots
+    if (options.proxied) {
+      screenshots = await requestBridgeCapture(iframe, captureOptions)
+    } else {
+      const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document
+      if (!iframeDoc) {
+        throw new Error('Cannot access iframe content - likely cross-origin')
+      }
+      screenshots = await captureDocumentScreenshots(iframeDoc, captureOptions)
+    }
+
+    return await Promise.all(screenshots.map(async (screenshot) => ({
+      kind: screenshot.kind,
+      url: (await uploadScreenshot(screenshot.blob)).url,
+      width: screenshot.width,
+      height: screenshot.height
+    })))
+
+  } catch (clientError) {
+    console.warn('Client-side screenshot failed, trying server-side:', clientError)
+
+    const viewport = { width: iframe.clientWidth, height: iframe.clientHeight }
+    const capture = (kind: ScreenshotKind, captureOptions?: Parameters<typeof captureServerScreenshot>[2]) =>
+      captureServerScreenshot(options.pageUrl, viewport, captureOptions).then(
+        (result): AnnotationScreenshotUpload => ({ kind, url: result.url })
+      )
+
+    const captures = [capture('VIEWPORT')]
+    if (options.fullPage) {
+      captures.push(capture('FULL_PAGE', { fullPage: true }))
+    }
+    if (options.anchor) {
+      captures.push(capture('ELEMENT', {
+        selector: options.anchor.selector,
+        pin: { x: clampFraction(options.anchor.offset.x), y: clampFraction(options.anchor.offset.y) }
+      }))
+    }
+
+    const [viewportCapture, ...others] = await Promise.allSettled(captures)
+    if (viewportCapture.status === 'rejected') {
+      console.error('Server-side screenshot also failed:', viewportCapture.reason)
+      throw new Error('Both client-side and server-side screenshot capture failed')
+    }
+
+    return [
+      viewportCapture.value,
+      ...others.flatMap((result) => result.status === 'fulfilled' ? [result.value] : [])
+    ]
+  }
+}
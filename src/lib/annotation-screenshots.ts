@@ -0,0 +1,118 @@
+import { z } from 'zod'
+
+/**
+ * Annotation screenshot utilities shared by client capture, the server-side
+ * capture jobs, API validation and the annotation card.
+ *
+ * Every annotation has a VIEWPORT screenshot, which is also its `screenshot`
+ * URL. Captures can add a FULL_PAGE one and an ELEMENT one: a crop around the
+ * element the pin was placed on, with the pin drawn where it was placed.
+ */
+
+export const SCREENSHOT_KINDS = ['VIEWPORT', 'FULL_PAGE', 'ELEMENT'] as const
+
+export type ScreenshotKind = typeof SCREENSHOT_KINDS[number]
+
+export const SCREENSHOT_KIND_LABELS: Record<ScreenshotKind, string> = {
+  VIEWPORT: 'Viewport',
+  FULL_PAGE: 'Full page',
+  ELEMENT: 'Element',
+}
+
+export interface AnnotationScreenshotData {
+  kind: ScreenshotKind
+  url: string
+  width?: number | null
+  height?: number | null
+}
+
+export const annotationScreenshotSchema = z.object({
+  kind: z.enum(SCREENSHOT_KINDS),
+  url: z.string().url(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+})
+
+export const annotationScreenshotsSchema = z.array(annotationScreenshotSchema)
+  .max(SCREENSHOT_KINDS.length)
+  .refine(
+    (screenshots) => new Set(screenshots.map((screenshot) => screenshot.kind)).size === screenshots.length,
+    'Only one screenshot of each kind is allowed'
+  )
+
+/**
+ * The screenshots to store for a new annotation: its `screenshot` as the
+ * viewport one, with the size sent for it if any, plus the other kinds sent
+ */
+export function buildAnnotationScreenshots(
+  screenshot: string,
+  screenshots: AnnotationScreenshotData[] = []
+): AnnotationScreenshotData[] {
+  const viewport = screenshots.find((entry) => entry.kind === 'VIEWPORT')
+  return [
+    { kind: 'VIEWPORT', url: screenshot, width: viewport?.width, height: viewport?.height },
+    ...screenshots.filter((entry) => entry.kind !== 'VIEWPORT'),
+  ]
+}
+
+/**
+ * Screenshots in the order they're shown: viewport, full page, element
+ */
+export function sortScreenshots<T extends { kind: ScreenshotKind }>(screenshots: T[]): T[] {
+  return [...screenshots].sort((a, b) => SCREENSHOT_KINDS.indexOf(a.kind) - SCREENSHOT_KINDS.indexOf(b.kind))
+}
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Space kept around the element in its crop
+export const ELEMENT_CROP_PADDING = 24
+// Elements bigger than this are cropped around the pin instead
+export const MAX_ELEMENT_CROP = { width: 1200, height: 800 }
+
+// The pin drawn on element crops, matching the pins on the page
+export const PIN_RADIUS = 12
+export const PIN_COLOR = '#2563eb'
+export const PIN_BORDER_COLOR = '#ffffff'
+export const PIN_BORDER_WIDTH = 3
+
+/**
+ * The area to crop for an element screenshot, in the same coordinates as the
+ * element, the pin and the bounds of the captured image
+ */
+export function getElementCrop(element: Rect, pin: { x: number; y: number }, bounds: Rect): Rect {
+  const cropAxis = (start: number, size: number, pinAt: number, max: number, boundStart: number, boundSize: number) => {
+    const padded = size + ELEMENT_CROP_PADDING * 2
+    const length = Math.min(padded, max, boundSize)
+    const from = padded <= max ? start - ELEMENT_CROP_PADDING : pinAt - length / 2
+    const clamped = Math.max(boundStart, Math.min(from, boundStart + boundSize - length))
+    return { from: Math.round(clamped), length: Math.round(length) }
+  }
+
+  const x = cropAxis(element.x, element.width, pin.x, MAX_ELEMENT_CROP.width, bounds.x, bounds.width)
+  const y = cropAxis(element.y, element.height, pin.y, MAX_ELEMENT_CROP.height, bounds.y, bounds.height)
+
+  return { x: x.from, y: y.from, width: x.length, height: y.length }
+}
+
+/**
+ * Draw the pin onto a canvas at (x, y)
+ */
+export function drawPin(context: CanvasRenderingContext2D, x: number, y: number) {
+  context.save()
+  context.beginPath()
+  context.arc(x, y, PIN_RADIUS, 0, Math.PI * 2)
+  context.fillStyle = PIN_COLOR
+  context.shadowColor = 'rgba(0, 0, 0, 0.3)'
+  context.shadowBlur = 4
+  context.fill()
+  context.shadowColor = 'transparent'
+  context.lineWidth = PIN_BORDER_WIDTH
+  context.strokeStyle = PIN_BORDER_COLOR
+  context.stroke()
+  context.restore()
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod'
+
+/**
+ * Shape annotation utilities shared by the canvas, API validation and exports.
+ *
+ * Geometry lives in the annotation `position` JSON:
+ * - COMMENT / TEXT: { x, y } anchor point
+ * - RECTANGLE: { x, y } top-left corner plus { width, height }
+ * - ARROW: { x, y } tail plus { width, height } as the arrow vector (dx, dy)
+ */
+
+export const ANNOTATION_TYPES = ['COMMENT', 'RECTANGLE', 'ARROW', 'TEXT'] as const
+
+export type AnnotationShapeType = typeof ANNOTATION_TYPES[number]
+
+export interface AnnotationGeometry {
+  x: number
+  y: number
+  width?: number
+  height?: number
+}
+
+export const DEFAULT_STROKE_COLORS: Record<AnnotationShapeType, string> = {
+  COMMENT: '#3b82f6',
+  RECTANGLE: '#ef4444',
+  ARROW: '#f59e0b',
+  TEXT: '#1f2937',
+}
+
+export const STROKE_COLOR_PRESETS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#1f2937']
+
+export const annotationPositionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+})
+
+export const strokeColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Stroke color must be a hex color like #ef4444')
+
+/**
+ * Check that the geometry carries what its shape type needs.
+ * Returns an error message, or null when the geometry is valid.
+ */
+export function validateAnnotationGeometry(
+  type: AnnotationShapeType,
+  position: AnnotationGeometry,
+  content?: string
+): string | null {
+  switch (type) {
+    case 'RECTANGLE':
+      if (!position.width || !position.height || position.width <= 0 || position.height <= 0) {
+        return 'Rectangle annotations require a positive width and height'
+      }
+      return null
+    case 'ARROW':
+      if (position.width === undefined || position.height === undefined) {
+        return 'Arrow annotations require a vector (width and height)'
+      }
+      if (position.width === 0 && position.height === 0) {
+        return 'Arrow annotations require a non-zero vector'
+      }
+      return null
+    case 'TEXT':
+      if (content !== undefined && !content.trim()) {
+        return 'Text annotations require content'
+      }
+      return null
+    case 'COMMENT':
+    default:
+      return null
+  }
+}
+
+/**
+ * Resolve the head of an arrow from its tail and vector
+ */
+export function getArrowEndpoint(position: AnnotationGeometry): { x: number; y: number } {
+  return {
+    x: position.x + (position.width ?? 0),
+    y: position.y + (position.height ?? 0),
+  }
+}
+
+/**
+ * Stroke color to render a shape with, falling back to the type default
+ */
+export function resolveStrokeColor(type: AnnotationShapeType, strokeColor?: string | null): string {
+  return strokeColor || DEFAULT_STROKE_COLORS[type]
+}
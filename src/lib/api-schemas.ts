@@ -0,0 +1,380 @@
+/**
+ * Request and response schemas for the routes described by the OpenAPI
+ * document (see `openapi.ts`). Documented routes validate their input with
+ * these same schemas rather than their own copies, so the document describes
+ * exactly what they accept; `npm run openapi:check` fails when a documented
+ * route stops doing so.
+ *
+ * Response schemas are only used to describe responses, except for the public
+ * API, whose serializers are type-checked against them.
+ */
+import { z } from 'zod'
+import { ANNOTATION_TYPES, annotationPositionSchema, strokeColorSchema, validateAnnotationGeometry } from '@/lib/annotation-shapes'
+import { pageNumberSchema } from '@/lib/pdf-pages'
+import { SCREENSHOT_KINDS, annotationScreenshotsSchema } from '@/lib/annotation-screenshots'
+import { guestSubmissionFields } from '@/lib/guest-challenge'
+import { WEBHOOK_EVENTS, isWebhookUrlAllowed } from '@/lib/webhooks'
+
+const ASSET_TYPES = ['IMAGE', 'PDF', 'URL'] as const
+const ANNOTATION_STATUSES = ['OPEN', 'RESOLVED'] as const
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  details: z.array(z.unknown()).optional().describe('Validation issues, for invalid input'),
+})
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+})
+
+const userSummarySchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string(),
+  image: z.string().nullable().optional(),
+})
+
+const attachmentInputSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  url: z.string().url(),
+  fileType: z.string(),
+  fileSize: z.number(),
+})
+
+// Projects
+
+export const createProjectSchema = z.object({
+  name: z.string().min(1, 'Project name is required').max(100, 'Project name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+})
+
+export const updateProjectSchema = z.object({
+  name: z.string().min(1, 'Project name is required').max(100, 'Project name must be less than 100 characters').optional(),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+})
+
+export const projectResource = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  ownerId: z.string(),
+  organizationId: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).optional(),
+  _count: z.object({ assets: z.number().int() }).optional(),
+})
+
+// Assets
+
+export const createAssetSchema = z.object({
+  name: z.string().min(1, 'Asset name is required').max(100, 'Asset name must be less than 100 characters'),
+  type: z.enum(ASSET_TYPES),
+  url: z.string().url('Invalid URL').optional(),
+})
+
+export const updateAssetSchema = z.object({
+  // Recorded by the PDF viewer once pdf.js has parsed the document
+  pageCount: z.number().int().min(1).optional(),
+  // Version the page count was read from, defaults to the latest
+  versionId: z.string().optional(),
+})
+
+export const assetResource = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(ASSET_TYPES),
+  url: z.string(),
+  pageCount: z.number().int().nullable(),
+  projectId: z.string(),
+  createdAt: z.date(),
+})
+
+// Annotations
+
+export const createAnnotationSchema = z.object({
+  type: z.enum(ANNOTATION_TYPES).default('COMMENT'),
+  position: annotationPositionSchema,
+  strokeColor: strokeColorSchema.optional(),
+  pageNumber: pageNumberSchema.optional(),
+  versionId: z.string().optional(),
+  content: z.string(),
+  screenshot: z.string().url(),
+  screenshots: annotationScreenshotsSchema.optional()
+    .describe('Full-page and element screenshots taken with the annotation; `screenshot` is stored as the viewport one'),
+  pageUrl: z.string().url(),
+  metadata: z.object({
+    browserName: z.string(),
+    browserVersion: z.string(),
+    operatingSystem: z.string(),
+    viewportSize: z.object({
+      width: z.number(),
+      height: z.number(),
+    }),
+    userAgent: z.string(),
+    timestamp: z.string(),
+  }),
+  anchor: z.object({
+    selector: z.string().max(2000),
+    tagName: z.string(),
+    textFingerprint: z.string().max(256),
+    offset: z.object({
+      x: z.number(),
+      y: z.number(),
+    }),
+    scroll: z.object({
+      x: z.number(),
+      y: z.number(),
+    }),
+    elementSize: z.object({
+      width: z.number(),
+      height: z.number(),
+    }),
+  }).optional(),
+  attachments: z.array(attachmentInputSchema).optional(),
+  // Guest annotation support
+  guestName: z.string().optional(),
+  guestEmail: z.string().email().optional(),
+  guestToken: z.string().optional(),
+  ...guestSubmissionFields,
+}).superRefine((data, ctx) => {
+  const geometryError = validateAnnotationGeometry(data.type, data.position, data.content)
+  if (geometryError) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['position'],
+      message: geometryError,
+    })
+  }
+})
+
+// Documents the query string only; the route reads the parameters itself
+export const listAnnotationsQuerySchema = z.object({
+  guestToken: z.string().optional().describe('Share link token, for guests'),
+  pageUrl: z.string().optional(),
+  pageNumber: z.coerce.number().int().min(1).optional(),
+  versionId: z.string().optional(),
+  status: z.enum(ANNOTATION_STATUSES).optional(),
+  limit: z.coerce.number().int().default(50),
+  offset: z.coerce.number().int().default(0),
+  format: z.enum(['json', 'csv']).optional().describe('Export with metadata as JSON, or as CSV'),
+})
+
+export const updateAnnotationSchema = z.object({
+  content: z.string().min(1).optional(),
+  status: z.enum(ANNOTATION_STATUSES).optional(),
+  position: annotationPositionSchema.optional(),
+  strokeColor: strokeColorSchema.nullable().optional(),
+})
+
+export const bulkUpdateSchema = z.object({
+  annotationIds: z.array(z.string()),
+  action: z.enum(['resolve', 'unresolve', 'delete']),
+  status: z.enum(ANNOTATION_STATUSES).optional(),
+})
+
+export const bulkUpdateResponseSchema = z.object({
+  success: z.literal(true),
+  action: z.enum(['resolve', 'unresolve', 'delete']),
+  affected: z.number().int(),
+  annotationIds: z.array(z.string()),
+})
+
+const annotationScreenshotResource = z.object({
+  kind: z.enum(SCREENSHOT_KINDS),
+  url: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+})
+
+export const annotationResource = z.looseObject({
+  id: z.string(),
+  assetId: z.string(),
+  authorId: z.string().nullable(),
+  type: z.enum(ANNOTATION_TYPES),
+  position: z.record(z.string(), z.unknown()),
+  content: z.string(),
+  status: z.enum(ANNOTATION_STATUSES),
+  screenshot: z.string(),
+  screenshots: z.array(annotationScreenshotResource).optional(),
+  pageUrl: z.string(),
+  pageNumber: z.number().int().nullable(),
+  strokeColor: z.string().nullable(),
+  guestName: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  resolvedAt: z.date().nullable(),
+  author: userSummarySchema.nullable().optional(),
+})
+
+// Replies
+
+export const createReplySchema = z.object({
+  content: z.string().min(1),
+  attachments: z.array(attachmentInputSchema).optional(),
+  // Guest reply support
+  guestName: z.string().optional(),
+  guestEmail: z.string().email().optional(),
+  guestToken: z.string().optional(),
+  ...guestSubmissionFields,
+})
+
+export const replyResource = z.looseObject({
+  id: z.string(),
+  annotationId: z.string(),
+  authorId: z.string().nullable(),
+  content: z.string(),
+  guestName: z.string().nullable(),
+  createdAt: z.date(),
+  author: userSummarySchema.nullable().optional(),
+})
+
+// Webhooks
+
+export const webhookSchema = z.object({
+  url: z.string().url().refine(isWebhookUrlAllowed, 'Webhook URL must be a public http(s) endpoint'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+  secret: z.string().min(16).optional(),
+  active: z.boolean().default(true),
+})
+
+export const updateWebhookSchema = z.object({
+  url: z.string().url().refine(isWebhookUrlAllowed, 'Webhook URL must be a public http(s) endpoint').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event').optional(),
+  active: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+})
+
+// Documents the query string only; the routes read the parameter themselves
+export const webhookProjectQuerySchema = z.object({
+  projectId: z.string(),
+})
+
+export const webhookResource = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  url: z.string(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  active: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  secret: z.string().optional().describe('Only returned when the webhook is created or its secret rotated'),
+})
+
+// Public API (/api/v1)
+
+export const v1ErrorResponseSchema = z.object({
+  error: z.object({
+    code: z.string().describe('Stable, machine-readable error code, e.g. not_found or insufficient_scope'),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+})
+
+export const v1PaginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().max(200).optional().describe('nextCursor from the previous page'),
+})
+
+export const v1ListProjectsQuerySchema = z.object({
+  workspaceId: z.string().optional(),
+})
+
+export const v1CreateProjectSchema = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(100, 'Project name must be less than 100 characters'),
+  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+  workspaceId: z.string().optional().describe("Defaults to the token owner's current workspace"),
+})
+
+export const v1CreateAssetSchema = z.object({
+  name: z.string().trim().min(1, 'Asset name is required').max(100, 'Asset name must be less than 100 characters'),
+  url: z.string().url('Invalid URL').refine(url => /^https?:\/\//i.test(url), 'Only http and https URLs are allowed'),
+})
+
+export const v1AnnotationFiltersSchema = z.object({
+  assetId: z.string().optional(),
+  status: z.enum(ANNOTATION_STATUSES).optional(),
+  updatedSince: z.coerce.date().optional().describe('Only annotations changed at or after this time, for incremental syncs'),
+})
+
+const v1UserSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string(),
+})
+
+export const v1ProjectResource = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  workspaceId: z.string(),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).nullable(),
+  assetCount: z.number().int(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export const v1AssetResource = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  type: z.enum(ASSET_TYPES),
+  url: z.string().describe('The site for URL assets; for uploaded files, a signed link that works for an hour'),
+  pageCount: z.number().int().nullable(),
+  annotationCount: z.number().int(),
+  createdAt: z.date(),
+})
+
+export const v1AnnotationResource = z.object({
+  id: z.string(),
+  assetId: z.string(),
+  type: z.enum(ANNOTATION_TYPES),
+  status: z.enum(ANNOTATION_STATUSES),
+  content: z.string(),
+  position: z.unknown().describe('{ x, y } plus width and height for shapes; fractions of the page for PDFs'),
+  strokeColor: z.string().nullable(),
+  pageUrl: z.string(),
+  pageNumber: z.number().int().nullable(),
+  screenshot: z.string().describe('Signed link to the screenshot that works for an hour'),
+  screenshots: z.array(annotationScreenshotResource)
+    .describe('Viewport, full-page and element screenshots, with links signed like `screenshot`'),
+  guestName: z.string().nullable(),
+  guestEmail: z.string().nullable(),
+  author: v1UserSchema.nullable(),
+  replyCount: z.number().int(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  resolvedAt: z.date().nullable(),
+})
+
+export const v1AnnotationDetailResource = v1AnnotationResource.extend({
+  replies: z.array(z.object({
+    id: z.string(),
+    content: z.string(),
+    guestName: z.string().nullable(),
+    guestEmail: z.string().nullable(),
+    author: v1UserSchema.nullable(),
+    createdAt: z.date(),
+  })),
+})
+
+/**
+ * `{ data }` envelope the public API wraps single resources in
+ */
+export function v1Resource<T extends z.ZodType>(schema: T) {
+  return z.object({ data: schema })
+}
+
+/**
+ * Envelope for a page of a public API list
+ */
+export function v1Page<T extends z.ZodType>(schema: T) {
+  return z.object({
+    data: z.array(schema),
+    pagination: z.object({
+      hasMore: z.boolean(),
+      nextCursor: z.string().nullable().describe('Pass as cursor to fetch the next page'),
+    }),
+  })
+}
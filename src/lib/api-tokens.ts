@@ -0,0 +1,176 @@
+/**
+ * Credentials for the public API. A personal access token acts as its creator
+ * on every project they can reach; a project API key does the same but only on
+ * its project. Both carry scopes that cap what they may do, whatever the
+ * creator's role, and are sent as `Authorization: Bearer <token>`.
+ *
+ * Tokens are shown once when created. Only a SHA-256 hash is stored, which is
+ * enough since they are long and random, and lets a token be looked up directly.
+ */
+import crypto from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+export const API_TOKEN_SCOPES = [
+  'projects:read',
+  'projects:write',
+  'assets:read',
+  'assets:write',
+  'annotations:read',
+] as const
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number]
+
+// Creating projects makes no sense for a key tied to one
+export const PROJECT_API_KEY_SCOPES: readonly ApiTokenScope[] = API_TOKEN_SCOPES.filter(
+  scope => scope !== 'projects:write'
+)
+
+const TOKEN_BYTES = 32
+const TOKEN_PREFIXES = { personal: 'pp_pat_', project: 'pp_key_' } as const
+// Characters kept in the clear to tell tokens apart in lists
+const VISIBLE_PREFIX_LENGTH = 12
+// lastUsedAt is only written this often, so busy tokens don't update it on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+export type ApiTokenFailure = 'invalid' | 'expired' | 'revoked'
+
+export const API_TOKEN_FAILURE_MESSAGES: Record<ApiTokenFailure, string> = {
+  invalid: 'The API token is invalid',
+  expired: 'The API token has expired',
+  revoked: 'The API token has been revoked',
+}
+
+export interface ApiPrincipal {
+  tokenId: string
+  userId: string
+  scopes: ApiTokenScope[]
+  // Set for project API keys
+  projectId: string | null
+  twoFactorEnabled: boolean
+}
+
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  projectId: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+} as const
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export function generateApiToken(kind: keyof typeof TOKEN_PREFIXES): string {
+  return `${TOKEN_PREFIXES[kind]}${crypto.randomBytes(TOKEN_BYTES).toString('base64url')}`
+}
+
+/**
+ * Create a token, returned in the clear this once alongside its stored record
+ */
+export async function createApiToken(data: {
+  name: string
+  scopes: ApiTokenScope[]
+  userId: string
+  projectId?: string | null
+  expiresAt?: Date | null
+}) {
+  const token = generateApiToken(data.projectId ? 'project' : 'personal')
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      name: data.name,
+      scopes: [...new Set(data.scopes)],
+      userId: data.userId,
+      projectId: data.projectId ?? null,
+      expiresAt: data.expiresAt ?? null,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    },
+    select: apiTokenSelect,
+  })
+
+  return { apiToken, token }
+}
+
+/**
+ * Token from an `Authorization: Bearer` header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+export async function authenticateApiToken(
+  token: string
+): Promise<{ ok: true; principal: ApiPrincipal } | { ok: false; reason: ApiTokenFailure }> {
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    select: {
+      id: true,
+      userId: true,
+      projectId: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+      user: { select: { twoFactorEnabled: true } },
+    },
+  })
+
+  if (!apiToken) return { ok: false, reason: 'invalid' }
+  if (apiToken.revokedAt) return { ok: false, reason: 'revoked' }
+
+  const now = new Date()
+  if (apiToken.expiresAt && apiToken.expiresAt <= now) return { ok: false, reason: 'expired' }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    })
+  }
+
+  return {
+    ok: true,
+    principal: {
+      tokenId: apiToken.id,
+      userId: apiToken.userId,
+      scopes: apiToken.scopes.filter((scope): scope is ApiTokenScope =>
+        (API_TOKEN_SCOPES as readonly string[]).includes(scope)
+      ),
+      projectId: apiToken.projectId,
+      twoFactorEnabled: apiToken.user.twoFactorEnabled,
+    },
+  }
+}
+
+export function hasScope(principal: ApiPrincipal, scope: ApiTokenScope): boolean {
+  return principal.scopes.includes(scope)
+}
+
+/**
+ * Revoke one of a user's personal tokens, or a key on the given project
+ */
+export async function revokeApiToken(
+  tokenId: string,
+  owner: { userId: string; projectId?: undefined } | { projectId: string; userId?: undefined }
+): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: {
+      id: tokenId,
+      revokedAt: null,
+      ...(owner.projectId ? { projectId: owner.projectId } : { userId: owner.userId, projectId: null }),
+    },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
@@ -0,0 +1,107 @@
+/**
+ * The shapes resources take in the public API. They are kept apart from the
+ * Prisma models so columns can change without breaking API clients, and typed
+ * against the response schemas in the OpenAPI document.
+ */
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { projectAccessSelect, resolveProjectRole } from '@/lib/permissions'
+import { signFileUrl } from '@/lib/storage'
+import type { v1AnnotationResource, v1AssetResource, v1ProjectResource } from '@/lib/api-schemas'
+
+const apiUserSelect = { id: true, name: true, email: true } as const
+
+export function apiProjectSelect(userId: string) {
+  return {
+    ...projectAccessSelect(userId),
+    name: true,
+    description: true,
+    createdAt: true,
+    updatedAt: true,
+    _count: { select: { assets: true } },
+  } satisfies Prisma.ProjectSelect
+}
+
+type ApiProjectRow = Prisma.ProjectGetPayload<{ select: ReturnType<typeof apiProjectSelect> }>
+
+export function serializeProject(userId: string, project: ApiProjectRow): z.infer<typeof v1ProjectResource> {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    workspaceId: project.organizationId,
+    role: resolveProjectRole(userId, project),
+    assetCount: project._count.assets,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  }
+}
+
+export const apiAssetSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  type: true,
+  url: true,
+  pageCount: true,
+  createdAt: true,
+  _count: { select: { annotations: true } },
+} satisfies Prisma.AssetSelect
+
+export function serializeAsset({
+  _count,
+  ...asset
+}: Prisma.AssetGetPayload<{ select: typeof apiAssetSelect }>): z.infer<typeof v1AssetResource> {
+  return { ...asset, url: signFileUrl(asset.url), annotationCount: _count.annotations }
+}
+
+export const apiAnnotationSelect = {
+  id: true,
+  assetId: true,
+  type: true,
+  status: true,
+  content: true,
+  position: true,
+  strokeColor: true,
+  pageUrl: true,
+  pageNumber: true,
+  screenshot: true,
+  screenshots: {
+    select: { kind: true, url: true, width: true, height: true },
+    orderBy: { kind: 'asc' },
+  },
+  guestName: true,
+  guestEmail: true,
+  createdAt: true,
+  updatedAt: true,
+  resolvedAt: true,
+  author: { select: apiUserSelect },
+  _count: { select: { replies: true } },
+} satisfies Prisma.AnnotationSelect
+
+export function serializeAnnotation({
+  _count,
+  ...annotation
+}: Prisma.AnnotationGetPayload<{ select: typeof apiAnnotationSelect }>): z.infer<typeof v1AnnotationResource> {
+  return {
+    ...annotation,
+    screenshot: signFileUrl(annotation.screenshot),
+    screenshots: annotation.screenshots.map((screenshot) => ({ ...screenshot, url: signFileUrl(screenshot.url) })),
+    replyCount: _count.replies,
+  }
+}
+
+export const apiAnnotationDetailSelect = {
+  ...apiAnnotationSelect,
+  replies: {
+    select: {
+      id: true,
+      content: true,
+      guestName: true,
+      guestEmail: true,
+      createdAt: true,
+      author: { select: apiUserSelect },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.AnnotationSelect
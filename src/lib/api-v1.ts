@@ -0,0 +1,291 @@
+/**
+ * Plumbing shared by the versioned public API under /api/v1. Unlike the
+ * dashboard's routes it authenticates with API tokens instead of the session
+ * cookie, and every error has the same shape:
+ *
+ *   { "error": { "code": "not_found", "message": "Project not found" } }
+ *
+ * Lists are paginated with opaque cursors, newest first, and creates accept an
+ * Idempotency-Key header so a retried request doesn't create a duplicate.
+ */
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import type { AccessResult } from '@/lib/permissions'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { v1PaginationSchema } from '@/lib/api-schemas'
+import {
+  API_TOKEN_FAILURE_MESSAGES,
+  authenticateApiToken,
+  getBearerToken,
+  hasScope,
+  type ApiPrincipal,
+  type ApiTokenScope,
+} from '@/lib/api-tokens'
+
+// How long a stored response can be replayed for its idempotency key
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+/**
+ * Thrown from a handler to end the request with an error response
+ */
+export class ApiError extends Error {
+  status: number
+  code: string
+  details?: unknown
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message)
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+export function apiError(
+  status: number,
+  code: string,
+  message: string,
+  options: { details?: unknown; headers?: HeadersInit } = {}
+) {
+  return NextResponse.json(
+    { error: { code, message, ...(options.details !== undefined && { details: options.details }) } },
+    { status, headers: options.headers }
+  )
+}
+
+type ApiHandler<P> = (
+  request: NextRequest,
+  context: { principal: ApiPrincipal; params: P }
+) => Promise<Response>
+
+/**
+ * Wrap a route handler: authenticate the bearer token, apply the API rate
+ * limit, require the scope, and turn thrown errors into error responses
+ */
+export function apiRoute<P extends Record<string, string> = Record<string, never>>(
+  scope: ApiTokenScope,
+  handler: ApiHandler<P>
+) {
+  return async (request: NextRequest, context: { params: Promise<P> }): Promise<Response> => {
+    try {
+      const token = getBearerToken(request)
+      if (!token) {
+        return apiError(401, 'unauthenticated', 'Send an API token in the Authorization header as "Bearer <token>"')
+      }
+
+      const authentication = await authenticateApiToken(token)
+      if (!authentication.ok) {
+        return apiError(401, 'invalid_token', API_TOKEN_FAILURE_MESSAGES[authentication.reason])
+      }
+      const { principal } = authentication
+
+      const limit = await checkRateLimit('api', { token: principal.tokenId })
+      if (!limit.ok) {
+        return apiError(429, 'rate_limited', 'Too many requests. Please try again later.', {
+          headers: {
+            'Retry-After': String(limit.retryAfter),
+            'X-RateLimit-Limit': String(limit.limit),
+          },
+        })
+      }
+
+      if (!hasScope(principal, scope)) {
+        return apiError(403, 'insufficient_scope', `This token needs the "${scope}" scope`)
+      }
+
+      return await handler(request, { principal, params: await context.params })
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return apiError(error.status, error.code, error.message, { details: error.details })
+      }
+      if (error instanceof z.ZodError) {
+        return apiError(400, 'invalid_request', 'Invalid request data', { details: error.issues })
+      }
+
+      console.error(`Error handling ${request.method} ${request.nextUrl.pathname}:`, error)
+      return apiError(500, 'internal_error', 'Internal server error')
+    }
+  }
+}
+
+/**
+ * Unwrap a permissions check for a token. Project API keys also get a 404 for
+ * anything outside their project.
+ */
+export function requireAccess<T extends { projectId: string }>(
+  principal: ApiPrincipal,
+  access: AccessResult<T>,
+  notFoundMessage: string
+): Extract<AccessResult<T>, { ok: true }> {
+  if (!access.ok) {
+    if (access.reason === 'two-factor-required') {
+      throw new ApiError(403, 'two_factor_required', 'This workspace requires its members to use two-factor authentication')
+    }
+    throw access.status === 404
+      ? new ApiError(404, 'not_found', notFoundMessage)
+      : new ApiError(403, 'forbidden', 'Insufficient permissions')
+  }
+
+  if (principal.projectId && principal.projectId !== access.projectId) {
+    throw new ApiError(404, 'not_found', notFoundMessage)
+  }
+
+  return access
+}
+
+type Cursor = { createdAt: Date; id: string }
+
+function encodeCursor(row: Cursor): string {
+  return Buffer.from(JSON.stringify([row.createdAt.toISOString(), row.id])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    const date = new Date(createdAt)
+    if (typeof id !== 'string' || Number.isNaN(date.getTime())) throw new Error('Malformed cursor')
+    return { createdAt: date, id }
+  } catch {
+    throw new ApiError(400, 'invalid_cursor', 'The cursor is invalid')
+  }
+}
+
+/**
+ * Page size and position from `?limit=&cursor=`, with the where clause and
+ * ordering to fetch the page. Fetch `take` rows and pass them to `paginated`.
+ */
+export function parsePagination(searchParams: URLSearchParams) {
+  const { limit, cursor } = v1PaginationSchema.parse({
+    limit: searchParams.get('limit') ?? undefined,
+    cursor: searchParams.get('cursor') ?? undefined,
+  })
+  const after = cursor ? decodeCursor(cursor) : null
+
+  return {
+    limit,
+    // One extra row tells whether there is another page
+    take: limit + 1,
+    where: after
+      ? {
+          OR: [
+            { createdAt: { lt: after.createdAt } },
+            { createdAt: after.createdAt, id: { lt: after.id } },
+          ],
+        }
+      : {},
+    orderBy: [{ createdAt: 'desc' as const }, { id: 'desc' as const }],
+  }
+}
+
+export function paginated<T extends Cursor, R>(rows: T[], limit: number, serialize: (row: T) => R) {
+  const page = rows.slice(0, limit)
+  const hasMore = rows.length > limit
+
+  return NextResponse.json({
+    data: page.map(serialize),
+    pagination: {
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    },
+  })
+}
+
+/**
+ * Run a create at most once per Idempotency-Key. The parsed JSON body is passed
+ * to the handler; a repeat of a finished request replays its stored response,
+ * and the same key with a different request is refused. Failures aren't
+ * stored, so the request can be retried with the same key.
+ */
+export async function idempotent(
+  request: NextRequest,
+  principal: ApiPrincipal,
+  handler: (body: unknown) => Promise<Response>
+): Promise<Response> {
+  const raw = await request.text()
+  let body: unknown
+  try {
+    body = raw ? JSON.parse(raw) : {}
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'The request body is not valid JSON')
+  }
+
+  const key = request.headers.get('idempotency-key')
+  if (!key) return handler(body)
+
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new ApiError(400, 'invalid_idempotency_key', `Idempotency keys can be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`)
+  }
+
+  const path = request.nextUrl.pathname
+  const requestHash = crypto.createHash('sha256').update(`${request.method} ${path}\n${raw}`).digest('hex')
+  const where = { tokenId_key: { tokenId: principal.tokenId, key } }
+
+  // An expired key may be used again
+  await prisma.idempotencyKey.deleteMany({
+    where: { tokenId: principal.tokenId, key, expiresAt: { lte: new Date() } },
+  })
+
+  try {
+    await prisma.idempotencyKey.create({
+      data: {
+        tokenId: principal.tokenId,
+        key,
+        method: request.method,
+        path,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+      },
+    })
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+
+    const existing = await prisma.idempotencyKey.findUnique({ where })
+    if (existing && existing.requestHash !== requestHash) {
+      throw new ApiError(422, 'idempotency_key_reused', 'This idempotency key was already used for a different request')
+    }
+    if (!existing || existing.status === null) {
+      throw new ApiError(409, 'idempotency_key_in_use', 'A request with this idempotency key is still in progress')
+    }
+
+    return NextResponse.json(existing.responseBody, {
+      status: existing.status,
+      headers: { 'Idempotent-Replayed': 'true' },
+    })
+  }
+
+  let response: Response
+  try {
+    response = await handler(body)
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where })
+    throw error
+  }
+
+  if (response.status >= 400) {
+    await prisma.idempotencyKey.delete({ where })
+    return response
+  }
+
+  await prisma.idempotencyKey.update({
+    where,
+    data: {
+      status: response.status,
+      responseBody: (await response.clone().json()) as Prisma.InputJsonValue,
+    },
+  })
+  return response
+}
+
+/**
+ * Drop idempotency keys past their replay window
+ */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  })
+  return count
+}
@@ -0,0 +1,47 @@
+/**
+ * Asset version helpers shared by the viewer, compare view and API.
+ * Only uploaded files (IMAGE, PDF) are versioned; URL assets track live sites.
+ */
+
+export const VERSIONED_ASSET_TYPES = ['IMAGE', 'PDF'] as const
+
+export const COMPARE_MODES = ['overlay', 'side-by-side', 'onion-skin'] as const
+
+export type CompareMode = typeof COMPARE_MODES[number]
+
+export interface AssetVersionSummary {
+  id: string
+  versionNumber: number
+  url: string
+  pageCount?: number | null
+  notes?: string | null
+  createdAt: string
+  uploadedBy?: {
+    id: string
+    name: string | null
+    email: string
+  } | null
+  _count?: {
+    annotations: number
+  }
+}
+
+export function isVersionedAssetType(type: string): boolean {
+  return (VERSIONED_ASSET_TYPES as readonly string[]).includes(type)
+}
+
+/**
+ * Short label for a version, e.g. "v3"
+ */
+export function formatVersionLabel(versionNumber: number): string {
+  return `v${versionNumber}`
+}
+
+/**
+ * Whether an uploaded file can become a new version of an asset of the given type
+ */
+export function isCompatibleVersionFile(assetType: string, mimeType: string): boolean {
+  if (assetType === 'PDF') return mimeType === 'application/pdf'
+  if (assetType === 'IMAGE') return mimeType.startsWith('image/')
+  return false
+}
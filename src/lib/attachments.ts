@@ -1,9 +1,9 @@
-// import { put } from '@vercel/blob' // Unused for now
-
 export interface AttachmentUploadResult {
   id: string
   filename: string
   url: string
+  // Signed URL to show the upload before it is attached to anything
+  previewUrl: string
   fileType: string
   fileSize: number
 }
@@ -31,6 +31,7 @@ export async function uploadAttachment(file: File): Promise<AttachmentUploadResu
       id: result.id || result.url, // Use provided ID or fallback to URL
       filename: file.name,
       url: result.url,
+      previewUrl: result.previewUrl,
       fileType: file.type,
       fileSize: file.size
     }
@@ -0,0 +1,114 @@
+import GitHub from 'next-auth/providers/github'
+import Google from 'next-auth/providers/google'
+import type { Account, Profile } from 'next-auth'
+import type { OIDCConfig, Provider } from 'next-auth/providers'
+
+/**
+ * OAuth sign-in providers, each switched on by its environment variables:
+ *
+ * - GitHub: AUTH_GITHUB_ID, AUTH_GITHUB_SECRET
+ * - Google: AUTH_GOOGLE_ID, AUTH_GOOGLE_SECRET
+ * - Any OpenID Connect IdP: AUTH_OIDC_ISSUER, AUTH_OIDC_ID, AUTH_OIDC_SECRET,
+ *   and AUTH_OIDC_NAME for the button label. Plain http issuers are accepted,
+ *   so a local mock IdP (scripts/mock-oidc.mjs) works in development.
+ *
+ * Callback URLs are `<app url>/api/auth/callback/<provider id>`.
+ */
+
+export interface OAuthProviderInfo {
+  id: string
+  name: string
+}
+
+interface OAuthProviderDefinition extends OAuthProviderInfo {
+  isConfigured: () => boolean
+  create: () => Provider
+}
+
+const oauthProviderDefinitions: OAuthProviderDefinition[] = [
+  {
+    id: 'github',
+    name: 'GitHub',
+    isConfigured: () => Boolean(process.env.AUTH_GITHUB_ID && process.env.AUTH_GITHUB_SECRET),
+    create: () => GitHub({
+      clientId: process.env.AUTH_GITHUB_ID,
+      clientSecret: process.env.AUTH_GITHUB_SECRET,
+      // Only for verified addresses, see the signIn callback in auth.ts
+      allowDangerousEmailAccountLinking: true,
+    }),
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    isConfigured: () => Boolean(process.env.AUTH_GOOGLE_ID && process.env.AUTH_GOOGLE_SECRET),
+    create: () => Google({
+      clientId: process.env.AUTH_GOOGLE_ID,
+      clientSecret: process.env.AUTH_GOOGLE_SECRET,
+      allowDangerousEmailAccountLinking: true,
+    }),
+  },
+  {
+    id: 'oidc',
+    name: process.env.AUTH_OIDC_NAME || 'Single sign-on',
+    isConfigured: () => Boolean(
+      process.env.AUTH_OIDC_ISSUER && process.env.AUTH_OIDC_ID && process.env.AUTH_OIDC_SECRET
+    ),
+    create: () => ({
+      id: 'oidc',
+      name: process.env.AUTH_OIDC_NAME || 'Single sign-on',
+      type: 'oidc',
+      issuer: process.env.AUTH_OIDC_ISSUER,
+      clientId: process.env.AUTH_OIDC_ID,
+      clientSecret: process.env.AUTH_OIDC_SECRET,
+      allowDangerousEmailAccountLinking: true,
+    }) satisfies OIDCConfig<Profile>,
+  },
+]
+
+/**
+ * NextAuth providers for every configured OAuth provider
+ */
+export function createOAuthProviders(): Provider[] {
+  return oauthProviderDefinitions
+    .filter(definition => definition.isConfigured())
+    .map(definition => definition.create())
+}
+
+/**
+ * Configured OAuth providers, for sign-in buttons and account settings
+ */
+export function getOAuthProviders(): OAuthProviderInfo[] {
+  return oauthProviderDefinitions
+    .filter(definition => definition.isConfigured())
+    .map(({ id, name }) => ({ id, name }))
+}
+
+/**
+ * Whether the provider vouches that the profile's email address belongs to the user.
+ * GitHub profiles don't say, so its API is asked with the access token.
+ */
+export async function isProviderEmailVerified(account: Account, profile: Profile | undefined): Promise<boolean> {
+  const email = profile?.email?.toLowerCase()
+  if (!email) return false
+
+  if (account.provider !== 'github') {
+    return profile?.email_verified === true
+  }
+
+  if (!account.access_token) return false
+  try {
+    const response = await fetch('https://api.github.com/user/emails', {
+      headers: {
+        Authorization: `Bearer ${account.access_token}`,
+        'User-Agent': 'pixelpin',
+      },
+    })
+    if (!response.ok) return false
+
+    const emails = await response.json() as { email: string; verified: boolean }[]
+    return emails.some(entry => entry.verified && entry.email.toLowerCase() === email)
+  } catch (error) {
+    console.error('Failed to check GitHub email verification:', error)
+    return false
+  }
+}
@@ -1,15 +1,55 @@
-import NextAuth from "next-auth";
+import NextAuth, { CredentialsSignin } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
+import { headers } from "next/headers";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "@/lib/prisma";
+import { createOAuthProviders, isProviderEmailVerified } from "@/lib/auth-providers";
+import { createWorkspace, getPersonalWorkspaceName } from "@/lib/workspaces";
+import { convertGuestContributionsIfAllowed, sendVerificationEmail } from "@/lib/email-verification";
+import { verifyTwoFactorCode } from "@/lib/two-factor";
+import { SESSION_MAX_AGE_SECONDS, createUserSession, validateUserSession } from "@/lib/user-sessions";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 
+declare module "next-auth" {
+  interface Session {
+    // UserSession row for this browser, see lib/user-sessions.ts
+    sessionId?: string;
+  }
+}
+
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
+  code: z.string().max(32).optional(),
 });
 
+// Codes reach the client as `code` on the signIn() result, so the form can ask for the second factor
+class TwoFactorRequired extends CredentialsSignin {
+  code = "two-factor-required";
+}
+
+class InvalidTwoFactorCode extends CredentialsSignin {
+  code = "invalid-two-factor-code";
+}
+
+class TooManyAttempts extends CredentialsSignin {
+  code = "too-many-attempts";
+}
+
+async function getRequestClient() {
+  try {
+    const headerList = await headers();
+    return {
+      userAgent: headerList.get("user-agent"),
+      ipAddress: headerList.get("x-forwarded-for")?.split(",")[0].trim() || headerList.get("x-real-ip"),
+    };
+  } catch {
+    return {};
+  }
+}
+
 export const { handlers, auth, signIn, signOut } = NextAuth({
   adapter: PrismaAdapter(prisma),
   providers: [
@@ -18,10 +58,16 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Two-factor code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         try {
-          const { email, password } = loginSchema.parse(credentials);
+          const { email, password, code } = loginSchema.parse(credentials);
+
+          const signInLimit = await checkRateLimit("sign-in", { ip: getClientIp(request), user: email.toLowerCase() });
+          if (!signInLimit.ok) {
+            throw new TooManyAttempts();
+          }
 
           const user = await prisma.user.findUnique({
             where: { email },
@@ -37,34 +83,135 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
             return null;
           }
 
+          if (user.twoFactorEnabled) {
+            if (!code) {
+              throw new TwoFactorRequired();
+            }
+
+            const limit = await checkRateLimit("two-factor", { ip: getClientIp(request), user: user.id });
+            if (!limit.ok) {
+              throw new TooManyAttempts();
+            }
+
+            if (!(await verifyTwoFactorCode(user.id, code))) {
+              throw new InvalidTwoFactorCode();
+            }
+          }
+
           return {
             id: user.id,
             email: user.email,
             name: user.name,
             image: user.image,
           };
-        } catch {
+        } catch (error) {
+          if (error instanceof CredentialsSignin) {
+            throw error;
+          }
           return null;
         }
       },
     }),
+    ...createOAuthProviders(),
   ],
   session: {
     strategy: "jwt",
+    maxAge: SESSION_MAX_AGE_SECONDS,
   },
   pages: {
     signIn: "/signin",
   },
+  events: {
+    async createUser({ user }) {
+      // Users signing up through an OAuth provider get a personal workspace, like credential signups
+      if (user.id && user.email) {
+        await createWorkspace(user.id, getPersonalWorkspaceName({ name: user.name, email: user.email }));
+      }
+    },
+    async signIn({ user, account, profile, isNewUser }) {
+      if (!isNewUser || !account || account.type === "credentials" || !user.id || !user.email) {
+        return;
+      }
+
+      // Take the provider's word for the address when it vouches for it, otherwise ask the user to confirm it
+      if (await isProviderEmailVerified(account, profile)) {
+        const verified = await prisma.user.update({
+          where: { id: user.id },
+          data: { emailVerified: new Date() },
+          select: { id: true, email: true, emailVerified: true },
+        });
+        await convertGuestContributionsIfAllowed(verified);
+      } else {
+        await sendVerificationEmail({ id: user.id, email: user.email });
+        await convertGuestContributionsIfAllowed({ id: user.id, email: user.email, emailVerified: null });
+      }
+    },
+  },
   callbacks: {
+    async signIn({ account, profile }) {
+      if (!account || account.type === "credentials") {
+        return true;
+      }
+
+      const linkedAccount = await prisma.account.findUnique({
+        where: {
+          provider_providerAccountId: {
+            provider: account.provider,
+            providerAccountId: account.providerAccountId,
+          },
+        },
+        select: { user: { select: { id: true, twoFactorEnabled: true } } },
+      });
+
+      const existingUser = linkedAccount?.user ?? (profile?.email
+        ? await prisma.user.findUnique({
+            where: { email: profile.email },
+            select: { id: true, twoFactorEnabled: true },
+          })
+        : null);
+      if (!existingUser) {
+        return true;
+      }
+
+      // Connecting from account settings links to the signed-in user
+      const session = await auth();
+      if (session?.user?.id) {
+        return true;
+      }
+
+      // The second factor is only asked for on password sign-ins, so accounts
+      // that have one sign in that way; otherwise a provider would skip it
+      if (existingUser.twoFactorEnabled) {
+        return "/signin?error=TwoFactorRequired";
+      }
+
+      if (linkedAccount) {
+        return true;
+      }
+
+      // Otherwise only an address the provider has verified may take over an existing account
+      if (await isProviderEmailVerified(account, profile)) {
+        return true;
+      }
+      return "/signin?error=OAuthAccountNotLinked";
+    },
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id;
+        token.sessionId = await createUserSession(user.id!, await getRequestClient());
+        return token;
+      }
+
+      // Revoked or expired sessions, and tokens from before sessions were tracked, sign the browser out
+      if (!token.sessionId || !(await validateUserSession(token.sessionId as string, token.id as string))) {
+        return null;
       }
       return token;
     },
     async session({ session, token }) {
       if (token) {
         session.user.id = token.id as string;
+        session.sessionId = token.sessionId as string;
       }
       return session;
     },
@@ -69,7 +69,18 @@ function getBrowserVersion(userAgent: string, browserName: string): string {
  * Detect operating system from user agent
  */
 function getOperatingSystem(userAgent: string): string {
-  if (userAgent.includes('Windows NT 10.0')) {
+  // Mobile first: Android user agents also mention Linux, and iOS ones "like Mac OS X"
+  if (userAgent.includes('Android')) {
+    const androidMatch = userAgent.match(/Android ([0-9.]+)/)
+    return androidMatch ? `Android ${androidMatch[1]}` : 'Android'
+  } else if (userAgent.includes('iOS') || userAgent.includes('iPhone') || userAgent.includes('iPad')) {
+    const iosMatch = userAgent.match(/OS ([0-9_]+)/)
+    if (iosMatch) {
+      const version = iosMatch[1].replace(/_/g, '.')
+      return `iOS ${version}`
+    }
+    return 'iOS'
+  } else if (userAgent.includes('Windows NT 10.0')) {
     return 'Windows 10'
   } else if (userAgent.includes('Windows NT 6.3')) {
     return 'Windows 8.1'
@@ -88,21 +99,23 @@ function getOperatingSystem(userAgent: string): string {
     return 'macOS'
   } else if (userAgent.includes('Linux')) {
     return 'Linux'
-  } else if (userAgent.includes('Android')) {
-    const androidMatch = userAgent.match(/Android ([0-9.]+)/)
-    return androidMatch ? `Android ${androidMatch[1]}` : 'Android'
-  } else if (userAgent.includes('iOS') || userAgent.includes('iPhone') || userAgent.includes('iPad')) {
-    const iosMatch = userAgent.match(/OS ([0-9_]+)/)
-    if (iosMatch) {
-      const version = iosMatch[1].replace(/_/g, '.')
-      return `iOS ${version}`
-    }
-    return 'iOS'
   } else {
     return 'Unknown'
   }
 }
 
+/**
+ * Browser and operating system from a user agent string, e.g. one sent to the server
+ */
+export function parseUserAgent(userAgent: string): Pick<BrowserMetadata, 'browserName' | 'browserVersion' | 'operatingSystem'> {
+  const browserName = getBrowserName(userAgent)
+  return {
+    browserName,
+    browserVersion: getBrowserVersion(userAgent, browserName),
+    operatingSystem: getOperatingSystem(userAgent),
+  }
+}
+
 /**
  * Get current viewport size
  */
@@ -0,0 +1,285 @@
+import puppeteer, { Browser, BrowserContext, Page } from 'puppeteer'
+import { startEgressProxy } from '@/lib/outbound-requests'
+import { allowsPrivateSites } from '@/lib/site-proxy'
+
+/**
+ * One headless browser shared by every server-side capture in the process.
+ * Pages are kept open between captures and handed out again, at most
+ * `concurrency` at a time; callers past the cap wait for a page to be
+ * released. If the browser crashes it's dropped and the next capture launches
+ * a new one, and a capture that runs past its time box has its page closed
+ * rather than returned. The browser is shut down once nothing has used it for
+ * a while.
+ *
+ * Captured pages are user-supplied, so the browser only reaches the network
+ * through an egress proxy of its own (see `startEgressProxy`), which keeps it
+ * and anything a page loads off private addresses.
+ */
+
+export interface BrowserPoolOptions {
+  // Pages open at once
+  concurrency: number
+  // A page is closed after this many captures and a fresh one opened in its place
+  maxPageUses: number
+  // The browser is closed after this long without a capture
+  idleTimeoutMs: number
+  // Default time box for withPage
+  timeoutMs: number
+  // Let pages reach private addresses, for self-hosted setups capturing local sites
+  allowPrivateNetwork: boolean
+}
+
+export interface BrowserPoolStats {
+  running: boolean
+  active: number
+  idle: number
+  waiting: number
+}
+
+export interface BrowserPool {
+  // Run fn with a page from the pool, rejecting with BrowserPoolTimeoutError after timeoutMs
+  withPage<T>(fn: (page: Page) => Promise<T>, options?: { timeoutMs?: number }): Promise<T>
+  stats(): BrowserPoolStats
+  close(): Promise<void>
+}
+
+export class BrowserPoolTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Capture timed out after ${Math.round(timeoutMs / 1000)}s`)
+    this.name = 'BrowserPoolTimeoutError'
+  }
+}
+
+const BROWSER_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu',
+]
+
+const DEFAULT_OPTIONS: BrowserPoolOptions = {
+  concurrency: 2,
+  maxPageUses: 20,
+  idleTimeoutMs: 5 * 60 * 1000,
+  timeoutMs: 45 * 1000,
+  allowPrivateNetwork: false,
+}
+
+// Resetting a page between captures shouldn't take long; one that does is closed instead
+const PAGE_RESET_TIMEOUT_MS = 5 * 1000
+
+interface PooledPage {
+  browser: Promise<Browser>
+  context: BrowserContext
+  page: Page
+  uses: number
+  crashed: boolean
+}
+
+export function createBrowserPool(options: Partial<BrowserPoolOptions> = {}): BrowserPool {
+  const { concurrency, maxPageUses, idleTimeoutMs, timeoutMs: defaultTimeoutMs, allowPrivateNetwork } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  }
+
+  let browser: Promise<Browser> | null = null
+  let idlePages: PooledPage[] = []
+  let active = 0
+  const waiting: (() => void)[] = []
+  let idleTimer: ReturnType<typeof setTimeout> | null = null
+
+  async function launchBrowser(): Promise<Browser> {
+    const proxy = await startEgressProxy({ allowPrivate: allowPrivateNetwork })
+    try {
+      const instance = await puppeteer.launch({
+        headless: true,
+        args: [
+          ...BROWSER_ARGS,
+          `--proxy-server=${proxy.url}`,
+          // Loopback included, which Chromium otherwise never proxies
+          '--proxy-bypass-list=<-loopback>',
+          // WebRTC could otherwise send UDP around the proxy
+          '--force-webrtc-ip-handling-policy=disable_non_proxied_udp',
+        ],
+      })
+      instance.on('disconnected', () => void proxy.close())
+      return instance
+    } catch (error) {
+      await proxy.close()
+      throw error
+    }
+  }
+
+  function getBrowser(): Promise<Browser> {
+    if (!browser) {
+      const launching = launchBrowser()
+      browser = launching
+      launching.then(
+        (instance) => {
+          instance.on('disconnected', () => {
+            // Crashed or closed; pages from it are useless, and the next capture relaunches
+            if (browser === launching) {
+              browser = null
+              idlePages = []
+            }
+          })
+        },
+        () => {
+          if (browser === launching) browser = null
+        }
+      )
+    }
+    return browser
+  }
+
+  async function acquireSlot(): Promise<void> {
+    if (idleTimer) {
+      clearTimeout(idleTimer)
+      idleTimer = null
+    }
+    if (active < concurrency) {
+      active++
+      return
+    }
+    // The releasing caller hands its slot straight over, so active stays the same
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  }
+
+  function releaseSlot() {
+    const next = waiting.shift()
+    if (next) {
+      next()
+      return
+    }
+    active--
+    if (active === 0) scheduleShutdown()
+  }
+
+  function scheduleShutdown() {
+    if (idleTimer) clearTimeout(idleTimer)
+    idleTimer = setTimeout(() => {
+      idleTimer = null
+      if (active === 0) void close()
+    }, idleTimeoutMs)
+    idleTimer.unref?.()
+  }
+
+  async function acquirePage(): Promise<PooledPage> {
+    while (idlePages.length > 0) {
+      const pooled = idlePages.pop()!
+      if (pooled.browser === browser && !pooled.page.isClosed()) return pooled
+      await closePage(pooled)
+    }
+
+    const current = getBrowser()
+    // Each page gets its own context so cookies and storage don't carry between sites
+    const context = await (await current).createBrowserContext()
+    let page: Page
+    try {
+      page = await context.newPage()
+    } catch (error) {
+      await context.close().catch(() => {})
+      throw error
+    }
+    const pooled: PooledPage = { browser: current, context, page, uses: 0, crashed: false }
+    pooled.page.on('error', () => {
+      pooled.crashed = true
+    })
+    return pooled
+  }
+
+  async function closePage(pooled: PooledPage) {
+    await pooled.context.close().catch(() => {})
+  }
+
+  async function releasePage(pooled: PooledPage, reusable: boolean) {
+    pooled.uses++
+    if (!reusable || pooled.crashed || pooled.uses >= maxPageUses || pooled.browser !== browser) {
+      await closePage(pooled)
+      return
+    }
+
+    try {
+      await pooled.page.goto('about:blank', { timeout: PAGE_RESET_TIMEOUT_MS })
+      const cookies = await pooled.context.cookies()
+      if (cookies.length > 0) await pooled.context.deleteCookie(...cookies)
+      idlePages.push(pooled)
+    } catch {
+      await closePage(pooled)
+    }
+  }
+
+  async function withPage<T>(
+    fn: (page: Page) => Promise<T>,
+    { timeoutMs = defaultTimeoutMs }: { timeoutMs?: number } = {}
+  ): Promise<T> {
+    await acquireSlot()
+    let pooled: PooledPage | null = null
+    let reusable = true
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      pooled = await acquirePage()
+      return await Promise.race([
+        fn(pooled.page),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new BrowserPoolTimeoutError(timeoutMs)), timeoutMs)
+        }),
+      ])
+    } catch (error) {
+      // The page may still be busy with the capture, so it's closed, which also ends fn
+      if (error instanceof BrowserPoolTimeoutError) reusable = false
+      throw error
+    } finally {
+      clearTimeout(timer)
+      if (pooled) await releasePage(pooled, reusable)
+      releaseSlot()
+    }
+  }
+
+  async function close() {
+    const closing = browser
+    browser = null
+    idlePages = []
+    if (closing) {
+      await closing.then((instance) => instance.close()).catch(() => {})
+    }
+  }
+
+  return {
+    withPage,
+    stats: () => ({ running: browser !== null, active, idle: idlePages.length, waiting: waiting.length }),
+    close,
+  }
+}
+
+// Kept on globalThis so reloads in development don't leave browsers running
+const globalForBrowserPool = globalThis as unknown as {
+  browserPool: BrowserPool | undefined
+}
+
+function readPositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined
+}
+
+/**
+ * The process-wide pool. SCREENSHOT_CONCURRENCY caps the pages open at once.
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!globalForBrowserPool.browserPool) {
+    const concurrency = readPositiveInt(process.env.SCREENSHOT_CONCURRENCY)
+    globalForBrowserPool.browserPool = createBrowserPool({
+      ...(concurrency ? { concurrency } : {}),
+      allowPrivateNetwork: allowsPrivateSites(),
+    })
+  }
+  return globalForBrowserPool.browserPool
+}
+
+export function setBrowserPool(pool: BrowserPool | null) {
+  globalForBrowserPool.browserPool = pool ?? undefined
+}
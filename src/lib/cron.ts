@@ -0,0 +1,16 @@
+import crypto from 'crypto'
+
+/**
+ * Whether a request to a cron route carries the CRON_SECRET the scheduler
+ * sends (see vercel.json). Cron routes refuse every request while it's unset.
+ */
+export function verifyCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) return false
+
+  // Compared as digests so the comparison takes as long whatever was sent
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest()
+  const expected = digest(`Bearer ${cronSecret}`)
+  const received = digest(request.headers.get('authorization') ?? '')
+  return crypto.timingSafeEqual(expected, received)
+}
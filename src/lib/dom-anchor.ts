@@ -0,0 +1,184 @@
+/**
+ * DOM anchoring for annotations on URL assets
+ * Captures a robust reference to the element under a pin so the pin can
+ * follow the element when the page reflows or the viewport changes.
+ */
+
+export interface ElementAnchor {
+  selector: string
+  tagName: string
+  textFingerprint: string
+  offset: {
+    // Position of the pin inside the element box, as 0-1 ratios
+    x: number
+    y: number
+  }
+  scroll: {
+    x: number
+    y: number
+  }
+  elementSize: {
+    width: number
+    height: number
+  }
+}
+
+export type AnchorStatus = 'ANCHORED' | 'LOST' | 'UNAVAILABLE'
+
+export interface ResolvedAnchor {
+  position: { x: number; y: number }
+  status: AnchorStatus
+}
+
+const FINGERPRINT_LENGTH = 64
+const MAX_SELECTOR_DEPTH = 12
+
+/**
+ * Normalize element text into a short comparable fingerprint
+ */
+export function getTextFingerprint(element: Element): string {
+  const text = (element.textContent || '').replace(/\s+/g, ' ').trim()
+  return text.substring(0, FINGERPRINT_LENGTH)
+}
+
+function escapeCssIdentifier(value: string): string {
+  if (typeof CSS !== 'undefined' && CSS.escape) {
+    return CSS.escape(value)
+  }
+  return value.replace(/([^a-zA-Z0-9_-])/g, '\\$1')
+}
+
+/**
+ * Build a CSS selector path from the nearest element with a unique id
+ * (or the body) down to the target, using :nth-of-type for stability
+ */
+export function buildSelectorPath(element: Element): string {
+  const doc = element.ownerDocument
+  const segments: string[] = []
+  let current: Element | null = element
+
+  while (current && current !== doc.body && current !== doc.documentElement && segments.length < MAX_SELECTOR_DEPTH) {
+    const id = current.getAttribute('id')
+    if (id && doc.querySelectorAll(`#${escapeCssIdentifier(id)}`).length === 1) {
+      segments.unshift(`#${escapeCssIdentifier(id)}`)
+      return segments.join(' > ')
+    }
+
+    const tagName = current.tagName.toLowerCase()
+    const parent: Element | null = current.parentElement
+    if (parent) {
+      const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName)
+      const index = siblings.indexOf(current) + 1
+      segments.unshift(siblings.length > 1 ? `${tagName}:nth-of-type(${index})` : tagName)
+    } else {
+      segments.unshift(tagName)
+    }
+
+    current = parent
+  }
+
+  segments.unshift('body')
+  return segments.join(' > ')
+}
+
+/**
+ * Capture an anchor for the element at a point in the iframe viewport
+ */
+export function captureElementAnchor(
+  doc: Document,
+  point: { x: number; y: number }
+): ElementAnchor | null {
+  const element = doc.elementFromPoint(point.x, point.y)
+  if (!element || element === doc.body || element === doc.documentElement) {
+    return null
+  }
+
+  const rect = element.getBoundingClientRect()
+  const view = doc.defaultView
+
+  return {
+    selector: buildSelectorPath(element),
+    tagName: element.tagName.toLowerCase(),
+    textFingerprint: getTextFingerprint(element),
+    offset: {
+      x: rect.width > 0 ? (point.x - rect.left) / rect.width : 0,
+      y: rect.height > 0 ? (point.y - rect.top) / rect.height : 0
+    },
+    scroll: {
+      x: view?.scrollX || 0,
+      y: view?.scrollY || 0
+    },
+    elementSize: {
+      width: rect.width,
+      height: rect.height
+    }
+  }
+}
+
+/**
+ * Find the anchored element, preferring the selector path and falling back
+ * to a text fingerprint match among elements with the same tag
+ */
+export function findAnchoredElement(doc: Document, anchor: ElementAnchor): Element | null {
+  let bySelector: Element | null = null
+  try {
+    bySelector = doc.querySelector(anchor.selector)
+  } catch {
+    // Invalid selector, fall through to fingerprint matching
+  }
+
+  if (bySelector && bySelector.tagName.toLowerCase() === anchor.tagName) {
+    if (!anchor.textFingerprint || getTextFingerprint(bySelector) === anchor.textFingerprint) {
+      return bySelector
+    }
+  }
+
+  if (anchor.textFingerprint) {
+    const candidates = Array.from(doc.getElementsByTagName(anchor.tagName))
+    const match = candidates.find(candidate => getTextFingerprint(candidate) === anchor.textFingerprint)
+    if (match) return match
+  }
+
+  return null
+}
+
+/**
+ * Resolve an anchor against the live DOM into iframe viewport coordinates.
+ * Falls back to the stored position when the DOM is inaccessible
+ * (UNAVAILABLE) or the element can no longer be found (LOST).
+ */
+export function resolveElementAnchor(
+  doc: Document | null | undefined,
+  anchor: ElementAnchor | null | undefined,
+  fallback: { x: number; y: number }
+): ResolvedAnchor {
+  if (!anchor || !doc) {
+    return { position: fallback, status: 'UNAVAILABLE' }
+  }
+
+  const element = findAnchoredElement(doc, anchor)
+  if (!element) {
+    return { position: fallback, status: 'LOST' }
+  }
+
+  const rect = element.getBoundingClientRect()
+  return {
+    position: {
+      x: rect.left + rect.width * anchor.offset.x,
+      y: rect.top + rect.height * anchor.offset.y
+    },
+    status: 'ANCHORED'
+  }
+}
+
+/**
+ * Get the iframe document if it is same-origin accessible
+ */
+export function getAccessibleDocument(iframe: HTMLIFrameElement | null | undefined): Document | null {
+  if (!iframe) return null
+  try {
+    return iframe.contentDocument || iframe.contentWindow?.document || null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * HTML and plain-text notification emails. Every template links straight
+ * to the annotation it is about.
+ */
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface AnnotationLinkTarget {
+  id: string
+  asset: {
+    id: string
+    type: 'IMAGE' | 'PDF' | 'URL'
+    projectId: string
+  }
+}
+
+interface EmailContext {
+  projectName: string
+  assetName: string
+  annotationUrl: string
+}
+
+export type DigestItemKind = 'mention' | 'reply' | 'newAnnotation' | 'resolved'
+
+export interface DigestItem {
+  kind: DigestItemKind
+  actorName: string
+  content: string
+  url: string
+  // Only http(s) images; most mail clients block data: URLs
+  thumbnailUrl: string | null
+  createdAt: Date
+}
+
+export interface DigestAsset {
+  id: string
+  name: string
+  items: DigestItem[]
+}
+
+export interface DigestProject {
+  id: string
+  name: string
+  assets: DigestAsset[]
+}
+
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+/**
+ * In-app path to an annotation: the immersive view for websites, the asset viewer otherwise
+ */
+export function buildAnnotationPath({ id, asset }: AnnotationLinkTarget): string {
+  const assetPath = `/projects/${asset.projectId}/assets/${asset.id}`
+  const viewPath = asset.type === 'URL' ? `${assetPath}/immersive` : assetPath
+  return `${viewPath}?annotation=${encodeURIComponent(id)}`
+}
+
+export function buildAnnotationUrl(target: AnnotationLinkTarget): string {
+  return `${getAppUrl()}${buildAnnotationPath(target)}`
+}
+
+export function getNotificationSettingsUrl(): string {
+  return `${getAppUrl()}/settings/notifications`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Mention markup is stored as @[Name](userId)
+function plainContent(content: string): string {
+  return content.replace(/@\[([^\]]+)\]\(([^)]+)\)/g, '@$1')
+}
+
+function renderLayout(heading: string, quote: string | null, context: EmailContext): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#171717;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <p style="margin:0 0 4px;font-size:12px;color:#737373;">${escapeHtml(context.projectName)} &middot; ${escapeHtml(context.assetName)}</p>
+          <h1 style="margin:0 0 16px;font-size:18px;font-weight:600;">${escapeHtml(heading)}</h1>
+          ${quote ? `<blockquote style="margin:0 0 20px;padding:12px 16px;background:#fafafa;border-left:3px solid #2563eb;font-size:14px;white-space:pre-wrap;">${escapeHtml(quote)}</blockquote>` : ''}
+          <a href="${escapeHtml(context.annotationUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;">View annotation</a>
+        </td>
+      </tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a3a3a3;text-align:center;">You are receiving this because you are part of ${escapeHtml(context.projectName)} on PixelPin. <a href="${escapeHtml(getNotificationSettingsUrl())}" style="color:#a3a3a3;">Notification settings</a></p>
+  </body>
+</html>`
+}
+
+function renderText(heading: string, quote: string | null, context: EmailContext): string {
+  return [
+    `${context.projectName} / ${context.assetName}`,
+    '',
+    heading,
+    ...(quote ? ['', ...quote.split('\n').map(line => `> ${line}`)] : []),
+    '',
+    `View annotation: ${context.annotationUrl}`,
+  ].join('\n')
+}
+
+function renderEmail(subject: string, heading: string, quote: string | null, context: EmailContext): RenderedEmail {
+  return {
+    subject,
+    html: renderLayout(heading, quote, context),
+    text: renderText(heading, quote, context),
+  }
+}
+
+export function renderMentionEmail(
+  context: EmailContext & { mentionedBy: string; content: string }
+): RenderedEmail {
+  return renderEmail(
+    `${context.mentionedBy} mentioned you on ${context.assetName}`,
+    `${context.mentionedBy} mentioned you`,
+    plainContent(context.content),
+    context
+  )
+}
+
+export function renderReplyEmail(
+  context: EmailContext & { repliedBy: string; content: string }
+): RenderedEmail {
+  return renderEmail(
+    `${context.repliedBy} replied to your annotation on ${context.assetName}`,
+    `${context.repliedBy} replied to your annotation`,
+    plainContent(context.content),
+    context
+  )
+}
+
+export function renderStatusChangeEmail(
+  context: EmailContext & { changedBy: string; status: 'OPEN' | 'RESOLVED'; content: string }
+): RenderedEmail {
+  const action = context.status === 'RESOLVED' ? 'resolved' : 'reopened'
+  return renderEmail(
+    `${context.changedBy} ${action} your annotation on ${context.assetName}`,
+    `${context.changedBy} ${action} your annotation`,
+    context.content ? plainContent(context.content) : null,
+    context
+  )
+}
+
+export function renderGuestFeedbackEmail(
+  context: EmailContext & { guestName: string; content: string }
+): RenderedEmail {
+  return renderEmail(
+    `New feedback from ${context.guestName} on ${context.assetName}`,
+    `${context.guestName} left feedback as a guest`,
+    context.content ? plainContent(context.content) : null,
+    context
+  )
+}
+
+export function renderNewAnnotationEmail(
+  context: EmailContext & { createdBy: string; content: string }
+): RenderedEmail {
+  return renderEmail(
+    `${context.createdBy} added an annotation on ${context.assetName}`,
+    `${context.createdBy} added an annotation`,
+    context.content ? plainContent(context.content) : null,
+    context
+  )
+}
+
+const digestItemLabels: Record<DigestItemKind, string> = {
+  mention: 'mentioned you',
+  reply: 'replied to your annotation',
+  newAnnotation: 'added an annotation',
+  resolved: 'resolved your annotation',
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value
+}
+
+function renderDigestItemHtml(item: DigestItem): string {
+  const thumbnail = item.thumbnailUrl
+    ? `<td width="88" valign="top" style="padding:0 12px 0 0;"><a href="${escapeHtml(item.url)}"><img src="${escapeHtml(item.thumbnailUrl)}" width="88" alt="" style="display:block;width:88px;max-height:66px;object-fit:cover;border-radius:4px;border:1px solid #e5e5e5;"></a></td>`
+    : ''
+  return `<tr>
+            <td style="padding:8px 0;border-top:1px solid #f0f0f0;">
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr>
+                ${thumbnail}<td valign="top" style="font-size:14px;">
+                  <strong>${escapeHtml(item.actorName)}</strong> ${digestItemLabels[item.kind]}
+                  ${item.content ? `<div style="margin-top:4px;color:#525252;">${escapeHtml(truncate(plainContent(item.content), 200))}</div>` : ''}
+                  <a href="${escapeHtml(item.url)}" style="display:inline-block;margin-top:4px;font-size:12px;color:#2563eb;">View annotation</a>
+                </td>
+              </tr></table>
+            </td>
+          </tr>`
+}
+
+/**
+ * Summary of everything a user chose to receive as an hourly, daily or weekly digest,
+ * grouped by project and asset
+ */
+export function renderDigestEmail(context: {
+  periodLabel: string
+  projects: DigestProject[]
+}): RenderedEmail {
+  const itemCount = context.projects.reduce(
+    (total, project) => total + project.assets.reduce((sum, asset) => sum + asset.items.length, 0),
+    0
+  )
+  const subject = `Your ${context.periodLabel} PixelPin digest: ${itemCount} update${itemCount === 1 ? '' : 's'}`
+
+  const sections = context.projects.map(project => `
+      <tr>
+        <td style="padding:24px 24px 0;">
+          <h2 style="margin:0 0 8px;font-size:16px;font-weight:600;">${escapeHtml(project.name)}</h2>
+          ${project.assets.map(asset => `
+          <p style="margin:12px 0 4px;font-size:12px;font-weight:600;color:#737373;text-transform:uppercase;">${escapeHtml(asset.name)}</p>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+          ${asset.items.map(renderDigestItemHtml).join('\n          ')}
+          </table>`).join('')}
+        </td>
+      </tr>`).join('')
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#171717;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px 24px 0;">
+          <h1 style="margin:0;font-size:18px;font-weight:600;">${escapeHtml(subject)}</h1>
+        </td>
+      </tr>${sections}
+      <tr><td style="padding:24px;"></td></tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a3a3a3;text-align:center;">You are receiving this digest because of your notification settings. <a href="${escapeHtml(getNotificationSettingsUrl())}" style="color:#a3a3a3;">Change them</a></p>
+  </body>
+</html>`
+
+  const text = [
+    subject,
+    ...context.projects.flatMap(project => [
+      '',
+      `== ${project.name} ==`,
+      ...project.assets.flatMap(asset => [
+        '',
+        asset.name,
+        ...asset.items.map(item =>
+          `- ${item.actorName} ${digestItemLabels[item.kind]}${item.content ? `: ${truncate(plainContent(item.content), 200)}` : ''}\n  ${item.url}`
+        ),
+      ]),
+    ]),
+    '',
+    `Notification settings: ${getNotificationSettingsUrl()}`,
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+const roleDescriptions: Record<'OWNER' | 'EDITOR' | 'VIEWER', string> = {
+  OWNER: 'an owner',
+  EDITOR: 'an editor',
+  VIEWER: 'a viewer',
+}
+
+/**
+ * Invitation to join a project, sent to addresses that may not have an account yet
+ */
+export function renderInvitationEmail(context: {
+  projectName: string
+  invitedBy: string
+  role: 'OWNER' | 'EDITOR' | 'VIEWER'
+  acceptUrl: string
+  expiresAt: Date
+}): RenderedEmail {
+  const subject = `${context.invitedBy} invited you to ${context.projectName} on PixelPin`
+  const expires = context.expiresAt.toUTCString()
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#171717;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:18px;font-weight:600;">${escapeHtml(subject)}</h1>
+          <p style="margin:0 0 20px;font-size:14px;">You've been invited to join <strong>${escapeHtml(context.projectName)}</strong> as ${roleDescriptions[context.role]}. Create an account or sign in with this email address to accept.</p>
+          <a href="${escapeHtml(context.acceptUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;">Accept invitation</a>
+          <p style="margin:20px 0 0;font-size:12px;color:#737373;">This invitation expires on ${escapeHtml(expires)}.</p>
+        </td>
+      </tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a3a3a3;text-align:center;">If you weren't expecting this invitation, you can ignore this email.</p>
+  </body>
+</html>`
+
+  const text = [
+    subject,
+    '',
+    `You've been invited to join ${context.projectName} as ${roleDescriptions[context.role]}. Create an account or sign in with this email address to accept.`,
+    '',
+    `Accept invitation: ${context.acceptUrl}`,
+    '',
+    `This invitation expires on ${expires}.`,
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+/**
+ * Email with a single call to action, for account messages that aren't about a project
+ */
+function renderAccountEmail(context: {
+  subject: string
+  body: string
+  actionLabel: string
+  actionUrl: string
+  note: string
+  footer: string
+}): RenderedEmail {
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#171717;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:18px;font-weight:600;">${escapeHtml(context.subject)}</h1>
+          <p style="margin:0 0 20px;font-size:14px;">${escapeHtml(context.body)}</p>
+          <a href="${escapeHtml(context.actionUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;font-size:14px;">${escapeHtml(context.actionLabel)}</a>
+          <p style="margin:20px 0 0;font-size:12px;color:#737373;">${escapeHtml(context.note)}</p>
+        </td>
+      </tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#a3a3a3;text-align:center;">${escapeHtml(context.footer)}</p>
+  </body>
+</html>`
+
+  const text = [
+    context.subject,
+    '',
+    context.body,
+    '',
+    `${context.actionLabel}: ${context.actionUrl}`,
+    '',
+    context.note,
+  ].join('\n')
+
+  return { subject: context.subject, html, text }
+}
+
+/**
+ * Confirms the address on a new account
+ */
+export function renderVerificationEmail(context: { verifyUrl: string; expiresAt: Date }): RenderedEmail {
+  return renderAccountEmail({
+    subject: 'Verify your email address for PixelPin',
+    body: 'Confirm that this is your email address to finish setting up your PixelPin account.',
+    actionLabel: 'Verify email address',
+    actionUrl: context.verifyUrl,
+    note: `This link expires on ${context.expiresAt.toUTCString()} and can be used once.`,
+    footer: "If you didn't create a PixelPin account, you can ignore this email.",
+  })
+}
+
+/**
+ * Link to choose a new password
+ */
+export function renderPasswordResetEmail(context: { resetUrl: string; expiresAt: Date }): RenderedEmail {
+  return renderAccountEmail({
+    subject: 'Reset your PixelPin password',
+    body: 'Someone asked to reset the password for the PixelPin account using this email address. Choose a new password with the link below.',
+    actionLabel: 'Reset password',
+    actionUrl: context.resetUrl,
+    note: `This link expires on ${context.expiresAt.toUTCString()} and can be used once.`,
+    footer: "If you didn't ask for a password reset, you can ignore this email; your password stays the same.",
+  })
+}
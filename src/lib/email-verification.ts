@@ -0,0 +1,114 @@
+/**
+ * Email address verification, and the policy for what an unverified address
+ * may not do. EMAIL_VERIFICATION_REQUIRED_FOR lists the actions that need a
+ * verified address, comma-separated:
+ *
+ * - invitations: accepting a project invitation
+ * - guest-conversion: taking over the comments left as a guest with the same address
+ *
+ * Left unset, only guest conversion requires one.
+ */
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { getAppUrl, renderVerificationEmail } from '@/lib/email-templates'
+import { consumeVerificationToken, issueVerificationToken, type VerificationTokenFailure } from '@/lib/verification-tokens'
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+
+export type VerifiedEmailAction = 'invitations' | 'guest-conversion'
+
+const DEFAULT_VERIFIED_EMAIL_ACTIONS: VerifiedEmailAction[] = ['guest-conversion']
+
+export const VERIFICATION_FAILURE_MESSAGES: Record<VerificationTokenFailure, string> = {
+  invalid: 'This verification link is invalid or has already been used',
+  expired: 'This verification link has expired. Request a new one from your account settings.',
+}
+
+export function requiresVerifiedEmail(action: VerifiedEmailAction): boolean {
+  const setting = process.env.EMAIL_VERIFICATION_REQUIRED_FOR
+  if (setting === undefined) {
+    return DEFAULT_VERIFIED_EMAIL_ACTIONS.includes(action)
+  }
+  return setting.split(',').map(value => value.trim()).includes(action)
+}
+
+export function getVerifyEmailUrl(token: string): string {
+  return `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Email a fresh verification link, replacing any earlier one. Returns whether the mail transport accepted it.
+ */
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<boolean> {
+  const { token, expires } = await issueVerificationToken('verify-email', user.id, EMAIL_VERIFICATION_TTL_MS)
+
+  return sendEmail({
+    template: 'verify-email',
+    secretLinks: true,
+    to: user.email,
+    userId: user.id,
+    ...renderVerificationEmail({
+      verifyUrl: getVerifyEmailUrl(token),
+      expiresAt: expires,
+    }),
+  })
+}
+
+/**
+ * Attribute comments and replies left as a guest with the user's address to their account
+ */
+export async function convertGuestContributions(user: { id: string; email: string }) {
+  const guestWhere = {
+    authorId: null,
+    guestEmail: { equals: user.email, mode: 'insensitive' as const },
+  }
+
+  const [annotations, replies] = await prisma.$transaction([
+    prisma.annotation.updateMany({ where: guestWhere, data: { authorId: user.id } }),
+    prisma.reply.updateMany({ where: guestWhere, data: { authorId: user.id } }),
+  ])
+
+  return { annotations: annotations.count, replies: replies.count }
+}
+
+/**
+ * Guest conversion for a new or newly verified account, when the policy allows it
+ */
+export async function convertGuestContributionsIfAllowed(user: {
+  id: string
+  email: string
+  emailVerified: Date | null
+}) {
+  if (requiresVerifiedEmail('guest-conversion') && !user.emailVerified) {
+    return null
+  }
+  return convertGuestContributions(user)
+}
+
+/**
+ * Mark the address a verification link was sent to as verified
+ */
+export async function verifyEmail(
+  token: string
+): Promise<{ ok: true; userId: string } | { ok: false; reason: VerificationTokenFailure }> {
+  const consumed = await consumeVerificationToken('verify-email', token)
+  if (!consumed.ok) return consumed
+
+  const user = await prisma.user.findUnique({
+    where: { id: consumed.subject },
+    select: { id: true, email: true, emailVerified: true },
+  })
+  if (!user) return { ok: false, reason: 'invalid' }
+
+  const verified = user.emailVerified
+    ? user
+    : await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerified: new Date() },
+        select: { id: true, email: true, emailVerified: true },
+      })
+
+  await convertGuestContributionsIfAllowed(verified)
+
+  return { ok: true, userId: user.id }
+}
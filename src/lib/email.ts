@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { prisma } from '@/lib/prisma'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<{ messageId?: string }>
+}
+
+export interface SendEmailOptions extends MailMessage {
+  // Template name recorded with the delivery, e.g. "mention"
+  template: string
+  // Recipient account, when the address belongs to a user
+  userId?: string | null
+  // The message's links carry a bearer token, like a password reset link, so
+  // they're left out of the stored body
+  secretLinks?: boolean
+}
+
+const DEFAULT_FROM = 'PixelPin <notifications@pixelpin.app>'
+
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"']+/gi
+
+/**
+ * Sends through any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD)
+ */
+export function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587')
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message)
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+/**
+ * Writes each message as an .eml file (EMAIL_FILE_DIR, default .emails) for local development
+ */
+export function createFileTransport(directory = process.env.EMAIL_FILE_DIR || '.emails'): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(message)
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40)
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(path.join(directory, `${Date.now()}-${slug}.eml`), info.message as Buffer)
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+/**
+ * Logs the plain-text version of each message
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`)
+      return {}
+    },
+  }
+}
+
+/**
+ * Refuses every message, for production servers without a mail server set up.
+ * Logging them instead would put password reset and invitation links in the logs.
+ */
+export function createUnconfiguredTransport(): MailTransport {
+  return {
+    name: 'unconfigured',
+    async send() {
+      throw new Error('Email is not configured; set SMTP_HOST to send email in production')
+    },
+  }
+}
+
+let mailTransport: MailTransport | null = null
+
+/**
+ * Transport chosen by EMAIL_TRANSPORT (smtp, file or console).
+ * Defaults to SMTP when SMTP_HOST is set and to the console otherwise,
+ * except in production, where nothing is ever logged and mail isn't sent
+ * until SMTP is set up.
+ */
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+    switch (transport) {
+      case 'smtp':
+        mailTransport = createSmtpTransport()
+        break
+      case 'file':
+        mailTransport = createFileTransport()
+        break
+      default:
+        mailTransport = process.env.NODE_ENV === 'production'
+          ? createUnconfiguredTransport()
+          : createConsoleTransport()
+    }
+  }
+  return mailTransport
+}
+
+/**
+ * Swap the transport, e.g. for an in-memory one in tests
+ */
+export function setMailTransport(transport: MailTransport | null) {
+  mailTransport = transport
+}
+
+/**
+ * Send an email and record the delivery. Never throws, so callers can fire and forget.
+ */
+export async function sendEmail({ template, userId, secretLinks = false, ...message }: SendEmailOptions): Promise<boolean> {
+  const transport = getMailTransport()
+  let messageId: string | undefined
+  let error: string | null = null
+
+  try {
+    const result = await transport.send({
+      ...message,
+      from: process.env.EMAIL_FROM || DEFAULT_FROM,
+    })
+    messageId = result.messageId
+  } catch (sendError) {
+    console.error(`Failed to send ${template} email:`, sendError)
+    error = sendError instanceof Error ? sendError.message : 'Send failed'
+  }
+
+  try {
+    await prisma.emailDelivery.create({
+      data: {
+        userId: userId ?? null,
+        to: message.to,
+        template,
+        subject: message.subject,
+        textBody: secretLinks ? message.text.replace(LINK_PATTERN, '[link removed]') : message.text,
+        transport: transport.name,
+        status: error ? 'FAILED' : 'SENT',
+        messageId,
+        error,
+      },
+    })
+  } catch (recordError) {
+    console.error('Failed to record email delivery:', recordError)
+  }
+
+  return error === null
+}
@@ -0,0 +1,427 @@
+import { captureDocumentScreenshots, uploadScreenshot } from '@/lib/screenshot'
+import { collectBrowserMetadata } from '@/lib/browser-metadata'
+import { captureElementAnchor, resolveElementAnchor, ElementAnchor } from '@/lib/dom-anchor'
+import { GUEST_HONEYPOT_FIELD, prepareGuestSubmission } from '@/lib/guest-submission'
+
+/**
+ * Embeddable feedback widget
+ * Runs on a client's own site (bundled into public/widget by
+ * `npm run build:widget` and served from /api/widget). It lets reviewers drop
+ * pins on the live page and posts them as annotations on a PixelPin asset.
+ */
+
+export interface FeedbackWidgetConfig {
+  // PixelPin origin the widget talks to
+  baseUrl: string
+  assetId: string
+  // Project share token; omitted for logged-in only embeds
+  guestToken?: string | null
+  projectName?: string | null
+}
+
+interface WidgetUser {
+  id: string
+  name: string | null
+  email: string | null
+}
+
+interface WidgetAnnotation {
+  id: string
+  content: string
+  position: { x: number; y: number }
+  anchor?: ElementAnchor | null
+  guestName?: string | null
+  author?: { name: string | null } | null
+}
+
+const HOST_ATTRIBUTE = 'data-pixelpin-widget'
+const GUEST_IDENTITY_KEY = 'pixelpin-widget-guest'
+const ACCENT_COLOR = '#3b82f6'
+const Z_INDEX = '2147483000'
+
+const WIDGET_STYLES = `
+  :host { all: initial; }
+  * { box-sizing: border-box; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+  .launcher { position: fixed; right: 20px; bottom: 20px; z-index: ${Z_INDEX}; padding: 10px 16px; border: none; border-radius: 9999px; background: ${ACCENT_COLOR}; color: #fff; font-size: 14px; font-weight: 600; cursor: pointer; box-shadow: 0 4px 12px rgba(0,0,0,.2); }
+  .launcher.active { background: #1f2937; }
+  .overlay { position: fixed; inset: 0; z-index: ${Z_INDEX}; cursor: crosshair; background: rgba(59,130,246,.06); }
+  .hint { position: fixed; top: 16px; left: 50%; transform: translateX(-50%); z-index: ${Z_INDEX}; padding: 8px 14px; border-radius: 6px; background: #1f2937; color: #fff; font-size: 13px; pointer-events: none; }
+  .pin { position: fixed; z-index: ${Z_INDEX}; width: 28px; height: 28px; margin: -14px 0 0 -14px; border: 2px solid #fff; border-radius: 9999px; background: ${ACCENT_COLOR}; color: #fff; font-size: 12px; font-weight: 700; display: flex; align-items: center; justify-content: center; cursor: pointer; box-shadow: 0 2px 6px rgba(0,0,0,.3); }
+  .pin.pending { background: #f59e0b; }
+  .popover { position: fixed; z-index: ${Z_INDEX}; width: 280px; padding: 12px; border-radius: 8px; background: #fff; color: #1f2937; font-size: 13px; box-shadow: 0 10px 25px rgba(0,0,0,.2); }
+  .popover textarea, .popover input { width: 100%; margin-bottom: 8px; padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 4px; font-size: 13px; color: #1f2937; background: #fff; }
+  .popover textarea { min-height: 72px; resize: vertical; }
+  .actions { display: flex; justify-content: flex-end; gap: 8px; }
+  .actions button { padding: 6px 12px; border-radius: 4px; font-size: 13px; cursor: pointer; }
+  .cancel { border: 1px solid #d1d5db; background: #fff; color: #374151; }
+  .submit { border: none; background: ${ACCENT_COLOR}; color: #fff; }
+  .submit:disabled { opacity: .5; cursor: not-allowed; }
+  .error { margin-bottom: 8px; color: #dc2626; }
+  .meta { margin-bottom: 4px; color: #6b7280; font-size: 12px; }
+  .popover input.trap { position: absolute; left: -10000px; width: 1px; height: 1px; opacity: 0; }
+`
+
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  className?: string,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName)
+  if (className) element.className = className
+  if (text !== undefined) element.textContent = text
+  return element
+}
+
+function loadGuestIdentity(): { name: string; email: string } {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_IDENTITY_KEY) || '{}')
+    return { name: stored.name || '', email: stored.email || '' }
+  } catch {
+    return { name: '', email: '' }
+  }
+}
+
+function saveGuestIdentity(identity: { name: string; email: string }) {
+  try {
+    localStorage.setItem(GUEST_IDENTITY_KEY, JSON.stringify(identity))
+  } catch {
+    // Storage may be blocked on the host page
+  }
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json()
+    return body.error || fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Mount the feedback widget on the current page.
+ * Returns a function that removes it again.
+ */
+export function mountFeedbackWidget(config: FeedbackWidgetConfig): () => void {
+  const existing = document.querySelector(`[${HOST_ATTRIBUTE}]`)
+  if (existing) existing.remove()
+
+  const baseUrl = config.baseUrl.replace(/\/$/, '')
+  const annotationsUrl = `${baseUrl}/api/assets/${config.assetId}/annotations`
+
+  const host = createElement('div')
+  host.setAttribute(HOST_ATTRIBUTE, '')
+  const root = host.attachShadow({ mode: 'open' })
+  const style = createElement('style')
+  style.textContent = WIDGET_STYLES
+  root.appendChild(style)
+  document.body.appendChild(host)
+
+  let user: WidgetUser | null = null
+  let annotations: WidgetAnnotation[] = []
+  let pinLayer: HTMLElement[] = []
+  let overlay: HTMLElement | null = null
+  let popover: HTMLElement | null = null
+  let pendingPin: HTMLElement | null = null
+  let frame: number | undefined
+
+  // Session-backed requests carry cookies, guest ones stay anonymous
+  const requestCredentials = (): RequestCredentials => (user ? 'include' : 'omit')
+
+  const launcher = createElement('button', 'launcher', 'Feedback')
+  launcher.type = 'button'
+  root.appendChild(launcher)
+
+  const getFallbackPosition = (annotation: WidgetAnnotation) => ({
+    x: annotation.position.x + (annotation.anchor?.scroll.x || 0) - window.scrollX,
+    y: annotation.position.y + (annotation.anchor?.scroll.y || 0) - window.scrollY,
+  })
+
+  const closePopover = () => {
+    popover?.remove()
+    popover = null
+    pendingPin?.remove()
+    pendingPin = null
+  }
+
+  const placePopover = (element: HTMLElement, point: { x: number; y: number }) => {
+    const left = Math.min(Math.max(point.x + 20, 8), window.innerWidth - 296)
+    const top = Math.min(Math.max(point.y - 20, 8), window.innerHeight - 260)
+    element.style.left = `${left}px`
+    element.style.top = `${top}px`
+  }
+
+  const showAnnotationPopover = (annotation: WidgetAnnotation, point: { x: number; y: number }) => {
+    closePopover()
+    popover = createElement('div', 'popover')
+    popover.appendChild(createElement('div', 'meta', annotation.author?.name || annotation.guestName || 'Anonymous'))
+    popover.appendChild(createElement('div', undefined, annotation.content))
+    const actions = createElement('div', 'actions')
+    const close = createElement('button', 'cancel', 'Close')
+    close.type = 'button'
+    close.addEventListener('click', closePopover)
+    actions.appendChild(close)
+    popover.appendChild(actions)
+    placePopover(popover, point)
+    root.appendChild(popover)
+  }
+
+  const renderPins = () => {
+    pinLayer.forEach(pin => pin.remove())
+    pinLayer = annotations.map((annotation, index) => {
+      const resolved = resolveElementAnchor(document, annotation.anchor, getFallbackPosition(annotation))
+      const pin = createElement('div', 'pin', String(index + 1))
+      pin.style.left = `${resolved.position.x}px`
+      pin.style.top = `${resolved.position.y}px`
+      pin.title = annotation.content
+      pin.addEventListener('click', () => showAnnotationPopover(annotation, resolved.position))
+      root.appendChild(pin)
+      return pin
+    })
+  }
+
+  const scheduleRender = () => {
+    if (frame !== undefined) return
+    frame = requestAnimationFrame(() => {
+      frame = undefined
+      renderPins()
+    })
+  }
+
+  const loadAnnotations = async () => {
+    const params = new URLSearchParams({ pageUrl: window.location.href, status: 'OPEN' })
+    if (!user && config.guestToken) params.set('guestToken', config.guestToken)
+
+    try {
+      const response = await fetch(`${annotationsUrl}?${params}`, { credentials: requestCredentials() })
+      if (response.ok) {
+        annotations = await response.json()
+        renderPins()
+      }
+    } catch (error) {
+      console.warn('PixelPin widget could not load annotations:', error)
+    }
+  }
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch(`${baseUrl}/api/widget/session?assetId=${encodeURIComponent(config.assetId)}`, {
+        credentials: 'include',
+      })
+      if (response.ok) {
+        const body = await response.json()
+        user = body.user || null
+      }
+    } catch {
+      user = null
+    }
+  }
+
+  const submitAnnotation = async (
+    point: { x: number; y: number },
+    anchor: ElementAnchor | null,
+    fields: { content: string; name: string; email: string; trap: string }
+  ) => {
+    const guestToken = user ? undefined : config.guestToken || undefined
+    // Solve the bot check first, while the guest is still looking at the form
+    const guestProof = guestToken ? await prepareGuestSubmission(baseUrl) : {}
+
+    // Capture the visible viewport and the pinned element, leaving the widget itself out of the shots
+    const screenshots = await captureDocumentScreenshots(document, {
+      anchor,
+      ignoreElements: element => element === host,
+    })
+    const uploads = await Promise.all(screenshots.map(async screenshot => ({
+      kind: screenshot.kind,
+      url: (await uploadScreenshot(screenshot.blob, {
+        baseUrl,
+        guestToken,
+        assetId: config.assetId,
+      })).url,
+      width: screenshot.width,
+      height: screenshot.height,
+    })))
+
+    const response = await fetch(annotationsUrl, {
+      method: 'POST',
+      credentials: requestCredentials(),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'COMMENT',
+        position: point,
+        content: fields.content,
+        screenshot: uploads.find(upload => upload.kind === 'VIEWPORT')?.url,
+        screenshots: uploads,
+        pageUrl: window.location.href,
+        metadata: collectBrowserMetadata(),
+        anchor: anchor || undefined,
+        ...(guestToken ? {
+          guestToken,
+          guestName: fields.name,
+          guestEmail: fields.email || undefined,
+          [GUEST_HONEYPOT_FIELD]: fields.trap || undefined,
+          ...guestProof,
+        } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to save feedback'))
+    }
+
+    return response.json() as Promise<WidgetAnnotation>
+  }
+
+  const showCommentForm = (point: { x: number; y: number }, anchor: ElementAnchor | null) => {
+    closePopover()
+
+    pendingPin = createElement('div', 'pin pending', '+')
+    pendingPin.style.left = `${point.x}px`
+    pendingPin.style.top = `${point.y}px`
+    root.appendChild(pendingPin)
+
+    const form = createElement('form', 'popover')
+    popover = form
+    const errorLine = createElement('div', 'error')
+    errorLine.style.display = 'none'
+    form.appendChild(errorLine)
+
+    const content = createElement('textarea')
+    content.placeholder = 'Leave your feedback...'
+    content.required = true
+    form.appendChild(content)
+
+    const identity = loadGuestIdentity()
+    const nameInput = createElement('input')
+    const emailInput = createElement('input')
+    const trapInput = createElement('input', 'trap')
+    if (user) {
+      form.insertBefore(createElement('div', 'meta', `Commenting as ${user.name || user.email}`), content)
+    } else {
+      nameInput.placeholder = 'Your name'
+      nameInput.required = true
+      nameInput.value = identity.name
+      emailInput.placeholder = 'Email (optional)'
+      emailInput.type = 'email'
+      emailInput.value = identity.email
+      form.appendChild(nameInput)
+      form.appendChild(emailInput)
+      // Left empty by people, filled in by form-filling bots
+      trapInput.name = GUEST_HONEYPOT_FIELD
+      trapInput.tabIndex = -1
+      trapInput.autocomplete = 'off'
+      trapInput.setAttribute('aria-hidden', 'true')
+      form.appendChild(trapInput)
+    }
+
+    const actions = createElement('div', 'actions')
+    const cancel = createElement('button', 'cancel', 'Cancel')
+    cancel.type = 'button'
+    cancel.addEventListener('click', closePopover)
+    const submit = createElement('button', 'submit', 'Send')
+    submit.type = 'submit'
+    actions.appendChild(cancel)
+    actions.appendChild(submit)
+    form.appendChild(actions)
+
+    form.addEventListener('submit', async event => {
+      event.preventDefault()
+      const fields = {
+        content: content.value.trim(),
+        name: nameInput.value.trim(),
+        email: emailInput.value.trim(),
+        trap: trapInput.value,
+      }
+      if (!fields.content || (!user && !fields.name)) return
+
+      submit.disabled = true
+      submit.textContent = 'Sending...'
+      errorLine.style.display = 'none'
+
+      try {
+        if (!user) saveGuestIdentity({ name: fields.name, email: fields.email })
+        const annotation = await submitAnnotation(point, anchor, fields)
+        annotations = [annotation, ...annotations]
+        closePopover()
+        renderPins()
+      } catch (error) {
+        errorLine.textContent = error instanceof Error ? error.message : 'Failed to save feedback'
+        errorLine.style.display = 'block'
+        submit.disabled = false
+        submit.textContent = 'Send'
+      }
+    })
+
+    placePopover(form, point)
+    root.appendChild(form)
+    content.focus()
+  }
+
+  const exitPinMode = () => {
+    overlay?.remove()
+    overlay = null
+    launcher.classList.remove('active')
+    launcher.textContent = 'Feedback'
+  }
+
+  const enterPinMode = () => {
+    if (!user && !config.guestToken) {
+      window.open(`${baseUrl}/signin`, '_blank', 'noopener')
+      return
+    }
+
+    closePopover()
+    overlay = createElement('div', 'overlay')
+    overlay.appendChild(createElement('div', 'hint', 'Click anywhere to leave feedback · Esc to cancel'))
+    overlay.addEventListener('click', event => {
+      const point = { x: event.clientX, y: event.clientY }
+      exitPinMode()
+      // The overlay is gone, so the anchor resolves to the page element under the pin
+      host.style.display = 'none'
+      const anchor = captureElementAnchor(document, point)
+      host.style.display = ''
+      showCommentForm(point, anchor)
+    })
+    root.appendChild(overlay)
+    launcher.classList.add('active')
+    launcher.textContent = 'Cancel'
+  }
+
+  const handleLauncherClick = () => {
+    if (overlay) {
+      exitPinMode()
+    } else {
+      enterPinMode()
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Escape') return
+    exitPinMode()
+    closePopover()
+  }
+
+  launcher.addEventListener('click', handleLauncherClick)
+  document.addEventListener('keydown', handleKeyDown)
+  window.addEventListener('scroll', scheduleRender, { passive: true })
+  window.addEventListener('resize', scheduleRender)
+
+  loadSession().then(loadAnnotations)
+
+  return () => {
+    document.removeEventListener('keydown', handleKeyDown)
+    window.removeEventListener('scroll', scheduleRender)
+    window.removeEventListener('resize', scheduleRender)
+    if (frame !== undefined) cancelAnimationFrame(frame)
+    host.remove()
+  }
+}
+
+/**
+ * Build the script tag clients paste into their site
+ */
+export function getWidgetSnippet(baseUrl: string, assetId: string, guestToken?: string | null): string {
+  const params = new URLSearchParams({ assetId })
+  if (guestToken) params.set('token', guestToken)
+  return `<script src="${baseUrl.replace(/\/$/, '')}/api/widget?${params}" async></script>`
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getFileUrl, getStorageKey, signFileUrl } from '@/lib/storage'
+
+export interface FileReference {
+  projectId: string
+  assetId: string
+}
+
+const assetReferenceSelect = { asset: { select: { id: true, projectId: true } } } as const
+
+/**
+ * The assets stored files belong to, which decide who may see them: an
+ * asset's own upload or version, an annotation's screenshots, or an attachment
+ * on an annotation or reply. Files are matched by their /api/files URL and,
+ * for files stored before uploads were private, the public URL records saved
+ * then. A file owned by a project only counts as referenced from within that
+ * project, so pasting its URL into another project's records grants nothing.
+ * Files nothing points at, e.g. uploads that were never attached, are missing
+ * from the map.
+ */
+export async function findFileReferences(
+  files: { key: string; legacyUrl?: string | null; projectId?: string | null }[]
+): Promise<Map<string, FileReference>> {
+  const keysByUrl = new Map<string, string>()
+  const ownerByKey = new Map<string, string>()
+  for (const file of files) {
+    keysByUrl.set(getFileUrl(file.key), file.key)
+    if (file.legacyUrl) keysByUrl.set(file.legacyUrl, file.key)
+    if (file.projectId) ownerByKey.set(file.key, file.projectId)
+  }
+  const urls = Array.from(keysByUrl.keys())
+
+  const [assets, versions, annotations, screenshots, attachments] = await Promise.all([
+    prisma.asset.findMany({
+      where: { url: { in: urls } },
+      select: { url: true, id: true, projectId: true },
+    }),
+    prisma.assetVersion.findMany({
+      where: { url: { in: urls } },
+      select: { url: true, ...assetReferenceSelect },
+    }),
+    prisma.annotation.findMany({
+      where: { screenshot: { in: urls } },
+      select: { screenshot: true, ...assetReferenceSelect },
+    }),
+    prisma.annotationScreenshot.findMany({
+      where: { url: { in: urls } },
+      select: { url: true, annotation: { select: assetReferenceSelect } },
+    }),
+    prisma.attachment.findMany({
+      where: { url: { in: urls } },
+      select: {
+        url: true,
+        annotation: { select: assetReferenceSelect },
+        reply: { select: { annotation: { select: assetReferenceSelect } } },
+      },
+    }),
+  ])
+
+  const references = new Map<string, FileReference>()
+  const add = (url: string, asset: { id: string; projectId: string } | undefined) => {
+    const key = keysByUrl.get(url)
+    if (!key || !asset || references.has(key)) return
+    const owner = ownerByKey.get(key)
+    if (!owner || owner === asset.projectId) {
+      references.set(key, { projectId: asset.projectId, assetId: asset.id })
+    }
+  }
+
+  assets.forEach((asset) => add(asset.url, asset))
+  versions.forEach((version) => add(version.url, version.asset))
+  annotations.forEach((annotation) => add(annotation.screenshot, annotation.asset))
+  screenshots.forEach((screenshot) => add(screenshot.url, screenshot.annotation.asset))
+  attachments.forEach((attachment) =>
+    add(attachment.url, attachment.annotation?.asset ?? attachment.reply?.annotation.asset)
+  )
+
+  return references
+}
+
+/**
+ * The asset one stored file belongs to, or null if nothing points at it
+ */
+export async function findFileReference(key: string): Promise<FileReference | null> {
+  const object = await prisma.storageObject.findUnique({
+    where: { key },
+    select: { key: true, legacyUrl: true, projectId: true },
+  })
+  return (await findFileReferences([object ?? { key }])).get(key) ?? null
+}
+
+/**
+ * Give a project the stored files among URLs about to be saved on its
+ * records, like an annotation's screenshots and attachments. Uploads that
+ * aren't tied to a project yet are claimed for it. Returns false, claiming
+ * nothing, when a file is unknown or belongs to another project. URLs that
+ * aren't stored files, e.g. links to other sites, are left alone.
+ */
+export async function claimProjectFiles(projectId: string, urls: string[]): Promise<boolean> {
+  const keys = new Set<string>()
+  const otherUrls: string[] = []
+  for (const url of urls) {
+    const key = getStorageKey(url)
+    if (key) {
+      keys.add(key)
+    } else {
+      otherUrls.push(url)
+    }
+  }
+
+  const where = {
+    OR: [
+      { key: { in: Array.from(keys) } },
+      // Public URLs of files stored before uploads were private
+      { legacyUrl: { in: otherUrls } },
+    ],
+  }
+  const objects = await prisma.storageObject.findMany({ where, select: { key: true, projectId: true } })
+
+  const known = new Set(objects.map((object) => object.key))
+  if (Array.from(keys).some((key) => !known.has(key))) return false
+  if (objects.some((object) => object.projectId && object.projectId !== projectId)) return false
+
+  await prisma.storageObject.updateMany({
+    where: { ...where, projectId: null },
+    data: { projectId },
+  })
+
+  // Another project may have claimed one of them in the meantime
+  const taken = await prisma.storageObject.count({
+    where: { ...where, projectId: { not: projectId } },
+  })
+  return taken === 0
+}
+
+/**
+ * Response for file URLs that claimProjectFiles turned down
+ */
+export function fileNotInProject(): NextResponse {
+  return NextResponse.json(
+    { error: 'Screenshots and attachments must be uploaded for this project' },
+    { status: 400 }
+  )
+}
+
+interface AnnotationFiles {
+  screenshot: string
+  screenshots?: { url: string }[]
+  attachments?: { url: string }[]
+  replies?: { attachments?: { url: string }[] }[]
+}
+
+/**
+ * An annotation with signed URLs for its screenshots and attachments, for
+ * readers without a session like guests and exported files
+ */
+export function signAnnotationFiles<T extends AnnotationFiles>(annotation: T, expiresIn?: number): T {
+  const signUrls = <F extends { url: string }>(files: F[] | undefined) =>
+    files?.map((file) => ({ ...file, url: signFileUrl(file.url, expiresIn) }))
+
+  return {
+    ...annotation,
+    screenshot: signFileUrl(annotation.screenshot, expiresIn),
+    screenshots: signUrls(annotation.screenshots),
+    attachments: signUrls(annotation.attachments),
+    replies: annotation.replies?.map((reply) => ({ ...reply, attachments: signUrls(reply.attachments) })),
+  }
+}
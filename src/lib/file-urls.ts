@@ -0,0 +1,24 @@
+/**
+ * Uploaded files are private. The URLs stored for them point at /api/files,
+ * which checks that the viewer may see the project a file belongs to, through
+ * their session, a share link or a signature in the URL, and then sends them
+ * on to a short-lived signed URL from the store.
+ */
+export const FILE_ROUTE = '/api/files'
+
+/**
+ * Key of a file from its /api/files URL, or null for any other URL
+ */
+export function getFileKeyFromUrl(url: string): string | null {
+  try {
+    const { pathname } = new URL(url, 'http://localhost')
+    if (!pathname.startsWith(`${FILE_ROUTE}/`)) return null
+    return decodeURIComponent(pathname.slice(FILE_ROUTE.length + 1))
+  } catch {
+    return null
+  }
+}
+
+export function isPrivateFileUrl(url: string): boolean {
+  return getFileKeyFromUrl(url) !== null
+}
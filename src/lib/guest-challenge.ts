@@ -0,0 +1,127 @@
+/**
+ * Bot checks for guest submissions, on top of rate limiting:
+ *
+ * - Honeypot: guest forms render a field people never see or fill in, and a
+ *   submission that fills it is rejected.
+ * - Proof of work (opt-in with GUEST_POW_DIFFICULTY): guests fetch a signed,
+ *   short-lived challenge and must solve it before submitting. Each challenge
+ *   is accepted once.
+ */
+import crypto from 'crypto'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { GUEST_HONEYPOT_FIELD, leadingZeroBits } from '@/lib/guest-submission'
+import { getRateLimitStore } from '@/lib/rate-limit'
+
+export const GUEST_CHALLENGE_TTL_MS = 5 * 60 * 1000
+const MAX_DIFFICULTY = 24
+
+// Spread into guest submission schemas
+export const guestSubmissionFields = {
+  [GUEST_HONEYPOT_FIELD]: z.string().max(500).optional(),
+  proofOfWork: z.object({
+    challenge: z.string().max(200),
+    nonce: z.string().max(32),
+  }).optional(),
+}
+
+export type GuestCheckFailure = 'honeypot' | 'challenge-required' | 'challenge-invalid' | 'challenge-expired' | 'challenge-used'
+
+const GUEST_CHECK_MESSAGES: Record<GuestCheckFailure, string> = {
+  honeypot: 'Submission rejected',
+  'challenge-required': 'A solved challenge is required',
+  'challenge-invalid': 'The challenge solution is invalid',
+  'challenge-expired': 'The challenge has expired, please try again',
+  'challenge-used': 'The challenge has already been used',
+}
+
+/**
+ * Leading zero bits a solution needs, 0 when proof of work is off
+ */
+export function getProofOfWorkDifficulty(): number {
+  const difficulty = parseInt(process.env.GUEST_POW_DIFFICULTY || '0')
+  return Number.isFinite(difficulty) ? Math.min(Math.max(difficulty, 0), MAX_DIFFICULTY) : 0
+}
+
+function getChallengeSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to sign guest challenges')
+  }
+  return secret
+}
+
+function signChallenge(payload: string): string {
+  return crypto
+    .createHmac('sha256', getChallengeSecret())
+    .update(`guest-challenge:${payload}`)
+    .digest('base64url')
+}
+
+/**
+ * New challenge: `<random>.<expiry>.<difficulty>.<signature>`, or null when proof of work is off
+ */
+export function createGuestChallenge(): { challenge: string; difficulty: number } | null {
+  const difficulty = getProofOfWorkDifficulty()
+  if (difficulty === 0) return null
+
+  const expiresAt = Date.now() + GUEST_CHALLENGE_TTL_MS
+  const payload = `${crypto.randomBytes(16).toString('base64url')}.${expiresAt.toString(36)}.${difficulty}`
+  return { challenge: `${payload}.${signChallenge(payload)}`, difficulty }
+}
+
+async function verifyProofOfWork(
+  proof: { challenge: string; nonce: string } | undefined,
+  requiredDifficulty: number
+): Promise<GuestCheckFailure | null> {
+  if (!proof) return 'challenge-required'
+
+  const [random, expiry, difficultyText, signature] = proof.challenge.split('.')
+  if (!random || !expiry || !difficultyText || !signature) return 'challenge-invalid'
+
+  const expected = Buffer.from(signChallenge(`${random}.${expiry}.${difficultyText}`))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return 'challenge-invalid'
+  }
+
+  // A challenge issued before the difficulty went up no longer counts
+  const difficulty = Number(difficultyText)
+  if (difficulty < requiredDifficulty) return 'challenge-invalid'
+  if (parseInt(expiry, 36) <= Date.now()) return 'challenge-expired'
+
+  const digest = crypto.createHash('sha256').update(`${proof.challenge}:${proof.nonce}`).digest()
+  if (leadingZeroBits(digest) < difficulty) return 'challenge-invalid'
+
+  // Replays are tracked in the rate limit store, and like rate limits the check
+  // is skipped while the store is down rather than refusing every guest
+  try {
+    const { count } = await getRateLimitStore().increment(`pow:${random}`, GUEST_CHALLENGE_TTL_MS)
+    return count === 1 ? null : 'challenge-used'
+  } catch (error) {
+    console.error('Proof-of-work replay check failed:', error)
+    return null
+  }
+}
+
+/**
+ * Run the honeypot and, when enabled, proof-of-work checks on a guest submission
+ */
+export async function verifyGuestSubmission(
+  data: { website?: string; proofOfWork?: { challenge: string; nonce: string } }
+): Promise<GuestCheckFailure | null> {
+  if (data[GUEST_HONEYPOT_FIELD]) return 'honeypot'
+
+  const difficulty = getProofOfWorkDifficulty()
+  return difficulty > 0 ? verifyProofOfWork(data.proofOfWork, difficulty) : null
+}
+
+/**
+ * Error response for a failed guest check
+ */
+export function guestCheckFailed(reason: GuestCheckFailure) {
+  return NextResponse.json(
+    { error: GUEST_CHECK_MESSAGES[reason], reason },
+    { status: reason === 'honeypot' ? 400 : 403 }
+  )
+}
@@ -0,0 +1,52 @@
+/**
+ * Browser side of the guest bot checks in guest-challenge.ts, shared with the
+ * server and bundled into the feedback widget, so it only uses web APIs.
+ *
+ * The proof of work is a nonce for which SHA-256("<challenge>:<nonce>")
+ * starts with `difficulty` zero bits.
+ */
+
+// Name of the hidden field guest forms render and people leave empty
+export const GUEST_HONEYPOT_FIELD = 'website'
+
+export interface GuestSubmissionProof {
+  proofOfWork?: { challenge: string; nonce: string }
+}
+
+export function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8
+      continue
+    }
+    return bits + Math.clz32(byte) - 24
+  }
+  return bits
+}
+
+/**
+ * Find a nonce. Each extra bit of difficulty doubles the expected work.
+ */
+export async function solveProofOfWork(challenge: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder()
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${nonce}`))
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return String(nonce)
+    }
+  }
+}
+
+/**
+ * Fetch and solve a challenge if the server asks for one, returning the fields to add to a guest submission
+ */
+export async function prepareGuestSubmission(baseUrl = ''): Promise<GuestSubmissionProof> {
+  const response = await fetch(`${baseUrl}/api/guest-challenge`)
+  if (!response.ok) return {}
+
+  const { challenge, difficulty } = await response.json() as { challenge: string | null; difficulty: number }
+  if (!challenge) return {}
+
+  return { proofOfWork: { challenge, nonce: await solveProofOfWork(challenge, difficulty) } }
+}
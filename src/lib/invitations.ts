@@ -0,0 +1,289 @@
+/**
+ * Project invitations for email addresses that may not have an account yet.
+ * The link in the invite email carries a signed token naming the invitation
+ * and its expiry, so nothing secret is stored; resending moves the expiry,
+ * which invalidates earlier links.
+ */
+import crypto from 'crypto'
+import { CollaboratorRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { getAppUrl, renderInvitationEmail } from '@/lib/email-templates'
+import { requiresVerifiedEmail } from '@/lib/email-verification'
+import { PROJECT_ROLE_RANK } from '@/lib/permissions'
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+// Stops an owner from flooding an inbox with resends
+export const INVITATION_RESEND_COOLDOWN_MS = 60 * 1000
+
+export const invitationSelect = {
+  id: true,
+  projectId: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  lastSentAt: true,
+  sendCount: true,
+  createdAt: true,
+  invitedBy: {
+    select: { id: true, name: true, email: true },
+  },
+} as const
+
+export type InvitationFailure = 'invalid' | 'expired' | 'revoked' | 'accepted' | 'email-mismatch' | 'email-unverified'
+
+export type AcceptInvitationResult =
+  | { ok: true; projectId: string; role: CollaboratorRole }
+  | { ok: false; reason: InvitationFailure }
+
+export const INVITATION_FAILURE_MESSAGES: Record<InvitationFailure, string> = {
+  invalid: 'This invitation link is invalid',
+  expired: 'This invitation has expired. Ask the project owner to send a new one.',
+  revoked: 'This invitation has been revoked',
+  accepted: 'This invitation has already been accepted',
+  'email-mismatch': 'This invitation was sent to a different email address',
+  'email-unverified': 'Verify your email address before accepting this invitation',
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function getInvitationSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to sign invitations')
+  }
+  return secret
+}
+
+function signInvitation(payload: string): string {
+  return crypto
+    .createHmac('sha256', getInvitationSecret())
+    .update(`invitation:${payload}`)
+    .digest('base64url')
+}
+
+/**
+ * Token for the accept link: `<invitationId>.<expiry>.<signature>`
+ */
+export function createInvitationToken(invitation: { id: string; expiresAt: Date }): string {
+  const payload = `${invitation.id}.${invitation.expiresAt.getTime().toString(36)}`
+  return `${payload}.${signInvitation(payload)}`
+}
+
+/**
+ * Checks the signature only; the invitation itself may since have been revoked or resent
+ */
+export function parseInvitationToken(token: string): { invitationId: string; expiresAt: Date } | null {
+  const [invitationId, expiry, signature] = token.split('.')
+  if (!invitationId || !expiry || !signature) return null
+
+  const expected = Buffer.from(signInvitation(`${invitationId}.${expiry}`))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  const expiresAt = new Date(parseInt(expiry, 36))
+  return isNaN(expiresAt.getTime()) ? null : { invitationId, expiresAt }
+}
+
+export function getInvitationUrl(token: string): string {
+  return `${getAppUrl()}/invite/${encodeURIComponent(token)}`
+}
+
+/**
+ * Look up the invitation a token refers to, if it can still be accepted
+ */
+export async function resolveInvitationToken(token: string) {
+  const parsed = parseInvitationToken(token)
+  if (!parsed) return { ok: false as const, reason: 'invalid' as const }
+
+  const invitation = await prisma.projectInvitation.findUnique({
+    where: { id: parsed.invitationId },
+    include: {
+      project: { select: { id: true, name: true } },
+      invitedBy: { select: { name: true, email: true } },
+    },
+  })
+
+  if (!invitation) return { ok: false as const, reason: 'invalid' as const }
+  if (invitation.revokedAt) return { ok: false as const, reason: 'revoked' as const }
+  if (invitation.acceptedAt) return { ok: false as const, reason: 'accepted' as const }
+  // A resend moves the expiry, so older links stop working
+  if (invitation.expiresAt.getTime() !== parsed.expiresAt.getTime()) {
+    return { ok: false as const, reason: 'invalid' as const }
+  }
+  if (invitation.expiresAt <= new Date()) return { ok: false as const, reason: 'expired' as const }
+
+  return { ok: true as const, invitation }
+}
+
+/**
+ * Email the accept link for an invitation. Returns whether the mail transport accepted it.
+ */
+export async function sendInvitationEmail(invitationId: string): Promise<boolean> {
+  const invitation = await prisma.projectInvitation.findUnique({
+    where: { id: invitationId },
+    include: {
+      project: { select: { name: true } },
+      invitedBy: { select: { name: true, email: true } },
+    },
+  })
+  if (!invitation) return false
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: invitation.email },
+    select: { id: true },
+  })
+
+  return sendEmail({
+    template: 'invitation',
+    secretLinks: true,
+    to: invitation.email,
+    userId: existingUser?.id,
+    ...renderInvitationEmail({
+      projectName: invitation.project.name,
+      invitedBy: invitation.invitedBy.name || invitation.invitedBy.email,
+      role: invitation.role,
+      acceptUrl: getInvitationUrl(createInvitationToken(invitation)),
+      expiresAt: invitation.expiresAt,
+    }),
+  })
+}
+
+/**
+ * Invite an email address to a project, replacing any earlier invitation for it
+ */
+export async function createInvitation({
+  projectId,
+  email,
+  role,
+  invitedById,
+}: {
+  projectId: string
+  email: string
+  role: CollaboratorRole
+  invitedById: string
+}) {
+  const normalizedEmail = normalizeEmail(email)
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS)
+  const reset = {
+    role,
+    invitedById,
+    expiresAt,
+    lastSentAt: new Date(),
+    sendCount: 1,
+    acceptedAt: null,
+    acceptedById: null,
+    revokedAt: null,
+  }
+
+  const invitation = await prisma.projectInvitation.upsert({
+    where: { projectId_email: { projectId, email: normalizedEmail } },
+    create: { projectId, email: normalizedEmail, ...reset },
+    update: reset,
+    select: invitationSelect,
+  })
+
+  await sendInvitationEmail(invitation.id)
+
+  return invitation
+}
+
+/**
+ * Send a pending invitation again with a fresh expiry. Returns null while the cooldown is running.
+ */
+export async function resendInvitation(invitationId: string) {
+  const invitation = await prisma.projectInvitation.findUnique({
+    where: { id: invitationId },
+    select: { lastSentAt: true },
+  })
+  if (!invitation || invitation.lastSentAt.getTime() > Date.now() - INVITATION_RESEND_COOLDOWN_MS) {
+    return null
+  }
+
+  const updated = await prisma.projectInvitation.update({
+    where: { id: invitationId },
+    data: {
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      lastSentAt: new Date(),
+      sendCount: { increment: 1 },
+    },
+    select: invitationSelect,
+  })
+
+  await sendInvitationEmail(updated.id)
+
+  return updated
+}
+
+/**
+ * Add the user to the invited project. The token proves access to the inbox the
+ * invitation was sent to, and the account must use that same address, verified
+ * as well when the email verification policy asks for it.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string; emailVerified: Date | null }
+): Promise<AcceptInvitationResult> {
+  const resolved = await resolveInvitationToken(token)
+  if (!resolved.ok) return resolved
+
+  const { invitation } = resolved
+  if (normalizeEmail(user.email) !== invitation.email) {
+    return { ok: false, reason: 'email-mismatch' }
+  }
+  if (requiresVerifiedEmail('invitations') && !user.emailVerified) {
+    return { ok: false, reason: 'email-unverified' }
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: invitation.projectId },
+    select: { ownerId: true },
+  })
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    // Only one accept gets past this, however many race for the same link
+    const { count } = await tx.projectInvitation.updateMany({
+      where: {
+        id: invitation.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { equals: invitation.expiresAt, gt: new Date() },
+      },
+      data: { acceptedAt: new Date(), acceptedById: user.id },
+    })
+    if (count === 0) return false
+
+    // The owner of record already has full access; anyone else keeps the higher of their roles
+    if (project && project.ownerId !== user.id) {
+      const existing = await tx.projectCollaborator.findUnique({
+        where: { projectId_userId: { projectId: invitation.projectId, userId: user.id } },
+        select: { role: true },
+      })
+
+      if (!existing) {
+        await tx.projectCollaborator.create({
+          data: { projectId: invitation.projectId, userId: user.id, role: invitation.role },
+        })
+      } else if (PROJECT_ROLE_RANK[invitation.role] > PROJECT_ROLE_RANK[existing.role]) {
+        await tx.projectCollaborator.update({
+          where: { projectId_userId: { projectId: invitation.projectId, userId: user.id } },
+          data: { role: invitation.role },
+        })
+      }
+    }
+
+    return true
+  })
+
+  if (!claimed) {
+    // Say why it changed underneath us: accepted, revoked or resent
+    const current = await resolveInvitationToken(token)
+    return current.ok ? { ok: false, reason: 'accepted' } : current
+  }
+
+  return { ok: true, projectId: invitation.projectId, role: invitation.role }
+}
@@ -1,4 +1,8 @@
+import { after } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { buildAnnotationPath, buildAnnotationUrl, renderMentionEmail } from '@/lib/email-templates'
+import { deliverNotification } from '@/lib/notifications'
 
 export interface MentionNotification {
   id: string
@@ -35,8 +39,8 @@ export async function createMentions(
       )
     )
 
-    // Send notifications (you can integrate with email service here)
-    await sendMentionNotifications(userIds, annotationId, replyId)
+    // Notify once the response is sent so a slow mail server doesn't hold up the request
+    after(() => sendMentionNotifications(mentions, annotationId, replyId))
 
     return mentions
   } catch (error) {
@@ -45,62 +49,127 @@ export async function createMentions(
   }
 }
 
+/**
+ * Record the @mentions in annotation or reply content. Only members of the
+ * project can be mentioned; anything else in the markup is ignored.
+ */
+export async function recordMentions(
+  projectId: string,
+  content: string,
+  source: { annotationId?: string; replyId?: string }
+) {
+  const mentionedIds = [...new Set(extractMentionIds(content))]
+  if (mentionedIds.length === 0) return []
+
+  try {
+    const members = await prisma.user.findMany({
+      where: {
+        id: { in: mentionedIds },
+        OR: [
+          { projects: { some: { id: projectId } } },
+          { collaborators: { some: { projectId } } }
+        ]
+      },
+      select: { id: true }
+    })
+
+    return await createMentions(members.map(member => member.id), source.annotationId, source.replyId)
+  } catch (error) {
+    // The annotation or reply is already saved, so a failed mention must not fail the request
+    console.error('Failed to record mentions:', error)
+    return []
+  }
+}
+
 export async function sendMentionNotifications(
-  userIds: string[],
+  mentions: Array<{ id: string; userId: string }>,
   annotationId?: string,
   replyId?: string
 ) {
   try {
     // Get users and context
     const users = await prisma.user.findMany({
-      where: { id: { in: userIds } }
+      where: { id: { in: mentions.map(mention => mention.userId) } }
     })
 
-    let context = null
-    if (annotationId) {
-      context = await prisma.annotation.findUnique({
-        where: { id: annotationId },
+    const annotationInclude = {
+      author: true,
+      asset: {
         include: {
-          asset: {
-            include: {
-              project: true
-            }
-          },
-          author: true
+          project: true
         }
+      }
+    } as const
+
+    let context: {
+      annotation: Prisma.AnnotationGetPayload<{ include: typeof annotationInclude }>
+      content: string
+      authorId: string | null
+      mentionedBy: string
+    } | null = null
+
+    if (annotationId) {
+      const annotation = await prisma.annotation.findUnique({
+        where: { id: annotationId },
+        include: annotationInclude
       })
+      if (annotation) {
+        context = {
+          annotation,
+          content: annotation.content,
+          authorId: annotation.authorId,
+          mentionedBy: annotation.author?.name || annotation.author?.email || annotation.guestName || 'A guest'
+        }
+      }
     } else if (replyId) {
-      context = await prisma.reply.findUnique({
+      const reply = await prisma.reply.findUnique({
         where: { id: replyId },
         include: {
+          author: true,
           annotation: {
-            include: {
-              asset: {
-                include: {
-                  project: true
-                }
-              }
-            }
-          },
-          author: true
+            include: annotationInclude
+          }
         }
       })
+      if (reply) {
+        context = {
+          annotation: reply.annotation,
+          content: reply.content,
+          authorId: reply.authorId,
+          mentionedBy: reply.author?.name || reply.author?.email || reply.guestName || 'A guest'
+        }
+      }
     }
 
-    // Here you would integrate with your notification service
-    // For now, we'll just log the notifications
+    if (!context) return
+
     for (const user of users) {
-      console.log(`Mention notification for ${user.email}:`, {
-        context,
-        mentionedBy: (context as { author?: unknown })?.author || ((context as Record<string, unknown>)?.annotation as { author?: unknown })?.author
+      // Mentioning yourself doesn't warrant a notification
+      if (user.id === context.authorId) continue
+
+      const email = renderMentionEmail({
+        projectName: context.annotation.asset.project.name,
+        assetName: context.annotation.asset.name,
+        annotationUrl: buildAnnotationUrl(context.annotation),
+        mentionedBy: context.mentionedBy,
+        content: context.content
+      })
+
+      await deliverNotification({
+        userId: user.id,
+        type: 'MENTION',
+        title: email.subject,
+        body: renderMentionsAsText(context.content),
+        url: buildAnnotationPath(context.annotation),
+        actorId: context.authorId,
+        projectId: context.annotation.asset.projectId,
+        annotationId: context.annotation.id,
+        mentionId: mentions.find(mention => mention.userId === user.id)?.id
+      }, {
+        template: 'mention',
+        to: user.email,
+        ...email
       })
-      
-      // TODO: Send email notification
-      // await sendEmailNotification(user.email, {
-      //   type: 'mention',
-      //   context,
-      //   mentionedBy: context?.author
-      // })
     }
   } catch (error) {
     console.error('Failed to send mention notifications:', error)
@@ -112,6 +181,9 @@ export async function getMentionsForUser(userId: string, limit = 20) {
     const mentions = await prisma.mention.findMany({
       where: { userId },
       include: {
+        notification: {
+          select: { id: true, readAt: true }
+        },
         annotation: {
           include: {
             author: true,
@@ -149,7 +221,8 @@ export async function getMentionsForUser(userId: string, limit = 20) {
       mentionedBy: mention.annotation?.author || mention.reply?.author,
       content: mention.annotation?.content || mention.reply?.content || '',
       createdAt: mention.createdAt,
-      read: false, // TODO: Add read status to schema
+      read: !!mention.notification?.readAt,
+      notificationId: mention.notification?.id ?? null,
       project: mention.annotation?.asset.project || mention.reply?.annotation?.asset.project
     }))
   } catch (error) {
@@ -0,0 +1,472 @@
+/**
+ * Hourly, daily and weekly digests for activity users chose not to be emailed
+ * about straight away. Digests are built from the stored mentions, replies and
+ * annotations, so nothing has to be queued when the activity happens.
+ */
+import { NotificationFrequency, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { resolveProjectRole } from '@/lib/permissions'
+import { signFileUrl } from '@/lib/storage'
+import {
+  buildAnnotationUrl,
+  renderDigestEmail,
+  type DigestItem,
+  type DigestItemKind,
+  type DigestProject,
+} from '@/lib/email-templates'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_EVENTS,
+  getNotificationPreferencesByUser,
+  type DigestFrequency,
+  type NotificationEventKey,
+} from '@/lib/notification-preferences'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const DIGEST_PERIODS: Record<DigestFrequency, number> = {
+  HOURLY: HOUR,
+  DAILY: DAY,
+  WEEKLY: 7 * DAY,
+}
+
+const PERIOD_LABELS: Record<DigestFrequency, string> = {
+  HOURLY: 'hourly',
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+}
+
+// Per kind of activity, so one noisy project can't make a digest unreadable
+const MAX_ITEMS_PER_KIND = 100
+// Recipients whose digests are claimed and built together
+const DIGEST_BATCH_SIZE = 100
+// Thumbnails load for a week, as long as the longest digest period, and not for whoever gets hold of an old email
+const EMAIL_THUMBNAIL_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export interface Digest {
+  userId: string
+  frequency: DigestFrequency
+  periodStart: Date
+  periodEnd: Date
+  projects: DigestProject[]
+  itemCount: number
+}
+
+/**
+ * End of the most recent complete period: on the hour, at midnight UTC,
+ * or at midnight UTC on Monday
+ */
+export function getDigestPeriodEnd(frequency: DigestFrequency, now = new Date()): Date {
+  const period = DIGEST_PERIODS[frequency]
+  // The Unix epoch was a Thursday; shift weekly periods so they end on Mondays
+  const offset = frequency === 'WEEKLY' ? 4 * DAY : 0
+  return new Date(Math.floor((now.getTime() - offset) / period) * period + offset)
+}
+
+const annotationSelect = {
+  id: true,
+  content: true,
+  screenshot: true,
+  asset: {
+    select: { id: true, name: true, type: true, url: true, projectId: true },
+  },
+} as const
+
+type DigestAnnotation = Prisma.AnnotationGetPayload<{ select: typeof annotationSelect }>
+
+const actorSelect = { select: { name: true, email: true } } as const
+
+function actorName(
+  user: { name: string | null; email: string } | null,
+  guestName?: string | null
+): string {
+  return user ? user.name || user.email : guestName || 'A guest'
+}
+
+function isEmailSafeImage(url: string | null | undefined): url is string {
+  return !!url && /^https?:\/\//.test(url)
+}
+
+// The annotation's own screenshot, falling back to the image it was left on.
+// Both are private files, signed to load in the email for as long as it's likely to be read.
+function thumbnailFor(annotation: DigestAnnotation): string | null {
+  const images = [annotation.screenshot, annotation.asset.type === 'IMAGE' ? annotation.asset.url : null]
+  for (const image of images) {
+    const signed = image ? signFileUrl(image, EMAIL_THUMBNAIL_TTL_SECONDS) : null
+    if (isEmailSafeImage(signed)) return signed
+  }
+  return null
+}
+
+type DigestEntry = DigestItem & { annotation: DigestAnnotation }
+
+/**
+ * The projects each user can see, found for all of them at once
+ */
+async function findMemberProjects(userIds: string[]): Promise<Map<string, Array<{ id: string; name: string }>>> {
+  const projects = await prisma.project.findMany({
+    where: {
+      OR: [
+        { ownerId: { in: userIds } },
+        { collaborators: { some: { userId: { in: userIds } } } },
+        { organization: { members: { some: { userId: { in: userIds } } } } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      ownerId: true,
+      collaborators: { where: { userId: { in: userIds } }, select: { userId: true, role: true } },
+      organization: {
+        select: {
+          requireTwoFactor: true,
+          members: { where: { userId: { in: userIds } }, select: { userId: true, role: true } },
+        },
+      },
+    },
+  })
+
+  // Like the app, workspaces that require two-factor authentication tell members without it nothing
+  const withTwoFactor = new Set((await prisma.user.findMany({
+    where: { id: { in: userIds }, twoFactorEnabled: true },
+    select: { id: true },
+  })).map(user => user.id))
+
+  return new Map(userIds.map(userId => [
+    userId,
+    projects
+      .filter(project => !project.organization.requireTwoFactor || withTwoFactor.has(userId))
+      .filter(project => resolveProjectRole(userId, {
+        ownerId: project.ownerId,
+        collaborators: project.collaborators.filter(collaborator => collaborator.userId === userId),
+        organization: { members: project.organization.members.filter(member => member.userId === userId) },
+      }) !== null)
+      .map(({ id, name }) => ({ id, name })),
+  ]))
+}
+
+// Users with at least one project to hear about, and every project any of them wants
+function audienceOf(projectsByUser: Map<string, Set<string>>) {
+  const userIds = [...projectsByUser].filter(([, projectIds]) => projectIds.size > 0).map(([userId]) => userId)
+  const projectIds = [...new Set(userIds.flatMap(userId => [...projectsByUser.get(userId)!]))]
+  return { userIds, projectIds }
+}
+
+/**
+ * Collect the activity a user wants summarised at this frequency, grouped by project and asset
+ */
+export async function buildDigest(
+  userId: string,
+  frequency: DigestFrequency,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<Digest> {
+  return (await buildDigests([userId], frequency, periodStart, periodEnd)).get(userId)!
+}
+
+/**
+ * `buildDigest` for users sharing a period, with one query per kind of activity for all of them
+ */
+export async function buildDigests(
+  userIds: string[],
+  frequency: DigestFrequency,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<Map<string, Digest>> {
+  const projectsByUser = await findMemberProjects(userIds)
+  const preferences = await getNotificationPreferencesByUser(
+    new Map([...projectsByUser].map(([userId, projects]) => [userId, projects.map(project => project.id)]))
+  )
+  const projectsFor = (event: NotificationEventKey) => new Map(userIds.map(userId => [
+    userId,
+    new Set(projectsByUser.get(userId)!
+      .filter(project => preferences.get(userId)!.get(project.id)?.[event] === frequency)
+      .map(project => project.id)),
+  ]))
+
+  const window = { gte: periodStart, lt: periodEnd }
+  // Each query is capped for the whole batch, and each user's share as it's handed out
+  const take = MAX_ITEMS_PER_KIND * userIds.length
+  const itemsByUser = new Map(userIds.map(userId => [userId, [] as DigestEntry[]]))
+  const add = (userId: string, item: DigestEntry) => {
+    const items = itemsByUser.get(userId)!
+    if (items.filter(existing => existing.kind === item.kind).length < MAX_ITEMS_PER_KIND) items.push(item)
+  }
+
+  const mentionProjects = projectsFor('mention')
+  const mentionAudience = audienceOf(mentionProjects)
+  if (mentionAudience.userIds.length > 0) {
+    const mentions = await prisma.mention.findMany({
+      where: {
+        userId: { in: mentionAudience.userIds },
+        createdAt: window,
+        OR: [
+          { annotation: { asset: { projectId: { in: mentionAudience.projectIds } } } },
+          { reply: { annotation: { asset: { projectId: { in: mentionAudience.projectIds } } } } },
+        ],
+      },
+      include: {
+        annotation: { select: { ...annotationSelect, authorId: true, guestName: true, author: actorSelect } },
+        reply: {
+          select: {
+            content: true,
+            authorId: true,
+            guestName: true,
+            author: actorSelect,
+            annotation: { select: annotationSelect },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take,
+    })
+
+    for (const mention of mentions) {
+      const source = mention.reply ?? mention.annotation
+      const annotation = mention.reply?.annotation ?? mention.annotation
+      if (!source || !annotation || source.authorId === mention.userId) continue
+      if (!mentionProjects.get(mention.userId)?.has(annotation.asset.projectId)) continue
+      add(mention.userId, toItem('mention', annotation, actorName(source.author, source.guestName), source.content, mention.createdAt))
+    }
+  }
+
+  const replyProjects = projectsFor('reply')
+  const replyAudience = audienceOf(replyProjects)
+  if (replyAudience.userIds.length > 0) {
+    const replies = await prisma.reply.findMany({
+      where: {
+        createdAt: window,
+        annotation: { authorId: { in: replyAudience.userIds }, asset: { projectId: { in: replyAudience.projectIds } } },
+      },
+      include: {
+        author: actorSelect,
+        annotation: { select: { ...annotationSelect, authorId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take,
+    })
+
+    for (const reply of replies) {
+      const recipient = reply.annotation.authorId
+      if (!recipient || reply.authorId === recipient) continue
+      if (!replyProjects.get(recipient)?.has(reply.annotation.asset.projectId)) continue
+      add(recipient, toItem('reply', reply.annotation, actorName(reply.author, reply.guestName), reply.content, reply.createdAt))
+    }
+  }
+
+  const newAnnotationProjects = projectsFor('newAnnotation')
+  const newAnnotationAudience = audienceOf(newAnnotationProjects)
+  if (newAnnotationAudience.userIds.length > 0) {
+    const annotations = await prisma.annotation.findMany({
+      where: {
+        createdAt: window,
+        asset: { projectId: { in: newAnnotationAudience.projectIds } },
+      },
+      select: { ...annotationSelect, authorId: true, createdAt: true, guestName: true, author: actorSelect },
+      orderBy: { createdAt: 'asc' },
+      take,
+    })
+
+    for (const annotation of annotations) {
+      const item = toItem('newAnnotation', annotation, actorName(annotation.author, annotation.guestName), annotation.content, annotation.createdAt)
+      for (const userId of newAnnotationAudience.userIds) {
+        if (annotation.authorId === userId || !newAnnotationProjects.get(userId)!.has(annotation.asset.projectId)) continue
+        add(userId, item)
+      }
+    }
+  }
+
+  const resolvedProjects = projectsFor('resolved')
+  const resolvedAudience = audienceOf(resolvedProjects)
+  if (resolvedAudience.userIds.length > 0) {
+    const annotations = await prisma.annotation.findMany({
+      where: {
+        status: 'RESOLVED',
+        resolvedAt: window,
+        authorId: { in: resolvedAudience.userIds },
+        asset: { projectId: { in: resolvedAudience.projectIds } },
+      },
+      select: { ...annotationSelect, authorId: true, resolvedAt: true, resolvedById: true, resolvedBy: actorSelect },
+      orderBy: { resolvedAt: 'asc' },
+      take,
+    })
+
+    for (const annotation of annotations) {
+      const recipient = annotation.authorId
+      if (!recipient || annotation.resolvedById === recipient) continue
+      if (!resolvedProjects.get(recipient)?.has(annotation.asset.projectId)) continue
+      add(recipient, toItem('resolved', annotation, actorName(annotation.resolvedBy, 'Someone'), annotation.content, annotation.resolvedAt!))
+    }
+  }
+
+  return new Map(userIds.map(userId => {
+    const items = itemsByUser.get(userId)!
+    return [userId, {
+      userId,
+      frequency,
+      periodStart,
+      periodEnd,
+      projects: groupByProjectAndAsset(items, projectsByUser.get(userId)!),
+      itemCount: items.length,
+    }]
+  }))
+}
+
+function toItem(
+  kind: DigestItemKind,
+  annotation: DigestAnnotation,
+  actor: string,
+  content: string,
+  createdAt: Date
+): DigestEntry {
+  return {
+    kind,
+    actorName: actor,
+    content,
+    url: buildAnnotationUrl(annotation),
+    thumbnailUrl: thumbnailFor(annotation),
+    createdAt,
+    annotation,
+  }
+}
+
+function groupByProjectAndAsset(
+  items: DigestEntry[],
+  projects: Array<{ id: string; name: string }>
+): DigestProject[] {
+  const grouped = new Map<string, DigestProject>()
+
+  for (const { annotation, ...item } of [...items].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    const { asset } = annotation
+    let project = grouped.get(asset.projectId)
+    if (!project) {
+      project = {
+        id: asset.projectId,
+        name: projects.find(candidate => candidate.id === asset.projectId)?.name ?? 'Project',
+        assets: [],
+      }
+      grouped.set(asset.projectId, project)
+    }
+
+    let digestAsset = project.assets.find(candidate => candidate.id === asset.id)
+    if (!digestAsset) {
+      digestAsset = { id: asset.id, name: asset.name, items: [] }
+      project.assets.push(digestAsset)
+    }
+    digestAsset.items.push(item)
+  }
+
+  return [...grouped.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Users who may have something due at this frequency
+async function findDigestRecipients(frequency: DigestFrequency) {
+  const usedByDefault = NOTIFICATION_EVENTS.some(event => DEFAULT_NOTIFICATION_PREFERENCES[event] === frequency)
+  const chosen: Prisma.UserWhereInput = {
+    notificationPrefs: {
+      some: { OR: NOTIFICATION_EVENTS.map(event => ({ [event]: frequency as NotificationFrequency })) },
+    },
+  }
+
+  return prisma.user.findMany({
+    where: usedByDefault
+      ? { OR: [chosen, { projects: { some: {} } }, { collaborators: { some: {} } }] }
+      : chosen,
+    select: { id: true, email: true },
+  })
+}
+
+/**
+ * Send every digest whose period has ended. Safe to run repeatedly and
+ * concurrently: each (user, frequency, period) is claimed once. Recipients
+ * are handled in batches, each looked up, claimed and built with a few queries.
+ */
+export async function sendDueDigests(now = new Date()) {
+  const result = { sent: 0, empty: 0, failed: 0 }
+
+  for (const frequency of DIGEST_FREQUENCIES) {
+    const periodEnd = getDigestPeriodEnd(frequency, now)
+    const defaultPeriodStart = new Date(periodEnd.getTime() - DIGEST_PERIODS[frequency])
+    const recipients = await findDigestRecipients(frequency)
+
+    for (let offset = 0; offset < recipients.length; offset += DIGEST_BATCH_SIZE) {
+      const batch = recipients.slice(offset, offset + DIGEST_BATCH_SIZE)
+      const emails = new Map(batch.map(recipient => [recipient.id, recipient.email]))
+
+      const lastDigests = await prisma.notificationDigest.groupBy({
+        by: ['userId'],
+        where: { userId: { in: batch.map(recipient => recipient.id) }, frequency },
+        _max: { periodEnd: true },
+      })
+      const lastPeriodEnds = new Map(lastDigests.map(digest => [digest.userId, digest._max.periodEnd]))
+      const due = batch.filter(recipient => {
+        const lastPeriodEnd = lastPeriodEnds.get(recipient.id)
+        return !lastPeriodEnd || lastPeriodEnd < periodEnd
+      })
+      if (due.length === 0) continue
+
+      // Periods another run claimed first are skipped
+      const claimed = await prisma.notificationDigest.createManyAndReturn({
+        data: due.map(recipient => ({
+          userId: recipient.id,
+          frequency,
+          periodStart: lastPeriodEnds.get(recipient.id) ?? defaultPeriodStart,
+          periodEnd,
+          itemCount: 0,
+        })),
+        skipDuplicates: true,
+        select: { id: true, userId: true, periodStart: true },
+      })
+
+      // Most recipients share a period; ones catching up after missed runs are built apart
+      const byPeriodStart = new Map<number, typeof claimed>()
+      for (const claim of claimed) {
+        const group = byPeriodStart.get(claim.periodStart.getTime()) ?? []
+        group.push(claim)
+        byPeriodStart.set(claim.periodStart.getTime(), group)
+      }
+
+      for (const [periodStart, claims] of byPeriodStart) {
+        let digests: Map<string, Digest>
+        try {
+          digests = await buildDigests(claims.map(claim => claim.userId), frequency, new Date(periodStart), periodEnd)
+        } catch (error) {
+          console.error(`Failed to build ${PERIOD_LABELS[frequency]} digests:`, error)
+          result.failed += claims.length
+          continue
+        }
+
+        for (const claim of claims) {
+          const digest = digests.get(claim.userId)!
+          if (digest.itemCount === 0) {
+            result.empty++
+            continue
+          }
+
+          try {
+            const sent = await sendEmail({
+              template: `digest-${PERIOD_LABELS[frequency]}`,
+              to: emails.get(claim.userId)!,
+              userId: claim.userId,
+              ...renderDigestEmail({ periodLabel: PERIOD_LABELS[frequency], projects: digest.projects }),
+            })
+
+            await prisma.notificationDigest.update({
+              where: { id: claim.id },
+              data: { itemCount: digest.itemCount, sentAt: sent ? new Date() : null },
+            })
+            result[sent ? 'sent' : 'failed']++
+          } catch (error) {
+            console.error(`Failed to send ${PERIOD_LABELS[frequency]} digest:`, error)
+            result.failed++
+          }
+        }
+      }
+    }
+  }
+
+  return result
+}
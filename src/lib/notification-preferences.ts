@@ -0,0 +1,98 @@
+import { NotificationFrequency, NotificationType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const NOTIFICATION_EVENTS = ['mention', 'reply', 'newAnnotation', 'resolved'] as const
+
+export type NotificationEventKey = typeof NOTIFICATION_EVENTS[number]
+
+export type NotificationPreferenceValues = Record<NotificationEventKey, NotificationFrequency>
+
+// Used for any project the user hasn't customised. New annotations are batched
+// by default because busy projects produce a lot of them.
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceValues = {
+  mention: 'INSTANT',
+  reply: 'INSTANT',
+  newAnnotation: 'DAILY',
+  resolved: 'INSTANT',
+}
+
+export const DIGEST_FREQUENCIES = ['HOURLY', 'DAILY', 'WEEKLY'] as const
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number]
+
+// Which preference governs each kind of in-app notification
+export const NOTIFICATION_TYPE_EVENTS: Partial<Record<NotificationType, NotificationEventKey>> = {
+  MENTION: 'mention',
+  REPLY: 'reply',
+  NEW_ANNOTATION: 'newAnnotation',
+  GUEST_FEEDBACK: 'newAnnotation',
+  STATUS_CHANGE: 'resolved',
+}
+
+export function isDigestFrequency(frequency: NotificationFrequency): frequency is DigestFrequency {
+  return (DIGEST_FREQUENCIES as readonly NotificationFrequency[]).includes(frequency)
+}
+
+function withDefaults(preference: Partial<NotificationPreferenceValues> | null): NotificationPreferenceValues {
+  return {
+    mention: preference?.mention ?? DEFAULT_NOTIFICATION_PREFERENCES.mention,
+    reply: preference?.reply ?? DEFAULT_NOTIFICATION_PREFERENCES.reply,
+    newAnnotation: preference?.newAnnotation ?? DEFAULT_NOTIFICATION_PREFERENCES.newAnnotation,
+    resolved: preference?.resolved ?? DEFAULT_NOTIFICATION_PREFERENCES.resolved,
+  }
+}
+
+/**
+ * Effective preferences for each of the given projects, defaults filled in
+ */
+export async function getNotificationPreferences(userId: string, projectIds: string[]) {
+  return (await getNotificationPreferencesByUser(new Map([[userId, projectIds]]))).get(userId)!
+}
+
+/**
+ * `getNotificationPreferences` for several users at once, each for their own projects
+ */
+export async function getNotificationPreferencesByUser(projectIdsByUser: Map<string, string[]>) {
+  const allProjectIds = [...new Set([...projectIdsByUser.values()].flat())]
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId: { in: [...projectIdsByUser.keys()] }, projectId: { in: allProjectIds } },
+  })
+  const byUserAndProject = new Map(rows.map(row => [`${row.userId}:${row.projectId}`, row]))
+
+  return new Map([...projectIdsByUser].map(([userId, projectIds]) => [
+    userId,
+    new Map(projectIds.map(projectId => [projectId, withDefaults(byUserAndProject.get(`${userId}:${projectId}`) ?? null)])),
+  ]))
+}
+
+/**
+ * How often a user wants to hear about one kind of activity on a project
+ */
+export async function getNotificationFrequency(
+  userId: string,
+  projectId: string,
+  event: NotificationEventKey
+): Promise<NotificationFrequency> {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId_projectId: { userId, projectId } },
+  })
+
+  return preference?.[event] ?? DEFAULT_NOTIFICATION_PREFERENCES[event]
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  projectId: string,
+  changes: Partial<NotificationPreferenceValues>
+) {
+  const current = (await getNotificationPreferences(userId, [projectId])).get(projectId)!
+  const values = { ...current, ...changes }
+
+  await prisma.notificationPreference.upsert({
+    where: { userId_projectId: { userId, projectId } },
+    create: { userId, projectId, ...values },
+    update: values,
+  })
+
+  return values
+}
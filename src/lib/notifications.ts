@@ -0,0 +1,113 @@
+import { NotificationType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { RealtimeService } from '@/lib/realtime'
+import { sendEmail, type SendEmailOptions } from '@/lib/email'
+import { getNotificationFrequency, NOTIFICATION_TYPE_EVENTS } from '@/lib/notification-preferences'
+
+export interface CreateNotificationInput {
+  userId: string
+  type: NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  actorId?: string | null
+  projectId?: string | null
+  annotationId?: string | null
+  mentionId?: string | null
+}
+
+export const notificationInclude = {
+  actor: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    },
+  },
+} as const
+
+// Notification bodies are previews, the full text lives on the annotation
+const MAX_BODY_LENGTH = 280
+
+export function getUnreadNotificationCount(userId: string) {
+  return prisma.notification.count({
+    where: { userId, readAt: null, archivedAt: null },
+  })
+}
+
+/**
+ * Store a notification and push it to the recipient's private channel.
+ * People are never notified about their own actions.
+ */
+export async function createNotification(input: CreateNotificationInput) {
+  if (input.actorId && input.actorId === input.userId) return null
+
+  try {
+    const notification = await prisma.notification.create({
+      data: {
+        ...input,
+        body: input.body ? input.body.slice(0, MAX_BODY_LENGTH) : null,
+      },
+      include: notificationInclude,
+    })
+
+    const unreadCount = await getUnreadNotificationCount(input.userId)
+    await RealtimeService.broadcastNotificationCreated(input.userId, {
+      ...notification,
+      readAt: null,
+      createdAt: notification.createdAt.toISOString(),
+    }, unreadCount)
+
+    return notification
+  } catch (error) {
+    // Notifications are a side effect; the action that caused them already succeeded
+    console.error('Failed to create notification:', error)
+    return null
+  }
+}
+
+/**
+ * Notify a project member according to their preferences: in-app plus email for
+ * INSTANT, in-app only for digest frequencies (the email goes out with the digest),
+ * nothing at all for OFF
+ */
+export async function deliverNotification(
+  notification: CreateNotificationInput & { projectId: string },
+  email: Omit<SendEmailOptions, 'userId'>
+) {
+  if (notification.actorId && notification.actorId === notification.userId) return
+
+  const event = NOTIFICATION_TYPE_EVENTS[notification.type]
+  const frequency = event
+    ? await getNotificationFrequency(notification.userId, notification.projectId, event)
+    : 'INSTANT'
+  if (frequency === 'OFF') return
+
+  await createNotification(notification)
+
+  if (frequency === 'INSTANT') {
+    await sendEmail({ ...email, userId: notification.userId })
+  }
+}
+
+/**
+ * Mark some (or all, when ids is omitted) of a user's notifications as read
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]) {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids ? { id: { in: ids } } : {}),
+    },
+    data: { readAt: new Date() },
+  })
+
+  const unreadCount = await getUnreadNotificationCount(userId)
+  if (count > 0) {
+    await RealtimeService.broadcastNotificationsRead(userId, ids ?? 'all', unreadCount)
+  }
+
+  return { updated: count, unreadCount }
+}
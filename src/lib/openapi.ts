@@ -0,0 +1,731 @@
+/**
+ * OpenAPI 3.1 description of the public API and the dashboard's JSON routes,
+ * generated from the zod schemas in `api-schemas.ts`. It is served at
+ * /api/openapi.json, rendered at /docs/api, and committed as openapi.json for
+ * client generators.
+ *
+ * `npm run openapi:check` compares the committed document with a fresh one and
+ * checks every operation below against its route file, so a route that gains a
+ * method or stops validating with its documented schema fails the check.
+ */
+import { z } from 'zod'
+import * as schemas from '@/lib/api-schemas'
+import type { ApiTokenScope } from '@/lib/api-tokens'
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+type JsonSchema = Record<string, unknown>
+
+interface ApiResponse {
+  description: string
+  schema?: z.ZodType
+  // Also offered as CSV, for exports
+  csv?: boolean
+}
+
+export interface ApiOperation {
+  operationId: string
+  method: HttpMethod
+  // Path template, e.g. /api/v1/projects/{id}
+  path: string
+  tag: string
+  summary: string
+  description?: string
+  // Public API operations authenticate with a token that needs this scope,
+  // the rest with the dashboard's session cookie
+  scope?: ApiTokenScope
+  query?: z.ZodObject
+  // Whether the route parses `query`, rather than it only describing the parameters
+  validatesQuery?: boolean
+  paginated?: boolean
+  idempotent?: boolean
+  body?: z.ZodType
+  // Also accepts the file as multipart/form-data
+  upload?: boolean
+  responses: Record<number, ApiResponse>
+  // Error statuses besides the ones every operation of its kind can return
+  errors?: number[]
+}
+
+// Named schemas under components.schemas; operations reference them by identity
+const COMPONENTS: Record<string, z.ZodType> = {
+  Error: schemas.errorResponseSchema,
+  Success: schemas.successResponseSchema,
+  Project: schemas.projectResource,
+  Asset: schemas.assetResource,
+  Annotation: schemas.annotationResource,
+  BulkUpdateResult: schemas.bulkUpdateResponseSchema,
+  Reply: schemas.replyResource,
+  Webhook: schemas.webhookResource,
+  V1Error: schemas.v1ErrorResponseSchema,
+  V1Project: schemas.v1ProjectResource,
+  V1Asset: schemas.v1AssetResource,
+  V1Annotation: schemas.v1AnnotationResource,
+  V1AnnotationDetail: schemas.v1AnnotationDetailResource,
+}
+
+const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  requireTwoFactor: z.boolean(),
+  createdAt: z.date(),
+  role: z.enum(['OWNER', 'ADMIN', 'MEMBER']),
+})
+
+const messageSchema = z.object({ message: z.string() })
+
+const TAGS = [
+  { name: 'Public API', description: 'Versioned API for integrations, authenticated with personal access tokens or project API keys' },
+  { name: 'Projects', description: 'Projects in the current workspace' },
+  { name: 'Assets', description: 'Images, PDFs and web pages under review' },
+  { name: 'Annotations', description: 'Feedback pinned to an asset' },
+  { name: 'Replies', description: 'Discussion on an annotation' },
+  { name: 'Webhooks', description: 'Event notifications sent to your endpoints' },
+]
+
+export const API_OPERATIONS: ApiOperation[] = [
+  // Public API
+
+  {
+    operationId: 'v1ListProjects',
+    method: 'get',
+    path: '/api/v1/projects',
+    tag: 'Public API',
+    summary: 'List projects',
+    description: 'Projects the token can reach, newest first. A project API key only sees its own project.',
+    scope: 'projects:read',
+    query: schemas.v1ListProjectsQuerySchema,
+    validatesQuery: true,
+    paginated: true,
+    responses: { 200: { description: 'A page of projects', schema: schemas.v1Page(schemas.v1ProjectResource) } },
+  },
+  {
+    operationId: 'v1CreateProject',
+    method: 'post',
+    path: '/api/v1/projects',
+    tag: 'Public API',
+    summary: 'Create a project',
+    scope: 'projects:write',
+    idempotent: true,
+    body: schemas.v1CreateProjectSchema,
+    responses: { 201: { description: 'The new project', schema: schemas.v1Resource(schemas.v1ProjectResource) } },
+    errors: [404],
+  },
+  {
+    operationId: 'v1GetProject',
+    method: 'get',
+    path: '/api/v1/projects/{id}',
+    tag: 'Public API',
+    summary: 'Get a project',
+    scope: 'projects:read',
+    responses: { 200: { description: 'The project', schema: schemas.v1Resource(schemas.v1ProjectResource) } },
+  },
+  {
+    operationId: 'v1ListAssets',
+    method: 'get',
+    path: '/api/v1/projects/{id}/assets',
+    tag: 'Public API',
+    summary: "List a project's assets",
+    scope: 'assets:read',
+    paginated: true,
+    responses: { 200: { description: 'A page of assets', schema: schemas.v1Page(schemas.v1AssetResource) } },
+  },
+  {
+    operationId: 'v1CreateAsset',
+    method: 'post',
+    path: '/api/v1/projects/{id}/assets',
+    tag: 'Public API',
+    summary: 'Add a web page to review',
+    scope: 'assets:write',
+    idempotent: true,
+    body: schemas.v1CreateAssetSchema,
+    responses: { 201: { description: 'The new asset', schema: schemas.v1Resource(schemas.v1AssetResource) } },
+  },
+  {
+    operationId: 'v1ListAnnotations',
+    method: 'get',
+    path: '/api/v1/projects/{id}/annotations',
+    tag: 'Public API',
+    summary: "List a project's annotations",
+    scope: 'annotations:read',
+    query: schemas.v1AnnotationFiltersSchema,
+    validatesQuery: true,
+    paginated: true,
+    responses: { 200: { description: 'A page of annotations', schema: schemas.v1Page(schemas.v1AnnotationResource) } },
+  },
+  {
+    operationId: 'v1GetAsset',
+    method: 'get',
+    path: '/api/v1/assets/{id}',
+    tag: 'Public API',
+    summary: 'Get an asset',
+    scope: 'assets:read',
+    responses: { 200: { description: 'The asset', schema: schemas.v1Resource(schemas.v1AssetResource) } },
+  },
+  {
+    operationId: 'v1GetAnnotation',
+    method: 'get',
+    path: '/api/v1/annotations/{id}',
+    tag: 'Public API',
+    summary: 'Get an annotation with its replies',
+    scope: 'annotations:read',
+    responses: { 200: { description: 'The annotation', schema: schemas.v1Resource(schemas.v1AnnotationDetailResource) } },
+  },
+
+  // Projects
+
+  {
+    operationId: 'listProjects',
+    method: 'get',
+    path: '/api/projects',
+    tag: 'Projects',
+    summary: 'List projects',
+    description: 'Projects in the current workspace, plus ones shared directly with the user from other workspaces (marked `shared`).',
+    responses: {
+      200: {
+        description: 'The current workspace and its projects',
+        schema: z.object({ workspace: workspaceSchema, projects: z.array(schemas.projectResource) }),
+      },
+    },
+  },
+  {
+    operationId: 'createProject',
+    method: 'post',
+    path: '/api/projects',
+    tag: 'Projects',
+    summary: 'Create a project',
+    body: schemas.createProjectSchema,
+    responses: {
+      201: { description: 'The new project', schema: z.object({ project: schemas.projectResource }).extend(messageSchema.shape) },
+    },
+    errors: [403],
+  },
+  {
+    operationId: 'getProject',
+    method: 'get',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Get a project',
+    responses: { 200: { description: 'The project', schema: z.object({ project: schemas.projectResource }) } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'updateProject',
+    method: 'put',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Rename a project or change its description',
+    body: schemas.updateProjectSchema,
+    responses: {
+      200: { description: 'The updated project', schema: z.object({ project: schemas.projectResource }).extend(messageSchema.shape) },
+    },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'deleteProject',
+    method: 'delete',
+    path: '/api/projects/{id}',
+    tag: 'Projects',
+    summary: 'Delete a project',
+    responses: { 200: { description: 'The project was deleted', schema: messageSchema } },
+    errors: [403, 404],
+  },
+
+  // Assets
+
+  {
+    operationId: 'listAssets',
+    method: 'get',
+    path: '/api/projects/{id}/assets',
+    tag: 'Assets',
+    summary: "List a project's assets",
+    responses: { 200: { description: 'The assets, newest first', schema: z.object({ assets: z.array(schemas.assetResource) }) } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'createAsset',
+    method: 'post',
+    path: '/api/projects/{id}/assets',
+    tag: 'Assets',
+    summary: 'Upload an image or PDF, or add a web page',
+    description: "Send a JSON body for a web page, or the file as multipart/form-data. Uploads are limited to images and PDFs of up to 10MB, and fail with 403 once the workspace's plan is out of storage.",
+    body: schemas.createAssetSchema,
+    upload: true,
+    responses: {
+      201: { description: 'The new asset', schema: z.object({ asset: schemas.assetResource }).extend(messageSchema.shape) },
+    },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'getAsset',
+    method: 'get',
+    path: '/api/projects/{id}/assets/{assetId}',
+    tag: 'Assets',
+    summary: 'Get an asset',
+    responses: { 200: { description: 'The asset', schema: schemas.assetResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'updateAsset',
+    method: 'patch',
+    path: '/api/projects/{id}/assets/{assetId}',
+    tag: 'Assets',
+    summary: "Record a PDF's page count",
+    body: schemas.updateAssetSchema,
+    responses: { 200: { description: 'The updated asset', schema: schemas.assetResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'deleteAsset',
+    method: 'delete',
+    path: '/api/projects/{id}/assets/{assetId}',
+    tag: 'Assets',
+    summary: 'Delete an asset',
+    responses: { 200: { description: 'The asset was deleted', schema: schemas.successResponseSchema } },
+    errors: [403, 404],
+  },
+
+  // Annotations
+
+  {
+    operationId: 'listAnnotations',
+    method: 'get',
+    path: '/api/assets/{id}/annotations',
+    tag: 'Annotations',
+    summary: "List an asset's annotations",
+    description: 'Guests viewing a share link pass its token instead of signing in.',
+    query: schemas.listAnnotationsQuerySchema,
+    responses: {
+      200: {
+        description: 'The annotations, or an export with `format`',
+        schema: z.union([
+          z.array(schemas.annotationResource),
+          z.object({
+            annotations: z.array(schemas.annotationResource),
+            meta: z.record(z.string(), z.unknown()),
+          }),
+        ]),
+        csv: true,
+      },
+    },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'createAnnotation',
+    method: 'post',
+    path: '/api/assets/{id}/annotations',
+    tag: 'Annotations',
+    summary: 'Add an annotation',
+    description: 'Guests pass a share link token along with their name, and solve the bot check when it is required.',
+    body: schemas.createAnnotationSchema,
+    responses: { 201: { description: 'The new annotation', schema: schemas.annotationResource } },
+    errors: [403, 404, 429],
+  },
+  {
+    operationId: 'bulkUpdateAnnotations',
+    method: 'patch',
+    path: '/api/assets/{id}/annotations/bulk',
+    tag: 'Annotations',
+    summary: 'Resolve, reopen or delete several annotations',
+    body: schemas.bulkUpdateSchema,
+    responses: { 200: { description: 'The annotations affected', schema: schemas.bulkUpdateResponseSchema } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'getAnnotation',
+    method: 'get',
+    path: '/api/annotations/{id}',
+    tag: 'Annotations',
+    summary: 'Get an annotation',
+    responses: { 200: { description: 'The annotation', schema: schemas.annotationResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'updateAnnotation',
+    method: 'patch',
+    path: '/api/annotations/{id}',
+    tag: 'Annotations',
+    summary: 'Edit, move, resolve or reopen an annotation',
+    body: schemas.updateAnnotationSchema,
+    responses: { 200: { description: 'The updated annotation', schema: schemas.annotationResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'deleteAnnotation',
+    method: 'delete',
+    path: '/api/annotations/{id}',
+    tag: 'Annotations',
+    summary: 'Delete an annotation',
+    responses: { 200: { description: 'The annotation was deleted', schema: schemas.successResponseSchema } },
+    errors: [403, 404],
+  },
+
+  // Replies
+
+  {
+    operationId: 'listReplies',
+    method: 'get',
+    path: '/api/annotations/{id}/replies',
+    tag: 'Replies',
+    summary: "List an annotation's replies",
+    responses: { 200: { description: 'The replies, oldest first', schema: z.array(schemas.replyResource) } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'createReply',
+    method: 'post',
+    path: '/api/annotations/{id}/replies',
+    tag: 'Replies',
+    summary: 'Reply to an annotation',
+    description: 'Guests pass a share link token along with their name, and solve the bot check when it is required.',
+    body: schemas.createReplySchema,
+    responses: { 201: { description: 'The new reply', schema: schemas.replyResource } },
+    errors: [403, 404, 429],
+  },
+
+  // Webhooks
+
+  {
+    operationId: 'listWebhooks',
+    method: 'get',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: "List a project's webhooks",
+    query: schemas.webhookProjectQuerySchema,
+    responses: {
+      200: {
+        description: 'The webhooks with their latest delivery',
+        schema: z.object({
+          webhooks: z.array(schemas.webhookResource.extend({
+            lastDelivery: z.object({
+              id: z.string(),
+              event: z.string(),
+              status: z.string(),
+              responseStatus: z.number().int().nullable(),
+              createdAt: z.date(),
+            }).nullable(),
+          })),
+        }),
+      },
+    },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'createWebhook',
+    method: 'post',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: 'Add a webhook',
+    description: 'A signing secret is generated unless one is given.',
+    query: schemas.webhookProjectQuerySchema,
+    body: schemas.webhookSchema,
+    responses: { 201: { description: 'The new webhook, with its secret', schema: schemas.webhookResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'getWebhook',
+    method: 'get',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Get a webhook',
+    responses: { 200: { description: 'The webhook', schema: schemas.webhookResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'updateWebhook',
+    method: 'patch',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Change or pause a webhook, or rotate its secret',
+    body: schemas.updateWebhookSchema,
+    responses: { 200: { description: 'The updated webhook', schema: schemas.webhookResource } },
+    errors: [403, 404],
+  },
+  {
+    operationId: 'deleteWebhook',
+    method: 'delete',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Delete a webhook',
+    responses: { 200: { description: 'The webhook was deleted', schema: schemas.successResponseSchema } },
+    errors: [403, 404],
+  },
+]
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request is invalid',
+  401: 'Not authenticated',
+  403: 'Not allowed',
+  404: 'Not found',
+  409: 'A request with the same idempotency key is still in progress',
+  422: 'The idempotency key was already used for a different request',
+  429: 'Too many requests',
+}
+
+// Prefix of the registry ids given to operation schemas, which are inlined
+// into the operation rather than listed as components
+const INLINE_ID_PREFIX = '__inline_'
+
+function toJsonSchemaOptions(io: 'input' | 'output') {
+  return {
+    target: 'draft-2020-12' as const,
+    unrepresentable: 'any' as const,
+    io,
+    override: ({ zodSchema, jsonSchema }: { zodSchema: z.core.$ZodTypes; jsonSchema: JsonSchema }) => {
+      // Dates go over the wire as ISO 8601 strings
+      if (zodSchema._zod.def.type === 'date') {
+        Object.assign(jsonSchema, { type: 'string', format: 'date-time' })
+      }
+    },
+  }
+}
+
+function componentRef(name: string) {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+/**
+ * Converts schemas in one pass so that the components they share become $refs.
+ * Schemas that aren't components are registered under throwaway ids and
+ * pulled back out with `resolve`.
+ */
+class SchemaCollector {
+  private registry = z.registry<{ id: string }>()
+  private inlineIds = new Map<z.ZodType, string>()
+  private converted: Record<string, JsonSchema> | null = null
+
+  constructor(private io: 'input' | 'output', private components: Record<string, z.ZodType> = {}) {
+    for (const [name, schema] of Object.entries(components)) {
+      this.registry.add(schema, { id: name })
+    }
+  }
+
+  add(schema: z.ZodType): string {
+    const component = Object.entries(this.components).find(([, value]) => value === schema)
+    if (component) return component[0]
+
+    let id = this.inlineIds.get(schema)
+    if (!id) {
+      id = `${INLINE_ID_PREFIX}${this.inlineIds.size}`
+      this.inlineIds.set(schema, id)
+      this.registry.add(schema, { id })
+    }
+    return id
+  }
+
+  convert() {
+    const { schemas: converted } = z.toJSONSchema(this.registry, {
+      ...toJsonSchemaOptions(this.io),
+      uri: id => `#/components/schemas/${id}`,
+    })
+    this.converted = {}
+    for (const [id, schema] of Object.entries(converted)) {
+      const copy: JsonSchema = { ...schema }
+      delete copy.$schema
+      delete copy.$id
+      this.converted[id] = copy
+    }
+  }
+
+  resolve(id: string): JsonSchema {
+    if (!id.startsWith(INLINE_ID_PREFIX)) return componentRef(id)
+    if (!this.converted) throw new Error('Schemas have not been converted yet')
+    return this.converted[id]
+  }
+
+  listComponents(): Record<string, JsonSchema> {
+    if (!this.converted) throw new Error('Schemas have not been converted yet')
+    return Object.fromEntries(Object.keys(this.components).map(name => [name, this.converted![name]]))
+  }
+}
+
+function queryParameters(schema: z.ZodObject) {
+  const { properties = {}, required = [] } = z.toJSONSchema(schema, toJsonSchemaOptions('input')) as {
+    properties?: Record<string, JsonSchema>
+    required?: string[]
+  }
+
+  return Object.entries(properties).map(([name, { description, ...propertySchema }]) => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    ...(description !== undefined && { description }),
+    schema: propertySchema,
+  }))
+}
+
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }))
+}
+
+function errorStatuses(operation: ApiOperation): number[] {
+  const statuses = new Set(operation.errors)
+  statuses.add(401)
+  if (operation.body || operation.validatesQuery || operation.paginated) statuses.add(400)
+
+  if (operation.scope) {
+    // Every token can lack the scope, or run into the rate limit
+    statuses.add(403)
+    statuses.add(429)
+    if (operation.path.includes('{')) statuses.add(404)
+    if (operation.idempotent) {
+      statuses.add(409)
+      statuses.add(422)
+    }
+  }
+
+  return [...statuses].sort((a, b) => a - b)
+}
+
+let cachedDocument: ReturnType<typeof buildOpenApiDocument> | null = null
+
+function buildOpenApiDocument() {
+  const requests = new SchemaCollector('input')
+  const responses = new SchemaCollector('output', COMPONENTS)
+
+  const prepared = API_OPERATIONS.map(operation => ({
+    operation,
+    bodyId: operation.body ? requests.add(operation.body) : null,
+    responseIds: Object.fromEntries(
+      Object.entries(operation.responses).map(([status, response]) => [
+        status,
+        response.schema ? responses.add(response.schema) : null,
+      ])
+    ),
+  }))
+
+  requests.convert()
+  responses.convert()
+
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const { operation, bodyId, responseIds } of prepared) {
+    const errorSchema = componentRef(operation.scope ? 'V1Error' : 'Error')
+
+    const parameters = [
+      ...pathParameters(operation.path),
+      ...(operation.query ? queryParameters(operation.query) : []),
+      ...(operation.paginated ? queryParameters(schemas.v1PaginationSchema) : []),
+      ...(operation.idempotent
+        ? [{
+            name: 'Idempotency-Key',
+            in: 'header',
+            required: false,
+            description: 'Unique key for this create. Retrying with the same key within 24 hours replays the first response instead of creating a duplicate.',
+            schema: { type: 'string', maxLength: 255 },
+          }]
+        : []),
+    ]
+
+    const requestBody = bodyId
+      ? {
+          required: true,
+          content: {
+            'application/json': { schema: requests.resolve(bodyId) },
+            ...(operation.upload && {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: { file: { type: 'string', contentMediaType: 'application/octet-stream' } },
+                  required: ['file'],
+                },
+              },
+            }),
+          },
+        }
+      : undefined
+
+    const operationResponses: Record<string, unknown> = {}
+    for (const [status, response] of Object.entries(operation.responses)) {
+      const responseId = responseIds[status]
+      operationResponses[status] = {
+        description: response.description,
+        ...(responseId && {
+          content: {
+            'application/json': { schema: responses.resolve(responseId) },
+            ...(response.csv && { 'text/csv': { schema: { type: 'string' } } }),
+          },
+        }),
+      }
+    }
+    for (const status of errorStatuses(operation)) {
+      operationResponses[status] = {
+        description: ERROR_DESCRIPTIONS[status],
+        content: { 'application/json': { schema: errorSchema } },
+      }
+    }
+
+    paths[operation.path] ??= {}
+    paths[operation.path][operation.method] = {
+      operationId: operation.operationId,
+      tags: [operation.tag],
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      security: operation.scope ? [{ apiToken: [operation.scope] }] : [{ session: [] }],
+      ...(parameters.length > 0 && { parameters }),
+      ...(requestBody && { requestBody }),
+      responses: operationResponses,
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'PixelPin API',
+      version: '1.0.0',
+      description: 'Integrations use the versioned API under /api/v1 with a personal access token or a project API key. The dashboard routes are documented too, for scripts running with a signed-in session.',
+    },
+    tags: TAGS,
+    paths,
+    components: {
+      schemas: responses.listComponents(),
+      securitySchemes: {
+        apiToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal access token (pp_pat_…) or project API key (pp_key_…), created in the settings',
+        },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'authjs.session-token',
+          description: 'The session cookie set when signing in to the dashboard',
+        },
+      },
+    },
+  }
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>
+
+export function generateOpenApiDocument(): OpenApiDocument {
+  cachedDocument ??= buildOpenApiDocument()
+  return cachedDocument
+}
+
+/**
+ * Where each operation lives and the api-schemas exports its route has to
+ * validate with, for `npm run openapi:check`
+ */
+export function listOperationSources() {
+  const exportNames = new Map<unknown, string>(
+    Object.entries(schemas).map(([name, value]) => [value, name])
+  )
+
+  return API_OPERATIONS.map(operation => ({
+    operationId: operation.operationId,
+    method: operation.method.toUpperCase(),
+    path: operation.path,
+    routeFile: `src/app${operation.path.replace(/\{(\w+)\}/g, '[$1]')}/route.ts`,
+    validates: [
+      operation.body,
+      operation.validatesQuery ? operation.query : undefined,
+    ].filter(Boolean).map(schema => exportNames.get(schema) ?? null),
+    paginated: Boolean(operation.paginated),
+    idempotent: Boolean(operation.idempotent),
+  }))
+}
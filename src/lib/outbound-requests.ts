@@ -0,0 +1,238 @@
+import { lookup } from 'dns/promises'
+import http from 'http'
+import https from 'https'
+import net, { AddressInfo, isIP, LookupFunction } from 'net'
+import { Duplex, pipeline, Readable } from 'stream'
+import zlib from 'zlib'
+import { isPrivateHostname } from '@/lib/site-proxy'
+
+/**
+ * Requests to URLs users give us, like proxied sites and webhook endpoints,
+ * must not reach our own network. The host is resolved once, every address
+ * it resolves to is checked, and the request connects to the address that
+ * was checked, so a DNS name can't answer the check with a public address
+ * and the request with a private one. Browsers loading such pages go
+ * through `startEgressProxy`, which does the same for every request they make.
+ */
+
+export class BlockedAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} does not resolve to a public address`)
+    this.name = 'BlockedAddressError'
+  }
+}
+
+export interface ResolvedAddress {
+  address: string
+  family: number
+}
+
+export interface PublicRequestInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs: number
+  // For development and self-hosted setups that point at local sites
+  allowPrivate?: boolean
+}
+
+// Statuses a Response can't be given a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+/**
+ * The address to connect to for a host, rejecting with BlockedAddressError
+ * when it can't be resolved or any of its addresses is private
+ */
+export async function resolvePublicAddress(
+  hostname: string,
+  { allowPrivate = false }: { allowPrivate?: boolean } = {}
+): Promise<ResolvedAddress> {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  if (!allowPrivate && isPrivateHostname(host)) throw new BlockedAddressError(hostname)
+
+  const family = isIP(host)
+  if (family) return { address: host, family }
+
+  let addresses: ResolvedAddress[]
+  try {
+    addresses = await lookup(host, { all: true })
+  } catch {
+    throw new BlockedAddressError(hostname)
+  }
+  if (addresses.length === 0) throw new BlockedAddressError(hostname)
+  if (!allowPrivate && addresses.some(({ address }) => isPrivateHostname(address))) {
+    throw new BlockedAddressError(hostname)
+  }
+  return addresses[0]
+}
+
+// Connects to the address that was checked whatever the host resolves to by then
+function pinTo(resolved: ResolvedAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [resolved])
+    } else {
+      callback(null, resolved.address, resolved.family)
+    }
+  }
+}
+
+function decodeBody(response: http.IncomingMessage): Readable {
+  const decoder = {
+    gzip: zlib.createGunzip,
+    'x-gzip': zlib.createGunzip,
+    deflate: zlib.createInflate,
+    br: zlib.createBrotliDecompress,
+  }[String(response.headers['content-encoding'] ?? '').trim().toLowerCase()]
+  if (!decoder) return response
+  return pipeline(response, decoder(), () => {})
+}
+
+/**
+ * Like fetch with `redirect: 'manual'`, for a URL that must be on the public
+ * internet. Rejects with BlockedAddressError before connecting when it isn't,
+ * and with a TimeoutError once timeoutMs has passed. Bodies are decoded, so
+ * the response has no Content-Encoding.
+ */
+export async function fetchPublicUrl(url: string, init: PublicRequestInit): Promise<Response> {
+  const target = new URL(url)
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new BlockedAddressError(target.hostname)
+  }
+
+  const resolved = await resolvePublicAddress(target.hostname, init)
+  const signal = AbortSignal.timeout(init.timeoutMs)
+  const client = target.protocol === 'https:' ? https : http
+
+  return new Promise<Response>((resolve, reject) => {
+    const request = client.request(target, {
+      method: init.method ?? 'GET',
+      // Sized like fetch would, as some endpoints refuse chunked bodies
+      headers: init.body === undefined
+        ? init.headers
+        : { ...init.headers, 'Content-Length': String(Buffer.byteLength(init.body)) },
+      lookup: pinTo(resolved),
+    }, (response) => {
+      const status = response.statusCode ?? 502
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (value === undefined) continue
+        for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item)
+      }
+
+      let body: ReadableStream | null = null
+      if (NULL_BODY_STATUSES.includes(status)) {
+        response.resume()
+      } else {
+        if (headers.has('content-encoding')) {
+          headers.delete('content-encoding')
+          headers.delete('content-length')
+        }
+        body = Readable.toWeb(decodeBody(response)) as ReadableStream
+      }
+
+      resolve(new Response(body, { status, statusText: response.statusMessage, headers }))
+    })
+
+    // Ends the body too if the response has already started
+    signal.addEventListener('abort', () => request.destroy(signal.reason), { once: true })
+    request.on('error', reject)
+    request.end(init.body)
+  })
+}
+
+export interface EgressProxy {
+  // For the browser's --proxy-server
+  url: string
+  close(): Promise<void>
+}
+
+// Hop-by-hop headers meant for the proxy, not the site
+const PROXY_HEADERS = ['proxy-connection', 'proxy-authorization']
+
+async function forwardRequest(
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  allowPrivate: boolean
+) {
+  let target: URL
+  let resolved: ResolvedAddress
+  try {
+    target = new URL(request.url ?? '')
+    if (target.protocol !== 'http:') throw new BlockedAddressError(target.hostname)
+    resolved = await resolvePublicAddress(target.hostname, { allowPrivate })
+  } catch {
+    response.writeHead(403).end()
+    return
+  }
+
+  const headers = { ...request.headers }
+  for (const name of PROXY_HEADERS) delete headers[name]
+
+  const upstream = http.request(target, { method: request.method, headers, lookup: pinTo(resolved) }, (upstreamResponse) => {
+    response.writeHead(upstreamResponse.statusCode ?? 502, upstreamResponse.statusMessage, upstreamResponse.headers)
+    upstreamResponse.pipe(response)
+  })
+  upstream.on('error', () => response.destroy())
+  response.on('close', () => upstream.destroy())
+  request.pipe(upstream)
+}
+
+async function openTunnel(request: http.IncomingMessage, socket: Duplex, head: Buffer, allowPrivate: boolean) {
+  socket.on('error', () => {})
+
+  let port: number
+  let resolved: ResolvedAddress
+  try {
+    // CONNECT asks for host:port, with IPv6 addresses in brackets
+    const target = new URL(`http://${request.url}`)
+    port = Number(target.port) || 443
+    resolved = await resolvePublicAddress(target.hostname, { allowPrivate })
+  } catch {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n')
+    return
+  }
+
+  const upstream = net.connect({ host: resolved.address, port, family: resolved.family })
+  upstream.on('connect', () => {
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+    if (head.length > 0) upstream.write(head)
+    upstream.pipe(socket)
+    socket.pipe(upstream)
+  })
+  upstream.on('error', () => socket.destroy())
+  socket.on('close', () => upstream.destroy())
+}
+
+/**
+ * A forward proxy on localhost for a browser loading user-supplied pages, so
+ * the browser never resolves hosts itself. Plain HTTP requests and CONNECT
+ * tunnels (HTTPS and WebSockets) are checked like `fetchPublicUrl` and sent
+ * to the address that was checked; anything else gets a 403.
+ */
+export async function startEgressProxy({ allowPrivate = false }: { allowPrivate?: boolean } = {}): Promise<EgressProxy> {
+  const tunnels = new Set<Duplex>()
+  const server = http.createServer((request, response) => {
+    void forwardRequest(request, response, allowPrivate)
+  })
+  server.on('connect', (request: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    tunnels.add(socket)
+    socket.on('close', () => tunnels.delete(socket))
+    void openTunnel(request, socket, head, allowPrivate)
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', () => resolve())
+  })
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => {
+      for (const socket of tunnels) socket.destroy()
+      server.closeAllConnections()
+      server.close(() => resolve())
+    }),
+  }
+}
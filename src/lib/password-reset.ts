@@ -0,0 +1,83 @@
+/**
+ * Forgotten-password flow: a single-use link emailed to the account's address
+ * lets its holder choose a new password. Requests for unknown addresses look
+ * the same as real ones, so the form can't be used to find accounts.
+ */
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email'
+import { getAppUrl, renderPasswordResetEmail } from '@/lib/email-templates'
+import { convertGuestContributionsIfAllowed } from '@/lib/email-verification'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
+import { consumeVerificationToken, issueVerificationToken, type VerificationTokenFailure } from '@/lib/verification-tokens'
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000
+
+export const PASSWORD_RESET_FAILURE_MESSAGES: Record<VerificationTokenFailure, string> = {
+  invalid: 'This reset link is invalid or has already been used',
+  expired: 'This reset link has expired. Request a new one.',
+}
+
+export function getResetPasswordUrl(token: string): string {
+  return `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Email a reset link if an account uses the address
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email.trim(), mode: 'insensitive' } },
+    select: { id: true, email: true },
+  })
+  if (!user) return
+
+  const { token, expires } = await issueVerificationToken('reset-password', user.id, PASSWORD_RESET_TTL_MS)
+
+  await sendEmail({
+    template: 'password-reset',
+    secretLinks: true,
+    to: user.email,
+    userId: user.id,
+    ...renderPasswordResetEmail({
+      resetUrl: getResetPasswordUrl(token),
+      expiresAt: expires,
+    }),
+  })
+}
+
+/**
+ * Set a new password with a reset link, signing out every session. Receiving
+ * the link also proves the address is theirs.
+ */
+export async function resetPassword(
+  token: string,
+  password: string
+): Promise<{ ok: true; email: string } | { ok: false; reason: VerificationTokenFailure }> {
+  const consumed = await consumeVerificationToken('reset-password', token)
+  if (!consumed.ok) return consumed
+
+  const user = await prisma.user.findUnique({
+    where: { id: consumed.subject },
+    select: { id: true, email: true, emailVerified: true },
+  })
+  if (!user) return { ok: false, reason: 'invalid' }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      password: await bcrypt.hash(password, 12),
+      emailVerified: user.emailVerified ?? new Date(),
+    },
+    select: { id: true, email: true, emailVerified: true },
+  })
+
+  // Whoever knew the old password is signed out
+  await revokeAllUserSessions(user.id)
+
+  if (!user.emailVerified) {
+    await convertGuestContributionsIfAllowed(updated)
+  }
+
+  return { ok: true, email: user.email }
+}
@@ -0,0 +1,110 @@
+import { z } from 'zod'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { AnnotationGeometry } from '@/lib/annotation-shapes'
+
+/**
+ * Page utilities for PDF annotations.
+ *
+ * PDF annotations store a 1-based `pageNumber` and a page-normalized position:
+ * x / y (and width / height) are fractions of the rendered page size, so pins
+ * land in the same place whatever zoom or resolution the page is drawn at.
+ */
+
+export interface PageRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export const pageNumberSchema = z.number().int().min(1)
+
+/**
+ * Check that a position is normalized to the page.
+ * Returns an error message, or null when the position is valid.
+ */
+export function validatePagePosition(position: AnnotationGeometry): string | null {
+  const inPage = (value: number) => value >= 0 && value <= 1
+
+  if (!inPage(position.x) || !inPage(position.y)) {
+    return 'PDF annotation positions must be normalized between 0 and 1'
+  }
+
+  // Extents may be negative for arrows, but never reach beyond the page
+  const extents = [position.width, position.height].filter((value): value is number => value !== undefined)
+  if (extents.some(value => Math.abs(value) > 1)) {
+    return 'PDF annotation sizes must be normalized between -1 and 1'
+  }
+
+  return null
+}
+
+/**
+ * Convert canvas coordinates into page-normalized coordinates
+ */
+export function toPagePosition(position: AnnotationGeometry, page: PageRect): AnnotationGeometry {
+  const normalized: AnnotationGeometry = {
+    x: clamp((position.x - page.left) / page.width),
+    y: clamp((position.y - page.top) / page.height),
+  }
+  if (position.width !== undefined) normalized.width = position.width / page.width
+  if (position.height !== undefined) normalized.height = position.height / page.height
+  return normalized
+}
+
+/**
+ * Convert page-normalized coordinates back into canvas coordinates
+ */
+export function fromPagePosition(position: AnnotationGeometry, page: PageRect): AnnotationGeometry {
+  const absolute: AnnotationGeometry = {
+    x: page.left + position.x * page.width,
+    y: page.top + position.y * page.height,
+  }
+  if (position.width !== undefined) absolute.width = position.width * page.width
+  if (position.height !== undefined) absolute.height = position.height * page.height
+  return absolute
+}
+
+/**
+ * Human readable page label, e.g. "Page 3 of 12"
+ */
+export function formatPageLabel(pageNumber: number, pageCount?: number | null): string {
+  return pageCount ? `Page ${pageNumber} of ${pageCount}` : `Page ${pageNumber}`
+}
+
+/**
+ * Page URL for a PDF annotation, using the standard #page= open parameter
+ */
+export function buildPdfPageUrl(assetUrl: string, pageNumber: number): string {
+  return `${assetUrl.split('#')[0]}#page=${pageNumber}`
+}
+
+/**
+ * Render a PDF page into a new canvas scaled to fit the given box
+ */
+export async function renderPdfPage(
+  pdfDocument: PDFDocumentProxy,
+  pageNumber: number,
+  maxWidth: number,
+  maxHeight: number
+): Promise<HTMLCanvasElement> {
+  const page = await pdfDocument.getPage(pageNumber)
+  const baseViewport = page.getViewport({ scale: 1 })
+  const scale = Math.min(maxWidth / baseViewport.width, maxHeight / baseViewport.height)
+  const viewport = page.getViewport({ scale })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable')
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise
+  return canvas
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1)
+}
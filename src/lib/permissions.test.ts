@@ -0,0 +1,345 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OrganizationRole } from '@prisma/client'
+
+const prisma = vi.hoisted(() => ({
+  project: { findUnique: vi.fn() },
+  asset: { findUnique: vi.fn() },
+  annotation: { findUnique: vi.fn() },
+  reply: { findUnique: vi.fn() },
+  user: { findUnique: vi.fn() },
+  organizationMember: { findUnique: vi.fn() },
+  webhook: { findUnique: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma }))
+
+import {
+  accessDenied,
+  authorizeAnnotation,
+  authorizeAsset,
+  authorizeProject,
+  authorizeReply,
+  authorizeWebhook,
+  authorizeWorkspace,
+  hasPermission,
+  hasWorkspacePermission,
+  PERMISSIONS,
+  ProjectAction,
+  ProjectRole,
+  resolveProjectRole,
+  WORKSPACE_PERMISSIONS,
+  WorkspaceAction,
+} from '@/lib/permissions'
+
+const USER = 'user-1'
+const OTHER = 'user-2'
+
+// Spelled out rather than read from PERMISSIONS, so a change to the matrix has to change this too
+const EXPECTED: Record<ProjectRole, ProjectAction[]> = {
+  VIEWER: ['project:view', 'annotation:create', 'reply:create'],
+  EDITOR: [
+    'project:view',
+    'asset:create',
+    'asset:update',
+    'asset:delete',
+    'annotation:create',
+    'annotation:update',
+    'annotation:delete',
+    'reply:create',
+    'reply:update',
+    'reply:delete',
+  ],
+  OWNER: Object.keys(PERMISSIONS) as ProjectAction[],
+}
+
+const EXPECTED_WORKSPACE: Record<OrganizationRole, WorkspaceAction[]> = {
+  MEMBER: ['workspace:view', 'workspace:create-project'],
+  ADMIN: [
+    'workspace:view',
+    'workspace:create-project',
+    'workspace:update',
+    'workspace:transfer-projects',
+    'workspace:manage-members',
+  ],
+  OWNER: Object.keys(WORKSPACE_PERMISSIONS) as WorkspaceAction[],
+}
+
+const ROLES: ProjectRole[] = ['VIEWER', 'EDITOR', 'OWNER']
+const ACTIONS = Object.keys(PERMISSIONS) as ProjectAction[]
+const WORKSPACE_ROLES: OrganizationRole[] = ['MEMBER', 'ADMIN', 'OWNER']
+const WORKSPACE_ACTIONS = Object.keys(WORKSPACE_PERMISSIONS) as WorkspaceAction[]
+
+interface ProjectFixture {
+  ownerId?: string
+  collaboratorRole?: ProjectRole
+  workspaceRole?: OrganizationRole
+  requireTwoFactor?: boolean
+}
+
+// A project as projectAccessSelect loads it for USER
+function projectRow({ ownerId = OTHER, collaboratorRole, workspaceRole, requireTwoFactor = false }: ProjectFixture = {}) {
+  return {
+    id: 'project-1',
+    ownerId,
+    organizationId: 'org-1',
+    collaborators: collaboratorRole ? [{ role: collaboratorRole }] : [],
+    organization: {
+      requireTwoFactor,
+      members: workspaceRole ? [{ role: workspaceRole }] : [],
+    },
+  }
+}
+
+function matrix<R extends string, A extends string>(roles: R[], actions: A[], expected: Record<R, A[]>) {
+  return roles.flatMap((role) => actions.map((action) => [role, action, expected[role].includes(action)] as const))
+}
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  prisma.user.findUnique.mockResolvedValue({ twoFactorEnabled: false })
+})
+
+describe('permission matrix', () => {
+  it.each(matrix(ROLES, ACTIONS, EXPECTED))('%s may %s: %s', (role, action, allowed) => {
+    expect(hasPermission(role, action)).toBe(allowed)
+  })
+
+  it.each(ACTIONS)('nobody without a role may %s', (action) => {
+    expect(hasPermission(null, action)).toBe(false)
+  })
+
+  it.each(matrix(WORKSPACE_ROLES, WORKSPACE_ACTIONS, EXPECTED_WORKSPACE))(
+    'workspace %s may %s: %s',
+    (role, action, allowed) => {
+      expect(hasWorkspacePermission(role, action)).toBe(allowed)
+    }
+  )
+})
+
+describe('resolveProjectRole', () => {
+  it('uses the collaborator role', () => {
+    expect(resolveProjectRole(USER, projectRow({ collaboratorRole: 'VIEWER' }))).toBe('VIEWER')
+  })
+
+  it.each([
+    ['MEMBER', 'EDITOR'],
+    ['ADMIN', 'OWNER'],
+    ['OWNER', 'OWNER'],
+  ] as const)('gives workspace %s the project role %s', (workspaceRole, role) => {
+    expect(resolveProjectRole(USER, projectRow({ workspaceRole }))).toBe(role)
+  })
+
+  it('takes the highest of the workspace and collaborator roles', () => {
+    expect(resolveProjectRole(USER, projectRow({ workspaceRole: 'MEMBER', collaboratorRole: 'VIEWER' }))).toBe('EDITOR')
+    expect(resolveProjectRole(USER, projectRow({ workspaceRole: 'MEMBER', collaboratorRole: 'OWNER' }))).toBe('OWNER')
+  })
+
+  it('makes the owner of record an owner while they are in the workspace', () => {
+    expect(resolveProjectRole(USER, projectRow({ ownerId: USER, workspaceRole: 'MEMBER' }))).toBe('OWNER')
+  })
+
+  it('drops owners of record who left the workspace to their collaborator role, if any', () => {
+    expect(resolveProjectRole(USER, projectRow({ ownerId: USER }))).toBeNull()
+    expect(resolveProjectRole(USER, projectRow({ ownerId: USER, collaboratorRole: 'VIEWER' }))).toBe('VIEWER')
+  })
+
+  it('gives outsiders no role', () => {
+    expect(resolveProjectRole(USER, projectRow())).toBeNull()
+  })
+})
+
+describe('authorizeProject', () => {
+  it('404s projects that do not exist', async () => {
+    prisma.project.findUnique.mockResolvedValue(null)
+    expect(await authorizeProject(USER, 'missing', 'project:view')).toEqual({ ok: false, status: 404 })
+  })
+
+  it.each(ACTIONS)('404s outsiders for %s, so project ids cannot be probed', async (action) => {
+    prisma.project.findUnique.mockResolvedValue(projectRow())
+    expect(await authorizeProject(USER, 'project-1', action)).toEqual({ ok: false, status: 404 })
+  })
+
+  it.each(matrix(ROLES, ACTIONS.filter((action) => action !== 'project:delete'), EXPECTED))(
+    'collaborator %s may %s: %s',
+    async (role, action, allowed) => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ collaboratorRole: role }))
+      const result = await authorizeProject(USER, 'project-1', action)
+      expect(result).toEqual(
+        allowed
+          ? { ok: true, role, projectId: 'project-1', ownerId: OTHER, organizationId: 'org-1' }
+          : { ok: false, status: 403 }
+      )
+    }
+  )
+
+  describe('project:delete', () => {
+    it('is refused to collaborators given the OWNER role', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ collaboratorRole: 'OWNER' }))
+      expect(await authorizeProject(USER, 'project-1', 'project:delete')).toEqual({ ok: false, status: 403 })
+    })
+
+    it('is allowed to the owner of record while in the workspace', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ ownerId: USER, workspaceRole: 'MEMBER' }))
+      expect(await authorizeProject(USER, 'project-1', 'project:delete')).toMatchObject({ ok: true, role: 'OWNER' })
+    })
+
+    it('404s owners of record who left the workspace', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ ownerId: USER }))
+      expect(await authorizeProject(USER, 'project-1', 'project:delete')).toEqual({ ok: false, status: 404 })
+    })
+
+    it.each([
+      ['OWNER', true],
+      ['ADMIN', true],
+      ['MEMBER', false],
+    ] as const)('workspace %s may delete: %s', async (workspaceRole, allowed) => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ workspaceRole }))
+      const result = await authorizeProject(USER, 'project-1', 'project:delete')
+      expect(result.ok).toBe(allowed)
+      if (!result.ok) expect(result.status).toBe(403)
+    })
+  })
+
+  describe('workspaces requiring two-factor authentication', () => {
+    it('refuses members without it', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ workspaceRole: 'ADMIN', requireTwoFactor: true }))
+      expect(await authorizeProject(USER, 'project-1', 'project:view')).toEqual({
+        ok: false,
+        status: 403,
+        reason: 'two-factor-required',
+      })
+    })
+
+    it('lets members with it in', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ workspaceRole: 'ADMIN', requireTwoFactor: true }))
+      prisma.user.findUnique.mockResolvedValue({ twoFactorEnabled: true })
+      expect(await authorizeProject(USER, 'project-1', 'project:view')).toMatchObject({ ok: true, role: 'OWNER' })
+    })
+
+    it('still 404s outsiders', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ requireTwoFactor: true }))
+      expect(await authorizeProject(USER, 'project-1', 'project:view')).toEqual({ ok: false, status: 404 })
+    })
+
+    it('does not grant what the role does not allow', async () => {
+      prisma.project.findUnique.mockResolvedValue(projectRow({ collaboratorRole: 'VIEWER', requireTwoFactor: true }))
+      prisma.user.findUnique.mockResolvedValue({ twoFactorEnabled: true })
+      expect(await authorizeProject(USER, 'project-1', 'asset:create')).toEqual({ ok: false, status: 403 })
+    })
+  })
+})
+
+describe('authorizeAsset', () => {
+  it('checks the asset project', async () => {
+    prisma.asset.findUnique.mockResolvedValue({
+      id: 'asset-1',
+      projectId: 'project-1',
+      project: projectRow({ collaboratorRole: 'EDITOR' }),
+    })
+    expect(await authorizeAsset(USER, 'asset-1', 'asset:update')).toEqual({
+      ok: true,
+      role: 'EDITOR',
+      assetId: 'asset-1',
+      projectId: 'project-1',
+    })
+    expect(await authorizeAsset(USER, 'asset-1', 'project:update')).toEqual({ ok: false, status: 403 })
+  })
+
+  it('404s assets that do not exist', async () => {
+    prisma.asset.findUnique.mockResolvedValue(null)
+    expect(await authorizeAsset(USER, 'missing', 'project:view')).toEqual({ ok: false, status: 404 })
+  })
+})
+
+describe('authors', () => {
+  function annotationRow(authorId: string, fixture: ProjectFixture) {
+    return {
+      id: 'annotation-1',
+      assetId: 'asset-1',
+      authorId,
+      asset: { projectId: 'project-1', project: projectRow(fixture) },
+    }
+  }
+
+  function replyRow(authorId: string, fixture: ProjectFixture) {
+    return {
+      id: 'reply-1',
+      authorId,
+      annotationId: 'annotation-1',
+      annotation: { asset: { projectId: 'project-1', project: projectRow(fixture) } },
+    }
+  }
+
+  it.each(['annotation:update', 'annotation:delete'] as const)('viewers may %s their own annotations', async (action) => {
+    prisma.annotation.findUnique.mockResolvedValue(annotationRow(USER, { collaboratorRole: 'VIEWER' }))
+    expect(await authorizeAnnotation(USER, 'annotation-1', action)).toMatchObject({ ok: true, role: 'VIEWER' })
+  })
+
+  it.each(['annotation:update', 'annotation:delete'] as const)('viewers may not %s other annotations', async (action) => {
+    prisma.annotation.findUnique.mockResolvedValue(annotationRow(OTHER, { collaboratorRole: 'VIEWER' }))
+    expect(await authorizeAnnotation(USER, 'annotation-1', action)).toEqual({ ok: false, status: 403 })
+  })
+
+  it('404s authors who lost access to the project', async () => {
+    prisma.annotation.findUnique.mockResolvedValue(annotationRow(USER, {}))
+    expect(await authorizeAnnotation(USER, 'annotation-1', 'annotation:update')).toEqual({ ok: false, status: 404 })
+  })
+
+  it.each(['reply:update', 'reply:delete'] as const)('viewers may %s their own replies only', async (action) => {
+    prisma.reply.findUnique.mockResolvedValue(replyRow(USER, { collaboratorRole: 'VIEWER' }))
+    expect(await authorizeReply(USER, 'reply-1', action)).toMatchObject({ ok: true, role: 'VIEWER' })
+
+    prisma.reply.findUnique.mockResolvedValue(replyRow(OTHER, { collaboratorRole: 'VIEWER' }))
+    expect(await authorizeReply(USER, 'reply-1', action)).toEqual({ ok: false, status: 403 })
+  })
+
+  it('holds authors to the two-factor requirement', async () => {
+    prisma.annotation.findUnique.mockResolvedValue(annotationRow(USER, { collaboratorRole: 'VIEWER', requireTwoFactor: true }))
+    expect(await authorizeAnnotation(USER, 'annotation-1', 'annotation:update')).toMatchObject({
+      ok: false,
+      reason: 'two-factor-required',
+    })
+  })
+})
+
+describe('authorizeWorkspace', () => {
+  it('404s non-members', async () => {
+    prisma.organizationMember.findUnique.mockResolvedValue(null)
+    expect(await authorizeWorkspace(USER, 'org-1', 'workspace:view')).toEqual({ ok: false, status: 404 })
+  })
+
+  it.each(matrix(WORKSPACE_ROLES, WORKSPACE_ACTIONS, EXPECTED_WORKSPACE))(
+    'workspace %s may %s: %s',
+    async (role, action, allowed) => {
+      prisma.organizationMember.findUnique.mockResolvedValue({ role })
+      expect(await authorizeWorkspace(USER, 'org-1', action)).toEqual(
+        allowed ? { ok: true, role, organizationId: 'org-1' } : { ok: false, status: 403 }
+      )
+    }
+  )
+})
+
+describe('authorizeWebhook', () => {
+  it('takes manage-webhooks on the webhook project', async () => {
+    prisma.webhook.findUnique.mockResolvedValue({ id: 'webhook-1', projectId: 'project-1' })
+    prisma.project.findUnique.mockResolvedValue(projectRow({ collaboratorRole: 'EDITOR' }))
+    expect(await authorizeWebhook(USER, 'webhook-1')).toEqual({ ok: false, status: 403 })
+
+    prisma.project.findUnique.mockResolvedValue(projectRow({ collaboratorRole: 'OWNER' }))
+    expect(await authorizeWebhook(USER, 'webhook-1')).toMatchObject({ ok: true, webhookId: 'webhook-1' })
+  })
+})
+
+describe('accessDenied', () => {
+  it('uses the not-found message for 404s', async () => {
+    const response = accessDenied({ status: 404 }, 'Asset not found')
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: 'Asset not found' })
+  })
+
+  it('explains the two-factor requirement', async () => {
+    const response = accessDenied({ status: 403, reason: 'two-factor-required' })
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ reason: 'two-factor-required' })
+  })
+})
@@ -0,0 +1,373 @@
+/**
+ * Project-level authorization. Every API route and realtime channel asks this
+ * module whether a user may perform an action, instead of querying ownerId or
+ * collaborator roles itself.
+ *
+ * A user's role on a project is the highest of: OWNER for the project's owner
+ * of record while they are still in its workspace, the role their workspace
+ * membership implies, and the role stored on their ProjectCollaborator row.
+ *
+ * Workspaces can also require two-factor authentication: users without it keep
+ * their role but are refused (403, reason "two-factor-required") on the
+ * workspace's projects.
+ */
+import { NextResponse } from 'next/server'
+import { CollaboratorRole, OrganizationRole, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export type ProjectRole = CollaboratorRole
+
+export type WorkspaceRole = OrganizationRole
+
+export type ProjectAction =
+  | 'project:view'
+  | 'project:update'
+  | 'project:delete'
+  | 'project:manage-members'
+  | 'project:manage-sharing'
+  | 'project:manage-webhooks'
+  | 'project:manage-api-keys'
+  | 'asset:create'
+  | 'asset:update'
+  | 'asset:delete'
+  | 'annotation:create'
+  | 'annotation:update'
+  | 'annotation:delete'
+  | 'reply:create'
+  | 'reply:update'
+  | 'reply:delete'
+
+/**
+ * Which roles may perform each action. Viewers can read and join the
+ * discussion; editors also manage assets and other people's annotations;
+ * owners also manage the project itself.
+ */
+export const PERMISSIONS: Record<ProjectAction, readonly ProjectRole[]> = {
+  'project:view': ['OWNER', 'EDITOR', 'VIEWER'],
+  'project:update': ['OWNER'],
+  'project:delete': ['OWNER'],
+  'project:manage-members': ['OWNER'],
+  'project:manage-sharing': ['OWNER'],
+  'project:manage-webhooks': ['OWNER'],
+  'project:manage-api-keys': ['OWNER'],
+  'asset:create': ['OWNER', 'EDITOR'],
+  'asset:update': ['OWNER', 'EDITOR'],
+  'asset:delete': ['OWNER', 'EDITOR'],
+  'annotation:create': ['OWNER', 'EDITOR', 'VIEWER'],
+  'annotation:update': ['OWNER', 'EDITOR'],
+  'annotation:delete': ['OWNER', 'EDITOR'],
+  'reply:create': ['OWNER', 'EDITOR', 'VIEWER'],
+  'reply:update': ['OWNER', 'EDITOR'],
+  'reply:delete': ['OWNER', 'EDITOR'],
+}
+
+// Anyone who may comment may also edit or delete their own annotations and replies
+const AUTHOR_ACTIONS: readonly ProjectAction[] = ['annotation:update', 'annotation:delete', 'reply:update', 'reply:delete']
+
+export type WorkspaceAction =
+  | 'workspace:view'
+  | 'workspace:create-project'
+  | 'workspace:update'
+  | 'workspace:transfer-projects'
+  | 'workspace:manage-members'
+  | 'workspace:manage-billing'
+  | 'workspace:manage-security'
+
+/**
+ * Which workspace roles may perform each action. Billing stays with owners.
+ */
+export const WORKSPACE_PERMISSIONS: Record<WorkspaceAction, readonly WorkspaceRole[]> = {
+  'workspace:view': ['OWNER', 'ADMIN', 'MEMBER'],
+  'workspace:create-project': ['OWNER', 'ADMIN', 'MEMBER'],
+  'workspace:update': ['OWNER', 'ADMIN'],
+  // Moving a project out takes it from everyone in the workspace
+  'workspace:transfer-projects': ['OWNER', 'ADMIN'],
+  'workspace:manage-members': ['OWNER', 'ADMIN'],
+  'workspace:manage-billing': ['OWNER'],
+  'workspace:manage-security': ['OWNER'],
+}
+
+// Workspace admins run every project in the workspace; members can edit them
+const WORKSPACE_PROJECT_ROLES: Record<WorkspaceRole, ProjectRole> = {
+  OWNER: 'OWNER',
+  ADMIN: 'OWNER',
+  MEMBER: 'EDITOR',
+}
+
+export const PROJECT_ROLE_RANK: Record<ProjectRole, number> = { VIEWER: 0, EDITOR: 1, OWNER: 2 }
+
+export function hasPermission(role: ProjectRole | null, action: ProjectAction): boolean {
+  return role !== null && PERMISSIONS[action].includes(role)
+}
+
+export function hasWorkspacePermission(role: WorkspaceRole | null, action: WorkspaceAction): boolean {
+  return role !== null && WORKSPACE_PERMISSIONS[action].includes(role)
+}
+
+export type AccessDeniedReason = 'two-factor-required'
+
+export type AccessResult<T, R = ProjectRole> =
+  | ({ ok: true; role: R } & T)
+  | { ok: false; status: 403 | 404; reason?: AccessDeniedReason }
+
+/**
+ * Where clause for projects the user can see, for list queries
+ */
+export function projectMemberWhere(userId: string): Prisma.ProjectWhereInput {
+  // Owners of record only keep their projects while they're in the workspace, which the last clause covers
+  return {
+    OR: [
+      { collaborators: { some: { userId } } },
+      { organization: { members: { some: { userId } } } },
+    ],
+  }
+}
+
+export type ProjectRoleRow = {
+  ownerId: string
+  collaborators: Array<{ role: CollaboratorRole }>
+  organization: { members: Array<{ role: OrganizationRole }> }
+}
+
+/**
+ * Role from a project loaded with `projectAccessSelect`, for list queries
+ */
+export function resolveProjectRole(userId: string, project: ProjectRoleRow): ProjectRole | null {
+  const workspaceRole = project.organization.members[0]?.role
+  // Owners of record removed from the workspace lose the project with it
+  if (project.ownerId === userId && workspaceRole) return 'OWNER'
+
+  const roles = [
+    workspaceRole ? WORKSPACE_PROJECT_ROLES[workspaceRole] : null,
+    project.collaborators[0]?.role ?? null,
+  ].filter((role): role is ProjectRole => role !== null)
+
+  if (roles.length === 0) return null
+  return roles.reduce((highest, role) => (PROJECT_ROLE_RANK[role] > PROJECT_ROLE_RANK[highest] ? role : highest))
+}
+
+export function projectAccessSelect(userId: string) {
+  return {
+    id: true,
+    ownerId: true,
+    organizationId: true,
+    collaborators: {
+      where: { userId },
+      select: { role: true },
+    },
+    organization: {
+      select: {
+        requireTwoFactor: true,
+        members: {
+          where: { userId },
+          select: { role: true },
+        },
+      },
+    },
+  } satisfies Prisma.ProjectSelect
+}
+
+function decide<T>(role: ProjectRole | null, action: ProjectAction, context: T): AccessResult<T> {
+  // Non-members get a 404 so project ids can't be probed
+  if (role === null) return { ok: false, status: 404 }
+  if (!hasPermission(role, action)) return { ok: false, status: 403 }
+  return { ok: true, role, ...context }
+}
+
+/**
+ * `decide`, plus the workspace's two-factor requirement for anyone who has a role
+ */
+async function decideInWorkspace<T>(
+  userId: string,
+  project: ProjectRoleRow & { organization: { requireTwoFactor: boolean } },
+  action: ProjectAction,
+  context: T
+): Promise<AccessResult<T>> {
+  const decision = decide(resolveProjectRole(userId, project), action, context)
+  if (!decision.ok || !project.organization.requireTwoFactor) return decision
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true },
+  })
+  return user?.twoFactorEnabled ? decision : { ok: false, status: 403, reason: 'two-factor-required' }
+}
+
+export async function getProjectRole(userId: string, projectId: string): Promise<ProjectRole | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: projectAccessSelect(userId),
+  })
+  return project ? resolveProjectRole(userId, project) : null
+}
+
+export async function authorizeProject(
+  userId: string,
+  projectId: string,
+  action: ProjectAction
+): Promise<AccessResult<{ projectId: string; ownerId: string; organizationId: string }>> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: projectAccessSelect(userId),
+  })
+  if (!project) return { ok: false, status: 404 }
+
+  const context = { projectId: project.id, ownerId: project.ownerId, organizationId: project.organizationId }
+
+  // Deleting the project is reserved for its owner of record, while still in the
+  // workspace, and the workspace's admins, not collaborators who were merely given the OWNER role
+  const workspaceRole = project.organization.members[0]?.role ?? null
+  if (action === 'project:delete' && !(project.ownerId === userId && workspaceRole)) {
+    if (!hasWorkspacePermission(workspaceRole, 'workspace:update')) {
+      return resolveProjectRole(userId, project) ? { ok: false, status: 403 } : { ok: false, status: 404 }
+    }
+  }
+
+  return decideInWorkspace(userId, project, action, context)
+}
+
+export async function authorizeAsset(
+  userId: string,
+  assetId: string,
+  action: ProjectAction
+): Promise<AccessResult<{ assetId: string; projectId: string }>> {
+  const asset = await prisma.asset.findUnique({
+    where: { id: assetId },
+    select: {
+      id: true,
+      projectId: true,
+      project: { select: projectAccessSelect(userId) },
+    },
+  })
+  if (!asset) return { ok: false, status: 404 }
+
+  return decideInWorkspace(userId, asset.project, action, { assetId: asset.id, projectId: asset.projectId })
+}
+
+export async function authorizeAnnotation(
+  userId: string,
+  annotationId: string,
+  action: ProjectAction
+): Promise<AccessResult<{ annotationId: string; assetId: string; projectId: string }>> {
+  const annotation = await prisma.annotation.findUnique({
+    where: { id: annotationId },
+    select: {
+      id: true,
+      assetId: true,
+      authorId: true,
+      asset: {
+        select: {
+          projectId: true,
+          project: { select: projectAccessSelect(userId) },
+        },
+      },
+    },
+  })
+  if (!annotation) return { ok: false, status: 404 }
+
+  const role = resolveProjectRole(userId, annotation.asset.project)
+  const context = {
+    annotationId: annotation.id,
+    assetId: annotation.assetId,
+    projectId: annotation.asset.projectId,
+  }
+
+  if (role && annotation.authorId === userId && AUTHOR_ACTIONS.includes(action)) {
+    return decideInWorkspace(userId, annotation.asset.project, 'annotation:create', context)
+  }
+
+  return decideInWorkspace(userId, annotation.asset.project, action, context)
+}
+
+export async function authorizeReply(
+  userId: string,
+  replyId: string,
+  action: ProjectAction
+): Promise<AccessResult<{ replyId: string; annotationId: string; projectId: string }>> {
+  const reply = await prisma.reply.findUnique({
+    where: { id: replyId },
+    select: {
+      id: true,
+      authorId: true,
+      annotationId: true,
+      annotation: {
+        select: {
+          asset: {
+            select: {
+              projectId: true,
+              project: { select: projectAccessSelect(userId) },
+            },
+          },
+        },
+      },
+    },
+  })
+  if (!reply) return { ok: false, status: 404 }
+
+  const role = resolveProjectRole(userId, reply.annotation.asset.project)
+  const context = {
+    replyId: reply.id,
+    annotationId: reply.annotationId,
+    projectId: reply.annotation.asset.projectId,
+  }
+
+  if (role && reply.authorId === userId && AUTHOR_ACTIONS.includes(action)) {
+    return decideInWorkspace(userId, reply.annotation.asset.project, 'reply:create', context)
+  }
+
+  return decideInWorkspace(userId, reply.annotation.asset.project, action, context)
+}
+
+export async function getWorkspaceRole(userId: string, organizationId: string): Promise<WorkspaceRole | null> {
+  const member = await prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { role: true },
+  })
+  return member?.role ?? null
+}
+
+export async function authorizeWorkspace(
+  userId: string,
+  organizationId: string,
+  action: WorkspaceAction
+): Promise<AccessResult<{ organizationId: string }, WorkspaceRole>> {
+  const role = await getWorkspaceRole(userId, organizationId)
+  // Non-members get a 404, as for projects
+  if (role === null) return { ok: false, status: 404 }
+  if (!hasWorkspacePermission(role, action)) return { ok: false, status: 403 }
+  return { ok: true, role, organizationId }
+}
+
+/**
+ * Webhooks are managed by whoever may manage the project's webhooks
+ */
+export async function authorizeWebhook(
+  userId: string,
+  webhookId: string
+): Promise<AccessResult<{ webhookId: string; projectId: string }>> {
+  const webhook = await prisma.webhook.findUnique({
+    where: { id: webhookId },
+    select: { id: true, projectId: true },
+  })
+  if (!webhook) return { ok: false, status: 404 }
+
+  const access = await authorizeProject(userId, webhook.projectId, 'project:manage-webhooks')
+  return access.ok ? { ...access, webhookId: webhook.id } : access
+}
+
+/**
+ * Error response for a failed check, e.g. `if (!access.ok) return accessDenied(access, 'Asset not found')`
+ */
+export function accessDenied(result: { status: 403 | 404; reason?: AccessDeniedReason }, notFoundMessage = 'Not found') {
+  if (result.reason === 'two-factor-required') {
+    return NextResponse.json(
+      { error: 'This workspace requires two-factor authentication. Turn it on in your security settings.', reason: result.reason },
+      { status: 403 }
+    )
+  }
+
+  return NextResponse.json(
+    { error: result.status === 404 ? notFoundMessage : 'Insufficient permissions' },
+    { status: result.status }
+  )
+}
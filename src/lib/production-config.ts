@@ -28,6 +28,8 @@ export interface AuthConfig {
 }
 
 export interface StorageConfig {
+  // vercel-blob, s3 or local, as chosen by getStorage()
+  driver: string
   blobToken: string
   maxFileSize: number
   allowedTypes: string[]
@@ -83,6 +85,12 @@ export interface ConfigValidationResult {
   score: number
 }
 
+// Mirrors the default in getStorage(), without creating a driver
+function getStorageDriverName(): string {
+  return process.env.STORAGE_DRIVER
+    || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : process.env.S3_BUCKET ? 's3' : 'local')
+}
+
 // Validate production configuration
 export function validateProductionConfig(): ConfigValidationResult {
   const errors: string[] = []
@@ -94,8 +102,7 @@ export function validateProductionConfig(): ConfigValidationResult {
   const requiredVars = [
     'DATABASE_URL',
     'NEXTAUTH_SECRET',
-    'NEXTAUTH_URL',
-    'BLOB_READ_WRITE_TOKEN'
+    'NEXTAUTH_URL'
   ]
 
   requiredVars.forEach(varName => {
@@ -153,6 +160,15 @@ export function validateProductionConfig(): ConfigValidationResult {
 
   // Validate storage configuration
   const blobToken = process.env.BLOB_READ_WRITE_TOKEN
+  const storageDriver = getStorageDriverName()
+  if (storageDriver === 'local') {
+    warnings.push('Uploads are stored on the local filesystem; use Vercel Blob or S3 unless the server has a persistent disk')
+    score -= 5
+  }
+  if (storageDriver === 's3' && !(process.env.S3_BUCKET && process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY)) {
+    errors.push('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+    score -= 20
+  }
   if (blobToken) {
     if (blobToken.length < 20) {
       warnings.push('BLOB_READ_WRITE_TOKEN appears to be too short')
@@ -160,6 +176,13 @@ export function validateProductionConfig(): ConfigValidationResult {
     }
   }
 
+  // Emails carry sign-in links, so production never falls back to logging them
+  const emailTransport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+  if (emailTransport !== 'smtp' && emailTransport !== 'file') {
+    errors.push('SMTP_HOST is not set, so verification, password reset and invitation emails will not be sent')
+    score -= 20
+  }
+
   // Check optional but recommended variables
   const recommendedVars = [
     'PUSHER_APP_ID',
@@ -187,6 +210,11 @@ export function validateProductionConfig(): ConfigValidationResult {
     score -= 5
   }
 
+  if (!process.env.CRON_SECRET) {
+    warnings.push('CRON_SECRET is not set, so failed webhook deliveries and screenshot captures will not be retried and orphaned files will not be deleted')
+    score -= 5
+  }
+
   // Generate recommendations
   if (score < 90) {
     recommendations.push('Review and fix configuration issues before deploying to production')
@@ -200,6 +228,10 @@ export function validateProductionConfig(): ConfigValidationResult {
     recommendations.push('Consider setting up Stripe for subscription management')
   }
 
+  if (!process.env.SITE_PROXY_ORIGIN) {
+    recommendations.push('Consider setting SITE_PROXY_ORIGIN to a domain of its own, so proxied sites are served away from the app\'s origin')
+  }
+
   if (!process.env.SENTRY_DSN && !process.env.BUGSNAG_API_KEY) {
     recommendations.push('Consider setting up error tracking for production monitoring')
   }
@@ -231,6 +263,7 @@ export function getProductionConfig(): ProductionConfig {
       csrfProtection: process.env.CSRF_PROTECTION !== 'false'
     },
     storage: {
+      driver: getStorageDriverName(),
       blobToken: process.env.BLOB_READ_WRITE_TOKEN || '',
       maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
       allowedTypes: (process.env.ALLOWED_FILE_TYPES || 'image/*,application/pdf').split(','),
@@ -435,7 +468,7 @@ export function generateDeploymentChecklist(): Array<{
         { task: 'Set DATABASE_URL', completed: !!config.database.url, critical: true },
         { task: 'Set NEXTAUTH_SECRET', completed: !!config.authentication.secret, critical: true },
         { task: 'Set NEXTAUTH_URL', completed: !!config.authentication.url, critical: true },
-        { task: 'Set BLOB_READ_WRITE_TOKEN', completed: !!config.storage.blobToken, critical: true },
+        { task: 'Configure Vercel Blob or S3 storage', completed: config.storage.driver !== 'local', critical: false },
         { task: 'Configure Pusher (optional)', completed: !!config.realtime.key, critical: false },
         { task: 'Set NODE_ENV=production', completed: process.env.NODE_ENV === 'production', critical: true }
       ]
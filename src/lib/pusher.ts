@@ -28,6 +28,7 @@ export const pusherClient = process.env.NEXT_PUBLIC_PUSHER_KEY ? new PusherClien
 export const getProjectChannel = (projectId: string) => `project-${projectId}`
 export const getAssetChannel = (assetId: string) => `asset-${assetId}`
 export const getPresenceChannel = (assetId: string) => `presence-asset-${assetId}`
+export const getUserChannel = (userId: string) => `private-user-${userId}`
 
 // Event names
 export const PUSHER_EVENTS = {
@@ -38,4 +39,7 @@ export const PUSHER_EVENTS = {
   CURSOR_MOVED: 'cursor:moved',
   USER_JOINED: 'user:joined',
   USER_LEFT: 'user:left',
+  NOTIFICATION_CREATED: 'notification:created',
+  NOTIFICATIONS_READ: 'notifications:read',
+  SCREENSHOT_JOB_UPDATED: 'screenshot-job:updated',
 } as const
\ No newline at end of file
@@ -0,0 +1,203 @@
+import crypto from 'crypto'
+import { NextResponse } from 'next/server'
+import { createRedisClient, RedisClient } from '@/lib/redis'
+
+/**
+ * Fixed-window rate limiting for guest and public endpoints. Each route names
+ * a policy, and a request is counted once per identity it carries (client IP,
+ * share link or API token, signed-in user), so one noisy guest can't exhaust
+ * a share link for everyone, and a shared office IP doesn't lock out a whole link.
+ */
+
+export interface RateLimitStore {
+  name: string
+  // Count a hit in the window for key, starting the window on the first hit
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>
+}
+
+export type RateLimitDimension = 'ip' | 'token' | 'user'
+
+export interface RateLimitPolicy {
+  windowMs: number
+  limits: Partial<Record<RateLimitDimension, number>>
+}
+
+const MINUTE = 60 * 1000
+
+export const RATE_LIMIT_POLICIES = {
+  'guest-annotation': { windowMs: 10 * MINUTE, limits: { ip: 20, token: 200 } },
+  'guest-reply': { windowMs: 10 * MINUTE, limits: { ip: 30, token: 300 } },
+  'guest-challenge': { windowMs: MINUTE, limits: { ip: 30 } },
+  'screenshot-upload': { windowMs: 10 * MINUTE, limits: { ip: 30, token: 200, user: 60 } },
+  // Captures queue for the server's browser pool; an annotation can take up to three
+  'screenshot-capture': { windowMs: 60 * MINUTE, limits: { ip: 90, user: 60 } },
+  'share-link-unlock': { windowMs: 15 * MINUTE, limits: { ip: 10, token: 50 } },
+  // Both send email, so keep them from being used to flood an inbox
+  'verification-email': { windowMs: 60 * MINUTE, limits: { ip: 20, user: 5 } },
+  'password-reset': { windowMs: 60 * MINUTE, limits: { ip: 10, user: 5 } },
+  // Six-digit codes only hold up if guessing is slow
+  'two-factor': { windowMs: 15 * MINUTE, limits: { ip: 30, user: 10 } },
+  // Passwords too, per account (by the email tried) as well as per address
+  'sign-in': { windowMs: 15 * MINUTE, limits: { ip: 30, user: 10 } },
+  // Public API, per token
+  'api': { windowMs: MINUTE, limits: { token: 300 } },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+export type RateLimitIdentity = Partial<Record<RateLimitDimension, string | null | undefined>>
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; retryAfter: number; limit: number; dimension: RateLimitDimension }
+
+const MEMORY_STORE_SWEEP_SIZE = 10000
+
+/**
+ * Counts in process memory. Limits are per server instance, so use it for development only.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    name: 'memory',
+    async increment(key, windowMs) {
+      const now = Date.now()
+      if (windows.size > MEMORY_STORE_SWEEP_SIZE) {
+        for (const [storedKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(storedKey)
+        }
+      }
+
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+      window.count += 1
+      return { ...window }
+    },
+  }
+}
+
+/**
+ * Counts in any Redis-compatible server, shared by every instance
+ */
+export function createRedisStore(client: RedisClient): RateLimitStore {
+  return {
+    name: 'redis',
+    async increment(key, windowMs) {
+      // Pipelined: create the window with its expiry if missing, then count
+      const [, count, ttl] = await Promise.all([
+        client.command('SET', key, 0, 'PX', windowMs, 'NX'),
+        client.command('INCR', key),
+        client.command('PTTL', key),
+      ])
+      return {
+        count: Number(count),
+        resetAt: Date.now() + (Number(ttl) > 0 ? Number(ttl) : windowMs),
+      }
+    },
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null
+
+/**
+ * Store chosen by RATE_LIMIT_STORE (memory or redis). Defaults to Redis when
+ * RATE_LIMIT_REDIS_URL or REDIS_URL is set and to memory otherwise.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    const redisUrl = process.env.RATE_LIMIT_REDIS_URL || process.env.REDIS_URL
+    const store = process.env.RATE_LIMIT_STORE || (redisUrl ? 'redis' : 'memory')
+    rateLimitStore = store === 'redis'
+      ? createRedisStore(createRedisClient(redisUrl || 'redis://127.0.0.1:6379'))
+      : createMemoryStore()
+  }
+  return rateLimitStore
+}
+
+/**
+ * Swap the store, e.g. for a fresh in-memory one in tests
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  rateLimitStore = store
+}
+
+/**
+ * Client IP from the proxy headers the deployment sets. Each proxy appends the
+ * address it was connected from to X-Forwarded-For, so only the last
+ * TRUSTED_PROXY_HOPS entries (default 1, the platform's own proxy) were added
+ * by us; anything left of them is whatever the client sent.
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1)
+    const entries = forwarded.split(',').map((entry) => entry.trim()).filter(Boolean)
+    const address = entries[Math.max(0, entries.length - hops)]
+    if (address) return address
+  }
+  return request.headers.get('x-real-ip') || 'unknown'
+}
+
+// Tokens and addresses are hashed so the store never holds them in the clear
+function hashIdentity(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 32)
+}
+
+/**
+ * Count a request against every identity it carries. Fails open when the store
+ * is unreachable, so a cache outage doesn't take the API down with it.
+ */
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  identity: RateLimitIdentity
+): Promise<RateLimitResult> {
+  if (process.env.RATE_LIMITING === 'false') return { ok: true }
+
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName]
+  const store = getRateLimitStore()
+  let denied: RateLimitResult = { ok: true }
+
+  for (const [dimension, limit] of Object.entries(policy.limits) as [RateLimitDimension, number][]) {
+    const value = identity[dimension]
+    if (!value) continue
+
+    try {
+      const { count, resetAt } = await store.increment(
+        `rl:${policyName}:${dimension}:${hashIdentity(value)}`,
+        policy.windowMs
+      )
+      if (count > limit) {
+        const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+        // Report the identity that frees up last
+        if (denied.ok || retryAfter > denied.retryAfter) {
+          denied = { ok: false, retryAfter, limit, dimension }
+        }
+      }
+    } catch (error) {
+      console.error(`Rate limit store "${store.name}" failed:`, error)
+      return { ok: true }
+    }
+  }
+
+  return denied
+}
+
+/**
+ * 429 response for a failed check, e.g. `if (!limit.ok) return rateLimitExceeded(limit)`
+ */
+export function rateLimitExceeded(result: { retryAfter: number; limit: number }) {
+  return NextResponse.json(
+    { error: 'Too many requests. Please try again later.', retryAfter: result.retryAfter },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfter),
+        'X-RateLimit-Limit': String(result.limit),
+      },
+    }
+  )
+}
@@ -1,20 +1,34 @@
-import { pusherServer, PUSHER_EVENTS, getAssetChannel } from './pusher'
+import { pusherServer, PUSHER_EVENTS, getAssetChannel, getUserChannel } from './pusher'
 
 export interface AnnotationEvent {
   id: string
   assetId: string
   authorId: string | null
+  type: 'COMMENT' | 'RECTANGLE' | 'ARROW' | 'TEXT'
   position: {
     x: number
     y: number
+    width?: number
+    height?: number
   }
+  strokeColor?: string | null
   content: string
   status: 'OPEN' | 'RESOLVED'
   createdAt: string
   updatedAt: string
   screenshot: string
+  screenshots?: {
+    kind: 'VIEWPORT' | 'FULL_PAGE' | 'ELEMENT'
+    url: string
+    width: number | null
+    height: number | null
+  }[]
   pageUrl: string
+  pageNumber?: number | null
+  versionId?: string | null
+  originVersionId?: string | null
   metadata: Record<string, unknown>
+  anchor?: Record<string, unknown> | null
   guestName?: string | null
   guestEmail?: string | null
   author: {
@@ -47,6 +61,37 @@ export interface CursorEvent {
   timestamp: number
 }
 
+export interface NotificationEvent {
+  id: string
+  type: 'MENTION' | 'REPLY' | 'ASSIGNMENT' | 'STATUS_CHANGE' | 'GUEST_FEEDBACK' | 'NEW_ANNOTATION'
+  title: string
+  body: string | null
+  url: string | null
+  readAt: string | null
+  createdAt: string
+  actor: {
+    id: string
+    name: string | null
+    email: string
+    image: string | null
+  } | null
+}
+
+export interface ScreenshotJobEvent {
+  id: string
+  userId: string
+  status: 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+  attempts: number
+  error: string | null
+  createdAt: string
+  completedAt: string | null
+  result: {
+    url: string
+    filename: string
+    size: number
+  } | null
+}
+
 export class RealtimeService {
   static async broadcastAnnotationCreated(assetId: string, annotation: AnnotationEvent) {
     try {
@@ -112,4 +157,43 @@ export class RealtimeService {
       console.error('Failed to broadcast cursor moved:', error)
     }
   }
-}
\ No newline at end of file
+
+  static async broadcastNotificationCreated(userId: string, notification: NotificationEvent, unreadCount: number) {
+    try {
+      if (!pusherServer) return
+      await pusherServer.trigger(
+        getUserChannel(userId),
+        PUSHER_EVENTS.NOTIFICATION_CREATED,
+        { notification, unreadCount }
+      )
+    } catch (error) {
+      console.error('Failed to broadcast notification created:', error)
+    }
+  }
+
+  static async broadcastNotificationsRead(userId: string, ids: string[] | 'all', unreadCount: number) {
+    try {
+      if (!pusherServer) return
+      await pusherServer.trigger(
+        getUserChannel(userId),
+        PUSHER_EVENTS.NOTIFICATIONS_READ,
+        { ids, unreadCount }
+      )
+    } catch (error) {
+      console.error('Failed to broadcast notifications read:', error)
+    }
+  }
+
+  static async broadcastScreenshotJobUpdated(userId: string, job: ScreenshotJobEvent) {
+    try {
+      if (!pusherServer) return
+      await pusherServer.trigger(
+        getUserChannel(userId),
+        PUSHER_EVENTS.SCREENSHOT_JOB_UPDATED,
+        job
+      )
+    } catch (error) {
+      console.error('Failed to broadcast screenshot job updated:', error)
+    }
+  }
+}
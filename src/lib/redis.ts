@@ -0,0 +1,144 @@
+import net from 'net'
+import tls from 'tls'
+
+/**
+ * Minimal client for Redis-compatible servers (Redis, Valkey, KeyDB, or a
+ * local stand-in that speaks RESP). Commands sent without awaiting are
+ * pipelined on one connection and resolve in order.
+ */
+
+export type RedisReply = string | number | null | RedisReply[]
+
+export interface RedisClient {
+  command(...args: (string | number)[]): Promise<RedisReply>
+  close(): void
+}
+
+const COMMAND_TIMEOUT_MS = 2000
+
+function encodeCommand(args: (string | number)[]): string {
+  let out = `*${args.length}\r\n`
+  for (const arg of args) {
+    const value = String(arg)
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }
+  return out
+}
+
+/**
+ * Parse one reply starting at offset, or return null if the buffer doesn't hold all of it yet
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RedisReply | Error; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, next }
+    case '-':
+      return { value: new Error(line), next }
+    case ':':
+      return { value: Number(line), next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { value: null, next }
+      if (buffer.length < next + length + 2) return null
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { value: null, next }
+      const items: RedisReply[] = []
+      let cursor = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor)
+        if (!item) return null
+        items.push(item.value instanceof Error ? null : item.value)
+        cursor = item.next
+      }
+      return { value: items, next: cursor }
+    }
+    default:
+      return { value: new Error(`Unexpected reply type "${type}"`), next: buffer.length }
+  }
+}
+
+/**
+ * Connect lazily to a redis:// or rediss:// URL, reconnecting on the next command after a failure
+ */
+export function createRedisClient(url: string): RedisClient {
+  const parsed = new URL(url)
+  const pending: { resolve: (value: RedisReply) => void; reject: (error: Error) => void }[] = []
+  let socket: net.Socket | null = null
+  let buffer = Buffer.alloc(0)
+
+  const failAll = (source: net.Socket, error: Error) => {
+    // Events from a connection that was already replaced don't concern the current one
+    if (socket !== source) return
+    source.destroy()
+    socket = null
+    buffer = Buffer.alloc(0)
+    pending.splice(0).forEach((entry) => entry.reject(error))
+  }
+
+  const connect = () => {
+    const port = Number(parsed.port) || 6379
+    const host = parsed.hostname || '127.0.0.1'
+    const next = parsed.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port })
+
+    next.setTimeout(COMMAND_TIMEOUT_MS)
+    // The socket timeout also fires while idle, which is fine
+    next.on('timeout', () => {
+      if (pending.length > 0) failAll(next, new Error('Redis command timed out'))
+    })
+    next.on('error', (error) => failAll(next, error))
+    next.on('close', () => failAll(next, new Error('Redis connection closed')))
+    next.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let offset = 0
+      while (offset < buffer.length) {
+        const reply = parseReply(buffer, offset)
+        if (!reply) break
+        offset = reply.next
+        const entry = pending.shift()
+        if (reply.value instanceof Error) entry?.reject(reply.value)
+        else entry?.resolve(reply.value)
+      }
+      buffer = buffer.subarray(offset)
+    })
+
+    socket = next
+
+    // Authenticate and pick the database before anything else is written
+    const password = decodeURIComponent(parsed.password)
+    if (password) {
+      const username = decodeURIComponent(parsed.username)
+      send(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => {})
+    }
+    const db = parsed.pathname.slice(1)
+    if (db) send(['SELECT', db]).catch(() => {})
+  }
+
+  const send = (args: (string | number)[]) =>
+    new Promise<RedisReply>((resolve, reject) => {
+      pending.push({ resolve, reject })
+      socket!.write(encodeCommand(args))
+    })
+
+  return {
+    command(...args) {
+      if (!socket) connect()
+      return send(args)
+    },
+    close() {
+      socket?.end()
+      socket = null
+    },
+  }
+}
@@ -0,0 +1,196 @@
+import crypto from 'crypto'
+
+/**
+ * Minimal client for S3-compatible object stores (AWS S3, Cloudflare R2,
+ * MinIO, Backblaze B2, ...). Requests are signed with AWS Signature Version 4,
+ * in the headers for API calls and in the query string for presigned URLs.
+ */
+
+export interface S3Config {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  // For stores other than AWS, e.g. https://<account>.r2.cloudflarestorage.com
+  endpoint?: string
+  // Address the bucket as endpoint/bucket instead of bucket.endpoint, as MinIO expects
+  forcePathStyle?: boolean
+}
+
+export interface S3Object {
+  key: string
+  size: number
+  lastModified: Date
+}
+
+export interface S3Client {
+  putObject(key: string, body: Buffer, options: { contentType: string; cacheControl?: string }): Promise<void>
+  deleteObject(key: string): Promise<void>
+  // One page of the bucket's objects, continued with the returned token until it is null
+  listObjects(continuationToken?: string | null): Promise<{ objects: S3Object[]; continuationToken: string | null }>
+  // GET URL that stops working after expiresIn seconds (at most 7 days)
+  presignGetObject(key: string, expiresIn: number): string
+  // Unsigned URL of an object, readable when the bucket allows public reads
+  objectUrl(key: string): string
+}
+
+const SERVICE = 's3'
+const ALGORITHM = 'AWS4-HMAC-SHA256'
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60
+const REQUEST_TIMEOUT_MS = 30000
+
+// encodeURIComponent leaves !'()* alone, which SigV4 wants escaped
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/')
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXml(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity])
+}
+
+// Text of the first <tag> in a fragment of an S3 XML response
+function xmlText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : null
+}
+
+function canonicalQuery(params: Record<string, string>): string {
+  return Object.keys(params)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+    .join('&')
+}
+
+export function createS3Client(config: S3Config): S3Client {
+  const endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`)
+  const host = config.forcePathStyle ? endpoint.host : `${config.bucket}.${endpoint.host}`
+  const basePath = config.forcePathStyle ? `/${encodeRfc3986(config.bucket)}` : ''
+
+  const objectPath = (key: string) => `${basePath}/${encodeKey(key)}`
+
+  const scopeFor = (date: Date) => {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    return { amzDate, dateStamp, credentialScope: `${dateStamp}/${config.region}/${SERVICE}/aws4_request` }
+  }
+
+  const sign = (dateStamp: string, credentialScope: string, amzDate: string, canonicalRequest: string) => {
+    const stringToSign = [ALGORITHM, amzDate, credentialScope, sha256Hex(canonicalRequest)].join('\n')
+    const dateKey = hmac(`AWS4${config.secretAccessKey}`, dateStamp)
+    const signingKey = hmac(hmac(hmac(dateKey, config.region), SERVICE), 'aws4_request')
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+  }
+
+  const request = async (
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+    params: Record<string, string> = {}
+  ) => {
+    const { amzDate, dateStamp, credentialScope } = scopeFor(new Date())
+    const path = objectPath(key)
+    const query = canonicalQuery(params)
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': body ? sha256Hex(body) : sha256Hex(''),
+      'x-amz-date': amzDate,
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([name, value]) => [name.toLowerCase(), value])),
+    }
+
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      path,
+      query,
+      signedHeaders.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaders.join(';'),
+      headers['x-amz-content-sha256'],
+    ].join('\n')
+    const signature = sign(dateStamp, credentialScope, amzDate, canonicalRequest)
+
+    const response = await fetch(`${endpoint.protocol}//${host}${path}${query && `?${query}`}`, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `${ALGORITHM} Credential=${config.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`S3 ${method} ${key} failed with ${response.status}: ${text.slice(0, 200)}`)
+    }
+    return response
+  }
+
+  return {
+    async putObject(key, body, { contentType, cacheControl }) {
+      await request('PUT', key, body, {
+        'content-type': contentType,
+        ...(cacheControl && { 'cache-control': cacheControl }),
+      })
+    },
+
+    async deleteObject(key) {
+      // S3 answers 204 whether or not the object existed
+      await request('DELETE', key)
+    },
+
+    async listObjects(continuationToken) {
+      // The bucket itself is the object with an empty key
+      const response = await request('GET', '', undefined, {}, {
+        'list-type': '2',
+        ...(continuationToken && { 'continuation-token': continuationToken }),
+      })
+      const xml = await response.text()
+
+      const objects = Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g), ([, contents]) => ({
+        key: xmlText(contents, 'Key') ?? '',
+        size: Number(xmlText(contents, 'Size') ?? 0),
+        lastModified: new Date(xmlText(contents, 'LastModified') ?? 0),
+      }))
+
+      return {
+        objects,
+        continuationToken: xmlText(xml, 'IsTruncated') === 'true' ? xmlText(xml, 'NextContinuationToken') : null,
+      }
+    },
+
+    presignGetObject(key, expiresIn) {
+      const { amzDate, dateStamp, credentialScope } = scopeFor(new Date())
+      const path = objectPath(key)
+      const query = canonicalQuery({
+        'X-Amz-Algorithm': ALGORITHM,
+        'X-Amz-Credential': `${config.accessKeyId}/${credentialScope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(Math.min(Math.max(Math.floor(expiresIn), 1), MAX_PRESIGN_SECONDS)),
+        'X-Amz-SignedHeaders': 'host',
+      })
+      const canonicalRequest = ['GET', path, query, `host:${host}\n`, 'host', UNSIGNED_PAYLOAD].join('\n')
+      const signature = sign(dateStamp, credentialScope, amzDate, canonicalRequest)
+      return `${endpoint.protocol}//${host}${path}?${query}&X-Amz-Signature=${signature}`
+    },
+
+    objectUrl(key) {
+      return `${endpoint.protocol}//${host}${objectPath(key)}`
+    },
+  }
+}
@@ -0,0 +1,332 @@
+import { after } from 'next/server'
+import { Prisma, ScreenshotJob } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getBrowserPool } from '@/lib/browser-pool'
+import { uploadFile } from '@/lib/storage'
+import { checkStorageLimit } from '@/lib/subscription-limits'
+import { RealtimeService, ScreenshotJobEvent } from '@/lib/realtime'
+import { resolvePublicAddress } from '@/lib/outbound-requests'
+import { allowsPrivateSites, isProxyableUrl } from '@/lib/site-proxy'
+import {
+  getElementCrop,
+  PIN_BORDER_COLOR,
+  PIN_BORDER_WIDTH,
+  PIN_COLOR,
+  PIN_RADIUS,
+} from '@/lib/annotation-screenshots'
+
+/**
+ * Server-side captures run as queued jobs on the shared browser pool, so a
+ * burst of annotations waits its turn instead of launching a browser per
+ * request. A job is run right after the request that queued it, and the cron
+ * route retries failed captures and picks up jobs a crashed worker left
+ * running. The requester polls the job or is sent it on their user channel
+ * once it has finished.
+ *
+ * Pages are user-supplied, so like the site proxy a capture must not reach
+ * our own network: the page's URL is checked when the job is queued and
+ * again when it runs, and the browser pool's egress proxy checks every
+ * request the page makes while it's captured.
+ */
+
+// Slow or flaky pages get a few tries before a capture is given up on
+export const MAX_CAPTURE_ATTEMPTS = 3
+const BASE_RETRY_DELAY_MS = 15 * 1000
+const NAVIGATION_TIMEOUT_MS = 30 * 1000
+// Time box for the whole capture, navigation included
+const CAPTURE_TIMEOUT_MS = 45 * 1000
+// A claimed job is hidden from other workers for this long, well past the time box
+const CAPTURE_LEASE_MS = 2 * 60 * 1000
+// Jobs a user can have waiting or running at once, enough for a few annotations' screenshots
+export const MAX_ACTIVE_JOBS_PER_USER = 10
+// Finished jobs are kept this long for polling clients
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000
+
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 }
+
+export const PRIVATE_PAGE_ERROR = 'Only pages on the public internet can be captured'
+
+export interface ScreenshotRequest {
+  url: string
+  viewport?: { width: number; height: number }
+  selector?: string
+  // Where to draw the pin on the element crop, as fractions of the element's size
+  pin?: { x: number; y: number }
+  fullPage: boolean
+}
+
+export function serializeScreenshotJob(job: ScreenshotJob): ScreenshotJobEvent {
+  return {
+    id: job.id,
+    userId: job.userId,
+    status: job.status,
+    attempts: job.attempts,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+    result: job.status === 'SUCCEEDED' && job.resultUrl && job.resultKey
+      ? { url: job.resultUrl, filename: job.resultKey, size: job.resultSize ?? 0 }
+      : null,
+  }
+}
+
+/**
+ * Whether a page may be captured: an http(s) URL whose host resolves to
+ * public addresses only
+ */
+export async function isCapturableUrl(url: string): Promise<boolean> {
+  if (!isProxyableUrl(url)) return false
+  try {
+    await resolvePublicAddress(new URL(url).hostname, { allowPrivate: allowsPrivateSites() })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function countActiveScreenshotJobs(userId: string): Promise<number> {
+  return prisma.screenshotJob.count({
+    where: { userId, status: { in: ['PENDING', 'RUNNING'] } },
+  })
+}
+
+/**
+ * Queue a capture and run it once the current response has been returned.
+ * Must be called while handling a request.
+ */
+export async function enqueueScreenshotJob(
+  userId: string,
+  organizationId: string,
+  request: ScreenshotRequest
+): Promise<ScreenshotJob> {
+  const job = await prisma.screenshotJob.create({
+    data: {
+      userId,
+      organizationId,
+      url: request.url,
+      viewport: request.viewport ?? Prisma.DbNull,
+      selector: request.selector,
+      pin: request.pin ?? Prisma.DbNull,
+      fullPage: request.fullPage,
+    },
+  })
+
+  after(async () => {
+    await processScreenshotJobs({ ids: [job.id] })
+  })
+
+  return job
+}
+
+function getRetryDelay(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)
+}
+
+/**
+ * Hide a due job from other workers and count the attempt. Running jobs are
+ * only due once their lease has run out, i.e. the worker running them died.
+ */
+async function claimJob(job: Pick<ScreenshotJob, 'id' | 'status' | 'nextAttemptAt'>): Promise<ScreenshotJob | null> {
+  const { count } = await prisma.screenshotJob.updateMany({
+    where: { id: job.id, status: job.status, nextAttemptAt: job.nextAttemptAt },
+    data: {
+      status: 'RUNNING',
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(Date.now() + CAPTURE_LEASE_MS),
+    },
+  })
+  if (count !== 1) return null
+  return prisma.screenshotJob.findUnique({ where: { id: job.id } })
+}
+
+/**
+ * Capture the page, or a crop around the selected element with the pin drawn
+ * on it. Returns null when the element isn't on the page.
+ */
+async function capturePage(job: ScreenshotJob): Promise<Buffer | null> {
+  const viewport = (job.viewport as ScreenshotRequest['viewport'] | null) ?? DEFAULT_VIEWPORT
+  const pin = job.pin as ScreenshotRequest['pin'] | null
+
+  return getBrowserPool().withPage(async (page) => {
+    await page.setViewport(viewport)
+    await page.goto(job.url, {
+      waitUntil: 'networkidle2',
+      timeout: NAVIGATION_TIMEOUT_MS,
+    })
+
+    if (!job.selector) {
+      return Buffer.from(await page.screenshot({ type: 'png', fullPage: job.fullPage }))
+    }
+
+    // In document coordinates, which is what screenshot clips use
+    const layout = await page.evaluate((selector) => {
+      let element: Element | null = null
+      try {
+        element = document.querySelector(selector)
+      } catch {
+        // Invalid selector
+      }
+      if (!element) return null
+      const rect = element.getBoundingClientRect()
+      return {
+        element: { x: rect.left + window.scrollX, y: rect.top + window.scrollY, width: rect.width, height: rect.height },
+        page: { x: 0, y: 0, width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight },
+      }
+    }, job.selector)
+
+    if (!layout) return null
+
+    const pinPoint = {
+      x: layout.element.x + layout.element.width * (pin?.x ?? 0.5),
+      y: layout.element.y + layout.element.height * (pin?.y ?? 0.5),
+    }
+
+    if (pin) {
+      await page.evaluate((point, style) => {
+        const marker = document.createElement('div')
+        Object.assign(marker.style, {
+          position: 'absolute',
+          left: `${point.x - style.radius}px`,
+          top: `${point.y - style.radius}px`,
+          width: `${style.radius * 2}px`,
+          height: `${style.radius * 2}px`,
+          boxSizing: 'border-box',
+          borderRadius: '50%',
+          background: style.color,
+          border: `${style.borderWidth}px solid ${style.borderColor}`,
+          boxShadow: '0 0 4px rgba(0, 0, 0, 0.3)',
+          zIndex: '2147483647',
+          pointerEvents: 'none',
+        })
+        document.documentElement.appendChild(marker)
+      }, pinPoint, { radius: PIN_RADIUS, color: PIN_COLOR, borderColor: PIN_BORDER_COLOR, borderWidth: PIN_BORDER_WIDTH })
+    }
+
+    const clip = getElementCrop(layout.element, pinPoint, layout.page)
+    return Buffer.from(await page.screenshot({ type: 'png', clip }))
+  }, { timeoutMs: CAPTURE_TIMEOUT_MS })
+}
+
+async function finishJob(job: ScreenshotJob, data: Prisma.ScreenshotJobUpdateInput) {
+  const finished = await prisma.screenshotJob.update({
+    where: { id: job.id },
+    data: { ...data, completedAt: new Date() },
+  })
+  await RealtimeService.broadcastScreenshotJobUpdated(finished.userId, serializeScreenshotJob(finished))
+  return finished
+}
+
+/**
+ * Capture and store one claimed job, scheduling a retry on failure
+ */
+async function runJob(job: ScreenshotJob): Promise<boolean> {
+  if (job.attempts > MAX_CAPTURE_ATTEMPTS) {
+    // Its last worker died mid-capture
+    await finishJob(job, { status: 'FAILED', error: job.error ?? 'Capture did not finish' })
+    return false
+  }
+
+  // Where the host points may have changed since the job was queued
+  if (!await isCapturableUrl(job.url)) {
+    await finishJob(job, { status: 'FAILED', error: PRIVATE_PAGE_ERROR })
+    return false
+  }
+
+  let image: Buffer | null
+  try {
+    image = await capturePage(job)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Capture failed'
+
+    if (job.attempts >= MAX_CAPTURE_ATTEMPTS) {
+      await finishJob(job, { status: 'FAILED', error: message })
+    } else {
+      await prisma.screenshotJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'PENDING',
+          error: message,
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+        },
+      })
+    }
+    return false
+  }
+
+  if (!image) {
+    // The page is as it will be on a retry, so there's no point in one
+    await finishJob(job, { status: 'FAILED', error: 'Element not found on the page' })
+    return false
+  }
+
+  const storageCheck = await checkStorageLimit(job.organizationId, image.length)
+  if (!storageCheck.canUpload) {
+    await finishJob(job, { status: 'FAILED', error: 'Storage limit reached' })
+    return false
+  }
+
+  const stored = await uploadFile('screenshots', image, 'image/png')
+  await finishJob(job, {
+    status: 'SUCCEEDED',
+    error: null,
+    resultUrl: stored.url,
+    resultKey: stored.key,
+    resultSize: stored.size,
+  })
+  return true
+}
+
+/**
+ * Run due jobs. Called right after the request that queued them and by the
+ * cron route, which also picks up retries and jobs whose worker died.
+ * Captures are run one after another; the browser pool caps how many run at
+ * once across the workers in the process.
+ */
+export async function processScreenshotJobs(options: { ids?: string[]; limit?: number } = {}) {
+  const due = await prisma.screenshotJob.findMany({
+    where: {
+      status: { in: ['PENDING', 'RUNNING'] },
+      nextAttemptAt: { lte: new Date() },
+      ...(options.ids ? { id: { in: options.ids } } : {}),
+    },
+    select: { id: true, status: true, nextAttemptAt: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: options.limit ?? 20,
+  })
+
+  let succeeded = 0
+  let failed = 0
+
+  for (const candidate of due) {
+    const job = await claimJob(candidate)
+    if (!job) continue
+
+    try {
+      if (await runJob(job)) {
+        succeeded++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      // Left running, so the cron route retries it once the lease runs out
+      console.error(`Screenshot job ${job.id} errored:`, error)
+      failed++
+    }
+  }
+
+  return { processed: succeeded + failed, succeeded, failed }
+}
+
+/**
+ * Delete finished jobs past their retention. The screenshots themselves are
+ * files like any other upload and are cleaned up by storage reconciliation.
+ */
+export async function pruneScreenshotJobs(now = new Date()): Promise<number> {
+  const { count } = await prisma.screenshotJob.deleteMany({
+    where: {
+      status: { in: ['SUCCEEDED', 'FAILED'] },
+      completedAt: { lt: new Date(now.getTime() - FINISHED_JOB_RETENTION_MS) },
+    },
+  })
+  return count
+}
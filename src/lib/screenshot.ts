@@ -1,10 +1,16 @@
 import html2canvas from 'html2canvas'
+import { findAnchoredElement, ElementAnchor } from '@/lib/dom-anchor'
+import { drawPin, getElementCrop, Rect, ScreenshotKind } from '@/lib/annotation-screenshots'
 
 export interface ScreenshotOptions {
   element?: HTMLElement
   width?: number
   height?: number
   quality?: number
+  // Crop origin in document coordinates, e.g. the current scroll position
+  x?: number
+  y?: number
+  ignoreElements?: (element: Element) => boolean
 }
 
 export interface ScreenshotResult {
@@ -14,56 +20,6 @@ export interface ScreenshotResult {
   height: number
 }
 
-/**
- * Capture screenshot of iframe content using html2canvas
- * This is the primary method for capturing screenshots of iframe content
- */
-export async function captureIframeScreenshot(
-  iframe: HTMLIFrameElement,
-  options: ScreenshotOptions = {}
-): Promise<ScreenshotResult> {
-  try {
-    // Get iframe document
-    const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document
-    if (!iframeDoc) {
-      throw new Error('Cannot access iframe content - likely cross-origin')
-    }
-
-    // Capture the iframe body
-    const canvas = await html2canvas(iframeDoc.body, {
-      allowTaint: true,
-      useCORS: true,
-      scale: 1,
-      width: options.width || iframe.clientWidth,
-      height: options.height || iframe.clientHeight,
-      scrollX: 0,
-      scrollY: 0
-    })
-
-    // Convert to blob
-    const dataUrl = canvas.toDataURL('image/png', options.quality || 0.9)
-    
-    return new Promise((resolve) => {
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          throw new Error('Failed to create blob from canvas')
-        }
-        
-        resolve({
-          dataUrl,
-          blob,
-          width: canvas.width,
-          height: canvas.height
-        })
-      }, 'image/png', options.quality || 0.9)
-    })
-
-  } catch (error) {
-    console.error('Client-side screenshot capture failed:', error)
-    throw error
-  }
-}
-
 /**
  * Capture screenshot of any DOM element
  */
@@ -77,7 +33,10 @@ export async function captureElementScreenshot(
       useCORS: true,
       scale: 1,
       width: options.width || element.clientWidth,
-      height: options.height || element.clientHeight
+      height: options.height || element.clientHeight,
+      x: options.x,
+      y: options.y,
+      ignoreElements: options.ignoreElements
     })
 
     const dataUrl = canvas.toDataURL('image/png', options.quality || 0.9)
@@ -103,94 +62,133 @@ export async function captureElementScreenshot(
   }
 }
 
+export interface DocumentScreenshotOptions {
+  // The element the pin was placed on, cropped to with the pin drawn where it was placed
+  anchor?: ElementAnchor | null
+  fullPage?: boolean
+  ignoreElements?: (element: Element) => boolean
+}
+
+export interface CapturedScreenshot extends ScreenshotResult {
+  kind: ScreenshotKind
+}
+
+// Taller pages are cut off, as browsers can't draw canvases much bigger
+const MAX_FULL_PAGE_HEIGHT = 10000
+
+function toScreenshotResult(canvas: HTMLCanvasElement): Promise<ScreenshotResult> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to create blob from canvas'))
+        return
+      }
+      resolve({ dataUrl: canvas.toDataURL('image/png'), blob, width: canvas.width, height: canvas.height })
+    }, 'image/png')
+  })
+}
+
+function cropCanvas(source: HTMLCanvasElement, area: Rect): HTMLCanvasElement {
+  const canvas = source.ownerDocument.createElement('canvas')
+  canvas.width = area.width
+  canvas.height = area.height
+  canvas.getContext('2d')?.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height)
+  return canvas
+}
+
 /**
- * Upload screenshot blob to the server
+ * Capture a document's visible viewport, plus the whole page when asked and
+ * a crop of the anchored element when it's on the page. The page is rendered
+ * once and the other screenshots are cropped from it.
  */
-export async function uploadScreenshot(blob: Blob): Promise<{
-  url: string
-  filename: string
-  size: number
-}> {
-  const formData = new FormData()
-  formData.append('image', blob, 'screenshot.png')
+export async function captureDocumentScreenshots(
+  doc: Document,
+  options: DocumentScreenshotOptions = {}
+): Promise<CapturedScreenshot[]> {
+  const view = doc.defaultView
+  if (!view) {
+    throw new Error('Cannot capture a document without a window')
+  }
 
-  const response = await fetch('/api/screenshots', {
-    method: 'PUT',
-    body: formData
+  const viewport: Rect = { x: view.scrollX, y: view.scrollY, width: view.innerWidth, height: view.innerHeight }
+  const area: Rect = options.fullPage
+    ? { x: 0, y: 0, width: view.innerWidth, height: Math.min(doc.documentElement.scrollHeight, MAX_FULL_PAGE_HEIGHT) }
+    : viewport
+
+  const source = await html2canvas(doc.body, {
+    allowTaint: true,
+    useCORS: true,
+    scale: 1,
+    ...area,
+    ignoreElements: options.ignoreElements
   })
 
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error || 'Failed to upload screenshot')
+  const canvases: [ScreenshotKind, HTMLCanvasElement][] = [
+    ['VIEWPORT', options.fullPage ? cropCanvas(source, { ...viewport, x: viewport.x - area.x, y: viewport.y - area.y }) : source]
+  ]
+  if (options.fullPage) {
+    canvases.push(['FULL_PAGE', source])
   }
 
-  return response.json()
+  const element = options.anchor ? findAnchoredElement(doc, options.anchor) : null
+  if (options.anchor && element) {
+    // Positions within the rendered area
+    const rect = element.getBoundingClientRect()
+    const elementArea: Rect = {
+      x: rect.left + viewport.x - area.x,
+      y: rect.top + viewport.y - area.y,
+      width: rect.width,
+      height: rect.height
+    }
+    const pin = {
+      x: elementArea.x + elementArea.width * options.anchor.offset.x,
+      y: elementArea.y + elementArea.height * options.anchor.offset.y
+    }
+    const crop = getElementCrop(elementArea, pin, { x: 0, y: 0, width: source.width, height: source.height })
+    const canvas = cropCanvas(source, crop)
+    const context = canvas.getContext('2d')
+    if (context) {
+      drawPin(context, pin.x - crop.x, pin.y - crop.y)
+    }
+    canvases.push(['ELEMENT', canvas])
+  }
+
+  return Promise.all(canvases.map(async ([kind, canvas]) => ({ kind, ...(await toScreenshotResult(canvas)) })))
+}
+
+export interface UploadScreenshotOptions {
+  // PixelPin origin, needed when uploading from another site
+  baseUrl?: string
+  // Guest uploads are authorized by the project share token
+  guestToken?: string
+  assetId?: string
 }
 
 /**
- * Server-side screenshot capture using Puppeteer (fallback for cross-origin)
+ * Upload screenshot blob to the server
  */
-export async function captureServerScreenshot(
-  url: string,
-  viewport?: { width: number; height: number }
-): Promise<{
+export async function uploadScreenshot(blob: Blob, options: UploadScreenshotOptions = {}): Promise<{
   url: string
   filename: string
   size: number
 }> {
-  const response = await fetch('/api/screenshots', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      url,
-      viewport,
-      fullPage: false
-    })
+  const formData = new FormData()
+  formData.append('image', blob, 'screenshot.png')
+  if (options.guestToken && options.assetId) {
+    formData.append('guestToken', options.guestToken)
+    formData.append('assetId', options.assetId)
+  }
+
+  const response = await fetch(`${options.baseUrl || ''}/api/screenshots`, {
+    method: 'PUT',
+    body: formData,
+    credentials: options.guestToken ? 'omit' : 'include'
   })
 
   if (!response.ok) {
     const error = await response.json()
-    throw new Error(error.error || 'Failed to capture server screenshot')
+    throw new Error(error.error || 'Failed to upload screenshot')
   }
 
   return response.json()
 }
-
-/**
- * Main screenshot capture function with fallback strategy
- */
-export async function captureScreenshot(
-  iframe: HTMLIFrameElement,
-  fallbackUrl?: string
-): Promise<{
-  url: string
-  filename: string
-  size: number
-}> {
-  try {
-    // Try client-side capture first
-    const result = await captureIframeScreenshot(iframe)
-    return await uploadScreenshot(result.blob)
-    
-  } catch (clientError) {
-    console.warn('Client-side screenshot failed, trying server-side:', clientError)
-    
-    if (!fallbackUrl) {
-      throw new Error('Client-side capture failed and no fallback URL provided')
-    }
-
-    try {
-      // Fallback to server-side capture
-      return await captureServerScreenshot(fallbackUrl, {
-        width: iframe.clientWidth,
-        height: iframe.clientHeight
-      })
-      
-    } catch (serverError) {
-      console.error('Server-side screenshot also failed:', serverError)
-      throw new Error('Both client-side and server-side screenshot capture failed')
-    }
-  }
-}
\ No newline at end of file
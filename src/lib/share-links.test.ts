@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextResponse } from 'next/server'
+
+const prisma = vi.hoisted(() => ({
+  shareLink: { findUnique: vi.fn() },
+  asset: { findUnique: vi.fn() },
+}))
+const cookieJar = vi.hoisted(() => new Map<string, string>())
+
+vi.mock('@/lib/prisma', () => ({ prisma }))
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+  }),
+}))
+
+import {
+  getGuestPermissions,
+  resolveShareLink,
+  setShareLinkUnlockCookie,
+  SharePermission,
+} from '@/lib/share-links'
+
+const HOUR = 60 * 60 * 1000
+
+function linkRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link-1',
+    projectId: 'project-1',
+    scope: 'PROJECT',
+    canComment: false,
+    canReply: false,
+    canUpload: false,
+    passwordHash: null,
+    expiresAt: null,
+    revokedAt: null,
+    assets: [],
+    ...overrides,
+  }
+}
+
+function unlock(link: ReturnType<typeof linkRow>) {
+  const response = NextResponse.json({})
+  setShareLinkUnlockCookie(response, link as Parameters<typeof setShareLinkUnlockCookie>[1])
+  for (const cookie of response.cookies.getAll()) cookieJar.set(cookie.name, cookie.value)
+}
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  vi.stubEnv('AUTH_SECRET', 'test-secret')
+  cookieJar.clear()
+  prisma.asset.findUnique.mockResolvedValue({ projectId: 'project-1' })
+})
+
+describe('resolveShareLink', () => {
+  it('rejects unknown tokens', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(null)
+    expect(await resolveShareLink('nope', { permission: 'share:view' })).toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('rejects tokens for another project', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow())
+    expect(await resolveShareLink('token', { projectId: 'project-2', permission: 'share:view' })).toEqual({
+      ok: false,
+      reason: 'invalid',
+    })
+  })
+
+  it('rejects revoked links', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow({ revokedAt: new Date() }))
+    expect(await resolveShareLink('token', { permission: 'share:view' })).toEqual({ ok: false, reason: 'revoked' })
+  })
+
+  it('rejects expired links', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow({ expiresAt: new Date(Date.now() - HOUR) }))
+    expect(await resolveShareLink('token', { permission: 'share:view' })).toEqual({ ok: false, reason: 'expired' })
+  })
+
+  it('accepts links that have not expired yet', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow({ expiresAt: new Date(Date.now() + HOUR) }))
+    expect(await resolveShareLink('token', { permission: 'share:view' })).toMatchObject({ ok: true })
+  })
+
+  describe('password-protected links', () => {
+    it('need the unlock cookie', async () => {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow({ passwordHash: 'hash-1' }))
+      expect(await resolveShareLink('token', { permission: 'share:view' })).toEqual({
+        ok: false,
+        reason: 'password-required',
+      })
+    })
+
+    it('open once unlocked', async () => {
+      const link = linkRow({ passwordHash: 'hash-1' })
+      prisma.shareLink.findUnique.mockResolvedValue(link)
+      unlock(link)
+      expect(await resolveShareLink('token', { permission: 'share:view' })).toMatchObject({ ok: true })
+    })
+
+    it('lock again when the password changes', async () => {
+      unlock(linkRow({ passwordHash: 'hash-1' }))
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow({ passwordHash: 'hash-2' }))
+      expect(await resolveShareLink('token', { permission: 'share:view' })).toEqual({
+        ok: false,
+        reason: 'password-required',
+      })
+    })
+  })
+
+  describe('asset scope', () => {
+    it('opens any asset of the project for project links', async () => {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow())
+      expect(await resolveShareLink('token', { assetId: 'asset-1', permission: 'share:view' })).toMatchObject({ ok: true })
+    })
+
+    it('opens only the chosen assets for asset links', async () => {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow({ scope: 'ASSETS', assets: [{ assetId: 'asset-1' }] }))
+      expect(await resolveShareLink('token', { assetId: 'asset-1', permission: 'share:view' })).toMatchObject({ ok: true })
+      expect(await resolveShareLink('token', { assetId: 'asset-2', permission: 'share:view' })).toEqual({
+        ok: false,
+        reason: 'out-of-scope',
+      })
+    })
+
+    it('never opens assets of another project', async () => {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow())
+      prisma.asset.findUnique.mockResolvedValue({ projectId: 'project-2' })
+      expect(await resolveShareLink('token', { assetId: 'asset-9', permission: 'share:view' })).toEqual({
+        ok: false,
+        reason: 'out-of-scope',
+      })
+    })
+
+    it('treats missing assets as out of scope', async () => {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow())
+      prisma.asset.findUnique.mockResolvedValue(null)
+      expect(await resolveShareLink('token', { assetId: 'missing', permission: 'share:view' })).toEqual({
+        ok: false,
+        reason: 'out-of-scope',
+      })
+    })
+  })
+
+  const FLAGS: [SharePermission, string | null][] = [
+    ['share:view', null],
+    ['share:comment', 'canComment'],
+    ['share:reply', 'canReply'],
+    ['share:upload', 'canUpload'],
+  ]
+
+  it.each(FLAGS)('allows %s only with its flag', async (permission, flag) => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow())
+    const withoutFlag = await resolveShareLink('token', { permission })
+    expect(withoutFlag.ok).toBe(flag === null)
+    if (!withoutFlag.ok) expect(withoutFlag.reason).toBe('forbidden')
+
+    if (flag) {
+      prisma.shareLink.findUnique.mockResolvedValue(linkRow({ [flag]: true }))
+      expect(await resolveShareLink('token', { permission })).toMatchObject({ ok: true })
+    }
+  })
+
+  it('does not let one flag stand in for another', async () => {
+    prisma.shareLink.findUnique.mockResolvedValue(linkRow({ canComment: true }))
+    expect(await resolveShareLink('token', { permission: 'share:upload' })).toEqual({ ok: false, reason: 'forbidden' })
+    expect(await resolveShareLink('token', { permission: 'share:reply' })).toEqual({ ok: false, reason: 'forbidden' })
+  })
+})
+
+describe('getGuestPermissions', () => {
+  it('follows the link flags and scope', () => {
+    expect(getGuestPermissions({ scope: 'ASSETS', canComment: true, canReply: false, canUpload: true })).toEqual({
+      canViewAnnotations: true,
+      canCreateAnnotations: true,
+      canReplyToAnnotations: false,
+      canUploadAttachments: true,
+      canViewOtherAssets: false,
+      canMentionUsers: false,
+      canAccessProjectDetails: false,
+      canModifyAnnotations: false,
+      canDeleteAnnotations: false,
+      canInviteOthers: false,
+    })
+    expect(getGuestPermissions({ scope: 'PROJECT', canComment: false, canReply: true, canUpload: false })).toMatchObject({
+      canCreateAnnotations: false,
+      canReplyToAnnotations: true,
+      canUploadAttachments: false,
+      canViewOtherAssets: true,
+    })
+  })
+})
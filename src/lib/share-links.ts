@@ -0,0 +1,292 @@
+/**
+ * Named guest share links. Each link opens either a whole project or a chosen
+ * set of its assets, carries its own permissions, and can expire, require a
+ * password, or be revoked without affecting the project's other links.
+ *
+ * A password-protected link is unlocked per browser with an httpOnly cookie
+ * signed over the link's current password hash, so changing the password
+ * locks out everyone who unlocked it before.
+ */
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { ShareLink } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/email-templates'
+import type { GuestPermissionBoundary } from '@/lib/guest-access-security'
+
+export const SHARE_LINK_TOKEN_BYTES = 32
+export const SHARE_LINK_UNLOCK_TTL_SECONDS = 12 * 60 * 60
+
+export type SharePermission = 'share:view' | 'share:comment' | 'share:reply' | 'share:upload'
+
+export type ShareLinkUsage = 'view' | 'comment' | 'reply' | 'upload'
+
+export type ShareLinkFailure =
+  | 'invalid'
+  | 'expired'
+  | 'revoked'
+  | 'password-required'
+  | 'out-of-scope'
+  | 'forbidden'
+
+export const SHARE_LINK_FAILURE_MESSAGES: Record<ShareLinkFailure, string> = {
+  invalid: 'This share link is invalid',
+  expired: 'This share link has expired',
+  revoked: 'This share link has been revoked',
+  'password-required': 'This share link requires a password',
+  'out-of-scope': 'This share link does not include that asset',
+  forbidden: 'This share link does not allow that action',
+}
+
+const SHARE_LINK_FAILURE_STATUS: Record<ShareLinkFailure, number> = {
+  invalid: 404,
+  expired: 410,
+  revoked: 410,
+  'password-required': 401,
+  'out-of-scope': 404,
+  forbidden: 403,
+}
+
+export const shareLinkSelect = {
+  id: true,
+  projectId: true,
+  name: true,
+  token: true,
+  scope: true,
+  canComment: true,
+  canReply: true,
+  canUpload: true,
+  passwordHash: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  viewCount: true,
+  commentCount: true,
+  replyCount: true,
+  uploadCount: true,
+  lastUsedAt: true,
+  createdBy: {
+    select: { id: true, name: true, email: true },
+  },
+  assets: {
+    select: { assetId: true },
+  },
+} as const
+
+type ShareLinkAccessFields = Pick<
+  ShareLink,
+  'id' | 'projectId' | 'scope' | 'canComment' | 'canReply' | 'canUpload' | 'passwordHash' | 'expiresAt' | 'revokedAt'
+> & { assets: { assetId: string }[] }
+
+export type ShareLinkResult =
+  | { ok: true; link: ShareLinkAccessFields }
+  | { ok: false; reason: ShareLinkFailure }
+
+export function generateShareLinkToken(): string {
+  return crypto.randomBytes(SHARE_LINK_TOKEN_BYTES).toString('base64url')
+}
+
+export function getShareLinkUrl(projectId: string, token: string): string {
+  return `${getAppUrl()}/guest/${projectId}?token=${encodeURIComponent(token)}`
+}
+
+export function hashSharePassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 12)
+}
+
+export function verifySharePassword(link: { passwordHash: string | null }, password: string): Promise<boolean> {
+  return link.passwordHash ? bcrypt.compare(password, link.passwordHash) : Promise.resolve(true)
+}
+
+/**
+ * What a guest holding this link may do, in the shape the guest security audit checks
+ */
+export function getGuestPermissions(
+  link: Pick<ShareLink, 'scope' | 'canComment' | 'canReply' | 'canUpload'>
+): GuestPermissionBoundary {
+  return {
+    canViewAnnotations: true,
+    canCreateAnnotations: link.canComment,
+    canReplyToAnnotations: link.canReply,
+    canUploadAttachments: link.canUpload,
+    canViewOtherAssets: link.scope === 'PROJECT',
+    canMentionUsers: false,
+    canAccessProjectDetails: false,
+    canModifyAnnotations: false,
+    canDeleteAnnotations: false,
+    canInviteOthers: false,
+  }
+}
+
+function hasPermission(link: ShareLinkAccessFields, permission: SharePermission): boolean {
+  switch (permission) {
+    case 'share:view':
+      return true
+    case 'share:comment':
+      return link.canComment
+    case 'share:reply':
+      return link.canReply
+    case 'share:upload':
+      return link.canUpload
+  }
+}
+
+function getShareLinkSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to unlock share links')
+  }
+  return secret
+}
+
+function getUnlockCookieName(linkId: string): string {
+  return `pp-share-${linkId}`
+}
+
+function signUnlock(link: { id: string; passwordHash: string | null }): string {
+  return crypto
+    .createHmac('sha256', getShareLinkSecret())
+    .update(`share-link:${link.id}:${link.passwordHash}`)
+    .digest('base64url')
+}
+
+async function isUnlocked(link: { id: string; passwordHash: string | null }): Promise<boolean> {
+  if (!link.passwordHash) return true
+
+  const cookieStore = await cookies()
+  const received = cookieStore.get(getUnlockCookieName(link.id))?.value
+  if (!received) return false
+
+  const expected = Buffer.from(signUnlock(link))
+  const actual = Buffer.from(received)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+/**
+ * Remember in this browser that the password for a link was entered
+ */
+export function setShareLinkUnlockCookie(
+  response: NextResponse,
+  link: { id: string; passwordHash: string | null; expiresAt: Date | null }
+) {
+  const untilExpiry = link.expiresAt ? Math.floor((link.expiresAt.getTime() - Date.now()) / 1000) : Infinity
+  response.cookies.set(getUnlockCookieName(link.id), signUnlock(link), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.max(0, Math.min(SHARE_LINK_UNLOCK_TTL_SECONDS, untilExpiry)),
+  })
+}
+
+/**
+ * Look up a share link without checking its password or permissions, e.g. to unlock it
+ */
+export async function findShareLink(token: string) {
+  return prisma.shareLink.findUnique({
+    where: { token },
+    include: { assets: { select: { assetId: true } } },
+  })
+}
+
+/**
+ * Check that a token opens the given project or asset for an action. Assets
+ * outside an ASSETS-scoped link look the same as assets that don't exist.
+ */
+export async function resolveShareLink(
+  token: string,
+  {
+    projectId,
+    assetId,
+    permission,
+  }: { projectId?: string; assetId?: string; permission: SharePermission }
+): Promise<ShareLinkResult> {
+  const link = await findShareLink(token)
+
+  if (!link || (projectId && link.projectId !== projectId)) return { ok: false, reason: 'invalid' }
+  if (link.revokedAt) return { ok: false, reason: 'revoked' }
+  if (link.expiresAt && link.expiresAt <= new Date()) return { ok: false, reason: 'expired' }
+  if (!(await isUnlocked(link))) return { ok: false, reason: 'password-required' }
+
+  if (assetId) {
+    const asset = await prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { projectId: true },
+    })
+    if (!asset || asset.projectId !== link.projectId) return { ok: false, reason: 'out-of-scope' }
+    if (link.scope === 'ASSETS' && !link.assets.some((a) => a.assetId === assetId)) {
+      return { ok: false, reason: 'out-of-scope' }
+    }
+  }
+
+  if (!hasPermission(link, permission)) return { ok: false, reason: 'forbidden' }
+
+  return { ok: true, link }
+}
+
+/**
+ * Error response for a failed share link check
+ */
+export function shareLinkDenied(result: { reason: ShareLinkFailure }) {
+  return NextResponse.json(
+    { error: SHARE_LINK_FAILURE_MESSAGES[result.reason], reason: result.reason },
+    { status: SHARE_LINK_FAILURE_STATUS[result.reason] }
+  )
+}
+
+const usageCounters: Record<ShareLinkUsage, 'viewCount' | 'commentCount' | 'replyCount' | 'uploadCount'> = {
+  view: 'viewCount',
+  comment: 'commentCount',
+  reply: 'replyCount',
+  upload: 'uploadCount',
+}
+
+export async function recordShareLinkUsage(linkId: string, usage: ShareLinkUsage) {
+  await prisma.shareLink.update({
+    where: { id: linkId },
+    data: {
+      [usageCounters[usage]]: { increment: 1 },
+      lastUsedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * The newest link the feedback widget can embed for an asset: active, open to
+ * comments, and without a password, since a third-party site can't carry the
+ * unlock cookie.
+ */
+export async function findWidgetShareToken(projectId: string, assetId: string): Promise<string | null> {
+  const link = await prisma.shareLink.findFirst({
+    where: {
+      projectId,
+      revokedAt: null,
+      passwordHash: null,
+      canComment: true,
+      AND: [
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+        { OR: [{ scope: 'PROJECT' }, { assets: { some: { assetId } } }] },
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { token: true },
+  })
+  return link?.token ?? null
+}
+
+/**
+ * Owner-facing view of a link: the password hash is replaced by a flag
+ */
+export function serializeShareLink<T extends { projectId: string; token: string; passwordHash: string | null; assets: { assetId: string }[] }>(
+  link: T
+) {
+  const { passwordHash, assets, ...rest } = link
+  return {
+    ...rest,
+    hasPassword: passwordHash !== null,
+    assetIds: assets.map((a) => a.assetId),
+    url: getShareLinkUrl(link.projectId, link.token),
+  }
+}
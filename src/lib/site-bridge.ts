@@ -0,0 +1,217 @@
+import { captureDocumentScreenshots } from '@/lib/screenshot'
+import { captureElementAnchor, ElementAnchor, ResolvedAnchor, resolveElementAnchor } from '@/lib/dom-anchor'
+import type { ScreenshotKind } from '@/lib/annotation-screenshots'
+
+/**
+ * Bridge between the annotation view and a page served by the site proxy.
+ * Proxied pages run in an opaque origin, so the view can't reach into their
+ * DOM: it asks the bridge, which runs inside the page (bundled into
+ * public/widget by `npm run build:widget`), to anchor pins and take
+ * screenshots there, and the bridge answers over postMessage. The bridge also
+ * reports the page's navigation, and where the anchors it's been given to
+ * watch are whenever the page scrolls or reflows.
+ */
+
+export const BRIDGE_MESSAGE_SOURCE = 'pixelpin-bridge'
+export const BRIDGE_REQUEST_SOURCE = 'pixelpin-bridge-request'
+
+const ANCHOR_TIMEOUT_MS = 2000
+// Full-page renders of long pages take a while
+const CAPTURE_TIMEOUT_MS = 30000
+
+export interface BridgeScreenshot {
+  kind: ScreenshotKind
+  blob: Blob
+  width: number
+  height: number
+}
+
+type BridgeRequestBody =
+  | { type: 'anchor'; point: { x: number; y: number } }
+  | { type: 'capture'; anchor?: ElementAnchor | null; fullPage?: boolean }
+
+type BridgeRequest = BridgeRequestBody & { source: typeof BRIDGE_REQUEST_SOURCE; id: string }
+
+export interface WatchedAnchor {
+  id: string
+  anchor?: ElementAnchor | null
+  // Where the pin was placed, used while the anchor can't be resolved
+  position: { x: number; y: number }
+}
+
+interface BridgeWatch {
+  source: typeof BRIDGE_REQUEST_SOURCE
+  type: 'watch-anchors'
+  anchors: WatchedAnchor[]
+}
+
+interface BridgeResults {
+  anchor: ElementAnchor | null
+  capture: BridgeScreenshot[]
+}
+
+type BridgeMessageBody =
+  | { type: 'navigation'; url: string; title: string }
+  | { type: 'response'; id: string; result?: unknown; error?: string }
+  | { type: 'anchor-positions'; positions: Record<string, ResolvedAnchor> }
+
+export type BridgeMessage = BridgeMessageBody & { source: typeof BRIDGE_MESSAGE_SOURCE }
+
+/**
+ * Whether a message event came from the bridge in this iframe's page, and not
+ * from another frame or window posting look-alike data
+ */
+export function isBridgeMessage(event: MessageEvent, iframe: HTMLIFrameElement | null | undefined): event is MessageEvent<BridgeMessage> {
+  return !!iframe && event.source === iframe.contentWindow && event.data?.source === BRIDGE_MESSAGE_SOURCE
+}
+
+function requestFromBridge<T extends BridgeRequestBody['type']>(
+  iframe: HTMLIFrameElement,
+  request: Extract<BridgeRequestBody, { type: T }>,
+  timeoutMs: number
+): Promise<BridgeResults[T]> {
+  const target = iframe.contentWindow
+  if (!target) return Promise.reject(new Error('The page is not loaded'))
+
+  const id = crypto.randomUUID()
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer)
+      window.removeEventListener('message', handleMessage)
+    }
+    const handleMessage = (event: MessageEvent) => {
+      if (!isBridgeMessage(event, iframe) || event.data.type !== 'response' || event.data.id !== id) return
+      settle()
+      if (event.data.error) {
+        reject(new Error(event.data.error))
+      } else {
+        resolve(event.data.result as BridgeResults[T])
+      }
+    }
+    const timer = setTimeout(() => {
+      settle()
+      reject(new Error('The page did not respond'))
+    }, timeoutMs)
+
+    window.addEventListener('message', handleMessage)
+    // The page has an opaque origin, which no target origin but '*' matches
+    target.postMessage({ ...request, source: BRIDGE_REQUEST_SOURCE, id } satisfies BridgeRequest, '*')
+  })
+}
+
+/**
+ * Anchor for the element at a point in a proxied page, or null when there is
+ * no element there or the page doesn't answer
+ */
+export function requestBridgeAnchor(iframe: HTMLIFrameElement, point: { x: number; y: number }): Promise<ElementAnchor | null> {
+  return requestFromBridge(iframe, { type: 'anchor', point }, ANCHOR_TIMEOUT_MS).catch(() => null)
+}
+
+/**
+ * Screenshots of a proxied page, taken inside it (see `captureDocumentScreenshots`)
+ */
+export function requestBridgeCapture(
+  iframe: HTMLIFrameElement,
+  options: { anchor?: ElementAnchor | null; fullPage?: boolean }
+): Promise<BridgeScreenshot[]> {
+  return requestFromBridge(iframe, { type: 'capture', ...options }, CAPTURE_TIMEOUT_MS)
+}
+
+/**
+ * Have a proxied page report where these anchors are, now and as it changes,
+ * in 'anchor-positions' messages. Replaces the anchors watched before; a page
+ * the iframe navigates to starts with none.
+ */
+export function watchBridgeAnchors(iframe: HTMLIFrameElement, anchors: WatchedAnchor[]) {
+  iframe.contentWindow?.postMessage({ source: BRIDGE_REQUEST_SOURCE, type: 'watch-anchors', anchors } satisfies BridgeWatch, '*')
+}
+
+async function handleRequest(request: BridgeRequest): Promise<BridgeResults[BridgeRequest['type']]> {
+  switch (request.type) {
+    case 'anchor':
+      return captureElementAnchor(document, request.point)
+    case 'capture': {
+      const screenshots = await captureDocumentScreenshots(document, {
+        anchor: request.anchor,
+        fullPage: request.fullPage
+      })
+      return screenshots.map(({ kind, blob, width, height }) => ({ kind, blob, width, height }))
+    }
+  }
+}
+
+/**
+ * Start the bridge in a proxied page. Runs before the page's own scripts so
+ * their history changes are seen.
+ */
+export function mountSiteBridge() {
+  const parent = window.parent
+  if (parent === window) return
+
+  // Proxied pages are served at /api/proxy?url=<page>; this bundle can't import
+  // the site proxy module, which reads server configuration
+  let currentUrl = new URL(location.href).searchParams.get('url') || location.href
+
+  const post = (message: BridgeMessageBody) => {
+    try {
+      parent.postMessage({ ...message, source: BRIDGE_MESSAGE_SOURCE }, '*')
+    } catch {
+      // The parent went away, or the result can't be cloned
+    }
+  }
+  const resolve = (url: string) => {
+    try {
+      return new URL(url, currentUrl).href
+    } catch {
+      return currentUrl
+    }
+  }
+  const reportNavigation = (url?: string) => {
+    if (url) currentUrl = url
+    post({ type: 'navigation', url: currentUrl, title: document.title })
+  }
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method]
+    history[method] = function (this: History, data: unknown, unused: string, url?: string | URL | null) {
+      const result = original.call(this, data, unused, url)
+      if (url) reportNavigation(resolve(url.toString()))
+      return result
+    }
+  }
+  window.addEventListener('hashchange', () => reportNavigation(resolve(location.hash)))
+  window.addEventListener('load', () => reportNavigation())
+
+  let watched: WatchedAnchor[] = []
+  let frame: number | undefined
+  const reportAnchors = () => {
+    if (frame !== undefined || watched.length === 0) return
+    frame = requestAnimationFrame(() => {
+      frame = undefined
+      const positions: Record<string, ResolvedAnchor> = {}
+      for (const { id, anchor, position } of watched) {
+        positions[id] = resolveElementAnchor(document, anchor, position)
+      }
+      post({ type: 'anchor-positions', positions })
+    })
+  }
+  window.addEventListener('scroll', reportAnchors, { passive: true })
+  window.addEventListener('resize', reportAnchors)
+  window.addEventListener('load', reportAnchors)
+
+  window.addEventListener('message', async (event: MessageEvent) => {
+    if (event.source !== parent || event.data?.source !== BRIDGE_REQUEST_SOURCE) return
+    if (event.data.type === 'watch-anchors') {
+      watched = (event.data as BridgeWatch).anchors
+      reportAnchors()
+      return
+    }
+
+    const request = event.data as BridgeRequest
+    try {
+      post({ type: 'response', id: request.id, result: await handleRequest(request) })
+    } catch (error) {
+      post({ type: 'response', id: request.id, error: error instanceof Error ? error.message : 'The bridge request failed' })
+    }
+  })
+}
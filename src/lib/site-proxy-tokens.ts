@@ -0,0 +1,74 @@
+import crypto from 'crypto'
+
+/**
+ * Proxied pages are served without the session, so the proxy is opened with a
+ * token for the one site a viewer of a URL asset may browse through it:
+ * `<assetId>.<host>.<expiry>.<signature>`, with the host base64url-encoded.
+ */
+
+// Long enough for an annotation session; reopening the asset issues a new one
+export const SITE_PROXY_TOKEN_TTL_MS = 2 * 60 * 60 * 1000
+
+export interface SiteProxyGrant {
+  assetId: string
+  host: string
+  expiresAt: Date
+}
+
+/**
+ * Origin proxied pages are served from: SITE_PROXY_ORIGIN, a domain of its own
+ * pointing at this app, or null to serve them from the app's origin, where
+ * they're still sandboxed away from it
+ */
+export function getSiteProxyOrigin(): string | null {
+  const origin = process.env.SITE_PROXY_ORIGIN
+  if (!origin) return null
+  try {
+    return new URL(origin).origin
+  } catch {
+    return null
+  }
+}
+
+function getSiteProxySecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to sign site proxy tokens')
+  }
+  return secret
+}
+
+function signSiteProxyToken(payload: string): string {
+  return crypto
+    .createHmac('sha256', getSiteProxySecret())
+    .update(`site-proxy:${payload}`)
+    .digest('base64url')
+}
+
+/**
+ * Token for browsing `host` (see `getProxiedHost`) through the proxy for an asset
+ */
+export function createSiteProxyToken(assetId: string, host: string): string {
+  const expiresAt = Date.now() + SITE_PROXY_TOKEN_TTL_MS
+  const payload = `${assetId}.${Buffer.from(host).toString('base64url')}.${expiresAt.toString(36)}`
+  return `${payload}.${signSiteProxyToken(payload)}`
+}
+
+/**
+ * The site a token grants, or null when it's forged or has expired
+ */
+export function verifySiteProxyToken(token: string): SiteProxyGrant | null {
+  const [assetId, encodedHost, expiry, signature] = token.split('.')
+  if (!assetId || !encodedHost || !expiry || !signature) return null
+
+  const expected = Buffer.from(signSiteProxyToken(`${assetId}.${encodedHost}.${expiry}`))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  const expiresAt = new Date(parseInt(expiry, 36))
+  if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) return null
+
+  return { assetId, host: Buffer.from(encodedHost, 'base64url').toString(), expiresAt }
+}
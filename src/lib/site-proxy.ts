@@ -0,0 +1,261 @@
+/**
+ * Site proxy utilities
+ * URL assets are loaded through /api/proxy, which strips the headers that stop
+ * sites from being framed and loads a bridge into each page, through which the
+ * annotation view follows navigation, anchors pins and takes screenshots.
+ *
+ * Proxied pages run the site's own scripts, so they never share the app's
+ * origin: they are served from SITE_PROXY_ORIGIN when it's set and are always
+ * sandboxed into an opaque origin, without the session cookie. Instead each
+ * page carries a token for the one site it was opened for (see
+ * `site-proxy-tokens.ts`), and links to other hosts are left pointing at
+ * those hosts.
+ */
+
+export const PROXY_ROUTE = '/api/proxy'
+export const SITE_PROXY_ENABLED = process.env.NEXT_PUBLIC_SITE_PROXY_ENABLED !== 'false'
+// Built by `npm run build:widget` and served from public/, on whichever origin the page is
+export const BRIDGE_SCRIPT_PATH = '/widget/pixelpin-bridge.js'
+
+const SKIPPED_URL_PREFIXES = ['data:', 'blob:', 'javascript:', 'mailto:', 'tel:', 'about:', '#']
+
+// Headers that must not be forwarded from the upstream response
+const STRIPPED_RESPONSE_HEADERS = [
+  'x-frame-options',
+  // Upstream CSP source lists name the upstream origin, which no longer
+  // applies once content is served from ours, and frame-ancestors blocks embedding
+  'content-security-policy',
+  'content-security-policy-report-only',
+  'strict-transport-security',
+  'set-cookie',
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'alt-svc',
+  'report-to',
+  'nel'
+]
+
+// Sent with every proxied response. Without allow-same-origin the page gets an
+// opaque origin, so even when served from ours it can't use the session
+export const PROXY_SANDBOX_POLICY = 'sandbox allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox allow-modals'
+
+export interface ProxyRewriteContext {
+  // Token the page was served with, carried on to the pages and assets it links to
+  token: string
+  // Host the token is for; URLs on other hosts are left unproxied
+  host: string
+}
+
+/**
+ * URL that opens a URL asset's site through the proxy, for a signed-in viewer
+ * of the asset or a guest with a share link to it. It redirects to a proxied
+ * URL with a token for the site.
+ */
+export function buildProxyEntryUrl(assetId: string, targetUrl: string, shareToken?: string): string {
+  const url = `${PROXY_ROUTE}?asset=${encodeURIComponent(assetId)}&url=${encodeURIComponent(targetUrl)}`
+  return shareToken ? `${url}&share=${encodeURIComponent(shareToken)}` : url
+}
+
+/**
+ * Build the proxied URL for a target site URL
+ */
+export function buildProxyUrl(targetUrl: string, token: string): string {
+  return `${PROXY_ROUTE}?url=${encodeURIComponent(targetUrl)}&token=${encodeURIComponent(token)}`
+}
+
+/**
+ * The host a site is proxied under, or null for URLs that can't be proxied.
+ * A www. prefix doesn't make a different site, so sites redirecting to or from
+ * it stay in the proxy.
+ */
+export function getProxiedHost(url: string): string | null {
+  try {
+    const { protocol, host } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') return null
+    return host.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Recover the original site URL from a proxied URL.
+ * Returns the input unchanged when it is not a proxy URL.
+ */
+export function unproxyUrl(url: string): string {
+  try {
+    const urlObj = new URL(url, 'http://localhost')
+    if (urlObj.pathname === PROXY_ROUTE) {
+      return urlObj.searchParams.get('url') || url
+    }
+  } catch {
+    // Not a parseable URL
+  }
+  return url
+}
+
+/**
+ * Check whether a hostname points at a loopback, link-local or private network
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    host === '0.0.0.0' ||
+    host === '::' ||
+    host === '::1' ||
+    host.startsWith('0.') ||
+    host.startsWith('127.') ||
+    host.startsWith('10.') ||
+    host.startsWith('192.168.') ||
+    host.startsWith('169.254.') ||
+    /^172\.(1[6-9]|2[0-9]|3[0-1])\./.test(host) ||
+    /^100\.(6[4-9]|[7-9][0-9]|1[01][0-9]|12[0-7])\./.test(host) ||
+    /^f[cd][0-9a-f]{2}:/.test(host) ||
+    host.startsWith('fe80:') ||
+    host.startsWith('::ffff:')
+  )
+}
+
+/**
+ * Whether sites on private networks may be loaded server-side, through the
+ * proxy or for screenshots, for self-hosted setups reviewing local sites
+ */
+export function allowsPrivateSites(): boolean {
+  return process.env.SITE_PROXY_ALLOW_PRIVATE === 'true'
+}
+
+/**
+ * Validate that a URL may be fetched through the proxy
+ */
+export function isProxyableUrl(url: string): boolean {
+  try {
+    const urlObj = new URL(url)
+    if (!['http:', 'https:'].includes(urlObj.protocol)) return false
+    if (allowsPrivateSites()) return true
+    return !isPrivateHostname(urlObj.hostname)
+  } catch {
+    return false
+  }
+}
+
+function rewriteUrl(value: string, baseUrl: string, context: ProxyRewriteContext): string {
+  const trimmed = value.trim()
+  if (!trimmed || SKIPPED_URL_PREFIXES.some(prefix => trimmed.toLowerCase().startsWith(prefix))) {
+    return value
+  }
+
+  try {
+    const absolute = new URL(trimmed, baseUrl)
+    if (!['http:', 'https:'].includes(absolute.protocol)) return value
+    // Made absolute either way, as a relative URL would resolve against the proxy
+    return getProxiedHost(absolute.href) === context.host
+      ? buildProxyUrl(absolute.href, context.token)
+      : absolute.href
+  } catch {
+    return value
+  }
+}
+
+function rewriteSrcset(value: string, baseUrl: string, context: ProxyRewriteContext): string {
+  return value
+    .split(',')
+    .map(candidate => {
+      const [candidateUrl, ...descriptors] = candidate.trim().split(/\s+/)
+      if (!candidateUrl) return candidate
+      return [rewriteUrl(candidateUrl, baseUrl, context), ...descriptors].join(' ')
+    })
+    .join(', ')
+}
+
+/**
+ * Rewrite url() and @import references in a stylesheet
+ */
+export function rewriteCss(css: string, baseUrl: string, context: ProxyRewriteContext): string {
+  return css
+    .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (_match, quote: string, value: string) =>
+      `url(${quote}${rewriteUrl(value, baseUrl, context)}${quote})`
+    )
+    .replace(/@import\s+(['"])([^'"]+)\1/gi, (_match, quote: string, value: string) =>
+      `@import ${quote}${rewriteUrl(value, baseUrl, context)}${quote}`
+    )
+}
+
+/**
+ * Tag loading the bridge into a proxied page (see `site-bridge.ts`). It's put
+ * first in the head so it runs before the page's own scripts.
+ */
+export function getBridgeScript(): string {
+  return `<script src="${BRIDGE_SCRIPT_PATH}" data-pixelpin-bridge></script>`
+}
+
+/**
+ * Rewrite an HTML document so every link, asset and form routes back
+ * through the proxy, and inject the parent bridge script
+ */
+export function rewriteHtml(html: string, documentUrl: string, context: ProxyRewriteContext): string {
+  // Honor the page's <base href> when resolving relative links
+  const baseMatch = html.match(/<base\b[^>]*\shref\s*=\s*["']([^"']+)["']/i)
+  let baseUrl = documentUrl
+  if (baseMatch) {
+    try {
+      baseUrl = new URL(baseMatch[1], documentUrl).href
+    } catch {
+      // Keep the document URL
+    }
+  }
+
+  let rewritten = html
+    // Meta CSP would reapply the restrictions stripped from the headers
+    .replace(/<meta[^>]+http-equiv\s*=\s*["']?content-security-policy["']?[^>]*>/gi, '')
+    // Links are made absolute below, so a <base> would only misdirect them
+    .replace(/<base\b[^>]*>/gi, '')
+    // Stylesheets are rewritten, so subresource integrity no longer matches
+    .replace(/(<link\b[^>]*?)\s+integrity\s*=\s*(["'])[^"']*\2/gi, '$1')
+    .replace(/(\s(?:href|src|action|poster|data-src))\s*=\s*(["'])([^"']*)\2/gi, (_match, attr: string, quote: string, value: string) =>
+      `${attr}=${quote}${rewriteUrl(value, baseUrl, context)}${quote}`
+    )
+    .replace(/(\s(?:srcset|data-srcset))\s*=\s*(["'])([^"']*)\2/gi, (_match, attr: string, quote: string, value: string) =>
+      `${attr}=${quote}${rewriteSrcset(value, baseUrl, context)}${quote}`
+    )
+    .replace(/(<meta[^>]+http-equiv\s*=\s*["']?refresh["']?[^>]+content\s*=\s*["']\s*\d+\s*;\s*url=)([^"']+)/gi, (_match, prefix: string, value: string) =>
+      `${prefix}${rewriteUrl(value, baseUrl, context)}`
+    )
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_match, open: string, css: string, close: string) =>
+      `${open}${rewriteCss(css, baseUrl, context)}${close}`
+    )
+    .replace(/(\sstyle\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi, (match, attr: string, doubleQuoted?: string, singleQuoted?: string) => {
+      const css = doubleQuoted ?? singleQuoted ?? ''
+      if (!/url\(/i.test(css)) return match
+      const quote = doubleQuoted !== undefined ? '"' : "'"
+      return `${attr}${quote}${rewriteCss(css, baseUrl, context)}${quote}`
+    })
+
+  const bridge = getBridgeScript()
+  if (/<head\b[^>]*>/i.test(rewritten)) {
+    rewritten = rewritten.replace(/<head\b[^>]*>/i, match => `${match}${bridge}`)
+  } else {
+    rewritten = bridge + rewritten
+  }
+
+  return rewritten
+}
+
+/**
+ * Copy upstream response headers, dropping frame-blocking and hop-by-hop ones
+ */
+export function sanitizeProxyHeaders(upstream: Headers): Headers {
+  const headers = new Headers()
+  upstream.forEach((value, key) => {
+    if (!STRIPPED_RESPONSE_HEADERS.includes(key.toLowerCase())) {
+      headers.set(key, value)
+    }
+  })
+  return headers
+}
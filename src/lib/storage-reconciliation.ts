@@ -0,0 +1,122 @@
+import { prisma } from '@/lib/prisma'
+import { contentTypeForKey, getStorage } from '@/lib/storage'
+import { findFileReferences } from '@/lib/file-access'
+
+/**
+ * Rows cascade away when an annotation, attachment, asset or project is
+ * deleted, but their files stay in storage, as do uploads from forms that were
+ * never sent. Reconciliation lists the store, records files it doesn't know
+ * about, and looks up what points at each one: referenced files are counted
+ * towards their project, and files nothing has pointed at for the grace
+ * period are deleted. The grace period keeps uploads for forms still being
+ * filled in.
+ */
+
+// Overridable with STORAGE_ORPHAN_GRACE_HOURS
+const DEFAULT_GRACE_HOURS = 24
+const BATCH_SIZE = 500
+// Files checked per run; the rest are picked up, least recently checked first, by the next runs
+const MAX_FILES_PER_RUN = 5000
+
+export interface ReconciliationResult {
+  discovered: number
+  checked: number
+  orphaned: number
+  deleted: number
+  failed: number
+}
+
+function getGracePeriodMs(): number {
+  const hours = Number(process.env.STORAGE_ORPHAN_GRACE_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_GRACE_HOURS) * 60 * 60 * 1000
+}
+
+/**
+ * Record files in the store that have no StorageObject, like uploads from
+ * before files were tracked. Returns how many were added.
+ */
+async function discoverUntrackedFiles(): Promise<number> {
+  const storage = getStorage()
+  let discovered = 0
+  let cursor: string | null = null
+
+  do {
+    const page = await storage.list(cursor)
+    if (page.files.length > 0) {
+      const { count } = await prisma.storageObject.createMany({
+        data: page.files.map((file) => ({
+          key: file.key,
+          size: file.size,
+          contentType: contentTypeForKey(file.key),
+          legacyUrl: file.url,
+          createdAt: file.uploadedAt,
+        })),
+        skipDuplicates: true,
+      })
+      discovered += count
+    }
+    cursor = page.cursor
+  } while (cursor)
+
+  return discovered
+}
+
+export async function reconcileStorage(now = new Date()): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = {
+    discovered: await discoverUntrackedFiles(),
+    checked: 0,
+    orphaned: 0,
+    deleted: 0,
+    failed: 0,
+  }
+  const deleteBefore = new Date(now.getTime() - getGracePeriodMs())
+
+  while (result.checked < MAX_FILES_PER_RUN) {
+    const objects = await prisma.storageObject.findMany({
+      where: { OR: [{ checkedAt: null }, { checkedAt: { lt: now } }] },
+      orderBy: { checkedAt: { sort: 'asc', nulls: 'first' } },
+      take: BATCH_SIZE,
+    })
+    if (objects.length === 0) break
+
+    const references = await findFileReferences(objects)
+
+    for (const object of objects) {
+      const reference = references.get(object.key)
+
+      try {
+        if (reference) {
+          await prisma.storageObject.update({
+            where: { id: object.id },
+            data: { projectId: reference.projectId, orphanedAt: null, checkedAt: now },
+          })
+        } else if (!object.orphanedAt) {
+          await prisma.storageObject.update({
+            where: { id: object.id },
+            data: { projectId: null, orphanedAt: now, checkedAt: now },
+          })
+          result.orphaned++
+        } else if (object.orphanedAt <= deleteBefore && object.createdAt <= deleteBefore) {
+          await getStorage().delete(object.key)
+          await prisma.storageObject.delete({ where: { id: object.id } })
+          result.deleted++
+        } else {
+          await prisma.storageObject.update({
+            where: { id: object.id },
+            data: { checkedAt: now },
+          })
+        }
+      } catch (error) {
+        // Checked anyway so one bad file doesn't stall the runs after it
+        console.error(`Error reconciling stored file ${object.key}:`, error)
+        await prisma.storageObject.updateMany({ where: { id: object.id }, data: { checkedAt: now } })
+        result.failed++
+      }
+    }
+
+    result.checked += objects.length
+    if (objects.length < BATCH_SIZE) break
+  }
+
+  return result
+}
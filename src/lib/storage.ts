@@ -0,0 +1,451 @@
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { BlobNotFoundError, del, get, head, list, put } from '@vercel/blob'
+import { createS3Client } from '@/lib/s3'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/email-templates'
+import { FILE_ROUTE, getFileKeyFromUrl } from '@/lib/file-urls'
+
+/**
+ * Where uploaded files live. Routes store files with `uploadFile` instead of
+ * calling a vendor SDK, so the app runs against Vercel Blob, any S3-compatible
+ * store, or the local filesystem for development and self-hosting.
+ *
+ * Files are private: the URL saved for one points at /api/files, which checks
+ * access and redirects to a short-lived signed URL from the store (see
+ * `file-urls.ts`). Server code that hands a URL to someone without a session,
+ * like an export or an API client, signs it with `signFileUrl` instead.
+ *
+ * Every upload is recorded as a StorageObject, which is how usage is counted
+ * and files nothing points at are found (see `storage-reconciliation.ts`).
+ *
+ * Keys look like `screenshots/1760000000000-4f9c2a1b7e3d5c60.png`: a folder, a
+ * random name and an extension matching the content type, which is how files
+ * are served with the right type whatever the driver.
+ */
+
+export interface StorageDriver {
+  name: string
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  // URL that reads a file straight from the store until expiresIn seconds have
+  // passed, or null when the store can't sign URLs and files are streamed instead
+  getSignedUrl(key: string, expiresIn: number): Promise<string | null>
+  read(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+  // One page of the files in the store, continued with the returned cursor until it is null
+  list(cursor?: string | null): Promise<{ files: ListedFile[]; cursor: string | null }>
+  // Key of a file from a URL the store handed out before files were private
+  keyFromUrl(url: string): string | null
+}
+
+export interface ListedFile {
+  key: string
+  size: number
+  uploadedAt: Date
+  // Where the store served the file before files were private, which older records may still point at
+  url: string
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+  verifySignature(key: string, expires: string | null, signature: string | null): boolean
+}
+
+export type StorageFolder = 'assets' | 'attachments' | 'screenshots'
+
+export interface StoredFile {
+  key: string
+  // Saved with the record the file belongs to
+  url: string
+  // For the uploader to preview the file before it is attached to anything
+  signedUrl: string
+  size: number
+  contentType: string
+}
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream'
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60
+// Long enough to go through an export after downloading it; after that, export again
+export const EXPORT_SIGNED_URL_TTL_SECONDS = 2 * 60 * 60
+// Files are never changed in place, every upload gets a new key
+const IMMUTABLE_CACHE_CONTROL = 'private, max-age=31536000, immutable'
+export const LOCAL_STORAGE_ROUTE = '/api/storage'
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+}
+
+const EXTENSION_CONTENT_TYPES = Object.fromEntries(
+  Object.entries(CONTENT_TYPE_EXTENSIONS).map(([contentType, extension]) => [extension, contentType])
+)
+
+/**
+ * Content type of a stored file, from the extension its key was given
+ */
+export function contentTypeForKey(key: string): string {
+  const extension = path.extname(key).slice(1).toLowerCase()
+  return EXTENSION_CONTENT_TYPES[extension === 'jpeg' ? 'jpg' : extension] ?? DEFAULT_CONTENT_TYPE
+}
+
+export function buildStorageKey(folder: StorageFolder, contentType: string): string {
+  const extension = CONTENT_TYPE_EXTENSIONS[contentType] ?? 'bin'
+  return `${folder}/${Date.now()}-${crypto.randomBytes(8).toString('hex')}.${extension}`
+}
+
+/**
+ * Headers for serving a stored file from our own origin
+ */
+export function storedFileHeaders(key: string, size: number, cacheControl: string): HeadersInit {
+  return {
+    'Content-Type': contentTypeForKey(key),
+    'Content-Length': String(size),
+    'Cache-Control': cacheControl,
+    // Uploaded SVGs and documents must not run scripts on our origin
+    'Content-Security-Policy': "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox",
+    'X-Content-Type-Options': 'nosniff',
+  }
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url, getAppUrl())
+  } catch {
+    return null
+  }
+}
+
+function encodeKeyPath(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/')
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to sign file URLs')
+  }
+  return secret
+}
+
+function signKey(purpose: string, key: string, expires: string): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(`${purpose}:${key}:${expires}`)
+    .digest('base64url')
+}
+
+function verifyKeySignature(purpose: string, key: string, expires: string | null, signature: string | null): boolean {
+  if (!expires || !signature || !(Number(expires) * 1000 > Date.now())) return false
+  const expected = Buffer.from(signKey(purpose, key, expires))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+function signedQuery(purpose: string, key: string, expiresIn: number): string {
+  const expires = String(Math.floor(Date.now() / 1000) + expiresIn)
+  return `expires=${expires}&signature=${signKey(purpose, key, expires)}`
+}
+
+/**
+ * Stores files through the Vercel Blob API (BLOB_READ_WRITE_TOKEN) in a
+ * private store, so a blob can only be read with the token and the server
+ * streams files itself. Blobs written as public, before the driver used
+ * private ones, are still read by their URL.
+ */
+export function createVercelBlobDriver(): StorageDriver {
+  return {
+    name: 'vercel-blob',
+    async put(key, body, contentType) {
+      await put(key, body, {
+        access: 'private',
+        contentType,
+        addRandomSuffix: false,
+        cacheControlMaxAge: 31536000,
+      })
+    },
+    async getSignedUrl() {
+      return null
+    },
+    async read(key) {
+      try {
+        const file = await get(key, { access: 'private' })
+          ?? await get((await head(key)).url, { access: 'public' })
+        if (!file || file.statusCode !== 200) return null
+        return Buffer.from(await new Response(file.stream).arrayBuffer())
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return null
+        throw error
+      }
+    },
+    async delete(key) {
+      await del(key)
+    },
+    async list(cursor) {
+      const page = await list({ cursor: cursor ?? undefined, limit: 1000 })
+      return {
+        files: page.blobs.map((blob) => ({
+          key: blob.pathname,
+          size: blob.size,
+          uploadedAt: blob.uploadedAt,
+          url: blob.url,
+        })),
+        cursor: page.hasMore ? page.cursor ?? null : null,
+      }
+    },
+    keyFromUrl(url) {
+      const parsed = parseUrl(url)
+      if (!parsed?.hostname.endsWith('.blob.vercel-storage.com')) return null
+      return decodeURIComponent(parsed.pathname.slice(1))
+    },
+  }
+}
+
+/**
+ * Stores files in a private S3-compatible bucket (S3_BUCKET, S3_REGION,
+ * S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, and S3_ENDPOINT and
+ * S3_FORCE_PATH_STYLE for stores other than AWS). Viewers are redirected to
+ * presigned URLs, so PDFs, which pdf.js fetches, need a CORS rule on the bucket
+ * allowing GET from the app's origin.
+ */
+export function createS3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set to store files in S3')
+  }
+
+  const client = createS3Client({
+    bucket,
+    region: process.env.S3_REGION || 'us-east-1',
+    accessKeyId,
+    secretAccessKey,
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  })
+  const bucketUrl = client.objectUrl('')
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.putObject(key, body, { contentType, cacheControl: IMMUTABLE_CACHE_CONTROL })
+    },
+    async getSignedUrl(key, expiresIn) {
+      return client.presignGetObject(key, expiresIn)
+    },
+    async read(key) {
+      const response = await fetch(client.presignGetObject(key, 60))
+      if (response.status === 404) return null
+      if (!response.ok) throw new Error(`S3 GET ${key} failed with ${response.status}`)
+      return Buffer.from(await response.arrayBuffer())
+    },
+    async delete(key) {
+      await client.deleteObject(key)
+    },
+    async list(cursor) {
+      const page = await client.listObjects(cursor)
+      return {
+        files: page.objects.map((object) => ({
+          key: object.key,
+          size: object.size,
+          uploadedAt: object.lastModified,
+          url: client.objectUrl(object.key),
+        })),
+        cursor: page.continuationToken,
+      }
+    },
+    keyFromUrl(url) {
+      const withoutQuery = url.split('?')[0]
+      return withoutQuery.startsWith(bucketUrl) ? decodeURIComponent(withoutQuery.slice(bucketUrl.length)) : null
+    },
+  }
+}
+
+/**
+ * Stores files on disk (STORAGE_LOCAL_DIR, default .storage), served by the
+ * /api/storage route to holders of a signed URL. Only suitable for a single
+ * server with a persistent disk.
+ */
+export function createLocalDriver(directory = process.env.STORAGE_LOCAL_DIR || '.storage'): LocalStorageDriver {
+  const root = path.resolve(directory)
+
+  const resolvePath = (key: string) => {
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key "${key}"`)
+    }
+    return filePath
+  }
+
+  return {
+    name: 'local',
+    async put(key, body) {
+      const filePath = resolvePath(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, body)
+    },
+    async getSignedUrl(key, expiresIn) {
+      return `${getAppUrl()}${LOCAL_STORAGE_ROUTE}/${encodeKeyPath(key)}?${signedQuery('storage', key, expiresIn)}`
+    },
+    async read(key) {
+      try {
+        return await fs.readFile(resolvePath(key))
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code
+        // Keys from a URL can be anything, including directories and paths out of the root
+        if (code === 'ENOENT' || code === 'EISDIR' || !code) return null
+        throw error
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolvePath(key), { force: true })
+    },
+    async list() {
+      let entries
+      try {
+        entries = await fs.readdir(root, { recursive: true, withFileTypes: true })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { files: [], cursor: null }
+        throw error
+      }
+
+      const files = await Promise.all(entries.filter((entry) => entry.isFile()).map(async (entry) => {
+        const filePath = path.join(entry.parentPath, entry.name)
+        const key = path.relative(root, filePath).split(path.sep).join('/')
+        const stats = await fs.stat(filePath)
+        return {
+          key,
+          size: stats.size,
+          uploadedAt: stats.mtime,
+          url: `${getAppUrl()}${LOCAL_STORAGE_ROUTE}/${encodeKeyPath(key)}`,
+        }
+      }))
+      // Everything fits in one page
+      return { files, cursor: null }
+    },
+    keyFromUrl(url) {
+      const parsed = parseUrl(url)
+      if (!parsed || parsed.origin !== new URL(getAppUrl()).origin) return null
+      if (!parsed.pathname.startsWith(`${LOCAL_STORAGE_ROUTE}/`)) return null
+      return decodeURIComponent(parsed.pathname.slice(LOCAL_STORAGE_ROUTE.length + 1))
+    },
+    verifySignature(key, expires, signature) {
+      return verifyKeySignature('storage', key, expires, signature)
+    },
+  }
+}
+
+let storage: StorageDriver | null = null
+
+/**
+ * Driver chosen by STORAGE_DRIVER (vercel-blob, s3 or local). Defaults to
+ * Vercel Blob when BLOB_READ_WRITE_TOKEN is set, to S3 when S3_BUCKET is, and
+ * to the local filesystem otherwise.
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER
+      || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : process.env.S3_BUCKET ? 's3' : 'local')
+    switch (driver) {
+      case 'vercel-blob':
+        storage = createVercelBlobDriver()
+        break
+      case 's3':
+        storage = createS3Driver()
+        break
+      default:
+        storage = createLocalDriver()
+    }
+  }
+  return storage
+}
+
+/**
+ * Swap the driver, e.g. for a temporary directory in tests
+ */
+export function setStorage(driver: StorageDriver | null) {
+  storage = driver
+}
+
+export function isLocalStorage(driver: StorageDriver): driver is LocalStorageDriver {
+  return driver.name === 'local'
+}
+
+/**
+ * The /api/files URL saved for a stored file
+ */
+export function getFileUrl(key: string): string {
+  return `${getAppUrl()}${FILE_ROUTE}/${encodeKeyPath(key)}`
+}
+
+/**
+ * Key of a stored file from its saved URL, including public URLs saved before
+ * files were private. Null for URLs outside the current store.
+ */
+export function getStorageKey(url: string): string | null {
+  return getFileKeyFromUrl(url) ?? getStorage().keyFromUrl(url)
+}
+
+/**
+ * A saved file URL that works without a session until expiresIn seconds have
+ * passed, for exports, guests and API clients. Other URLs are returned as they are.
+ */
+export function signFileUrl(url: string, expiresIn = DEFAULT_SIGNED_URL_TTL_SECONDS): string {
+  const key = getFileKeyFromUrl(url)
+  return key ? `${getFileUrl(key)}?${signedQuery('file', key, expiresIn)}` : url
+}
+
+export function verifyFileSignature(key: string, expires: string | null, signature: string | null): boolean {
+  return verifyKeySignature('file', key, expires, signature)
+}
+
+/**
+ * Store an upload under a new key in the folder. Files for a known project
+ * count towards its usage straight away; others, like attachments on a form
+ * that hasn't been sent yet, once they're saved on one of its records (see
+ * `claimProjectFiles`).
+ */
+export async function uploadFile(
+  folder: StorageFolder,
+  body: Buffer | Blob,
+  contentType: string,
+  { projectId }: { projectId?: string } = {}
+): Promise<StoredFile> {
+  const buffer = Buffer.isBuffer(body) ? body : Buffer.from(await body.arrayBuffer())
+  const key = buildStorageKey(folder, contentType)
+  await getStorage().put(key, buffer, contentType)
+
+  // Reconciliation may have listed the file between the two calls
+  await prisma.storageObject.upsert({
+    where: { key },
+    create: { key, size: buffer.length, contentType, projectId },
+    update: { projectId },
+  })
+
+  const url = getFileUrl(key)
+  return { key, url, signedUrl: signFileUrl(url), size: buffer.length, contentType }
+}
+
+/**
+ * Delete a file by its saved URL. Returns false for URLs outside the current
+ * store, e.g. files kept by a previous driver.
+ */
+export async function deleteStoredFile(url: string): Promise<boolean> {
+  const key = getStorageKey(url)
+  if (!key) return false
+  await getStorage().delete(key)
+  await prisma.storageObject.deleteMany({ where: { key } })
+  return true
+}
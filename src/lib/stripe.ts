@@ -14,12 +14,14 @@ export const PLANS = {
     features: [
       '1 project',
       '10 annotations per project',
+      '500 MB of file storage',
       'Basic collaboration',
       'Email support',
     ],
     limits: {
       projects: 1,
       annotationsPerProject: 10,
+      storageBytes: 500 * 1024 * 1024,
     },
   },
   PRO: {
@@ -30,6 +32,7 @@ export const PLANS = {
     features: [
       'Unlimited projects',
       'Unlimited annotations',
+      '50 GB of file storage',
       'Real-time collaboration',
       'Priority support',
       'Advanced integrations',
@@ -37,44 +40,40 @@ export const PLANS = {
     limits: {
       projects: -1, // -1 means unlimited
       annotationsPerProject: -1,
+      storageBytes: 50 * 1024 * 1024 * 1024,
     },
   },
 } as const
 
 export type PlanType = keyof typeof PLANS
 
-export function getUserPlan(user: {
+// Subscriptions belong to a workspace (Organization), so its whole team shares the plan
+export interface SubscriptionFields {
   stripeSubscriptionId?: string | null
   stripePriceId?: string | null
   stripeCurrentPeriodEnd?: Date | null
-}): PlanType {
+}
+
+export function getWorkspacePlan(workspace: SubscriptionFields): PlanType {
   if (
-    user.stripeSubscriptionId &&
-    user.stripePriceId === PLANS.PRO.priceId &&
-    user.stripeCurrentPeriodEnd &&
-    user.stripeCurrentPeriodEnd > new Date()
+    workspace.stripeSubscriptionId &&
+    workspace.stripePriceId === PLANS.PRO.priceId &&
+    workspace.stripeCurrentPeriodEnd &&
+    workspace.stripeCurrentPeriodEnd > new Date()
   ) {
     return 'PRO'
   }
   return 'FREE'
 }
 
-export function canCreateProject(user: {
-  stripeSubscriptionId?: string | null
-  stripePriceId?: string | null
-  stripeCurrentPeriodEnd?: Date | null
-}, currentProjectCount: number): boolean {
-  const plan = getUserPlan(user)
+export function canCreateProject(workspace: SubscriptionFields, currentProjectCount: number): boolean {
+  const plan = getWorkspacePlan(workspace)
   const limit = PLANS[plan].limits.projects
   return limit === -1 || currentProjectCount < limit
 }
 
-export function canCreateAnnotation(user: {
-  stripeSubscriptionId?: string | null
-  stripePriceId?: string | null
-  stripeCurrentPeriodEnd?: Date | null
-}, currentAnnotationCount: number): boolean {
-  const plan = getUserPlan(user)
+export function canCreateAnnotation(workspace: SubscriptionFields, currentAnnotationCount: number): boolean {
+  const plan = getWorkspacePlan(workspace)
   const limit = PLANS[plan].limits.annotationsPerProject
   return limit === -1 || currentAnnotationCount < limit
 }
\ No newline at end of file
@@ -1,14 +1,15 @@
+import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { getUserPlan, PLANS } from '@/lib/stripe'
+import { getWorkspacePlan, PLANS } from '@/lib/stripe'
 
-export async function checkProjectLimit(userId: string): Promise<{
+export async function checkProjectLimit(organizationId: string): Promise<{
   canCreate: boolean
   currentCount: number
   limit: number
   plan: string
 }> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
     include: {
       _count: {
         select: {
@@ -18,12 +19,12 @@ export async function checkProjectLimit(userId: string): Promise<{
     },
   })
 
-  if (!user) {
-    throw new Error('User not found')
+  if (!organization) {
+    throw new Error('Workspace not found')
   }
 
-  const plan = getUserPlan(user)
-  const currentCount = user._count.projects
+  const plan = getWorkspacePlan(organization)
+  const currentCount = organization._count.projects
   const limit = PLANS[plan].limits.projects
   const canCreate = limit === -1 || currentCount < limit
 
@@ -35,33 +36,46 @@ export async function checkProjectLimit(userId: string): Promise<{
   }
 }
 
-export async function checkAnnotationLimit(
-  userId: string,
-  projectId: string
-): Promise<{
+// Plan limits are per workspace, so people can only own so many free ones:
+// a personal workspace and one to try out a team in before upgrading it
+export const MAX_FREE_WORKSPACES_PER_USER = 2
+
+/**
+ * Whether the user may create another workspace, which starts on the free plan
+ */
+export async function checkWorkspaceLimit(userId: string): Promise<{
   canCreate: boolean
   currentCount: number
   limit: number
-  plan: string
 }> {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+  const owned = await prisma.organization.findMany({
+    where: { members: { some: { userId, role: 'OWNER' } } },
+    select: { stripeSubscriptionId: true, stripePriceId: true, stripeCurrentPeriodEnd: true },
   })
 
-  if (!user) {
-    throw new Error('User not found')
+  const currentCount = owned.filter(organization => getWorkspacePlan(organization) === 'FREE').length
+
+  return {
+    canCreate: currentCount < MAX_FREE_WORKSPACES_PER_USER,
+    currentCount,
+    limit: MAX_FREE_WORKSPACES_PER_USER,
   }
+}
 
-  // Verify user owns the project
-  const project = await prisma.project.findFirst({
-    where: {
-      id: projectId,
-      ownerId: userId,
-    },
+export async function checkAnnotationLimit(projectId: string): Promise<{
+  canCreate: boolean
+  currentCount: number
+  limit: number
+  plan: string
+}> {
+  // The limit comes from the plan of the workspace the project belongs to
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { organization: true },
   })
 
   if (!project) {
-    throw new Error('Project not found or access denied')
+    throw new Error('Project not found')
   }
 
   // Count annotations in this project
@@ -73,7 +87,7 @@ export async function checkAnnotationLimit(
     },
   })
 
-  const plan = getUserPlan(user)
+  const plan = getWorkspacePlan(project.organization)
   const limit = PLANS[plan].limits.annotationsPerProject
   const canCreate = limit === -1 || currentCount < limit
 
@@ -85,36 +99,130 @@ export async function checkAnnotationLimit(
   }
 }
 
-export async function getUserSubscriptionInfo(userId: string) {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+/**
+ * Bytes of stored files counted towards each of the workspace's projects.
+ * Files count once something in the project points at them, so uploads on
+ * unsent forms and files of deleted records don't.
+ */
+export async function getWorkspaceStorageUsage(organizationId: string): Promise<{
+  totalBytes: number
+  projects: { projectId: string; name: string; bytes: number }[]
+}> {
+  const projects = await prisma.project.findMany({
+    where: { organizationId },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  })
+
+  const sums = await prisma.storageObject.groupBy({
+    by: ['projectId'],
+    where: { projectId: { in: projects.map(project => project.id) } },
+    _sum: { size: true },
+  })
+  const bytesByProject = new Map(sums.map(sum => [sum.projectId, sum._sum.size ?? 0]))
+
+  const usage = projects.map(project => ({
+    projectId: project.id,
+    name: project.name,
+    bytes: bytesByProject.get(project.id) ?? 0,
+  }))
+
+  return {
+    totalBytes: usage.reduce((total, project) => total + project.bytes, 0),
+    projects: usage,
+  }
+}
+
+/**
+ * Whether the workspace has room for an upload of the given size
+ */
+export async function checkStorageLimit(organizationId: string, uploadBytes: number): Promise<{
+  canUpload: boolean
+  currentBytes: number
+  limit: number
+  plan: string
+}> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+  })
+
+  if (!organization) {
+    throw new Error('Workspace not found')
+  }
+
+  const { _sum } = await prisma.storageObject.aggregate({
+    where: { project: { organizationId } },
+    _sum: { size: true },
+  })
+
+  const plan = getWorkspacePlan(organization)
+  const currentBytes = _sum.size ?? 0
+  const limit = PLANS[plan].limits.storageBytes
+  const canUpload = limit === -1 || currentBytes + uploadBytes <= limit
+
+  return {
+    canUpload,
+    currentBytes,
+    limit,
+    plan,
+  }
+}
+
+/**
+ * 403 response for an upload that doesn't fit in the workspace's plan
+ */
+export function storageLimitReached(limitCheck: { currentBytes: number; limit: number; plan: string }) {
+  return NextResponse.json(
+    {
+      error: 'Storage limit reached',
+      limit: limitCheck.limit,
+      currentCount: limitCheck.currentBytes,
+      plan: limitCheck.plan,
+      upgradeRequired: true,
+    },
+    { status: 403 }
+  )
+}
+
+export async function getWorkspaceSubscriptionInfo(organizationId: string) {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
     include: {
       _count: {
         select: {
           projects: true,
+          members: true,
         },
       },
     },
   })
 
-  if (!user) {
-    throw new Error('User not found')
+  if (!organization) {
+    throw new Error('Workspace not found')
   }
 
-  const plan = getUserPlan(user)
+  const plan = getWorkspacePlan(organization)
   const planDetails = PLANS[plan]
+  const storage = await getWorkspaceStorageUsage(organization.id)
 
   return {
     plan,
     planDetails,
+    workspace: {
+      id: organization.id,
+      name: organization.name,
+    },
     usage: {
-      projects: user._count.projects,
+      projects: organization._count.projects,
+      members: organization._count.members,
+      storageBytes: storage.totalBytes,
+      storageByProject: storage.projects,
     },
     subscription: {
-      stripeCustomerId: user.stripeCustomerId,
-      stripeSubscriptionId: user.stripeSubscriptionId,
-      stripePriceId: user.stripePriceId,
-      stripeCurrentPeriodEnd: user.stripeCurrentPeriodEnd,
+      stripeCustomerId: organization.stripeCustomerId,
+      stripeSubscriptionId: organization.stripeSubscriptionId,
+      stripePriceId: organization.stripePriceId,
+      stripeCurrentPeriodEnd: organization.stripeCurrentPeriodEnd,
     },
   }
-}
\ No newline at end of file
+}
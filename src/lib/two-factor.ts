@@ -0,0 +1,166 @@
+/**
+ * Optional TOTP two-factor authentication for password sign-ins. Enrolling
+ * stores an encrypted secret that only takes effect once a first code from
+ * the app confirms it; enabling also issues one-time recovery codes, of which
+ * only hashes are kept. OAuth sign-ins rely on the provider's own second factor.
+ */
+import crypto from 'crypto'
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/prisma'
+import { generateTotpSecret, getTotpUri, verifyTotpCode } from '@/lib/totp'
+
+const TOTP_ISSUER = 'PixelPin'
+const RECOVERY_CODE_COUNT = 10
+
+export type TwoFactorMethod = 'totp' | 'recovery-code'
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to store two-factor secrets')
+  }
+  return crypto.createHash('sha256').update(`two-factor:${secret}`).digest()
+}
+
+// AES-256-GCM, stored as `<iv>.<tag>.<ciphertext>`
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64url'))
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+  return crypto.createHash('sha256').update(`recovery-code:${normalized}`).digest('hex')
+}
+
+// Ten characters from an unambiguous alphabet, shown as xxxxx-xxxxx
+function generateRecoveryCode(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789'
+  const chars = Array.from(crypto.randomBytes(10), byte => alphabet[byte % alphabet.length])
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+}
+
+/**
+ * Start enrolling: a new secret to scan, replacing any unconfirmed one
+ */
+export async function beginTwoFactorEnrolment(user: { id: string; email: string }) {
+  const secret = generateTotpSecret()
+  const uri = getTotpUri({ secret, accountName: user.email, issuer: TOTP_ISSUER })
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  })
+
+  return {
+    secret,
+    uri,
+    qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 200 }),
+  }
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set, returned in the clear this once
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ])
+
+  return codes
+}
+
+/**
+ * Finish enrolling with a code from the app. Returns the recovery codes, or null if the code is wrong.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true },
+  })
+  if (!user?.twoFactorSecret || user.twoFactorEnabled) return null
+
+  const step = verifyTotpCode(decryptSecret(user.twoFactorSecret), code)
+  if (step === null) return null
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+  })
+
+  return regenerateRecoveryCodes(userId)
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ])
+}
+
+/**
+ * Check a code from the authenticator app or an unused recovery code, using it up
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<TwoFactorMethod | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true },
+  })
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return null
+
+  const step = verifyTotpCode(decryptSecret(user.twoFactorSecret), code, user.twoFactorLastStep)
+  if (step !== null) {
+    // Only one sign-in gets to use a given code, even when two race
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    })
+    return count === 1 ? 'totp' : null
+  }
+
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  return count === 1 ? 'recovery-code' : null
+}
+
+/**
+ * Two-factor state for the security settings page
+ */
+export async function getTwoFactorStatus(userId: string) {
+  const [user, recoveryCodesRemaining] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorEnabledAt: true, password: true },
+    }),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ])
+
+  return {
+    enabled: user?.twoFactorEnabled ?? false,
+    enabledAt: user?.twoFactorEnabledAt ?? null,
+    hasPassword: Boolean(user?.password),
+    recoveryCodesRemaining,
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Server-side records of signed-in browsers. Sessions are JWTs, so on their
+ * own they can't be listed or revoked; each token carries the id of a
+ * UserSession row and stops working once that row is revoked or expires.
+ */
+import { prisma } from '@/lib/prisma'
+import { parseUserAgent } from '@/lib/browser-metadata'
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+// How often activity is written back, so every request doesn't update the row
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
+export const userSessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastActiveAt: true,
+} as const
+
+function getSessionExpiry(): Date {
+  return new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+}
+
+export async function createUserSession(
+  userId: string,
+  client: { userAgent?: string | null; ipAddress?: string | null }
+): Promise<string> {
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      userAgent: client.userAgent?.slice(0, 500) || null,
+      ipAddress: client.ipAddress || null,
+      expiresAt: getSessionExpiry(),
+    },
+    select: { id: true },
+  })
+  return session.id
+}
+
+/**
+ * Whether the session may still be used, recording the activity if so
+ */
+export async function validateUserSession(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true, lastActiveAt: true },
+  })
+
+  const now = new Date()
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= now) {
+    return false
+  }
+
+  if (now.getTime() - session.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lastActiveAt: now, expiresAt: getSessionExpiry() },
+    })
+  }
+
+  return true
+}
+
+/**
+ * Active sessions, most recently used first, with the browser and OS spelled out
+ */
+export async function listUserSessions(userId: string) {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: userSessionSelect,
+    orderBy: { lastActiveAt: 'desc' },
+  })
+
+  return sessions.map(session => ({
+    ...session,
+    ...parseUserAgent(session.userAgent || ''),
+  }))
+}
+
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
+
+/**
+ * Sign the user out everywhere, except the session given
+ */
+export async function revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
@@ -0,0 +1,70 @@
+/**
+ * Single-use, expiring tokens for links sent by email, kept in the
+ * VerificationToken table. Only a hash of each token is stored, and issuing
+ * a new token for the same purpose and subject replaces the previous one.
+ */
+import crypto from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+export type VerificationTokenPurpose = 'verify-email' | 'reset-password'
+
+export type VerificationTokenFailure = 'invalid' | 'expired'
+
+export type ConsumeTokenResult =
+  | { ok: true; subject: string }
+  | { ok: false; reason: VerificationTokenFailure }
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+// Prefixed so these never collide with NextAuth's own use of the table
+function getIdentifier(purpose: VerificationTokenPurpose, subject: string): string {
+  return `${purpose}:${subject}`
+}
+
+/**
+ * New token for the subject (a user id), invalidating any earlier one for the same purpose
+ */
+export async function issueVerificationToken(
+  purpose: VerificationTokenPurpose,
+  subject: string,
+  ttlMs: number
+): Promise<{ token: string; expires: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url')
+  const identifier = getIdentifier(purpose, subject)
+  const expires = new Date(Date.now() + ttlMs)
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: { identifier, token: hashToken(token), expires },
+    }),
+  ])
+
+  return { token, expires }
+}
+
+/**
+ * Use up a token, returning the subject it was issued for
+ */
+export async function consumeVerificationToken(
+  purpose: VerificationTokenPurpose,
+  token: string
+): Promise<ConsumeTokenResult> {
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) },
+  })
+  if (!record || !record.identifier.startsWith(`${purpose}:`)) {
+    return { ok: false, reason: 'invalid' }
+  }
+
+  // Whoever deletes it first gets to use it
+  const { count } = await prisma.verificationToken.deleteMany({
+    where: { token: record.token },
+  })
+  if (count === 0) return { ok: false, reason: 'invalid' }
+  if (record.expires <= new Date()) return { ok: false, reason: 'expired' }
+
+  return { ok: true, subject: record.identifier.slice(purpose.length + 1) }
+}
@@ -0,0 +1,310 @@
+import crypto from 'crypto'
+import { after } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { fetchPublicUrl } from '@/lib/outbound-requests'
+import { isPrivateHostname } from '@/lib/site-proxy'
+
+export const WEBHOOK_EVENTS = [
+  'annotation.created',
+  'annotation.updated',
+  'annotation.resolved',
+  'annotation.deleted',
+  'reply.created',
+  'mention.created',
+] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+// Six attempts spread over roughly half an hour before a delivery is marked failed
+export const MAX_DELIVERY_ATTEMPTS = 6
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+// A claimed delivery is hidden from other workers for this long
+const DELIVERY_LEASE_MS = 60 * 1000
+// Response bodies are stored for the delivery log, truncated to keep rows small
+const MAX_LOGGED_RESPONSE_LENGTH = 4 * 1024
+
+// The signing secret is only ever returned when a webhook is created or rotated
+export const webhookSelect = {
+  id: true,
+  projectId: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+// Local endpoints are only reachable outside production
+function allowsPrivateEndpoints(): boolean {
+  return process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Endpoints must be http(s); private networks are only reachable outside production.
+ * Only the URL is checked here; where the host resolves to is checked on every delivery.
+ */
+export function isWebhookUrlAllowed(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url)
+    if (protocol !== 'https:' && protocol !== 'http:') return false
+    return allowsPrivateEndpoints() || !isPrivateHostname(hostname)
+  } catch {
+    return false
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Signature sent in X-PixelPin-Signature, computed over the raw request body
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(body)
+    .digest('hex')
+  return `sha256=${signature}`
+}
+
+/**
+ * Constant-time check of a signature header against a body, for receivers and tests
+ */
+export function verifyWebhookSignature(body: string, secret: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, secret))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 30s, 1m, 2m, 4m... capped at an hour
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Queue an event for every active webhook on the project subscribed to it.
+ * Deliveries are persisted first so nothing is lost if the process dies before sending.
+ */
+export async function enqueueWebhookEvent(
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<string[]> {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        projectId,
+        active: true,
+        events: { has: event },
+      },
+      select: { id: true },
+    })
+
+    if (webhooks.length === 0) return []
+
+    const deliveries = await Promise.all(
+      webhooks.map(webhook => {
+        const id = crypto.randomUUID()
+        return prisma.webhookDelivery.create({
+          data: {
+            id,
+            webhookId: webhook.id,
+            event,
+            payload: JSON.stringify({
+              id,
+              event,
+              timestamp: new Date().toISOString(),
+              projectId,
+              data,
+            }),
+          },
+          select: { id: true },
+        })
+      })
+    )
+
+    return deliveries.map(delivery => delivery.id)
+  } catch (error) {
+    // Webhooks must never break the request that triggered them
+    console.error(`Failed to enqueue webhook event ${event}:`, error)
+    return []
+  }
+}
+
+/**
+ * Queue an event and send it once the current response has been returned.
+ * Must be called while handling a request.
+ */
+export async function triggerWebhookEvent(
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+) {
+  const ids = await enqueueWebhookEvent(projectId, event, data)
+  if (ids.length > 0) {
+    after(async () => {
+      await processWebhookDeliveries({ ids })
+    })
+  }
+}
+
+/**
+ * Queue a fresh delivery carrying the same payload as an earlier one
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  const original = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+  })
+
+  return prisma.webhookDelivery.create({
+    data: {
+      webhookId: original.webhookId,
+      event: original.event,
+      payload: original.payload,
+      redeliveryOfId: original.id,
+    },
+  })
+}
+
+/**
+ * Claim a pending delivery so concurrent workers don't send it twice
+ */
+async function claimDelivery(id: string, nextAttemptAt: Date): Promise<boolean> {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id, status: 'PENDING', nextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) },
+  })
+  return count === 1
+}
+
+/**
+ * The start of a response body, reading no more of it than is kept so an
+ * endpoint can't make us buffer a huge response
+ */
+async function readResponsePrefix(response: Response, maxLength: number): Promise<string> {
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  try {
+    while (text.length < maxLength) {
+      const { done, value } = await reader.read()
+      if (done) break
+      text += decoder.decode(value, { stream: true })
+    }
+  } finally {
+    await reader.cancel().catch(() => {})
+  }
+  return text.slice(0, maxLength)
+}
+
+/**
+ * Send one delivery and record the outcome, scheduling a retry on failure
+ */
+async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  })
+
+  if (!delivery || delivery.status !== 'PENDING') return false
+
+  const attempts = delivery.attempts + 1
+  const startedAt = Date.now()
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let errorMessage: string | null = null
+
+  if (!delivery.webhook.active) {
+    errorMessage = 'Webhook is disabled'
+  } else {
+    try {
+      // Resolved again for every delivery, so a DNS change can't point it at our network
+      const response = await fetchPublicUrl(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'PixelPin-Webhooks/1.0',
+          'X-PixelPin-Event': delivery.event,
+          'X-PixelPin-Delivery': delivery.id,
+          'X-PixelPin-Signature': signWebhookPayload(delivery.payload, delivery.webhook.secret),
+        },
+        body: delivery.payload,
+        timeoutMs: DELIVERY_TIMEOUT_MS,
+        allowPrivate: allowsPrivateEndpoints(),
+      })
+
+      responseStatus = response.status
+      responseBody = await readResponsePrefix(response, MAX_LOGGED_RESPONSE_LENGTH)
+      if (!response.ok) {
+        errorMessage = `Endpoint responded with ${response.status} ${response.statusText}`
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Delivery failed'
+    }
+  }
+
+  const succeeded = errorMessage === null
+  const givesUp = !succeeded && (attempts >= MAX_DELIVERY_ATTEMPTS || !delivery.webhook.active)
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      status: succeeded ? 'SUCCEEDED' : givesUp ? 'FAILED' : 'PENDING',
+      lastAttemptAt: new Date(startedAt),
+      nextAttemptAt: succeeded || givesUp
+        ? new Date(startedAt)
+        : new Date(startedAt + getRetryDelay(attempts)),
+      responseStatus,
+      responseBody,
+      error: errorMessage,
+      durationMs: Date.now() - startedAt,
+    },
+  })
+
+  return succeeded
+}
+
+/**
+ * Send due deliveries. Called right after the triggering request and by the cron route,
+ * which also picks up retries and anything a crashed worker left behind.
+ */
+export async function processWebhookDeliveries(options: { ids?: string[]; limit?: number } = {}) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: new Date() },
+      ...(options.ids ? { id: { in: options.ids } } : {}),
+    },
+    select: { id: true, nextAttemptAt: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: options.limit ?? 50,
+  })
+
+  let succeeded = 0
+  let failed = 0
+
+  for (const delivery of due) {
+    if (!(await claimDelivery(delivery.id, delivery.nextAttemptAt))) continue
+
+    try {
+      if (await attemptDelivery(delivery.id)) {
+        succeeded++
+      } else {
+        failed++
+      }
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.id} errored:`, error)
+      failed++
+    }
+  }
+
+  return { processed: succeeded + failed, succeeded, failed }
+}
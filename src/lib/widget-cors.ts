@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * CORS handling for the embeddable feedback widget
+ * Guest requests are token-scoped and allowed from any origin. Requests that
+ * ride on a PixelPin session are only accepted from the asset's own site.
+ */
+
+const ALLOWED_METHODS = 'GET, POST, PUT, OPTIONS'
+const ALLOWED_HEADERS = 'Content-Type'
+
+function getAppOrigin(request: NextRequest): string {
+  try {
+    if (process.env.NEXTAUTH_URL) {
+      return new URL(process.env.NEXTAUTH_URL).origin
+    }
+  } catch {
+    // Fall back to the request origin
+  }
+  return new URL(request.url).origin
+}
+
+/**
+ * Origin of a cross-origin request, or null for same-origin and non-browser calls
+ */
+export function getCrossOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get('origin')
+  if (!origin || origin === getAppOrigin(request) || origin === new URL(request.url).origin) {
+    return null
+  }
+  return origin
+}
+
+/**
+ * Check whether a cross-origin page may act with the visitor's session.
+ * Only the site a URL asset points at qualifies.
+ */
+export function isWidgetOriginAllowed(origin: string | null, assetUrl: string): boolean {
+  if (!origin) return true
+  try {
+    return new URL(assetUrl).origin === origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Add widget CORS headers to a response
+ */
+export function withWidgetCors(request: NextRequest, response: NextResponse): NextResponse {
+  const origin = getCrossOrigin(request)
+  if (!origin) return response
+
+  response.headers.set('Access-Control-Allow-Origin', origin)
+  response.headers.set('Access-Control-Allow-Credentials', 'true')
+  response.headers.set('Vary', 'Origin')
+  return response
+}
+
+/**
+ * Answer a widget CORS preflight request
+ */
+export function widgetPreflightResponse(request: NextRequest): NextResponse {
+  const response = new NextResponse(null, { status: 204 })
+  response.headers.set('Access-Control-Allow-Methods', ALLOWED_METHODS)
+  response.headers.set('Access-Control-Allow-Headers', ALLOWED_HEADERS)
+  response.headers.set('Access-Control-Max-Age', '86400')
+  return withWidgetCors(request, response)
+}
@@ -0,0 +1,107 @@
+/**
+ * Workspaces (the Organization model) own projects and the Stripe subscription.
+ * Every user has at least one; the dashboard shows the one stored in
+ * User.currentOrganizationId.
+ */
+import { OrganizationRole, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const workspaceSelect = {
+  id: true,
+  name: true,
+  requireTwoFactor: true,
+  createdAt: true,
+} as const
+
+export type WorkspaceSummary = Prisma.OrganizationGetPayload<{ select: typeof workspaceSelect }> & {
+  role: OrganizationRole
+}
+
+export function getPersonalWorkspaceName(user: { name?: string | null; email: string }): string {
+  return `${user.name || user.email.split('@')[0]}'s workspace`
+}
+
+/**
+ * Create a workspace owned by the user and make it their current one
+ */
+export async function createWorkspace(
+  userId: string,
+  name: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<WorkspaceSummary> {
+  const organization = await client.organization.create({
+    data: {
+      name,
+      members: {
+        create: { userId, role: 'OWNER' },
+      },
+    },
+    select: workspaceSelect,
+  })
+
+  await client.user.update({
+    where: { id: userId },
+    data: { currentOrganizationId: organization.id },
+  })
+
+  return { ...organization, role: 'OWNER' }
+}
+
+export async function listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId },
+    select: {
+      role: true,
+      organization: { select: workspaceSelect },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return memberships.map(({ role, organization }) => ({ ...organization, role }))
+}
+
+/**
+ * The workspace the user is working in. Falls back to their oldest membership,
+ * and creates a personal workspace for accounts that don't have one yet.
+ */
+export async function getCurrentWorkspace(userId: string): Promise<WorkspaceSummary> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true, currentOrganizationId: true },
+  })
+
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  const workspaces = await listWorkspaces(userId)
+  const current = workspaces.find(workspace => workspace.id === user.currentOrganizationId)
+  if (current) return current
+
+  if (workspaces.length > 0) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { currentOrganizationId: workspaces[0].id },
+    })
+    return workspaces[0]
+  }
+
+  return createWorkspace(userId, getPersonalWorkspaceName(user))
+}
+
+/**
+ * Switch the dashboard to another workspace. Returns false if the user isn't a member.
+ */
+export async function setCurrentWorkspace(userId: string, organizationId: string): Promise<boolean> {
+  const member = await prisma.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    select: { id: true },
+  })
+  if (!member) return false
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { currentOrganizationId: organizationId },
+  })
+  return true
+}
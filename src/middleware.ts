@@ -7,6 +7,9 @@ export function middleware(request: NextRequest) {
     "/",
     "/signin",
     "/signup",
+    "/forgot-password",
+    "/reset-password",
+    "/verify-email",
     "/api/auth",
     "/_next",
     "/favicon.ico",
@@ -2,6 +2,8 @@ export interface Attachment {
   id: string
   filename: string
   url: string
+  // Signed URL for an upload that isn't attached to anything yet
+  previewUrl?: string
   mimeType?: string
   fileType?: string
   size?: number
@@ -17,6 +19,7 @@ export interface AttachmentUploadData {
   id: string
   filename: string
   url: string
+  previewUrl?: string
   fileType: string
   fileSize: number
 }
\ No newline at end of file
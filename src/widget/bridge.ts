@@ -0,0 +1,8 @@
+import { mountSiteBridge } from '@/lib/site-bridge'
+
+/**
+ * Browser entry for the site proxy bridge, loaded into every proxied page
+ * ahead of the page's own scripts (see `getBridgeScript`).
+ */
+
+mountSiteBridge()
@@ -0,0 +1,27 @@
+import { mountFeedbackWidget, FeedbackWidgetConfig } from '@/lib/feedback-widget'
+
+/**
+ * Browser entry for the embeddable feedback widget.
+ * /api/widget appends a PixelPinWidget.mount() call with the project config.
+ */
+
+declare global {
+  interface Window {
+    PixelPinWidget?: {
+      mount: (config: FeedbackWidgetConfig) => () => void
+    }
+  }
+}
+
+window.PixelPinWidget = {
+  mount(config) {
+    if (document.readyState === 'loading') {
+      let unmount: (() => void) | undefined
+      document.addEventListener('DOMContentLoaded', () => {
+        unmount = mountFeedbackWidget(config)
+      }, { once: true })
+      return () => unmount?.()
+    }
+    return mountFeedbackWidget(config)
+  },
+}